@@ -0,0 +1,125 @@
+// End-to-end check of the password reset email against a local Supabase
+// (`supabase start`), using its bundled mail catcher:
+//   1. create a throwaway user and request a reset email for it
+//   2. pick the link out of the mail catcher and follow it
+//   3. check the link lands on /reset-password as a recovery session
+//   4. set a new password with that session and sign in with it
+//
+// SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY come from `supabase status`.
+// Run with: npm run test:password-reset
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = process.env.SUPABASE_URL || 'http://127.0.0.1:54321';
+const MAIL_URL = process.env.SUPABASE_MAIL_URL || 'http://127.0.0.1:54324';
+const SITE_URL = process.env.SITE_URL || 'http://localhost:5173';
+const ANON_KEY = process.env.SUPABASE_ANON_KEY;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const OLD_PASSWORD = 'Old-password-123!';
+const NEW_PASSWORD = 'New-password-456!';
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+const fail = (message) => {
+    throw new Error(message);
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getJson = async (url) => {
+    const response = await fetch(url);
+    return response.ok ? response.json() : null;
+};
+
+// Newer CLIs bundle Mailpit, older ones Inbucket; both listen on the same port.
+const findEmailBody = async (email) => {
+    const search = await getJson(`${MAIL_URL}/api/v1/search?query=${encodeURIComponent(`to:"${email}"`)}`);
+    if (search) {
+        const latest = search.messages?.[0];
+        if (!latest) return null;
+        const message = await getJson(`${MAIL_URL}/api/v1/message/${latest.ID}`);
+        return message && `${message.Text}\n${message.HTML}`;
+    }
+
+    const mailbox = email.split('@')[0];
+    const messages = await getJson(`${MAIL_URL}/api/v1/mailbox/${mailbox}`);
+    const latest = messages?.[messages.length - 1];
+    if (!latest) return null;
+    const message = await getJson(`${MAIL_URL}/api/v1/mailbox/${mailbox}/${latest.id}`);
+    return message && `${message.body.text}\n${message.body.html}`;
+};
+
+const waitForResetLink = async (email) => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+        const body = await findEmailBody(email);
+        const link = body?.match(/https?:\/\/[^\s"'<>]+\/auth\/v1\/verify\?[^\s"'<>]+/)?.[0];
+        if (link) return link.replaceAll('&amp;', '&');
+        await sleep(500);
+    }
+    return fail(`No reset email for ${email} arrived at ${MAIL_URL}.`);
+};
+
+const main = async () => {
+    if (!ANON_KEY || !SERVICE_ROLE_KEY) {
+        fail('Set SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY (see `supabase status`).');
+    }
+
+    const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, clientOptions);
+    const email = `reset-test-${Date.now()}@example.com`;
+
+    const { data: created, error: createError } = await admin.auth.admin.createUser({
+        email,
+        password: OLD_PASSWORD,
+        email_confirm: true
+    });
+    if (createError) fail(`Could not create the test user: ${createError.message}`);
+
+    try {
+        const anon = createClient(SUPABASE_URL, ANON_KEY, clientOptions);
+        const { error: resetError } = await anon.auth.resetPasswordForEmail(email, { redirectTo: `${SITE_URL}/reset-password` });
+        if (resetError) fail(`Requesting the reset email failed: ${resetError.message}`);
+
+        const link = await waitForResetLink(email);
+        const verify = await fetch(link, { redirect: 'manual' });
+        const location = verify.headers.get('location');
+        if (!location) fail(`Following the reset link returned ${verify.status} without a redirect.`);
+
+        const landing = new URL(location);
+        if (landing.origin + landing.pathname !== `${SITE_URL}/reset-password`) {
+            fail(`The reset link redirected to ${landing.origin}${landing.pathname}, not ${SITE_URL}/reset-password.`);
+        }
+
+        // The app reads the link type from this hash to show the reset form
+        const params = new URLSearchParams(landing.hash.slice(1));
+        if (params.get('type') !== 'recovery') fail(`Expected a recovery link, got type=${params.get('type')}.`);
+
+        const recovering = createClient(SUPABASE_URL, ANON_KEY, clientOptions);
+        const { error: sessionError } = await recovering.auth.setSession({
+            access_token: params.get('access_token') ?? '',
+            refresh_token: params.get('refresh_token') ?? ''
+        });
+        if (sessionError) fail(`The recovery session was rejected: ${sessionError.message}`);
+
+        const { error: updateError } = await recovering.auth.updateUser({ password: NEW_PASSWORD });
+        if (updateError) fail(`Setting the new password failed: ${updateError.message}`);
+
+        const signIn = (password) =>
+            createClient(SUPABASE_URL, ANON_KEY, clientOptions).auth.signInWithPassword({ email, password });
+
+        const { error: newPasswordError } = await signIn(NEW_PASSWORD);
+        if (newPasswordError) fail(`Signing in with the new password failed: ${newPasswordError.message}`);
+
+        const { error: oldPasswordError } = await signIn(OLD_PASSWORD);
+        if (!oldPasswordError) fail('The old password still works after the reset.');
+
+        console.log(`Password reset flow OK for ${email}.`);
+    } finally {
+        await admin.auth.admin.deleteUser(created.user.id);
+    }
+};
+
+main().catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
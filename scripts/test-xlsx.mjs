@@ -0,0 +1,167 @@
+// Checks for the spreadsheet reader and writer in src/utils/xlsx.ts:
+//   1. a workbook written by toXlsx reads back cell for cell, including escaped
+//      characters, numbers, blank cells and columns past Z
+//   2. a workbook laid out the way Excel saves one (deflated entries, shared
+//      strings with rich text, inline strings, date styles, a prefixed
+//      namespace) reads as the text a user sees
+//
+// Node has no DOMParser, so @xmldom/xmldom stands in for the browser's.
+// Run with: npm run test:xlsx
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { crc32 } from 'node:zlib';
+import { DOMParser } from '@xmldom/xmldom';
+import ts from 'typescript';
+
+globalThis.DOMParser = DOMParser;
+
+const loadXlsx = async () => {
+    const source = await readFile(new URL('../src/utils/xlsx.ts', import.meta.url), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+    });
+    return import(`data:text/javascript,${encodeURIComponent(outputText)}`);
+};
+
+const deflate = async (bytes) => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Excel compresses every entry, unlike toXlsx
+const zipDeflated = async (files) => {
+    const encoder = new TextEncoder();
+    const parts = [];
+    const central = [];
+    let offset = 0;
+
+    for (const [fileName, content] of Object.entries(files)) {
+        const name = encoder.encode(fileName);
+        const raw = encoder.encode(content);
+        const data = await deflate(raw);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(8, 8, true);
+        local.setUint32(14, crc32(raw), true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, raw.length, true);
+        local.setUint16(26, name.length, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true);
+        entry.setUint16(6, 20, true);
+        entry.setUint16(10, 8, true);
+        entry.setUint32(16, crc32(raw), true);
+        entry.setUint32(20, data.length, true);
+        entry.setUint32(24, raw.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), name, data);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, central.length / 2, true);
+    end.setUint16(10, central.length / 2, true);
+    end.setUint32(12, central.reduce((sum, part) => sum + part.length, 0), true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)]);
+};
+
+const checkRoundTrip = async ({ toXlsx, readXlsx }) => {
+    const people = [
+        { name: 'Tom & Jerry <Clinic>', note: 'Says "hi" & \'bye\'', visits: 12 },
+        { name: '  Leading and trailing  ', note: 'Line one\nLine two\tTabbed', visits: 0 },
+        { name: 'Zoë Ångström 日本', note: '', visits: null },
+        { name: 'Bell\u0007 stripped', note: ']]> and &amp; stay literal', visits: 3.5 }
+    ];
+    const columns = [
+        { header: 'Name', value: p => p.name },
+        { header: 'Note', value: p => p.note },
+        { header: 'Visits', value: p => p.visits },
+        ...Array.from({ length: 25 }, (_, i) => ({ header: `Extra ${i + 1}`, value: () => '' })),
+        { header: 'Column AC', value: p => `${p.name}!` }
+    ];
+
+    const rows = await readXlsx(toXlsx(people, columns, 'Staff & <Co>'));
+
+    assert.deepEqual(rows[0], columns.map(col => col.header));
+    assert.deepEqual(rows.slice(1).map(row => row.slice(0, 3)), [
+        ['Tom & Jerry <Clinic>', 'Says "hi" & \'bye\'', '12'],
+        ['  Leading and trailing  ', 'Line one\nLine two\tTabbed', '0'],
+        ['Zoë Ångström 日本', '', ''],
+        ['Bell stripped', ']]> and &amp; stay literal', '3.5']
+    ]);
+    assert.equal(rows[1][28], 'Tom & Jerry <Clinic>!', 'Cells past column Z keep their position');
+    assert.equal(rows[1].length, 29, 'Blank cells in between read as empty');
+};
+
+const checkExcelWorkbook = async ({ readXlsx }) => {
+    const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+    const ns = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+    const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+    const workbook = (date1904) => zipDeflated({
+        'xl/workbook.xml': `${header}<workbook xmlns="${ns}" xmlns:r="${relNs}">`
+            + `<workbookPr${date1904 ? ' date1904="1"' : ''}/>`
+            + '<sheets><sheet name="People" sheetId="3" r:id="rId7"/><sheet name="Other" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+            + `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>`
+            + `<Relationship Id="rId7" Type="${relNs}/worksheet" Target="/xl/worksheets/sheet3.xml"/>`
+            + '</Relationships>',
+        'xl/sharedStrings.xml': `${header}<sst xmlns="${ns}" count="3" uniqueCount="3">`
+            + '<si><t>Name</t></si>'
+            + '<si><t>Start date</t></si>'
+            + '<si><r><rPr><b/></rPr><t>O\'Brien &amp; </t></r><r><t xml:space="preserve">Sons &lt;Physio&gt;</t></r></si>'
+            + '</sst>',
+        'xl/styles.xml': `${header}<styleSheet xmlns="${ns}">`
+            + '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/><numFmt numFmtId="165" formatCode="&quot;Day &quot;0"/></numFmts>'
+            + '<cellXfs count="5"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="22"/><xf numFmtId="165"/></cellXfs>'
+            + '</styleSheet>',
+        'xl/worksheets/sheet1.xml': `${header}<worksheet xmlns="${ns}"><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Wrong sheet</t></is></c></row></sheetData></worksheet>`,
+        'xl/worksheets/sheet3.xml': `${header}<x:worksheet xmlns:x="${ns}"><x:sheetData>`
+            + '<x:row r="1"><x:c r="A1" t="s"><x:v>0</x:v></x:c><x:c r="B1" t="s"><x:v>1</x:v></x:c></x:row>'
+            + '<x:row r="3"><x:c r="A3" t="s"><x:v>2</x:v></x:c><x:c r="B3" s="1"><x:v>45658</x:v></x:c>'
+            + '<x:c r="C3" s="2"><x:v>45717</x:v></x:c><x:c r="D3" s="3"><x:v>45658.5625</x:v></x:c>'
+            + '<x:c r="E3" s="4"><x:v>7</x:v></x:c><x:c r="F3"><x:v>45658</x:v></x:c><x:c r="G3" t="b"><x:v>1</x:v></x:c></x:row>'
+            + '<x:row r="4"><x:c r="B4" t="inlineStr"><x:is><x:t>Inline &amp; &quot;quoted&quot;</x:t></x:is></x:c><x:c r="D4" t="str"><x:v>Formula text</x:v></x:c></x:row>'
+            + '</x:sheetData></x:worksheet>'
+    });
+
+    const rows = await readXlsx(await workbook(false));
+    assert.deepEqual(rows, [
+        ['Name', 'Start date'],
+        [],
+        ['O\'Brien & Sons <Physio>', '2025-01-01', '2025-03-01', '2025-01-01 13:30', '7', '45658', 'TRUE'],
+        ['', 'Inline & "quoted"', '', 'Formula text']
+    ]);
+
+    const mac = await readXlsx(await workbook(true));
+    assert.equal(mac[2][1], '2029-01-02', 'Dates in 1904 workbooks count from 1904');
+};
+
+const main = async () => {
+    const xlsx = await loadXlsx();
+
+    await checkRoundTrip(xlsx);
+    console.log('Round trip through toXlsx and readXlsx OK.');
+
+    await checkExcelWorkbook(xlsx);
+    console.log('Reading an Excel-style workbook OK.');
+
+    await assert.rejects(xlsx.readXlsx(new Blob(['not a zip'])), /not a valid XLSX workbook/);
+    console.log('Rejecting a file that is not a workbook OK.');
+};
+
+main().catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
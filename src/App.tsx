@@ -1,18 +1,72 @@
 import { useEffect, useState } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate, Outlet } from 'react-router-dom';
-import { supabase } from './lib/supabase';
+import { BrowserRouter as Router, Routes, Route, Navigate, Outlet, useLocation } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { isPasswordSetupPending, setPasswordSetupPending, supabase } from './lib/supabase';
 import type { Session } from '@supabase/supabase-js';
 import { Login } from './pages/Login';
+import { ForgotPassword } from './pages/ForgotPassword';
+import { ResetPassword } from './pages/ResetPassword';
 import { Dashboard } from './pages/Dashboard';
 import { Directory } from './pages/Directory';
+import { StaffProfile } from './pages/StaffProfile';
 import { AdminSettings } from './pages/AdminSettings';
+import { AuditLog } from './pages/AuditLog';
+import { StaffInvitations } from './pages/StaffInvitations';
+import { Departures } from './pages/Departures';
+import { StaffImport } from './pages/StaffImport';
+import { OrgChart } from './pages/OrgChart';
+import { ProfileApprovals } from './pages/ProfileApprovals';
+import { Licenses } from './pages/Licenses';
+import { Compliance } from './pages/Compliance';
 import { Navbar } from './components/Navbar';
+import { CurrentStaffProvider } from './components/CurrentStaffProvider';
+import { RequireCapability } from './components/RequireCapability';
+import { useCurrentStaff } from './lib/currentStaff';
+import { ADMIN_CAPABILITIES } from './lib/roles';
 import { Toaster } from 'react-hot-toast';
 
-// Protected layout includes the Navbar and wraps around protected routes
-function ProtectedLayout({ session }: { session: Session | null }) {
+function LoadingScreen() {
+  return (
+    <div style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: 'var(--surface-base)'
+    }}>
+      <svg style={{ animation: 'logo-spin 1s linear infinite', color: 'var(--primary-600)' }} xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="12" y1="2" x2="12" y2="6"></line>
+        <line x1="12" y1="18" x2="12" y2="22"></line>
+        <line x1="4.93" y1="4.93" x2="7.76" y2="7.76"></line>
+        <line x1="16.24" y1="16.24" x2="19.07" y2="19.07"></line>
+        <line x1="2" y1="12" x2="6" y2="12"></line>
+        <line x1="18" y1="12" x2="22" y2="12"></line>
+        <line x1="4.93" y1="19.07" x2="7.76" y2="16.24"></line>
+        <line x1="16.24" y1="7.76" x2="19.07" y2="4.93"></line>
+      </svg>
+    </div>
+  );
+}
+
+// Protected layout includes the Navbar and wraps around protected routes. It waits
+// for the current staff member so capability guards below it decide straight away.
+function ProtectedLayout({ session, isRecoveringPassword }: { session: Session | null; isRecoveringPassword: boolean }) {
+  const location = useLocation();
+  const { isLoading } = useCurrentStaff();
+
+  // Remember where a signed-out visitor was headed (e.g. a profile link from an
+  // email) so they land there after signing in
   if (!session) {
-    return <Navigate to="/" replace />;
+    return <Navigate to="/" replace state={{ from: location }} />;
+  }
+
+  // A session opened from a reset email must set a new password before going anywhere else
+  if (isRecoveringPassword) {
+    return <Navigate to="/reset-password" replace />;
+  }
+
+  if (isLoading) {
+    return <LoadingScreen />;
   }
 
   return (
@@ -25,9 +79,23 @@ function ProtectedLayout({ session }: { session: Session | null }) {
   );
 }
 
+// Where "/" sends a signed-in user: back to the page that required sign-in, or the dashboard
+function SignedInRedirect({ isRecoveringPassword }: { isRecoveringPassword: boolean }) {
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  if (isRecoveringPassword) {
+    return <Navigate to="/reset-password" replace />;
+  }
+
+  return <Navigate to={from ? `${from.pathname}${from.search}${from.hash}` : '/dashboard'} replace />;
+}
+
 function App() {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  // Reset and invite links both sign the user in, and they must choose a password first
+  const [isRecoveringPassword, setIsRecoveringPassword] = useState(isPasswordSetupPending);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -37,76 +105,106 @@ function App() {
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordSetupPending(true);
+        setIsRecoveringPassword(true);
+      } else if (event === 'SIGNED_OUT') {
+        setPasswordSetupPending(false);
+        setIsRecoveringPassword(false);
+      }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
   if (loading) {
-    return (
-      <div style={{
-        minHeight: '100vh',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        backgroundColor: 'var(--surface-base)'
-      }}>
-        <svg style={{ animation: 'logo-spin 1s linear infinite', color: 'var(--primary-600)' }} xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-          <line x1="12" y1="2" x2="12" y2="6"></line>
-          <line x1="12" y1="18" x2="12" y2="22"></line>
-          <line x1="4.93" y1="4.93" x2="7.76" y2="7.76"></line>
-          <line x1="16.24" y1="16.24" x2="19.07" y2="19.07"></line>
-          <line x1="2" y1="12" x2="6" y2="12"></line>
-          <line x1="18" y1="12" x2="22" y2="12"></line>
-          <line x1="4.93" y1="19.07" x2="7.76" y2="16.24"></line>
-          <line x1="16.24" y1="7.76" x2="19.07" y2="4.93"></line>
-        </svg>
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   return (
-    <Router>
-      <Toaster
-        position="bottom-right"
-        toastOptions={{
-          duration: 3000,
-          style: {
-            background: '#fff',
-            color: '#363636',
-            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
-            borderRadius: '8px',
-            padding: '16px',
-            maxWidth: '500px',
-          },
-          success: {
+    <CurrentStaffProvider userId={session?.user.id ?? null}>
+      <Router>
+        <Toaster
+          position="bottom-right"
+          toastOptions={{
+            duration: 3000,
             style: {
-              borderLeft: '4px solid #22c55e',
+              background: '#fff',
+              color: '#363636',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+              borderRadius: '8px',
+              padding: '16px',
+              maxWidth: '500px',
             },
-          },
-          error: {
-            style: {
-              borderLeft: '4px solid #ef4444',
+            success: {
+              style: {
+                borderLeft: '4px solid #22c55e',
+              },
             },
-          },
-        }}
-      />
-      <Routes>
-        <Route
-          path="/"
-          element={session ? <Navigate to="/dashboard" replace /> : <Login />}
+            error: {
+              style: {
+                borderLeft: '4px solid #ef4444',
+              },
+            },
+          }}
         />
+        <Routes>
+          <Route
+            path="/"
+            element={session ? <SignedInRedirect isRecoveringPassword={isRecoveringPassword} /> : <Login />}
+          />
+          <Route
+            path="/forgot-password"
+            element={session ? <Navigate to="/dashboard" replace /> : <ForgotPassword />}
+          />
+          <Route
+            path="/reset-password"
+            element={session && !isRecoveringPassword
+              ? <Navigate to="/dashboard" replace />
+              : <ResetPassword session={session} onComplete={() => {
+                  setPasswordSetupPending(false);
+                  setIsRecoveringPassword(false);
+                }} />}
+          />
+
+          {/* Protected Routes Wrapper */}
+          <Route element={<ProtectedLayout session={session} isRecoveringPassword={isRecoveringPassword} />}>
+            <Route path="/dashboard" element={<Dashboard user={session?.user || null} />} />
+            <Route path="/directory" element={<Directory />} />
+            <Route path="/directory/:id" element={<StaffProfile />} />
+            <Route path="/org-chart" element={<OrgChart />} />
 
-        {/* Protected Routes Wrapper */}
-        <Route element={<ProtectedLayout session={session} />}>
-          <Route path="/dashboard" element={<Dashboard user={session?.user || null} />} />
-          <Route path="/directory" element={<Directory />} />
-          <Route path="/admin" element={<AdminSettings />} />
-        </Route>
-      </Routes>
-    </Router>
+            {/* Staff without one of the listed capabilities get a 403 */}
+            <Route element={<RequireCapability anyOf={['importStaff']} />}>
+              <Route path="/directory/import" element={<StaffImport />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={ADMIN_CAPABILITIES} />}>
+              <Route path="/admin" element={<AdminSettings />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['viewAuditLog']} />}>
+              <Route path="/audit-log" element={<AuditLog />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['inviteStaff']} />}>
+              <Route path="/invitations" element={<StaffInvitations />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['offboardStaff']} />}>
+              <Route path="/departures" element={<Departures />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['reviewProfileChanges']} />}>
+              <Route path="/approvals" element={<ProfileApprovals />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['viewLicenses', 'manageLicenses']} />}>
+              <Route path="/licenses" element={<Licenses />} />
+            </Route>
+            <Route element={<RequireCapability anyOf={['viewCompliance']} />}>
+              <Route path="/compliance" element={<Compliance />} />
+            </Route>
+          </Route>
+        </Routes>
+      </Router>
+    </CurrentStaffProvider>
   );
 }
 
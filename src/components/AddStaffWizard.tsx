@@ -0,0 +1,462 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { addLicense, describeError, inviteStaff, saveHrRecord } from '../lib/repository';
+import type { ClinicLocation, Department, NewStaffProfile } from '../lib/repository';
+import type { RoleDefinition } from '../lib/roles';
+import { formatRoles } from '../lib/roles';
+import { formatPhoneNumber } from '../utils/formatters';
+import { normalizeEmail, normalizePhone, validatePhone, validateWorkEmail } from '../utils/contactDetails';
+import { EMPTY_HR_DRAFT, isEmptyHrDraft, toHrRecordInput, validateHrRecord } from '../utils/hrValidation';
+import type { HrRecordDraft } from '../utils/hrValidation';
+import { EMPTY_LICENSE_DRAFT, isEmptyLicenseDraft, toLicenseInput, validateLicense } from '../utils/licenses';
+import type { LicenseDraft } from '../utils/licenses';
+import { HrRecordFields } from './HrRecordForm';
+import { LicenseFields } from './LicenseForm';
+
+interface AddStaffWizardProps {
+    roleRegistry: RoleDefinition[];
+    departments: Department[];
+    locations: ClinicLocation[];
+    // Allowed work email domains
+    emailDomains: string[];
+    // Roles can only be set by staff who could assign them afterwards
+    canAssignRoles: boolean;
+    canEditHrFile: boolean;
+    canManageLicenses: boolean;
+    onClose: () => void;
+    onCreated: (staffId: string) => void;
+}
+
+type Step = 'identity' | 'job' | 'license' | 'hr' | 'review';
+
+const STEP_LABELS: Record<Step, string> = {
+    identity: 'Identity',
+    job: 'Job',
+    license: 'License',
+    hr: 'HR File',
+    review: 'Review'
+};
+
+interface ProfileDraft {
+    legal_first_name: string;
+    legal_middle_name: string;
+    legal_last_name: string;
+    preferred_name: string;
+    work_email: string;
+    employee_id: string;
+    job_title: string;
+    department: string;
+    role: string[];
+    clinic_locations: string[];
+    work_phone: string;
+    employment_status: string;
+    employment_type: string;
+}
+
+const EMPTY_PROFILE: ProfileDraft = {
+    legal_first_name: '',
+    legal_middle_name: '',
+    legal_last_name: '',
+    preferred_name: '',
+    work_email: '',
+    employee_id: '',
+    job_title: '',
+    department: '',
+    role: [],
+    clinic_locations: [],
+    work_phone: '',
+    employment_status: 'Active',
+    employment_type: ''
+};
+
+type ProfileErrors = Partial<Record<keyof ProfileDraft, string>>;
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+const errorStyle = { fontSize: '0.8rem', color: 'var(--error-text)' };
+
+const secondaryButtonStyle = {
+    flex: 1,
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid #e2e8f0',
+    backgroundColor: '#ffffff',
+    color: '#475569',
+    fontWeight: 600,
+    cursor: 'pointer'
+};
+
+const validateIdentity = (draft: ProfileDraft, emailDomains: string[]): ProfileErrors => {
+    const errors: ProfileErrors = {};
+    if (!draft.legal_first_name.trim()) errors.legal_first_name = 'Legal first name is required.';
+    if (!draft.legal_last_name.trim()) errors.legal_last_name = 'Legal last name is required.';
+    const emailError = draft.work_email.trim() ? validateWorkEmail(draft.work_email, emailDomains) : 'Enter the work email the invite should go to.';
+    if (emailError) errors.work_email = emailError;
+    return errors;
+};
+
+const validateJob = (draft: ProfileDraft): ProfileErrors => {
+    const errors: ProfileErrors = {};
+    if (!draft.department) errors.department = 'Choose a department.';
+    const phoneError = validatePhone(draft.work_phone);
+    if (phoneError) errors.work_phone = phoneError;
+    return errors;
+};
+
+const toNewStaffProfile = (draft: ProfileDraft): NewStaffProfile => ({
+    legal_first_name: draft.legal_first_name.trim(),
+    legal_middle_name: draft.legal_middle_name.trim() || null,
+    legal_last_name: draft.legal_last_name.trim(),
+    preferred_name: draft.preferred_name.trim() || null,
+    work_email: normalizeEmail(draft.work_email),
+    employee_id: draft.employee_id.trim() || null,
+    job_title: draft.job_title.trim() || null,
+    department: draft.department || null,
+    role: draft.role,
+    clinic_locations: draft.clinic_locations,
+    work_phone: normalizePhone(draft.work_phone),
+    employment_status: draft.employment_status.trim() || null,
+    employment_type: draft.employment_type.trim() || null
+});
+
+// Step-by-step form for adding a new hire. Submitting creates the account and
+// profile and emails an invite; the license and HR fields are then saved as the
+// current user.
+export function AddStaffWizard({ roleRegistry, departments, locations, emailDomains, canAssignRoles, canEditHrFile, canManageLicenses, onClose, onCreated }: AddStaffWizardProps) {
+    const steps: Step[] = [
+        'identity',
+        'job',
+        ...(canManageLicenses ? ['license' as const] : []),
+        ...(canEditHrFile ? ['hr' as const] : []),
+        'review'
+    ];
+    const [step, setStep] = useState<Step>('identity');
+    const [profile, setProfile] = useState<ProfileDraft>(EMPTY_PROFILE);
+    const [licenseDraft, setLicenseDraft] = useState<LicenseDraft>(EMPTY_LICENSE_DRAFT);
+    const [hrDraft, setHrDraft] = useState<HrRecordDraft>(EMPTY_HR_DRAFT);
+    const [showErrors, setShowErrors] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const stepIndex = steps.indexOf(step);
+    const identityErrors = validateIdentity(profile, emailDomains);
+    const jobErrors = validateJob(profile);
+    // The license is optional, but once started it must be complete
+    const licenseErrors = isEmptyLicenseDraft(licenseDraft) ? {} : validateLicense(licenseDraft);
+    const hrErrors = validateHrRecord(hrDraft);
+    const stepErrors = step === 'identity' ? identityErrors
+        : step === 'job' ? jobErrors
+        : step === 'license' ? licenseErrors
+        : step === 'hr' ? hrErrors
+        : {};
+    const stepHasErrors = Object.keys(stepErrors).length > 0;
+
+    const update = <K extends keyof ProfileDraft>(field: K, value: ProfileDraft[K]) =>
+        setProfile(prev => ({ ...prev, [field]: value }));
+
+    const toggle = (field: 'role' | 'clinic_locations', value: string, checked: boolean) =>
+        update(field, checked ? [...profile[field], value] : profile[field].filter(v => v !== value));
+
+    const handleNext = () => {
+        if (stepHasErrors) {
+            setShowErrors(true);
+            return;
+        }
+        setShowErrors(false);
+        setStep(steps[stepIndex + 1]);
+    };
+
+    const handleBack = () => {
+        setShowErrors(false);
+        setStep(steps[stepIndex - 1]);
+    };
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        try {
+            const input = toNewStaffProfile(profile);
+            const staffId = await inviteStaff(input);
+
+            if (canManageLicenses && !isEmptyLicenseDraft(licenseDraft)) {
+                try {
+                    await addLicense(staffId, toLicenseInput(licenseDraft));
+                } catch (err) {
+                    console.error(err);
+                    toast.error(`Invitation sent, but the license could not be saved: ${describeError(err)}`);
+                }
+            }
+
+            if (canEditHrFile && !isEmptyHrDraft(hrDraft)) {
+                try {
+                    await saveHrRecord(staffId, toHrRecordInput(hrDraft));
+                } catch (err) {
+                    console.error(err);
+                    toast.error(`Invitation sent, but the HR record could not be saved: ${describeError(err)}`);
+                }
+            }
+
+            toast.success(`Invitation sent to ${input.work_email}.`);
+            onCreated(staffId);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to add staff member: ${describeError(err)}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const departmentLabel = departments.find(d => d.key === profile.department)?.label || profile.department;
+
+    const summary: [string, string][] = [
+        ['Legal Name', [profile.legal_first_name, profile.legal_middle_name, profile.legal_last_name].map(v => v.trim()).filter(Boolean).join(' ')],
+        ['Preferred Name', profile.preferred_name],
+        ['Work Email', profile.work_email],
+        ['Employee ID', profile.employee_id],
+        ['Job Title', profile.job_title],
+        ['Department', departmentLabel],
+        ['Roles', formatRoles(roleRegistry, profile.role)],
+        ['Locations', profile.clinic_locations.join(', ')],
+        ['Work Phone', profile.work_phone ? formatPhoneNumber(profile.work_phone) : ''],
+        ['License', [licenseDraft.regulatory_body, licenseDraft.license_number].map(v => v.trim()).filter(Boolean).join(' ')],
+        ['Employment', [profile.employment_status, profile.employment_type].filter(Boolean).join(', ')]
+    ];
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(15, 23, 42, 0.4)',
+            backdropFilter: 'blur(4px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 50,
+            padding: '1rem',
+            animation: 'fade-in 0.2s ease-out'
+        }} onClick={isSubmitting ? undefined : onClose}>
+            <div
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                    backgroundColor: 'white',
+                    borderRadius: '16px',
+                    width: '100%',
+                    maxWidth: '560px',
+                    maxHeight: '90vh',
+                    overflowY: 'auto',
+                    padding: '2rem',
+                    boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '1.25rem',
+                    animation: 'slide-up 0.3s cubic-bezier(0.16, 1, 0.3, 1)'
+                }}
+            >
+                <div>
+                    <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '0.75rem' }}>Add Staff Member</h2>
+                    <ol style={{ display: 'flex', gap: '0.5rem', listStyle: 'none', padding: 0, margin: 0 }}>
+                        {steps.map((s, index) => (
+                            <li key={s} style={{
+                                flex: 1,
+                                paddingTop: '0.5rem',
+                                borderTop: `3px solid ${index <= stepIndex ? 'var(--primary-600)' : '#e2e8f0'}`,
+                                fontSize: '0.75rem',
+                                fontWeight: 600,
+                                color: index === stepIndex ? 'var(--primary-600)' : 'var(--text-light)'
+                            }}>
+                                {index + 1}. {STEP_LABELS[s]}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+
+                {step === 'identity' && (
+                    <>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
+                            <div>
+                                <label style={labelStyle}>Legal First Name</label>
+                                <input className="input-field" value={profile.legal_first_name} onChange={(e) => update('legal_first_name', e.target.value)} autoFocus />
+                                {showErrors && identityErrors.legal_first_name && <span style={errorStyle}>{identityErrors.legal_first_name}</span>}
+                            </div>
+                            <div>
+                                <label style={labelStyle}>Middle Name</label>
+                                <input className="input-field" value={profile.legal_middle_name} onChange={(e) => update('legal_middle_name', e.target.value)} />
+                            </div>
+                            <div>
+                                <label style={labelStyle}>Legal Last Name</label>
+                                <input className="input-field" value={profile.legal_last_name} onChange={(e) => update('legal_last_name', e.target.value)} />
+                                {showErrors && identityErrors.legal_last_name && <span style={errorStyle}>{identityErrors.legal_last_name}</span>}
+                            </div>
+                        </div>
+                        <div>
+                            <label style={labelStyle}>Preferred Name</label>
+                            <input className="input-field" value={profile.preferred_name} onChange={(e) => update('preferred_name', e.target.value)} />
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '1rem' }}>
+                            <div>
+                                <label style={labelStyle}>Work Email</label>
+                                <input type="email" className="input-field" placeholder={`name@${emailDomains[0] ?? 'example.com'}`} value={profile.work_email} onChange={(e) => update('work_email', e.target.value)} />
+                                {showErrors && identityErrors.work_email && <span style={errorStyle}>{identityErrors.work_email}</span>}
+                            </div>
+                            <div>
+                                <label style={labelStyle}>Employee ID</label>
+                                <input className="input-field" value={profile.employee_id} onChange={(e) => update('employee_id', e.target.value)} />
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {step === 'job' && (
+                    <>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                            <div>
+                                <label style={labelStyle}>Department</label>
+                                <select className="input-field" value={profile.department} onChange={(e) => update('department', e.target.value)}>
+                                    <option value="">Select Department</option>
+                                    {departments.filter(d => !d.archived_at).map(d => (
+                                        <option key={d.key} value={d.key}>{d.label}</option>
+                                    ))}
+                                </select>
+                                {showErrors && jobErrors.department && <span style={errorStyle}>{jobErrors.department}</span>}
+                            </div>
+                            <div>
+                                <label style={labelStyle}>Job Title</label>
+                                <input className="input-field" placeholder="e.g. Senior Acupuncturist" value={profile.job_title} onChange={(e) => update('job_title', e.target.value)} />
+                            </div>
+                        </div>
+                        <div>
+                            <label style={{ ...labelStyle, marginBottom: '0.5rem' }}>System Access Roles</label>
+                            {!canAssignRoles ? (
+                                <p style={{ color: 'var(--text-muted)', fontSize: '0.85rem', margin: 0 }}>
+                                    The new hire starts without roles. An administrator assigns them from the staff profile.
+                                </p>
+                            ) : (
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+                                    {roleRegistry.map(role => (
+                                        <label key={role.key} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={profile.role.includes(role.key)}
+                                                onChange={(e) => toggle('role', role.key, e.target.checked)}
+                                                style={{ width: '16px', height: '16px', cursor: 'pointer' }}
+                                            />
+                                            {role.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        <div>
+                            <label style={{ ...labelStyle, marginBottom: '0.5rem' }}>Locations</label>
+                            <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                {locations.filter(l => !l.archived_at).map(({ name: loc }) => (
+                                    <label key={loc} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={profile.clinic_locations.includes(loc)}
+                                            onChange={(e) => toggle('clinic_locations', loc, e.target.checked)}
+                                            style={{ width: '16px', height: '16px', cursor: 'pointer' }}
+                                        />
+                                        {loc}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label style={labelStyle}>Work Phone</label>
+                            <input type="tel" className="input-field" placeholder="604-555-0123" value={profile.work_phone} onChange={(e) => update('work_phone', e.target.value)} />
+                            {showErrors && jobErrors.work_phone && <span style={errorStyle}>{jobErrors.work_phone}</span>}
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                            <div>
+                                <label style={labelStyle}>Employment Status</label>
+                                <input className="input-field" value={profile.employment_status} onChange={(e) => update('employment_status', e.target.value)} />
+                            </div>
+                            <div>
+                                <label style={labelStyle}>Employment Type</label>
+                                <input className="input-field" placeholder="e.g. Full-time" value={profile.employment_type} onChange={(e) => update('employment_type', e.target.value)} />
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {step === 'license' && (
+                    <>
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                            Optional. Regulated practitioners' licenses can also be added later from the staff profile.
+                        </p>
+                        <LicenseFields
+                            draft={licenseDraft}
+                            errors={licenseErrors}
+                            showErrors={showErrors}
+                            onChange={(field, value) => setLicenseDraft(prev => ({ ...prev, [field]: value }))}
+                            showStatus={false}
+                        />
+                    </>
+                )}
+
+                {step === 'hr' && (
+                    <>
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                            Optional. Anything left blank can be added later from the staff profile.
+                        </p>
+                        <HrRecordFields
+                            draft={hrDraft}
+                            errors={hrErrors}
+                            showErrors={showErrors}
+                            onChange={(field, value) => setHrDraft(prev => ({ ...prev, [field]: value }))}
+                            showEndDate={false}
+                        />
+                    </>
+                )}
+
+                {step === 'review' && (
+                    <>
+                        <dl style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '0.5rem 1.25rem', margin: 0 }}>
+                            {summary.filter(([, value]) => value).map(([label, value]) => (
+                                <div key={label} style={{ display: 'contents' }}>
+                                    <dt style={{ ...labelStyle, marginBottom: 0, alignSelf: 'center' }}>{label}</dt>
+                                    <dd style={{ margin: 0, color: 'var(--text-main)', fontWeight: 500 }}>{value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                        {canEditHrFile && (
+                            <p style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                                {isEmptyHrDraft(hrDraft) ? 'No HR details entered.' : 'HR details will be saved to the confidential HR file.'}
+                            </p>
+                        )}
+                        <p style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                            An invitation to set a password will be emailed to <strong>{profile.work_email.trim()}</strong>.
+                        </p>
+                    </>
+                )}
+
+                <div style={{ display: 'flex', gap: '0.75rem' }}>
+                    {stepIndex === 0 ? (
+                        <button type="button" onClick={onClose} style={secondaryButtonStyle}>Cancel</button>
+                    ) : (
+                        <button type="button" onClick={handleBack} disabled={isSubmitting} style={secondaryButtonStyle}>Back</button>
+                    )}
+                    {step === 'review' ? (
+                        <button type="button" className="btn-primary" onClick={handleSubmit} disabled={isSubmitting} style={{ flex: 1 }}>
+                            {isSubmitting ? 'Sending...' : 'Create & Send Invite'}
+                        </button>
+                    ) : (
+                        <button type="button" className="btn-primary" onClick={handleNext} style={{ flex: 1 }}>
+                            Next
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
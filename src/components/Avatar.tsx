@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { isProfilePhotoUrl } from '../lib/repository';
+
+interface AvatarProps {
+    photoUrl: string | null;
+    name: string;
+    size?: number;
+}
+
+const initialsOf = (name: string) => {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '?';
+    const first = words[0].charAt(0);
+    const last = words.length > 1 ? words[words.length - 1].charAt(0) : '';
+    return (first + last).toUpperCase();
+};
+
+// Round staff photo, falling back to initials when there is no photo or it fails to load.
+export function Avatar({ photoUrl, name, size = 48 }: AvatarProps) {
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
+    const showPhoto = isProfilePhotoUrl(photoUrl) && photoUrl !== failedUrl;
+
+    return (
+        <div style={{
+            flexShrink: 0,
+            width: `${size}px`,
+            height: `${size}px`,
+            borderRadius: '50%',
+            backgroundColor: 'var(--primary-100)',
+            color: 'var(--primary-700)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: `${Math.round(size * 0.38)}px`,
+            fontWeight: 'bold',
+            overflow: 'hidden',
+            border: '2px solid white',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.05)'
+        }}>
+            {showPhoto ? (
+                <img
+                    src={photoUrl}
+                    alt={name || 'Staff'}
+                    onError={() => setFailedUrl(photoUrl)}
+                    style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                />
+            ) : (
+                initialsOf(name)
+            )}
+        </div>
+    );
+}
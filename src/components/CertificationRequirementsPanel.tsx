@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, setCertificationRequired, upsertCertificationType } from '../lib/repository';
+import type { CertificationRequirement, CertificationType, Department } from '../lib/repository';
+
+interface CertificationRequirementsPanelProps {
+    types: CertificationType[];
+    requirements: CertificationRequirement[];
+    departments: Department[];
+    onChange: () => Promise<void>;
+}
+
+const toKey = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Admin list of certification types and the ones each department requires.
+// Types are archived rather than deleted so uploaded certificates keep their type.
+export function CertificationRequirementsPanel({ types, requirements, departments, onChange }: CertificationRequirementsPanelProps) {
+    const [newLabel, setNewLabel] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activeTypes = types.filter(t => !t.archived_at);
+    const activeDepartments = departments.filter(d => !d.archived_at);
+
+    const run = async (action: () => Promise<unknown>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            await onChange();
+            toast.success(successMessage);
+            return true;
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to update certifications: ${describeError(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isRequired = (department: string, type: string) =>
+        requirements.some(r => r.department === department && r.certification_type === type);
+
+    const handleToggle = (department: Department, type: CertificationType) => {
+        const required = !isRequired(department.key, type.key);
+        run(
+            () => setCertificationRequired(department.key, type.key, required),
+            required ? `${type.label} is now required in ${department.label}.` : `${type.label} is no longer required in ${department.label}.`
+        );
+    };
+
+    const handleArchiveToggle = (type: CertificationType) => {
+        const archived_at = type.archived_at ? null : new Date().toISOString();
+        run(() => upsertCertificationType({ ...type, archived_at }), type.archived_at ? `Restored ${type.label}.` : `Archived ${type.label}.`);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = toKey(newLabel);
+        if (!key) return;
+        if (types.some(t => t.key === key)) {
+            toast.error(`A certification with the key "${key}" already exists.`);
+            return;
+        }
+        const lastOrder = types.reduce((max, t) => Math.max(max, t.sort_order), 0);
+        const ok = await run(() => upsertCertificationType({ key, label: newLabel.trim(), sort_order: lastOrder + 10 }), 'Certification added.');
+        if (ok) setNewLabel('');
+    };
+
+    const buttonStyle = {
+        backgroundColor: 'transparent',
+        border: '1px solid var(--surface-border)',
+        color: 'var(--text-main)',
+        padding: '0.35rem 0.75rem',
+        borderRadius: '6px',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        cursor: isSaving ? 'not-allowed' : 'pointer',
+    };
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', marginBottom: '2rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '0.5rem' }}>Required Certifications</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem', fontSize: '0.95rem' }}>
+                Staff upload these from their Dashboard. The compliance matrix flags anyone missing a certification their department requires.
+            </p>
+
+            {activeTypes.length === 0 ? (
+                <p style={{ color: 'var(--text-muted)', fontStyle: 'italic' }}>No certifications defined.</p>
+            ) : (
+                <div style={{ overflowX: 'auto' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', textAlign: 'left', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)' }}>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Department</th>
+                                {activeTypes.map(type => (
+                                    <th key={type.key} style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600', textAlign: 'center' }}>
+                                        <div>{type.label}</div>
+                                        <button onClick={() => handleArchiveToggle(type)} disabled={isSaving} style={{ ...buttonStyle, marginTop: '0.35rem', fontSize: '0.7rem', padding: '0.15rem 0.5rem' }}>
+                                            Archive
+                                        </button>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {activeDepartments.map(department => (
+                                <tr key={department.key} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={{ padding: '0.75rem', fontWeight: 500, color: 'var(--text-main)' }}>{department.label}</td>
+                                    {activeTypes.map(type => (
+                                        <td key={type.key} style={{ padding: '0.75rem', textAlign: 'center' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={isRequired(department.key, type.key)}
+                                                onChange={() => handleToggle(department, type)}
+                                                disabled={isSaving}
+                                                aria-label={`${type.label} required in ${department.label}`}
+                                                style={{ width: '18px', height: '18px', cursor: isSaving ? 'not-allowed' : 'pointer' }}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {types.some(t => t.archived_at) && (
+                <div style={{ marginTop: '1.5rem', display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center' }}>
+                    <span style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>Archived:</span>
+                    {types.filter(t => t.archived_at).map(type => (
+                        <button key={type.key} onClick={() => handleArchiveToggle(type)} disabled={isSaving} style={buttonStyle}>
+                            Restore {type.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem', alignItems: 'center' }}>
+                <input
+                    type="text"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    className="input-field"
+                    placeholder="e.g. WHMIS"
+                    style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '300px' }}
+                />
+                <button type="submit" className="btn-primary" disabled={isSaving || !newLabel.trim()} style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                    Add Certification
+                </button>
+            </form>
+        </div>
+    );
+}
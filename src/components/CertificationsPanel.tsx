@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, getCertificateUrl, listCertificationRequirements, listCertificationTypes, listCertifications, removeCertification, uploadCertification } from '../lib/repository';
+import type { CertificationRequirement, CertificationType, ComplianceStatus, StaffCertification } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+import {
+    CERTIFICATE_FILE_TYPES,
+    COMPLIANCE_STATUS_COLORS,
+    COMPLIANCE_STATUS_LABELS,
+    EMPTY_CERTIFICATION_DRAFT,
+    certificationStatus,
+    toCertificationInput,
+    validateCertification
+} from '../utils/certifications';
+import type { CertificationDraft } from '../utils/certifications';
+
+interface CertificationsPanelProps {
+    staffId: string;
+    department: string | null;
+}
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+const errorStyle = { fontSize: '0.8rem', color: 'var(--error-text)' };
+
+const linkButtonStyle = {
+    background: 'none',
+    border: 'none',
+    color: 'var(--primary-600)',
+    fontWeight: 600,
+    fontSize: '0.85rem',
+    cursor: 'pointer',
+    padding: 0
+};
+
+const statusChip = (status: ComplianceStatus) => (
+    <span style={{
+        backgroundColor: COMPLIANCE_STATUS_COLORS[status].background,
+        color: COMPLIANCE_STATUS_COLORS[status].color,
+        padding: '0.1rem 0.5rem',
+        borderRadius: '9999px',
+        fontSize: '0.7rem',
+        fontWeight: 600,
+        whiteSpace: 'nowrap'
+    }}>
+        {COMPLIANCE_STATUS_LABELS[status]}
+    </span>
+);
+
+// The signed-in user's certificates on their Dashboard: what their department
+// requires, what they have uploaded, and a form to upload a new one.
+export function CertificationsPanel({ staffId, department }: CertificationsPanelProps) {
+    const [types, setTypes] = useState<CertificationType[]>([]);
+    const [requirements, setRequirements] = useState<CertificationRequirement[]>([]);
+    const [certifications, setCertifications] = useState<StaffCertification[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [draft, setDraft] = useState<CertificationDraft>(EMPTY_CERTIFICATION_DRAFT);
+    const [file, setFile] = useState<File | null>(null);
+    // Remounts the file input to clear it after an upload
+    const [fileInputKey, setFileInputKey] = useState(0);
+    const [showErrors, setShowErrors] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [removingId, setRemovingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const [allTypes, allRequirements, mine] = await Promise.all([
+                    listCertificationTypes(),
+                    listCertificationRequirements(),
+                    listCertifications(staffId)
+                ]);
+                setTypes(allTypes);
+                setRequirements(allRequirements);
+                setCertifications(mine);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load certifications.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, [staffId]);
+
+    const errors = validateCertification(draft, file);
+    const hasErrors = Object.keys(errors).length > 0;
+
+    const typeLabel = (key: string) => types.find(t => t.key === key)?.label || key;
+    const activeTypes = types.filter(t => !t.archived_at);
+    const required = activeTypes.filter(t => requirements.some(r => r.department === department && r.certification_type === t.key));
+
+    // Best certificate of a type: one without an expiry date, else the latest expiry
+    const bestOf = (type: string) => certifications
+        .filter(c => c.certification_type === type)
+        .sort((a, b) => (b.expires_on ?? '9999-12-31').localeCompare(a.expires_on ?? '9999-12-31'))[0];
+
+    const handleUpload = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasErrors || !file) {
+            setShowErrors(true);
+            return;
+        }
+
+        setIsUploading(true);
+        try {
+            await uploadCertification(staffId, file, toCertificationInput(draft));
+            setCertifications(await listCertifications(staffId));
+            setDraft(EMPTY_CERTIFICATION_DRAFT);
+            setFile(null);
+            setFileInputKey(key => key + 1);
+            setShowErrors(false);
+            toast.success('Certificate uploaded.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to upload the certificate: ${describeError(err)}`);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleOpen = async (certification: StaffCertification) => {
+        try {
+            window.open(await getCertificateUrl(certification.file_path, certification.file_name), '_blank', 'noopener');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to open the certificate: ${describeError(err)}`);
+        }
+    };
+
+    const handleRemove = async (certification: StaffCertification) => {
+        if (!window.confirm(`Remove ${certification.file_name}?`)) return;
+
+        setRemovingId(certification.id);
+        try {
+            await removeCertification(certification);
+            setCertifications(prev => prev.filter(c => c.id !== certification.id));
+            toast.success('Certificate removed.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to remove the certificate: ${describeError(err)}`);
+        } finally {
+            setRemovingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return <div style={{ textAlign: 'center', color: 'var(--text-muted)', padding: '2rem' }}>Loading certifications...</div>;
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+            {required.length > 0 && (
+                <div>
+                    <span style={labelStyle}>Required for your department</span>
+                    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginTop: '0.25rem' }}>
+                        {required.map(type => {
+                            const best = bestOf(type.key);
+                            return (
+                                <div key={type.key} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: 'var(--text-main)', fontWeight: 500 }}>
+                                    {type.label} {statusChip(best ? certificationStatus(best) : 'missing')}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <span style={labelStyle}>My certificates</span>
+                {certifications.length === 0 ? (
+                    <p style={{ color: 'var(--text-light)', fontStyle: 'italic', margin: 0 }}>Nothing uploaded yet.</p>
+                ) : (
+                    certifications.map(certification => (
+                        <div key={certification.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '0.75rem 0', borderBottom: '1px solid var(--surface-border)' }}>
+                            <div>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                    <span style={{ fontWeight: 600, color: 'var(--text-main)' }}>{typeLabel(certification.certification_type)}</span>
+                                    {statusChip(certificationStatus(certification))}
+                                </div>
+                                <div style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                                    {certification.file_name}
+                                    {certification.issued_on && ` · Issued ${formatDateOnly(certification.issued_on)}`}
+                                    {certification.expires_on ? ` · Expires ${formatDateOnly(certification.expires_on)}` : ' · No expiry'}
+                                </div>
+                            </div>
+                            <div style={{ display: 'flex', gap: '1rem' }}>
+                                <button type="button" onClick={() => handleOpen(certification)} style={linkButtonStyle}>View</button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemove(certification)}
+                                    disabled={removingId !== null}
+                                    style={{ ...linkButtonStyle, color: '#dc2626', cursor: removingId !== null ? 'not-allowed' : 'pointer' }}
+                                >
+                                    {removingId === certification.id ? 'Removing...' : 'Remove'}
+                                </button>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <form onSubmit={handleUpload} noValidate style={{ display: 'flex', flexDirection: 'column', gap: '1rem', borderTop: '1px solid var(--surface-border)', paddingTop: '1.25rem' }}>
+                <span style={{ ...labelStyle, marginBottom: 0 }}>Upload a certificate</span>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
+                    <div>
+                        <label style={labelStyle}>Type</label>
+                        <select
+                            className="input-field"
+                            value={draft.certification_type}
+                            onChange={(e) => setDraft(prev => ({ ...prev, certification_type: e.target.value }))}
+                        >
+                            <option value="">Choose...</option>
+                            {activeTypes.map(type => (
+                                <option key={type.key} value={type.key}>{type.label}</option>
+                            ))}
+                        </select>
+                        {showErrors && errors.certification_type && <span style={errorStyle}>{errors.certification_type}</span>}
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Issued</label>
+                        <input
+                            type="date"
+                            className="input-field"
+                            value={draft.issued_on}
+                            onChange={(e) => setDraft(prev => ({ ...prev, issued_on: e.target.value }))}
+                        />
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Expires</label>
+                        <input
+                            type="date"
+                            className="input-field"
+                            value={draft.expires_on}
+                            onChange={(e) => setDraft(prev => ({ ...prev, expires_on: e.target.value }))}
+                        />
+                        {showErrors && errors.expires_on && <span style={errorStyle}>{errors.expires_on}</span>}
+                    </div>
+                </div>
+                <div>
+                    <label style={labelStyle}>File (PDF or image, up to 10 MB)</label>
+                    <input
+                        key={fileInputKey}
+                        type="file"
+                        accept={CERTIFICATE_FILE_TYPES.join(',')}
+                        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                        style={{ fontSize: '0.9rem' }}
+                    />
+                    {showErrors && errors.file && <div style={errorStyle}>{errors.file}</div>}
+                </div>
+                <div>
+                    <button type="submit" className="btn-primary" disabled={isUploading} style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                        {isUploading ? 'Uploading...' : 'Upload Certificate'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { isPasswordStrong } from '../utils/passwordPolicy';
+import { PasswordChecklist } from './PasswordChecklist';
+
+interface ChangePasswordModalProps {
+    email: string;
+    onClose: () => void;
+}
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.5rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+// Lets a signed-in user change their password. The current password is checked
+// first so an unattended session can't be used to take over the account.
+export function ChangePasswordModal({ email, onClose }: ChangePasswordModalProps) {
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const canSubmit = currentPassword.length > 0
+        && isPasswordStrong(newPassword, email)
+        && newPassword === confirmPassword
+        && newPassword !== currentPassword;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        setIsSaving(true);
+
+        try {
+            const { error: verifyError } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+            if (verifyError) {
+                toast.error('Your current password is incorrect.');
+                return;
+            }
+
+            const { error } = await supabase.auth.updateUser({ password: newPassword });
+            if (error) {
+                toast.error(error.message);
+                return;
+            }
+
+            toast.success('Password changed successfully.');
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(15, 23, 42, 0.4)',
+            backdropFilter: 'blur(4px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 50,
+            padding: '1rem'
+        }} onClick={onClose}>
+            <form
+                onSubmit={handleSubmit}
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                    backgroundColor: 'white',
+                    borderRadius: '16px',
+                    width: '100%',
+                    maxWidth: '440px',
+                    padding: '2rem',
+                    boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '1.25rem',
+                    textAlign: 'left'
+                }}
+            >
+                <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)' }}>Change Password</h2>
+
+                <div>
+                    <label style={labelStyle}>Current Password</label>
+                    <input
+                        type="password"
+                        autoComplete="current-password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        className="input-field"
+                        required
+                        autoFocus
+                    />
+                </div>
+
+                <div>
+                    <label style={labelStyle}>New Password</label>
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className="input-field"
+                        required
+                    />
+                    <PasswordChecklist password={newPassword} email={email} />
+                    {newPassword && newPassword === currentPassword && (
+                        <span style={{ fontSize: '0.8rem', color: 'var(--error-text)' }}>Choose a password different from your current one.</span>
+                    )}
+                </div>
+
+                <div>
+                    <label style={labelStyle}>Confirm New Password</label>
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className="input-field"
+                        required
+                    />
+                    {confirmPassword && newPassword !== confirmPassword && (
+                        <span style={{ fontSize: '0.8rem', color: 'var(--error-text)' }}>Passwords do not match.</span>
+                    )}
+                </div>
+
+                <div style={{ display: 'flex', gap: '0.75rem' }}>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={isSaving}
+                        style={{
+                            flex: 1,
+                            padding: '0.75rem',
+                            borderRadius: '8px',
+                            border: '1px solid #e2e8f0',
+                            backgroundColor: '#ffffff',
+                            color: '#475569',
+                            fontWeight: 600,
+                            cursor: isSaving ? 'not-allowed' : 'pointer'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button type="submit" className="btn-primary" disabled={isSaving || !canSubmit} style={{ flex: 1 }}>
+                        {isSaving ? 'Saving...' : 'Change Password'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { getMyProfile, listRoles, subscribeToLiveUpdates } from '../lib/repository';
+import type { StaffProfile } from '../lib/repository';
+import { capabilitiesFor, formatRoles } from '../lib/roles';
+import type { RoleDefinition } from '../lib/roles';
+import { CurrentStaffContext, SIGNED_OUT } from '../lib/currentStaff';
+import type { CurrentStaff } from '../lib/currentStaff';
+
+interface LoadedStaff {
+    userId: string;
+    profile: StaffProfile | null;
+    roleRegistry: RoleDefinition[];
+}
+
+const sameRoles = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(role => b.includes(role));
+
+// Loads the signed-in staff member for useCurrentStaff(). Reloads when the user
+// changes, when the session is re-established or the account updated, and when
+// their roles or the role registry change in another session, in which case a
+// changed role is announced.
+export function CurrentStaffProvider({ userId, children }: { userId: string | null; children: ReactNode }) {
+    const [loaded, setLoaded] = useState<LoadedStaff | null>(null);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        let cancelled = false;
+        let knownRoles: string[] | null = null;
+
+        const load = async () => {
+            try {
+                const [profile, registry] = await Promise.all([getMyProfile(), listRoles()]);
+                if (cancelled) return;
+                if (knownRoles && !sameRoles(knownRoles, profile.role)) {
+                    toast(`Your role is now ${formatRoles(registry, profile.role) || 'unassigned'}. Your menus and access have been updated.`, { duration: 8000 });
+                }
+                knownRoles = profile.role;
+                setLoaded({ userId, profile, roleRegistry: registry });
+            } catch (err) {
+                console.error(err);
+                if (!cancelled) setLoaded({ userId, profile: null, roleRegistry: [] });
+            }
+        };
+
+        load();
+
+        const unsubscribeLive = subscribeToLiveUpdates(changes => {
+            if (changes.some(c => c.topic === 'roles' || (c.topic === 'staff' && c.entity === userId))) load();
+        });
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+            if (event === 'SIGNED_IN' || event === 'USER_UPDATED') load();
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribeLive();
+            subscription.unsubscribe();
+        };
+    }, [userId]);
+
+    const value = useMemo<CurrentStaff>(() => {
+        if (!userId) return SIGNED_OUT;
+        if (loaded?.userId !== userId) return { ...SIGNED_OUT, isLoading: true };
+        return {
+            profile: loaded.profile,
+            roleRegistry: loaded.roleRegistry,
+            capabilities: loaded.profile ? capabilitiesFor(loaded.roleRegistry, loaded.profile.role) : new Set(),
+            isLoading: false
+        };
+    }, [userId, loaded]);
+
+    return <CurrentStaffContext.Provider value={value}>{children}</CurrentStaffContext.Provider>;
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, mergeDepartments, renameDepartment, upsertDepartment } from '../lib/repository';
+import type { Department } from '../lib/repository';
+
+interface DepartmentsPanelProps {
+    departments: Department[];
+    onChange: () => Promise<void>;
+}
+
+const toKey = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Admin CRUD for departments. Renames and merges cascade to staff profiles and
+// the visibility matrix in the database; departments are archived, never deleted.
+export function DepartmentsPanel({ departments, onChange }: DepartmentsPanelProps) {
+    const [editingKey, setEditingKey] = useState<string | null>(null);
+    const [editKey, setEditKey] = useState('');
+    const [editLabel, setEditLabel] = useState('');
+    const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+    const [newLabel, setNewLabel] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activeDepartments = departments.filter(d => !d.archived_at);
+
+    const run = async (action: () => Promise<unknown>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            await onChange();
+            toast.success(successMessage);
+            return true;
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to update departments: ${describeError(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const startEditing = (dept: Department) => {
+        setEditingKey(dept.key);
+        setEditKey(dept.key);
+        setEditLabel(dept.label);
+    };
+
+    const handleRename = async (dept: Department) => {
+        const key = toKey(editKey);
+        if (!key || !editLabel.trim()) return;
+        const ok = await run(() => renameDepartment(dept.key, key, editLabel.trim()), `Renamed ${dept.label} to ${editLabel.trim()}.`);
+        if (ok) setEditingKey(null);
+    };
+
+    const handleMerge = (dept: Department) => {
+        const target = departments.find(d => d.key === mergeTargets[dept.key]);
+        if (!target) return;
+        if (!window.confirm(`Move everyone in ${dept.label} to ${target.label} and archive ${dept.label}? ${dept.label}'s visibility rules will be removed.`)) return;
+        run(() => mergeDepartments(dept.key, target.key), `Merged ${dept.label} into ${target.label}.`);
+    };
+
+    const handleArchiveToggle = (dept: Department) => {
+        const archived_at = dept.archived_at ? null : new Date().toISOString();
+        run(() => upsertDepartment({ ...dept, archived_at }), dept.archived_at ? `Restored ${dept.label}.` : `Archived ${dept.label}.`);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = toKey(newLabel);
+        if (!key) return;
+        if (departments.some(d => d.key === key)) {
+            toast.error(`A department with the key "${key}" already exists.`);
+            return;
+        }
+        const lastOrder = departments.reduce((max, d) => Math.max(max, d.sort_order), 0);
+        const ok = await run(() => upsertDepartment({ key, label: newLabel.trim(), sort_order: lastOrder + 10 }), 'Department added.');
+        if (ok) setNewLabel('');
+    };
+
+    const buttonStyle = {
+        backgroundColor: 'transparent',
+        border: '1px solid var(--surface-border)',
+        color: 'var(--text-main)',
+        padding: '0.35rem 0.75rem',
+        borderRadius: '6px',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        cursor: isSaving ? 'not-allowed' : 'pointer',
+    };
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', marginBottom: '2rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '0.5rem' }}>Departments</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem', fontSize: '0.95rem' }}>
+                Renaming or merging a department updates every staff profile and visibility rule that uses it.
+            </p>
+
+            <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Department</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Status</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Merge Into</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {departments.map(dept => (
+                            <tr key={dept.key} style={{ borderBottom: '1px solid var(--surface-border)', opacity: dept.archived_at ? 0.6 : 1 }}>
+                                <td style={{ padding: '1rem' }}>
+                                    {editingKey === dept.key ? (
+                                        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                                            <input
+                                                type="text"
+                                                value={editLabel}
+                                                onChange={(e) => setEditLabel(e.target.value)}
+                                                className="input-field"
+                                                placeholder="Label"
+                                                style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '180px' }}
+                                            />
+                                            <input
+                                                type="text"
+                                                value={editKey}
+                                                onChange={(e) => setEditKey(e.target.value)}
+                                                className="input-field"
+                                                placeholder="Key"
+                                                style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '140px', fontFamily: 'monospace' }}
+                                            />
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <div style={{ fontWeight: 500, color: 'var(--text-main)' }}>{dept.label}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--text-light)', fontFamily: 'monospace' }}>{dept.key}</div>
+                                        </>
+                                    )}
+                                </td>
+                                <td style={{ padding: '1rem', fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                                    {dept.archived_at ? `Archived ${new Date(dept.archived_at).toLocaleDateString()}` : 'Active'}
+                                </td>
+                                <td style={{ padding: '1rem' }}>
+                                    {!dept.archived_at && (
+                                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                            <select
+                                                className="input-field"
+                                                value={mergeTargets[dept.key] || ''}
+                                                onChange={(e) => setMergeTargets({ ...mergeTargets, [dept.key]: e.target.value })}
+                                                style={{ padding: '0.35rem', fontSize: '0.85rem', maxWidth: '160px' }}
+                                            >
+                                                <option value="">Select…</option>
+                                                {activeDepartments.filter(d => d.key !== dept.key).map(d => (
+                                                    <option key={d.key} value={d.key}>{d.label}</option>
+                                                ))}
+                                            </select>
+                                            <button onClick={() => handleMerge(dept)} disabled={isSaving || !mergeTargets[dept.key]} style={buttonStyle}>
+                                                Merge
+                                            </button>
+                                        </div>
+                                    )}
+                                </td>
+                                <td style={{ padding: '1rem', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                                    <div style={{ display: 'inline-flex', gap: '0.5rem' }}>
+                                        {editingKey === dept.key ? (
+                                            <>
+                                                <button onClick={() => handleRename(dept)} disabled={isSaving} style={{ ...buttonStyle, borderColor: 'var(--primary-600)', color: 'var(--primary-600)' }}>Save</button>
+                                                <button onClick={() => setEditingKey(null)} disabled={isSaving} style={buttonStyle}>Cancel</button>
+                                            </>
+                                        ) : (
+                                            <button onClick={() => startEditing(dept)} disabled={isSaving} style={buttonStyle}>Rename</button>
+                                        )}
+                                        <button onClick={() => handleArchiveToggle(dept)} disabled={isSaving} style={buttonStyle}>
+                                            {dept.archived_at ? 'Restore' : 'Archive'}
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem', alignItems: 'center' }}>
+                <input
+                    type="text"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    className="input-field"
+                    placeholder="New department name"
+                    style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '300px' }}
+                />
+                <button type="submit" className="btn-primary" disabled={isSaving || !newLabel.trim()} style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                    Add Department
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+import type { DirectoryFilterKey, DirectoryFilters, DirectorySort } from '../utils/directoryFilters';
+import { EMPTY_DIRECTORY_FILTERS, SORT_LABELS, SORTS, hasActiveFilters } from '../utils/directoryFilters';
+
+export interface FilterOption {
+    value: string;
+    label: string;
+}
+
+export interface FilterGroup {
+    key: DirectoryFilterKey;
+    label: string;
+    options: FilterOption[];
+}
+
+interface DirectoryFilterBarProps {
+    filters: DirectoryFilters;
+    groups: FilterGroup[];
+    resultCount: number;
+    sort: DirectorySort;
+    onChange: (filters: DirectoryFilters) => void;
+    onSortChange: (sort: DirectorySort) => void;
+}
+
+// Search box and filter chips above the directory grid.
+export function DirectoryFilterBar({ filters, groups, resultCount, sort, onChange, onSortChange }: DirectoryFilterBarProps) {
+    const toggle = (key: DirectoryFilterKey, value: string) => {
+        const selected = filters[key];
+        onChange({
+            ...filters,
+            [key]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]
+        });
+    };
+
+    // Values from a shared link may not be offered any more; keep them visible so they can be removed.
+    const withSelected = (group: FilterGroup) => [
+        ...group.options,
+        ...filters[group.key]
+            .filter(value => !group.options.some(option => option.value === value))
+            .map(value => ({ value, label: value }))
+    ];
+
+    return (
+        <div className="glass-panel" style={{ padding: '1.25rem 1.5rem', borderRadius: '12px', marginBottom: '2rem', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+                <input
+                    type="search"
+                    className="input-field"
+                    placeholder="Search by name, job title, bio or language"
+                    aria-label="Search the directory"
+                    value={filters.query}
+                    onChange={(e) => onChange({ ...filters, query: e.target.value })}
+                    style={{ flex: 1 }}
+                />
+                <select
+                    className="input-field"
+                    aria-label="Sort by"
+                    value={sort}
+                    onChange={(e) => onSortChange(e.target.value as DirectorySort)}
+                    style={{ width: 'auto' }}
+                >
+                    {SORTS.map(option => (
+                        <option key={option} value={option}>Sort by {SORT_LABELS[option]}</option>
+                    ))}
+                </select>
+                <span style={{ color: 'var(--text-muted)', fontSize: '0.9rem', whiteSpace: 'nowrap' }}>
+                    {resultCount} {resultCount === 1 ? 'person' : 'people'}
+                </span>
+                {hasActiveFilters(filters) && (
+                    <button
+                        type="button"
+                        onClick={() => onChange(EMPTY_DIRECTORY_FILTERS)}
+                        style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                    >
+                        Clear all
+                    </button>
+                )}
+            </div>
+
+            {groups.map(group => ({ ...group, options: withSelected(group) })).filter(group => group.options.length > 0).map(group => (
+                <div key={group.key} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ fontSize: '0.75rem', fontWeight: 600, color: 'var(--text-light)', textTransform: 'uppercase', letterSpacing: '0.05em', minWidth: '110px' }}>
+                        {group.label}
+                    </span>
+                    {group.options.map(option => {
+                        const isSelected = filters[group.key].includes(option.value);
+                        return (
+                            <button
+                                key={option.value}
+                                type="button"
+                                aria-pressed={isSelected}
+                                onClick={() => toggle(group.key, option.value)}
+                                style={{
+                                    padding: '0.25rem 0.75rem',
+                                    borderRadius: '9999px',
+                                    border: `1px solid ${isSelected ? 'var(--primary-600)' : '#e2e8f0'}`,
+                                    backgroundColor: isSelected ? 'var(--primary-600)' : '#ffffff',
+                                    color: isSelected ? '#ffffff' : '#475569',
+                                    fontSize: '0.8rem',
+                                    fontWeight: 500,
+                                    cursor: 'pointer',
+                                    transition: 'all 0.2s ease'
+                                }}
+                            >
+                                {option.label}
+                            </button>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+}
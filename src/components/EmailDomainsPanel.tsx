@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { addEmailDomain, describeError, removeEmailDomain } from '../lib/repository';
+import type { EmailDomain } from '../lib/repository';
+
+interface EmailDomainsPanelProps {
+    domains: EmailDomain[];
+    onChange: () => Promise<void>;
+}
+
+// Admin list of the domains work emails may use. Existing emails are only
+// checked again when they next change.
+export function EmailDomainsPanel({ domains, onChange }: EmailDomainsPanelProps) {
+    const [newDomain, setNewDomain] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const run = async (action: () => Promise<unknown>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            await onChange();
+            toast.success(successMessage);
+            return true;
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to update email domains: ${describeError(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemove = (domain: string) => {
+        const warning = domains.length === 1
+            ? `Remove ${domain}? With no domains listed, work emails may use any domain.`
+            : `Remove ${domain}? New work emails will no longer be able to use it.`;
+        if (!window.confirm(warning)) return;
+        run(() => removeEmailDomain(domain), `Removed ${domain}.`);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const domain = newDomain.trim().toLowerCase().replace(/^@/, '');
+        if (!domain) return;
+        if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+            toast.error(`${domain} is not a domain name.`);
+            return;
+        }
+        if (domains.some(d => d.domain === domain)) {
+            toast.error(`${domain} is already listed.`);
+            return;
+        }
+        const ok = await run(() => addEmailDomain(domain), 'Domain added.');
+        if (ok) setNewDomain('');
+    };
+
+    const buttonStyle = {
+        backgroundColor: 'transparent',
+        border: '1px solid var(--surface-border)',
+        color: 'var(--text-main)',
+        padding: '0.35rem 0.75rem',
+        borderRadius: '6px',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        cursor: isSaving ? 'not-allowed' : 'pointer',
+    };
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', marginBottom: '2rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '0.5rem' }}>Work Email Domains</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem', fontSize: '0.95rem' }}>
+                Work emails must end in one of these domains. With none listed, any domain is accepted.
+            </p>
+
+            {domains.length === 0 ? (
+                <p style={{ color: 'var(--text-muted)', fontStyle: 'italic' }}>No domains listed.</p>
+            ) : (
+                <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                    {domains.map(d => (
+                        <li key={d.domain} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '0.75rem 1rem', borderBottom: '1px solid var(--surface-border)' }}>
+                            <span style={{ fontWeight: 500, color: 'var(--text-main)' }}>@{d.domain}</span>
+                            <button onClick={() => handleRemove(d.domain)} disabled={isSaving} style={buttonStyle}>Remove</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem', alignItems: 'center' }}>
+                <input
+                    type="text"
+                    value={newDomain}
+                    onChange={(e) => setNewDomain(e.target.value)}
+                    className="input-field"
+                    placeholder="e.g. phoenixrehab.ca"
+                    style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '300px' }}
+                />
+                <button type="submit" className="btn-primary" disabled={isSaving || !newDomain.trim()} style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                    Add Domain
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState } from 'react';
+import { getHrRecord } from '../lib/repository';
+import type { HRRecord } from '../lib/repository';
+import { formatPhoneNumber } from '../utils/formatters';
+import { formatDateOnly, formatSin, maskDate, maskPhone, maskSin } from '../utils/masking';
+import { SensitiveValue } from './SensitiveValue';
+import { HrRecordForm } from './HrRecordForm';
+
+interface HrFilePanelProps {
+    personId: string;
+    canEdit: boolean;
+    // Open straight away, e.g. when arriving from the Directory's "View HR File" button
+    autoOpen?: boolean;
+}
+
+const fieldLabelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600
+};
+
+const fileIcon = (size: number) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
+);
+
+// HR confidential file shown on the staff profile page. Every read is written to
+// the HR audit log, so the record is only fetched once the viewer opens it.
+export function HrFilePanel({ personId, canEdit, autoOpen = false }: HrFilePanelProps) {
+    const [isOpen, setIsOpen] = useState(autoOpen);
+    const [isLoading, setIsLoading] = useState(autoOpen);
+    const [error, setError] = useState<string | null>(null);
+    const [record, setRecord] = useState<HRRecord | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const panelRef = useRef<HTMLElement>(null);
+
+    useEffect(() => {
+        if (autoOpen) panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, [autoOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+
+        // null means the person has no HR record yet; the panel offers to create one
+        getHrRecord(personId)
+            .then(loaded => {
+                if (!cancelled) setRecord(loaded);
+            })
+            .catch(err => {
+                console.error(err);
+                if (!cancelled) setError('Access denied or HR record could not be loaded.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, personId]);
+
+    const handleOpen = () => {
+        setError(null);
+        setIsLoading(true);
+        setIsOpen(true);
+    };
+
+    const handleClose = () => {
+        setIsOpen(false);
+        setRecord(null);
+        setError(null);
+        setIsEditing(false);
+    };
+
+    const handleSaved = (saved: HRRecord) => {
+        setRecord(saved);
+        setIsEditing(false);
+    };
+
+    return (
+        <section id="hr-file" ref={panelRef} style={{
+            backgroundColor: 'white',
+            borderRadius: '16px',
+            border: '1px solid #fbcfe8',
+            overflow: 'hidden'
+        }}>
+            <div style={{
+                padding: '1.5rem',
+                borderBottom: '1px solid var(--surface-border)',
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                backgroundColor: '#fdf2f8'
+            }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                    <div style={{
+                        backgroundColor: '#fbcfe8',
+                        padding: '0.5rem',
+                        borderRadius: '8px',
+                        color: '#be185d'
+                    }}>
+                        {fileIcon(20)}
+                    </div>
+                    <div>
+                        <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: '#831843', margin: 0 }}>HR Confidential File</h2>
+                        <p style={{ fontSize: '0.85rem', color: '#be185d', margin: 0, opacity: 0.8 }}>Strictly Internal Access</p>
+                    </div>
+                </div>
+            </div>
+
+            <div style={{ padding: '2rem' }}>
+                {!isOpen ? (
+                    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem', textAlign: 'center' }}>
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                            Opening this file is recorded in the HR audit log.
+                        </p>
+                        <button
+                            type="button"
+                            onClick={handleOpen}
+                            style={{
+                                backgroundColor: '#fce7f3',
+                                color: '#be185d',
+                                border: '1px solid #fbcfe8',
+                                padding: '0.5rem 1rem',
+                                borderRadius: '6px',
+                                fontSize: '0.85rem',
+                                fontWeight: 600,
+                                cursor: 'pointer',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '0.35rem'
+                            }}
+                        >
+                            {fileIcon(14)}
+                            Open HR File
+                        </button>
+                    </div>
+                ) : isLoading ? (
+                    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem', padding: '2rem' }}>
+                        <svg style={{ animation: 'logo-spin 1s linear infinite', color: '#be185d' }} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="2" x2="12" y2="6"></line><line x1="12" y1="18" x2="12" y2="22"></line><line x1="4.93" y1="4.93" x2="7.76" y2="7.76"></line><line x1="16.24" y1="16.24" x2="19.07" y2="19.07"></line><line x1="2" y1="12" x2="6" y2="12"></line><line x1="18" y1="12" x2="22" y2="12"></line><line x1="4.93" y1="19.07" x2="7.76" y2="16.24"></line><line x1="16.24" y1="7.76" x2="19.07" y2="4.93"></line></svg>
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>Securely fetching records...</p>
+                    </div>
+                ) : error ? (
+                    <div style={{
+                        backgroundColor: '#fef2f2',
+                        color: '#ef4444',
+                        padding: '1rem',
+                        borderRadius: '8px',
+                        display: 'flex',
+                        gap: '0.75rem',
+                        alignItems: 'center'
+                    }}>
+                        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>
+                        <span>{error}</span>
+                    </div>
+                ) : isEditing ? (
+                    <HrRecordForm
+                        personId={personId}
+                        record={record}
+                        onSaved={handleSaved}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                ) : record ? (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
+                            <div>
+                                <div style={fieldLabelStyle}>Date of Birth</div>
+                                <SensitiveValue value={record.date_of_birth} label="date of birth" mask={maskDate} format={formatDateOnly} requirePassword />
+                            </div>
+                            <div>
+                                <div style={fieldLabelStyle}>Social Insurance Number</div>
+                                <SensitiveValue value={record.sin} label="SIN" mask={maskSin} format={formatSin} requirePassword monospace />
+                            </div>
+                        </div>
+
+                        <div style={{
+                            borderTop: '1px solid var(--surface-border)',
+                            paddingTop: '1.25rem'
+                        }}>
+                            <h3 style={{ fontSize: '0.9rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Emergency Contact</h3>
+                            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
+                                <div>
+                                    <div style={fieldLabelStyle}>Contact Name</div>
+                                    <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
+                                        {record.emergency_contact_name || 'N/A'}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div style={fieldLabelStyle}>Phone Number</div>
+                                    <SensitiveValue value={record.emergency_contact_phone} label="emergency contact phone" mask={maskPhone} format={formatPhoneNumber} requirePassword />
+                                </div>
+                            </div>
+                        </div>
+
+                        {record.end_date && (
+                            <div style={{
+                                borderTop: '1px solid var(--surface-border)',
+                                paddingTop: '1.25rem'
+                            }}>
+                                <div style={{ ...fieldLabelStyle, color: '#be185d' }}>Termination / End Date</div>
+                                <div style={{ color: '#ef4444', fontWeight: 600 }}>
+                                    {formatDateOnly(record.end_date)}
+                                </div>
+                            </div>
+                        )}
+
+                        <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.75rem' }}>
+                            {canEdit && (
+                                <button
+                                    type="button"
+                                    onClick={() => setIsEditing(true)}
+                                    className="btn-primary"
+                                    style={{ flex: 1 }}
+                                >
+                                    Edit HR Record
+                                </button>
+                            )}
+                            <button
+                                type="button"
+                                onClick={handleClose}
+                                style={{
+                                    flex: 1,
+                                    padding: '0.75rem',
+                                    backgroundColor: '#f1f5f9',
+                                    color: '#475569',
+                                    border: 'none',
+                                    borderRadius: '8px',
+                                    fontWeight: 600,
+                                    cursor: 'pointer',
+                                    transition: 'background-color 0.2s ease'
+                                }}
+                                onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#e2e8f0'}
+                                onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#f1f5f9'}
+                            >
+                                Close File
+                            </button>
+                        </div>
+
+                    </div>
+                ) : (
+                    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem', padding: '1rem', textAlign: 'center' }}>
+                        <p style={{ color: 'var(--text-muted)' }}>
+                            {canEdit ? 'There is no HR record on file for this staff member yet.' : 'HR record not found.'}
+                        </p>
+                        {canEdit && (
+                            <button type="button" className="btn-primary" onClick={() => setIsEditing(true)}>
+                                Create HR Record
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, saveHrRecord } from '../lib/repository';
+import type { HRRecord } from '../lib/repository';
+import { formatPhoneNumber } from '../utils/formatters';
+import { formatSin } from '../utils/masking';
+import { normalizePhone } from '../utils/contactDetails';
+import { toHrRecordInput, validateHrRecord } from '../utils/hrValidation';
+import type { HrRecordDraft, HrRecordErrors } from '../utils/hrValidation';
+
+interface HrRecordFormProps {
+    personId: string;
+    record: HRRecord | null;
+    onSaved: (record: HRRecord) => void;
+    onCancel: () => void;
+}
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+const errorStyle = { fontSize: '0.8rem', color: 'var(--error-text)' };
+
+interface HrRecordFieldsProps {
+    draft: HrRecordDraft;
+    errors: HrRecordErrors;
+    showErrors: boolean;
+    onChange: (field: keyof HrRecordDraft, value: string) => void;
+    // A new hire has no end date yet
+    showEndDate?: boolean;
+}
+
+const toDraft = (record: HRRecord | null): HrRecordDraft => ({
+    sin: record?.sin ? formatSin(record.sin) : '',
+    date_of_birth: record?.date_of_birth?.slice(0, 10) || '',
+    emergency_contact_name: record?.emergency_contact_name || '',
+    emergency_contact_phone: record?.emergency_contact_phone ? formatPhoneNumber(record.emergency_contact_phone) : '',
+    end_date: record?.end_date?.slice(0, 10) || ''
+});
+
+// Inputs shared by the editor below and the Add Staff wizard.
+export function HrRecordFields({ draft, errors, showErrors, onChange, showEndDate = true }: HrRecordFieldsProps) {
+    return (
+        <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.25rem' }}>
+                <div>
+                    <label style={labelStyle}>Date of Birth</label>
+                    <input
+                        type="date"
+                        className="input-field"
+                        value={draft.date_of_birth}
+                        onChange={(e) => onChange('date_of_birth', e.target.value)}
+                        max={new Date().toISOString().slice(0, 10)}
+                    />
+                    {showErrors && errors.date_of_birth && <span style={errorStyle}>{errors.date_of_birth}</span>}
+                </div>
+                <div>
+                    <label style={labelStyle}>Social Insurance Number</label>
+                    <input
+                        className="input-field"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        placeholder="123 456 789"
+                        value={draft.sin}
+                        onChange={(e) => onChange('sin', e.target.value)}
+                        onBlur={() => onChange('sin', formatSin(draft.sin))}
+                        style={{ fontFamily: 'monospace', letterSpacing: '0.05em' }}
+                    />
+                    {showErrors && errors.sin && <span style={errorStyle}>{errors.sin}</span>}
+                </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.25rem' }}>
+                <div>
+                    <label style={labelStyle}>Emergency Contact Name</label>
+                    <input
+                        className="input-field"
+                        value={draft.emergency_contact_name}
+                        onChange={(e) => onChange('emergency_contact_name', e.target.value)}
+                    />
+                    {showErrors && errors.emergency_contact_name && <span style={errorStyle}>{errors.emergency_contact_name}</span>}
+                </div>
+                <div>
+                    <label style={labelStyle}>Emergency Contact Phone</label>
+                    <input
+                        type="tel"
+                        className="input-field"
+                        placeholder="604-555-0123"
+                        value={draft.emergency_contact_phone}
+                        onChange={(e) => onChange('emergency_contact_phone', e.target.value)}
+                        onBlur={() => {
+                            const phone = normalizePhone(draft.emergency_contact_phone);
+                            if (phone) onChange('emergency_contact_phone', formatPhoneNumber(phone));
+                        }}
+                    />
+                    {showErrors && errors.emergency_contact_phone && <span style={errorStyle}>{errors.emergency_contact_phone}</span>}
+                </div>
+            </div>
+
+            {showEndDate && (
+                <div>
+                    <label style={labelStyle}>Termination / End Date</label>
+                    <input
+                        type="date"
+                        className="input-field"
+                        value={draft.end_date}
+                        onChange={(e) => onChange('end_date', e.target.value)}
+                        style={{ maxWidth: '50%' }}
+                    />
+                    {showErrors && errors.end_date && <span style={errorStyle}>{errors.end_date}</span>}
+                </div>
+            )}
+        </>
+    );
+}
+
+// Editor for a staff member's HR file, used from the HR file panel on the profile page.
+// Saving a person without a record creates one.
+export function HrRecordForm({ personId, record, onSaved, onCancel }: HrRecordFormProps) {
+    const [draft, setDraft] = useState<HrRecordDraft>(() => toDraft(record));
+    const [showErrors, setShowErrors] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const errors = validateHrRecord(draft);
+    const hasErrors = Object.keys(errors).length > 0;
+
+    const update = (field: keyof HrRecordDraft, value: string) =>
+        setDraft(prev => ({ ...prev, [field]: value }));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasErrors) {
+            setShowErrors(true);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = await saveHrRecord(personId, toHrRecordInput(draft));
+            toast.success(record ? 'HR record updated.' : 'HR record created.');
+            onSaved(saved);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to save HR record: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} noValidate style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            <HrRecordFields draft={draft} errors={errors} showErrors={showErrors} onChange={update} />
+
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                    style={{
+                        flex: 1,
+                        padding: '0.75rem',
+                        borderRadius: '8px',
+                        border: '1px solid #e2e8f0',
+                        backgroundColor: '#ffffff',
+                        color: '#475569',
+                        fontWeight: 600,
+                        cursor: isSaving ? 'not-allowed' : 'pointer'
+                    }}
+                >
+                    Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving} style={{ flex: 1 }}>
+                    {isSaving ? 'Saving...' : record ? 'Save HR Record' : 'Create HR Record'}
+                </button>
+            </div>
+        </form>
+    );
+}
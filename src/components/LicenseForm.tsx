@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { addLicense, describeError, updateLicense } from '../lib/repository';
+import type { PractitionerLicense } from '../lib/repository';
+import { LICENSE_STATUSES, LICENSE_STATUS_LABELS, isLicenseStatus, toLicenseDraft, toLicenseInput, validateLicense } from '../utils/licenses';
+import type { LicenseDraft, LicenseErrors } from '../utils/licenses';
+
+interface LicenseFormProps {
+    personId: string;
+    license: PractitionerLicense | null;
+    onSaved: (license: PractitionerLicense) => void;
+    onCancel: () => void;
+}
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+const errorStyle = { fontSize: '0.8rem', color: 'var(--error-text)' };
+
+interface LicenseFieldsProps {
+    draft: LicenseDraft;
+    errors: LicenseErrors;
+    showErrors: boolean;
+    onChange: (field: keyof LicenseDraft, value: string) => void;
+    // A new hire's license is recorded as active
+    showStatus?: boolean;
+}
+
+// Inputs shared by the editor below and the Add Staff wizard.
+export function LicenseFields({ draft, errors, showErrors, onChange, showStatus = true }: LicenseFieldsProps) {
+    return (
+        <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.25rem' }}>
+                <div>
+                    <label style={labelStyle}>Regulatory Body</label>
+                    <input
+                        className="input-field"
+                        placeholder="e.g. College of Physiotherapists of Ontario"
+                        value={draft.regulatory_body}
+                        onChange={(e) => onChange('regulatory_body', e.target.value)}
+                    />
+                    {showErrors && errors.regulatory_body && <span style={errorStyle}>{errors.regulatory_body}</span>}
+                </div>
+                <div>
+                    <label style={labelStyle}>License Number</label>
+                    <input
+                        className="input-field"
+                        autoComplete="off"
+                        value={draft.license_number}
+                        onChange={(e) => onChange('license_number', e.target.value)}
+                    />
+                    {showErrors && errors.license_number && <span style={errorStyle}>{errors.license_number}</span>}
+                </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: showStatus ? '1fr 1fr 1fr' : '1fr 1fr', gap: '1.25rem' }}>
+                <div>
+                    <label style={labelStyle}>Issued</label>
+                    <input
+                        type="date"
+                        className="input-field"
+                        value={draft.issued_on}
+                        onChange={(e) => onChange('issued_on', e.target.value)}
+                    />
+                    {showErrors && errors.issued_on && <span style={errorStyle}>{errors.issued_on}</span>}
+                </div>
+                <div>
+                    <label style={labelStyle}>Expires</label>
+                    <input
+                        type="date"
+                        className="input-field"
+                        value={draft.expires_on}
+                        onChange={(e) => onChange('expires_on', e.target.value)}
+                    />
+                    {showErrors && errors.expires_on && <span style={errorStyle}>{errors.expires_on}</span>}
+                </div>
+                {showStatus && (
+                    <div>
+                        <label style={labelStyle}>Status</label>
+                        <select
+                            className="input-field"
+                            value={draft.status}
+                            onChange={(e) => onChange('status', e.target.value)}
+                        >
+                            {LICENSE_STATUSES.map(status => (
+                                <option key={status} value={status}>{LICENSE_STATUS_LABELS[status]}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
+
+// Adds or edits one of a provider's licenses, from the licenses panel on the profile page.
+export function LicenseForm({ personId, license, onSaved, onCancel }: LicenseFormProps) {
+    const [draft, setDraft] = useState<LicenseDraft>(() => toLicenseDraft(license));
+    const [showErrors, setShowErrors] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const errors = validateLicense(draft);
+    const hasErrors = Object.keys(errors).length > 0;
+
+    const update = (field: keyof LicenseDraft, value: string) => {
+        if (field === 'status' && !isLicenseStatus(value)) return;
+        setDraft(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasErrors) {
+            setShowErrors(true);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = license
+                ? await updateLicense(license.id, toLicenseInput(draft))
+                : await addLicense(personId, toLicenseInput(draft));
+            toast.success(license ? 'License updated.' : 'License added.');
+            onSaved(saved);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to save license: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} noValidate style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            <LicenseFields draft={draft} errors={errors} showErrors={showErrors} onChange={update} />
+
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                    style={{
+                        flex: 1,
+                        padding: '0.75rem',
+                        borderRadius: '8px',
+                        border: '1px solid #e2e8f0',
+                        backgroundColor: '#ffffff',
+                        color: '#475569',
+                        fontWeight: 600,
+                        cursor: isSaving ? 'not-allowed' : 'pointer'
+                    }}
+                >
+                    Cancel
+                </button>
+                <button type="submit" className="btn-primary" disabled={isSaving} style={{ flex: 1 }}>
+                    {isSaving ? 'Saving...' : license ? 'Save License' : 'Add License'}
+                </button>
+            </div>
+        </form>
+    );
+}
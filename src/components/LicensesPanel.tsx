@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, listLicenses, removeLicense } from '../lib/repository';
+import type { PractitionerLicense } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+import { EXPIRY_WINDOWS, LICENSE_STATUS_COLORS, LICENSE_STATUS_LABELS, daysUntil, describeExpiry, effectiveLicenseStatus } from '../utils/licenses';
+import { LicenseForm } from './LicenseForm';
+
+interface LicensesPanelProps {
+    personId: string;
+    canEdit: boolean;
+}
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600
+};
+
+const linkButtonStyle = {
+    background: 'none',
+    border: 'none',
+    color: 'var(--primary-600)',
+    fontWeight: 600,
+    fontSize: '0.85rem',
+    cursor: 'pointer',
+    padding: 0
+};
+
+// Reminders start at the widest window
+const REMINDER_DAYS = EXPIRY_WINDOWS[EXPIRY_WINDOWS.length - 1];
+
+// A provider's practitioner licenses on their profile page. Shown to the
+// provider, their manager and license administrators; hidden when there is
+// nothing to show and nothing the viewer could add.
+export function LicensesPanel({ personId, canEdit }: LicensesPanelProps) {
+    const [licenses, setLicenses] = useState<PractitionerLicense[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    // null: not editing; 'new': adding a license
+    const [editing, setEditing] = useState<PractitionerLicense | 'new' | null>(null);
+    const [removingId, setRemovingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        listLicenses(personId)
+            .then(loaded => {
+                if (!cancelled) setLicenses(loaded);
+            })
+            .catch(err => {
+                console.error(err);
+                if (!cancelled) toast.error('Failed to load licenses.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [personId]);
+
+    const reload = async () => {
+        setLicenses(await listLicenses(personId));
+    };
+
+    const handleSaved = async () => {
+        setEditing(null);
+        try {
+            await reload();
+        } catch (err) {
+            console.error(err);
+            toast.error('Failed to reload licenses.');
+        }
+    };
+
+    const handleRemove = async (license: PractitionerLicense) => {
+        if (!window.confirm(`Remove license ${license.license_number}? Mark it revoked instead to keep it on record.`)) return;
+
+        setRemovingId(license.id);
+        try {
+            await removeLicense(license);
+            await reload();
+            toast.success('License removed.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to remove the license: ${describeError(err)}`);
+        } finally {
+            setRemovingId(null);
+        }
+    };
+
+    if (isLoading || (!canEdit && licenses.length === 0)) return null;
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+                <div style={labelStyle}>Practitioner Licenses</div>
+                {canEdit && editing === null && (
+                    <button type="button" onClick={() => setEditing('new')} style={linkButtonStyle}>
+                        Add license
+                    </button>
+                )}
+            </div>
+
+            {editing === 'new' && (
+                <div style={{ marginBottom: '1.5rem' }}>
+                    <LicenseForm personId={personId} license={null} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+                </div>
+            )}
+
+            {licenses.length === 0 && editing === null && (
+                <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>No licenses on record.</p>
+            )}
+
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+                {licenses.map(license => {
+                    if (editing !== null && editing !== 'new' && editing.id === license.id) {
+                        return (
+                            <div key={license.id} style={{ padding: '1rem 0', borderTop: '1px solid var(--surface-border)' }}>
+                                <LicenseForm personId={personId} license={license} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+                            </div>
+                        );
+                    }
+
+                    const status = effectiveLicenseStatus(license);
+                    const days = license.expires_on ? daysUntil(license.expires_on) : null;
+                    const isDue = status === 'active' && days !== null && days <= REMINDER_DAYS;
+
+                    return (
+                        <div key={license.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', padding: '1rem 0', borderTop: '1px solid var(--surface-border)' }}>
+                            <div>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                                    <span style={{ fontWeight: 600, color: 'var(--text-main)' }}>{license.regulatory_body || 'Regulatory body not recorded'}</span>
+                                    <span style={{
+                                        backgroundColor: LICENSE_STATUS_COLORS[status].background,
+                                        color: LICENSE_STATUS_COLORS[status].color,
+                                        padding: '0.1rem 0.5rem',
+                                        borderRadius: '9999px',
+                                        fontSize: '0.7rem',
+                                        fontWeight: 600
+                                    }}>
+                                        {LICENSE_STATUS_LABELS[status]}
+                                    </span>
+                                </div>
+                                <div style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                                    No. {license.license_number}
+                                    {license.issued_on && ` · Issued ${formatDateOnly(license.issued_on)}`}
+                                    {license.expires_on ? ` · Expires ${formatDateOnly(license.expires_on)}` : ' · No expiry date recorded'}
+                                </div>
+                                {isDue && days !== null && (
+                                    <div style={{ color: days <= EXPIRY_WINDOWS[0] ? '#b91c1c' : '#b45309', fontSize: '0.85rem', fontWeight: 600, marginTop: '0.25rem' }}>
+                                        {describeExpiry(days)}
+                                    </div>
+                                )}
+                            </div>
+                            {canEdit && editing === null && (
+                                <div style={{ display: 'flex', gap: '1rem' }}>
+                                    <button type="button" onClick={() => setEditing(license)} style={linkButtonStyle}>Edit</button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRemove(license)}
+                                        disabled={removingId !== null}
+                                        style={{ ...linkButtonStyle, color: '#dc2626', cursor: removingId !== null ? 'not-allowed' : 'pointer' }}
+                                    >
+                                        {removingId === license.id ? 'Removing...' : 'Remove'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
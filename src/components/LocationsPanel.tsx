@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, mergeLocations, renameLocation, upsertLocation } from '../lib/repository';
+import type { ClinicLocation } from '../lib/repository';
+
+interface LocationsPanelProps {
+    locations: ClinicLocation[];
+    onChange: () => Promise<void>;
+}
+
+// Admin CRUD for clinic locations. Renames and merges rewrite staff_profiles.clinic_locations
+// in the database; locations are archived, never deleted.
+export function LocationsPanel({ locations, onChange }: LocationsPanelProps) {
+    const [editingName, setEditingName] = useState<string | null>(null);
+    const [editValue, setEditValue] = useState('');
+    const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+    const [newName, setNewName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activeLocations = locations.filter(l => !l.archived_at);
+
+    const run = async (action: () => Promise<unknown>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            await onChange();
+            toast.success(successMessage);
+            return true;
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to update locations: ${describeError(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRename = async (loc: ClinicLocation) => {
+        const name = editValue.trim();
+        if (!name || name === loc.name) {
+            setEditingName(null);
+            return;
+        }
+        const ok = await run(() => renameLocation(loc.name, name), `Renamed ${loc.name} to ${name}.`);
+        if (ok) setEditingName(null);
+    };
+
+    const handleMerge = (loc: ClinicLocation) => {
+        const target = mergeTargets[loc.name];
+        if (!target) return;
+        if (!window.confirm(`Move everyone at ${loc.name} to ${target} and archive ${loc.name}?`)) return;
+        run(() => mergeLocations(loc.name, target), `Merged ${loc.name} into ${target}.`);
+    };
+
+    const handleArchiveToggle = (loc: ClinicLocation) => {
+        const archived_at = loc.archived_at ? null : new Date().toISOString();
+        run(() => upsertLocation({ ...loc, archived_at }), loc.archived_at ? `Restored ${loc.name}.` : `Archived ${loc.name}.`);
+    };
+
+    const handleHeadquartersToggle = (loc: ClinicLocation) => {
+        run(() => upsertLocation({ ...loc, is_headquarters: !loc.is_headquarters }), `Updated ${loc.name}.`);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) return;
+        if (locations.some(l => l.name.toLowerCase() === name.toLowerCase())) {
+            toast.error(`${name} already exists.`);
+            return;
+        }
+        const lastOrder = locations.reduce((max, l) => Math.max(max, l.sort_order), 0);
+        const ok = await run(() => upsertLocation({ name, sort_order: lastOrder + 10 }), 'Location added.');
+        if (ok) setNewName('');
+    };
+
+    const buttonStyle = {
+        backgroundColor: 'transparent',
+        border: '1px solid var(--surface-border)',
+        color: 'var(--text-main)',
+        padding: '0.35rem 0.75rem',
+        borderRadius: '6px',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        cursor: isSaving ? 'not-allowed' : 'pointer',
+    };
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', marginBottom: '2rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '0.5rem' }}>Clinic Locations</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem', fontSize: '0.95rem' }}>
+                Managers based at a headquarters location can see staff at every clinic.
+            </p>
+
+            <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Location</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Headquarters?</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Status</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Merge Into</th>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {locations.map(loc => (
+                            <tr key={loc.name} style={{ borderBottom: '1px solid var(--surface-border)', opacity: loc.archived_at ? 0.6 : 1 }}>
+                                <td style={{ padding: '1rem', fontWeight: 500, color: 'var(--text-main)' }}>
+                                    {editingName === loc.name ? (
+                                        <input
+                                            type="text"
+                                            value={editValue}
+                                            onChange={(e) => setEditValue(e.target.value)}
+                                            className="input-field"
+                                            style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '200px' }}
+                                        />
+                                    ) : loc.name}
+                                </td>
+                                <td style={{ padding: '1rem' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={loc.is_headquarters}
+                                        disabled={isSaving}
+                                        onChange={() => handleHeadquartersToggle(loc)}
+                                        style={{ width: '18px', height: '18px', cursor: isSaving ? 'not-allowed' : 'pointer' }}
+                                    />
+                                </td>
+                                <td style={{ padding: '1rem', fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                                    {loc.archived_at ? `Archived ${new Date(loc.archived_at).toLocaleDateString()}` : 'Active'}
+                                </td>
+                                <td style={{ padding: '1rem' }}>
+                                    {!loc.archived_at && (
+                                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                            <select
+                                                className="input-field"
+                                                value={mergeTargets[loc.name] || ''}
+                                                onChange={(e) => setMergeTargets({ ...mergeTargets, [loc.name]: e.target.value })}
+                                                style={{ padding: '0.35rem', fontSize: '0.85rem', maxWidth: '160px' }}
+                                            >
+                                                <option value="">Select…</option>
+                                                {activeLocations.filter(l => l.name !== loc.name).map(l => (
+                                                    <option key={l.name} value={l.name}>{l.name}</option>
+                                                ))}
+                                            </select>
+                                            <button onClick={() => handleMerge(loc)} disabled={isSaving || !mergeTargets[loc.name]} style={buttonStyle}>
+                                                Merge
+                                            </button>
+                                        </div>
+                                    )}
+                                </td>
+                                <td style={{ padding: '1rem', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                                    <div style={{ display: 'inline-flex', gap: '0.5rem' }}>
+                                        {editingName === loc.name ? (
+                                            <>
+                                                <button onClick={() => handleRename(loc)} disabled={isSaving} style={{ ...buttonStyle, borderColor: 'var(--primary-600)', color: 'var(--primary-600)' }}>Save</button>
+                                                <button onClick={() => setEditingName(null)} disabled={isSaving} style={buttonStyle}>Cancel</button>
+                                            </>
+                                        ) : (
+                                            <button onClick={() => { setEditingName(loc.name); setEditValue(loc.name); }} disabled={isSaving} style={buttonStyle}>Rename</button>
+                                        )}
+                                        <button onClick={() => handleArchiveToggle(loc)} disabled={isSaving} style={buttonStyle}>
+                                            {loc.archived_at ? 'Restore' : 'Archive'}
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem', alignItems: 'center' }}>
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="input-field"
+                    placeholder="New clinic location"
+                    style={{ padding: '0.5rem', fontSize: '0.9rem', maxWidth: '300px' }}
+                />
+                <button type="submit" className="btn-primary" disabled={isSaving || !newName.trim()} style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                    Add Location
+                </button>
+            </form>
+        </div>
+    );
+}
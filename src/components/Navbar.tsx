@@ -1,28 +1,13 @@
 import { Link, useLocation } from 'react-router-dom';
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { useCurrentStaff } from '../lib/currentStaff';
+import { canAccessAdmin } from '../lib/roles';
+import { NotificationBell } from './NotificationBell';
 
 export function Navbar() {
     const location = useLocation();
-    const [isExecutive, setIsExecutive] = useState(false);
+    const { capabilities } = useCurrentStaff();
 
-    useEffect(() => {
-        const checkExecutiveStatus = async () => {
-            const { data: { user } } = await supabase.auth.getUser();
-            if (user) {
-                const { data: profile } = await supabase
-                    .from('staff_profiles')
-                    .select('role')
-                    .eq('id', user.id)
-                    .single();
-
-                if (profile?.role?.includes('executive')) {
-                    setIsExecutive(true);
-                }
-            }
-        };
-        checkExecutiveStatus();
-    }, []);
+    const canAdminister = canAccessAdmin(capabilities);
 
     const isProfileActive = location.pathname === '/' || location.pathname === '/dashboard';
 
@@ -64,7 +49,7 @@ export function Navbar() {
                     to="/directory"
                     style={{
                         textDecoration: 'none',
-                        color: location.pathname === '/directory' ? 'var(--primary-600)' : 'var(--text-muted)',
+                        color: location.pathname.startsWith('/directory') ? 'var(--primary-600)' : 'var(--text-muted)',
                         fontWeight: 600,
                         fontSize: '0.95rem',
                         transition: 'color 0.2s ease'
@@ -72,7 +57,89 @@ export function Navbar() {
                 >
                     Directory
                 </Link>
-                {isExecutive && (
+                <Link
+                    to="/org-chart"
+                    style={{
+                        textDecoration: 'none',
+                        color: location.pathname === '/org-chart' ? 'var(--primary-600)' : 'var(--text-muted)',
+                        fontWeight: 600,
+                        fontSize: '0.95rem',
+                        transition: 'color 0.2s ease'
+                    }}
+                >
+                    Org Chart
+                </Link>
+                {capabilities.has('inviteStaff') && (
+                    <Link
+                        to="/invitations"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/invitations' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        New Hires
+                    </Link>
+                )}
+                {capabilities.has('offboardStaff') && (
+                    <Link
+                        to="/departures"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/departures' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        Departures
+                    </Link>
+                )}
+                {capabilities.has('reviewProfileChanges') && (
+                    <Link
+                        to="/approvals"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/approvals' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        Approvals
+                    </Link>
+                )}
+                {(capabilities.has('viewLicenses') || capabilities.has('manageLicenses')) && (
+                    <Link
+                        to="/licenses"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/licenses' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        Licenses
+                    </Link>
+                )}
+                {capabilities.has('viewCompliance') && (
+                    <Link
+                        to="/compliance"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/compliance' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        Compliance
+                    </Link>
+                )}
+                {canAdminister && (
                     <Link
                         to="/admin"
                         style={{
@@ -93,6 +160,21 @@ export function Navbar() {
                         Admin Settings
                     </Link>
                 )}
+                {capabilities.has('viewAuditLog') && (
+                    <Link
+                        to="/audit-log"
+                        style={{
+                            textDecoration: 'none',
+                            color: location.pathname === '/audit-log' ? 'var(--primary-600)' : 'var(--text-muted)',
+                            fontWeight: 600,
+                            fontSize: '0.95rem',
+                            transition: 'color 0.2s ease'
+                        }}
+                    >
+                        Audit Log
+                    </Link>
+                )}
+                <NotificationBell />
             </div>
         </nav>
     );
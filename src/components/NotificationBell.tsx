@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { listMyNotifications, markNotificationsRead } from '../lib/repository';
+import type { Notification } from '../lib/repository';
+
+// The unread ones stay highlighted while the list is open and are shown as read
+// once it closes.
+const markShownRead = (list: Notification[]) => {
+    const now = new Date().toISOString();
+    return list.map(n => n.read_at ? n : { ...n, read_at: now });
+};
+
+// In-app notifications (license reminders) in the Navbar. Reloaded on every
+// navigation; opening the list marks what it shows as read.
+export function NotificationBell() {
+    const location = useLocation();
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        listMyNotifications()
+            .then(loaded => {
+                if (!cancelled) setNotifications(loaded);
+            })
+            .catch(err => console.error(err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [location.pathname]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current?.contains(e.target as Node)) return;
+            setIsOpen(false);
+            setNotifications(markShownRead);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const unread = notifications.filter(n => !n.read_at);
+
+    const handleClose = () => {
+        setIsOpen(false);
+        setNotifications(markShownRead);
+    };
+
+    const handleToggle = async () => {
+        if (isOpen) {
+            handleClose();
+            return;
+        }
+
+        setIsOpen(true);
+        if (unread.length === 0) return;
+        try {
+            await markNotificationsRead(unread.map(n => n.id));
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    return (
+        <div ref={containerRef} style={{ position: 'relative' }}>
+            <button
+                type="button"
+                onClick={handleToggle}
+                aria-label={unread.length > 0 ? `Notifications, ${unread.length} unread` : 'Notifications'}
+                aria-expanded={isOpen}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--text-muted)', display: 'flex', position: 'relative', padding: 0 }}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"></path><path d="M13.73 21a2 2 0 0 1-3.46 0"></path></svg>
+                {unread.length > 0 && (
+                    <span style={{
+                        position: 'absolute',
+                        top: '-6px',
+                        right: '-8px',
+                        backgroundColor: '#dc2626',
+                        color: 'white',
+                        borderRadius: '9999px',
+                        fontSize: '0.65rem',
+                        fontWeight: 700,
+                        minWidth: '16px',
+                        height: '16px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        padding: '0 4px'
+                    }}>
+                        {unread.length > 9 ? '9+' : unread.length}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div style={{
+                    position: 'absolute',
+                    right: 0,
+                    top: 'calc(100% + 0.75rem)',
+                    width: '340px',
+                    maxHeight: '420px',
+                    overflowY: 'auto',
+                    backgroundColor: 'white',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+                    border: '1px solid var(--surface-border)',
+                    zIndex: 60
+                }}>
+                    {notifications.length === 0 ? (
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem', padding: '1.25rem', textAlign: 'center', margin: 0 }}>
+                            No notifications.
+                        </p>
+                    ) : (
+                        notifications.map(notification => {
+                            const content = (
+                                <>
+                                    <div style={{ fontWeight: 600, color: 'var(--text-main)', fontSize: '0.9rem' }}>{notification.title}</div>
+                                    {notification.body && <div style={{ color: 'var(--text-muted)', fontSize: '0.85rem', marginTop: '0.15rem' }}>{notification.body}</div>}
+                                    <div style={{ color: 'var(--text-light)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                                        {new Date(notification.created_at).toLocaleDateString()}
+                                    </div>
+                                </>
+                            );
+                            const itemStyle = {
+                                display: 'block',
+                                padding: '0.75rem 1rem',
+                                borderBottom: '1px solid var(--surface-border)',
+                                backgroundColor: notification.read_at ? 'white' : '#eff6ff',
+                                textDecoration: 'none'
+                            };
+                            return notification.link ? (
+                                <Link key={notification.id} to={notification.link} onClick={handleClose} style={itemStyle}>{content}</Link>
+                            ) : (
+                                <div key={notification.id} style={itemStyle}>{content}</div>
+                            );
+                        })
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, offboardStaff } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+
+interface OffboardingFormProps {
+    personId: string;
+    personName: string;
+    onClose: () => void;
+    // effectiveNow is true when the end date has already arrived
+    onOffboarded: (effectiveNow: boolean) => void;
+}
+
+// Saved as the person's employment_status
+const DEPARTURE_REASONS = ['Resigned', 'Terminated', 'Retired', 'Contract Ended'];
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600,
+    display: 'block'
+};
+
+const todayIso = () => {
+    const now = new Date();
+    return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+// Records a departure from the staff profile page.
+export function OffboardingForm({ personId, personName, onClose, onOffboarded }: OffboardingFormProps) {
+    const [endDate, setEndDate] = useState(todayIso);
+    const [reason, setReason] = useState(DEPARTURE_REASONS[0]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const effectiveNow = endDate <= todayIso();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!endDate) return;
+
+        setIsSaving(true);
+        try {
+            await offboardStaff(personId, endDate, reason);
+            toast.success(effectiveNow
+                ? `${personName} has been offboarded.`
+                : `${personName}'s departure is scheduled for ${formatDateOnly(endDate)}.`);
+            onOffboarded(effectiveNow);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to offboard: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(15, 23, 42, 0.4)',
+            backdropFilter: 'blur(4px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 50,
+            padding: '1rem',
+            animation: 'fade-in 0.2s ease-out'
+        }} onClick={isSaving ? undefined : onClose}>
+            <form
+                onSubmit={handleSubmit}
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                    backgroundColor: 'white',
+                    borderRadius: '16px',
+                    width: '100%',
+                    maxWidth: '460px',
+                    padding: '2rem',
+                    boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '1.25rem',
+                    animation: 'slide-up 0.3s cubic-bezier(0.16, 1, 0.3, 1)'
+                }}
+            >
+                <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)' }}>Offboard {personName}</h2>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                    <div>
+                        <label style={labelStyle}>Last Day</label>
+                        <input type="date" className="input-field" value={endDate} onChange={(e) => setEndDate(e.target.value)} required />
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Reason</label>
+                        <select className="input-field" value={reason} onChange={(e) => setReason(e.target.value)}>
+                            {DEPARTURE_REASONS.map(r => (
+                                <option key={r} value={r}>{r}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <p style={{
+                    fontSize: '0.85rem',
+                    lineHeight: 1.5,
+                    color: '#991b1b',
+                    backgroundColor: '#fef2f2',
+                    padding: '0.75rem 1rem',
+                    borderRadius: '8px'
+                }}>
+                    {effectiveNow ? 'Straight away' : 'On this date'}, {personName} will be hidden from the Directory and
+                    will no longer be able to sign in. Their profile, HR file and history are kept.
+                </p>
+
+                <div style={{ display: 'flex', gap: '0.75rem' }}>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={isSaving}
+                        style={{
+                            flex: 1,
+                            padding: '0.75rem',
+                            borderRadius: '8px',
+                            border: '1px solid #e2e8f0',
+                            backgroundColor: '#ffffff',
+                            color: '#475569',
+                            fontWeight: 600,
+                            cursor: isSaving ? 'not-allowed' : 'pointer'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isSaving || !endDate}
+                        style={{
+                            flex: 1,
+                            padding: '0.75rem',
+                            borderRadius: '8px',
+                            border: 'none',
+                            backgroundColor: '#dc2626',
+                            color: '#ffffff',
+                            fontWeight: 600,
+                            cursor: isSaving ? 'not-allowed' : 'pointer',
+                            opacity: isSaving ? 0.7 : 1
+                        }}
+                    >
+                        {isSaving ? 'Saving...' : effectiveNow ? 'Offboard Now' : 'Schedule Departure'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,27 @@
+import { checkPasswordStrength } from '../utils/passwordPolicy';
+
+// Live checklist of the password policy rules shown under a new-password field.
+export function PasswordChecklist({ password, email }: { password: string; email?: string }) {
+    const rules = checkPasswordStrength(password, email);
+
+    return (
+        <ul style={{ listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.25rem', marginTop: '0.5rem' }}>
+            {rules.map(rule => (
+                <li key={rule.label} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.4rem',
+                    fontSize: '0.8rem',
+                    color: rule.met ? '#15803d' : 'var(--text-muted)'
+                }}>
+                    {rule.met ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>
+                    ) : (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="9"></circle></svg>
+                    )}
+                    {rule.label}
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { cropToBlob, loadImage } from '../utils/imageCrop';
+
+interface PhotoCropperProps {
+    file: File;
+    onCancel: () => void;
+    onConfirm: (photo: Blob) => Promise<void>;
+}
+
+const VIEWPORT = 280;
+const MAX_ZOOM = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Square crop with drag-to-pan and a zoom slider. The image always covers the
+// viewport, so the result never has empty edges.
+export function PhotoCropper({ file, onCancel, onConfirm }: PhotoCropperProps) {
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [zoom, setZoom] = useState(1);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const [isSaving, setIsSaving] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const url = URL.createObjectURL(file);
+        loadImage(url)
+            .then(loaded => {
+                if (cancelled) return;
+                const scale = VIEWPORT / Math.min(loaded.naturalWidth, loaded.naturalHeight);
+                setImage(loaded);
+                setOffset({
+                    x: (VIEWPORT - loaded.naturalWidth * scale) / 2,
+                    y: (VIEWPORT - loaded.naturalHeight * scale) / 2
+                });
+            })
+            .catch(err => {
+                if (!cancelled) setLoadError(err.message);
+            });
+        return () => {
+            cancelled = true;
+            URL.revokeObjectURL(url);
+        };
+    }, [file]);
+
+    const scale = image ? (VIEWPORT / Math.min(image.naturalWidth, image.naturalHeight)) * zoom : 1;
+    const width = image ? image.naturalWidth * scale : VIEWPORT;
+    const height = image ? image.naturalHeight * scale : VIEWPORT;
+
+    const clampOffset = (x: number, y: number, w = width, h = height) => ({
+        x: clamp(x, VIEWPORT - w, 0),
+        y: clamp(y, VIEWPORT - h, 0)
+    });
+
+    const handleZoom = (nextZoom: number) => {
+        if (!image) return;
+        // Zoom around the centre of the viewport
+        const nextScale = (VIEWPORT / Math.min(image.naturalWidth, image.naturalHeight)) * nextZoom;
+        const ratio = nextScale / scale;
+        const centre = VIEWPORT / 2;
+        setOffset(clampOffset(
+            centre - (centre - offset.x) * ratio,
+            centre - (centre - offset.y) * ratio,
+            image.naturalWidth * nextScale,
+            image.naturalHeight * nextScale
+        ));
+        setZoom(nextZoom);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, ...offset };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        if (!start) return;
+        setOffset(clampOffset(start.x + e.clientX - start.pointerX, start.y + e.clientY - start.pointerY));
+    };
+
+    const handleConfirm = async () => {
+        if (!image) return;
+        setIsSaving(true);
+        try {
+            const photo = await cropToBlob(image, {
+                x: -offset.x / scale,
+                y: -offset.y / scale,
+                size: VIEWPORT / scale
+            });
+            await onConfirm(photo);
+        } catch (err) {
+            console.error(err);
+            toast.error(err instanceof Error ? err.message : 'The photo could not be saved.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(15, 23, 42, 0.4)',
+            backdropFilter: 'blur(4px)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 60,
+            padding: '1rem'
+        }} onClick={isSaving ? undefined : onCancel}>
+            <div
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                    backgroundColor: 'white',
+                    borderRadius: '16px',
+                    padding: '2rem',
+                    boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: '1.25rem'
+                }}
+            >
+                <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)' }}>Crop Photo</h2>
+
+                <div
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => { dragStart.current = null; }}
+                    style={{
+                        position: 'relative',
+                        width: `${VIEWPORT}px`,
+                        height: `${VIEWPORT}px`,
+                        overflow: 'hidden',
+                        borderRadius: '50%',
+                        backgroundColor: '#f1f5f9',
+                        cursor: image ? 'grab' : 'default',
+                        touchAction: 'none',
+                        userSelect: 'none'
+                    }}
+                >
+                    {image && (
+                        <img
+                            src={image.src}
+                            alt="Photo being cropped"
+                            draggable={false}
+                            style={{
+                                position: 'absolute',
+                                left: `${offset.x}px`,
+                                top: `${offset.y}px`,
+                                width: `${width}px`,
+                                height: `${height}px`,
+                                maxWidth: 'none',
+                                pointerEvents: 'none'
+                            }}
+                        />
+                    )}
+                </div>
+
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', width: '100%', fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                    Zoom
+                    <input
+                        type="range"
+                        min={1}
+                        max={MAX_ZOOM}
+                        step={0.01}
+                        value={zoom}
+                        onChange={(e) => handleZoom(Number(e.target.value))}
+                        disabled={!image}
+                        style={{ flex: 1 }}
+                    />
+                </label>
+                <p style={{ fontSize: '0.8rem', color: loadError ? 'var(--error-text)' : 'var(--text-light)' }}>
+                    {loadError || 'Drag the photo to position it.'}
+                </p>
+
+                <div style={{ display: 'flex', gap: '0.75rem', width: '100%' }}>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        disabled={isSaving}
+                        style={{
+                            flex: 1,
+                            padding: '0.75rem',
+                            borderRadius: '8px',
+                            border: '1px solid #e2e8f0',
+                            backgroundColor: '#ffffff',
+                            color: '#475569',
+                            fontWeight: 600,
+                            cursor: isSaving ? 'not-allowed' : 'pointer'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button type="button" className="btn-primary" onClick={handleConfirm} disabled={!image || isSaving} style={{ flex: 1 }}>
+                        {isSaving ? 'Uploading...' : 'Save Photo'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
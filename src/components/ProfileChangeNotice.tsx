@@ -0,0 +1,63 @@
+import type { ProfileChangeRequest } from '../lib/repository';
+import { isRecentlyRejected, profileChangeRows } from '../utils/profileChanges';
+
+interface ProfileChangeNoticeProps {
+    request: ProfileChangeRequest | null;
+    onWithdraw: () => void;
+    isWithdrawing: boolean;
+}
+
+// Status of the employee's latest name change request, on their own profile.
+export function ProfileChangeNotice({ request, onWithdraw, isWithdrawing }: ProfileChangeNoticeProps) {
+    if (!request) return null;
+
+    const isPending = request.status === 'pending';
+    if (!isPending && !isRecentlyRejected(request)) return null;
+
+    const rows = profileChangeRows(request.changes, request.previous);
+
+    return (
+        <div role="status" style={{
+            backgroundColor: isPending ? '#fffbeb' : '#fef2f2',
+            border: `1px solid ${isPending ? '#fde68a' : '#fecaca'}`,
+            borderRadius: '12px',
+            padding: '1rem 1.25rem',
+            marginBottom: '1.5rem',
+            textAlign: 'left'
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem' }}>
+                <span style={{ fontWeight: 600, color: isPending ? '#92400e' : '#991b1b' }}>
+                    {isPending ? 'Name change awaiting HR approval' : 'Your name change was not approved'}
+                </span>
+                {isPending && (
+                    <button
+                        type="button"
+                        onClick={onWithdraw}
+                        disabled={isWithdrawing}
+                        style={{ background: 'none', border: 'none', color: '#92400e', fontWeight: 600, fontSize: '0.85rem', cursor: isWithdrawing ? 'not-allowed' : 'pointer' }}
+                    >
+                        {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+                    </button>
+                )}
+            </div>
+            <ul style={{ margin: 0, paddingLeft: '1.25rem', color: 'var(--text-main)', fontSize: '0.9rem' }}>
+                {rows.map(row => (
+                    <li key={row.field}>
+                        {row.label}: <span style={{ color: 'var(--text-muted)' }}>{row.before || 'blank'}</span> → <strong>{row.after || 'blank'}</strong>
+                    </li>
+                ))}
+            </ul>
+            {isPending ? (
+                <p style={{ margin: '0.5rem 0 0', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                    Requested {new Date(request.requested_at).toLocaleDateString()}. Your profile shows your current name until it is approved.
+                </p>
+            ) : (
+                request.review_comment && (
+                    <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: '#991b1b' }}>
+                        HR: {request.review_comment}
+                    </p>
+                )
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,88 @@
+import { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, removeProfilePhoto, uploadProfilePhoto } from '../lib/repository';
+import type { StaffProfile } from '../lib/repository';
+import { PhotoCropper } from './PhotoCropper';
+
+interface ProfilePhotoActionsProps {
+    personId: string;
+    hasPhoto: boolean;
+    onChange: (profile: StaffProfile) => void;
+}
+
+// Larger originals are fine since they are cropped and resized before upload.
+const MAX_SOURCE_BYTES = 15 * 1024 * 1024;
+
+const linkButtonStyle = {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: 'var(--primary-600)',
+    fontSize: '0.8rem',
+    fontWeight: 600,
+    cursor: 'pointer'
+};
+
+// Upload / replace / remove links for a profile photo. Used on the Dashboard for
+// your own photo and in the Directory by those with managePhotos.
+export function ProfilePhotoActions({ personId, hasPhoto, onChange }: ProfilePhotoActionsProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [isRemoving, setIsRemoving] = useState(false);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+
+        if (!selected.type.startsWith('image/')) {
+            toast.error('Please choose an image file.');
+            return;
+        }
+        if (selected.size > MAX_SOURCE_BYTES) {
+            toast.error('This image is too large. Please choose one under 15 MB.');
+            return;
+        }
+        setFile(selected);
+    };
+
+    const handleUpload = async (photo: Blob) => {
+        try {
+            onChange(await uploadProfilePhoto(personId, photo));
+            setFile(null);
+            toast.success('Photo updated.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to upload photo: ${describeError(err)}`);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!window.confirm('Remove this profile photo?')) return;
+        setIsRemoving(true);
+        try {
+            onChange(await removeProfilePhoto(personId));
+            toast.success('Photo removed.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to remove photo: ${describeError(err)}`);
+        } finally {
+            setIsRemoving(false);
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', justifyContent: 'center' }}>
+            <input ref={inputRef} type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFileChange} style={{ display: 'none' }} />
+            <button type="button" onClick={() => inputRef.current?.click()} style={linkButtonStyle}>
+                {hasPhoto ? 'Replace photo' : 'Upload photo'}
+            </button>
+            {hasPhoto && (
+                <button type="button" onClick={handleRemove} disabled={isRemoving} style={{ ...linkButtonStyle, color: 'var(--error-text)' }}>
+                    {isRemoving ? 'Removing...' : 'Remove photo'}
+                </button>
+            )}
+            {file && <PhotoCropper file={file} onCancel={() => setFile(null)} onConfirm={handleUpload} />}
+        </div>
+    );
+}
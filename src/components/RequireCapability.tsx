@@ -0,0 +1,29 @@
+import { Link, Outlet } from 'react-router-dom';
+import { hasAnyCapability, useCurrentStaff } from '../lib/currentStaff';
+import type { Capability } from '../lib/roles';
+
+// Layout route for pages that need one of the listed capabilities. Staff without
+// them get a 403 in place of the page (also when a role change removes access
+// while the page is open). Signing in is handled by ProtectedLayout above it.
+export function RequireCapability({ anyOf }: { anyOf: Capability[] }) {
+    const { capabilities } = useCurrentStaff();
+
+    if (hasAnyCapability(capabilities, anyOf)) return <Outlet />;
+
+    return (
+        <div style={{ maxWidth: '600px', margin: '4rem auto', padding: '0 2rem' }}>
+            <div className="glass-panel" style={{ padding: '2.5rem', borderRadius: '16px', textAlign: 'center' }}>
+                <div style={{ fontSize: '3rem', fontWeight: 700, color: 'var(--text-light)', letterSpacing: '-0.025em' }}>403</div>
+                <h1 style={{ fontSize: '1.5rem', fontWeight: 600, color: 'var(--text-main)', margin: '0.5rem 0' }}>
+                    You don't have access to this page
+                </h1>
+                <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem' }}>
+                    Your role doesn't include it. Ask an administrator if you think it should.
+                </p>
+                <Link to="/dashboard" className="btn-primary" style={{ display: 'inline-block', width: 'auto', padding: '0.6rem 1.5rem', textDecoration: 'none' }}>
+                    Back to My Profile
+                </Link>
+            </div>
+        </div>
+    );
+}
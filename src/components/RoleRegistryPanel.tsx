@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeError, upsertRole } from '../lib/repository';
+import { CAPABILITIES, CAPABILITY_LABELS } from '../lib/roles';
+import type { Capability, RoleDefinition } from '../lib/roles';
+
+interface RoleRegistryPanelProps {
+    roles: RoleDefinition[];
+    onChange: () => Promise<void>;
+}
+
+// Admin editor for the role registry: labels, capabilities and new roles.
+export function RoleRegistryPanel({ roles, onChange }: RoleRegistryPanelProps) {
+    const [newKey, setNewKey] = useState('');
+    const [newLabel, setNewLabel] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const saveRole = async (role: RoleDefinition, changes: Partial<RoleDefinition>, successMessage: string) => {
+        setIsSaving(true);
+        try {
+            await upsertRole({ ...role, ...changes });
+            await onChange();
+            toast.success(successMessage);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to update role: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleCapability = (role: RoleDefinition, capability: Capability) => {
+        const capabilities = role.capabilities.includes(capability)
+            ? role.capabilities.filter(c => c !== capability)
+            : [...role.capabilities, capability];
+        saveRole(role, { capabilities }, `Updated ${role.label}.`);
+    };
+
+    const handleRenameRole = (role: RoleDefinition, label: string) => {
+        const trimmed = label.trim();
+        if (!trimmed || trimmed === role.label) return;
+        saveRole(role, { label: trimmed }, `Renamed role to ${trimmed}.`);
+    };
+
+    const handleAddRole = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = newKey.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+        if (!key || !newLabel.trim()) return;
+        if (roles.some(r => r.key === key)) {
+            toast.error(`A role with the key "${key}" already exists.`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const lastOrder = roles.reduce((max, r) => Math.max(max, r.sort_order), 0);
+            await upsertRole({ key, label: newLabel.trim(), capabilities: [], sort_order: lastOrder + 10 });
+            await onChange();
+            setNewKey('');
+            setNewLabel('');
+            toast.success('Role added.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to add role: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', marginBottom: '2rem' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '0.5rem' }}>Roles & Capabilities</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem', fontSize: '0.95rem' }}>
+                Capabilities decide what each role can do across Phoenix Hub. Staff with several roles get every capability their roles grant.
+            </p>
+
+            <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Role</th>
+                            {CAPABILITIES.map(cap => (
+                                <th key={cap} title={CAPABILITY_LABELS[cap].description} style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600', fontSize: '0.85rem' }}>
+                                    {CAPABILITY_LABELS[cap].label}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {roles.map(role => (
+                            <tr key={role.key} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                <td style={{ padding: '1rem', minWidth: '200px' }}>
+                                    <input
+                                        key={role.label}
+                                        type="text"
+                                        defaultValue={role.label}
+                                        onBlur={(e) => handleRenameRole(role, e.target.value)}
+                                        className="input-field"
+                                        disabled={isSaving}
+                                        style={{ padding: '0.5rem', fontSize: '0.9rem', fontWeight: 500 }}
+                                    />
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--text-light)', marginTop: '0.25rem', fontFamily: 'monospace' }}>{role.key}</div>
+                                </td>
+                                {CAPABILITIES.map(cap => (
+                                    <td key={cap} style={{ padding: '1rem' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={role.capabilities.includes(cap)}
+                                            disabled={isSaving}
+                                            onChange={() => handleToggleCapability(role, cap)}
+                                            style={{ width: '18px', height: '18px', cursor: isSaving ? 'not-allowed' : 'pointer' }}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleAddRole} style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+                <div style={{ flex: '1 1 200px' }}>
+                    <label style={{ display: 'block', fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-light)', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Role Key</label>
+                    <input
+                        type="text"
+                        value={newKey}
+                        onChange={(e) => setNewKey(e.target.value)}
+                        className="input-field"
+                        placeholder="e.g. front_desk"
+                        style={{ padding: '0.5rem', fontSize: '0.9rem' }}
+                    />
+                </div>
+                <div style={{ flex: '1 1 200px' }}>
+                    <label style={{ display: 'block', fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-light)', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.25rem' }}>Display Label</label>
+                    <input
+                        type="text"
+                        value={newLabel}
+                        onChange={(e) => setNewLabel(e.target.value)}
+                        className="input-field"
+                        placeholder="e.g. Front Desk"
+                        style={{ padding: '0.5rem', fontSize: '0.9rem' }}
+                    />
+                </div>
+                <button
+                    type="submit"
+                    className="btn-primary"
+                    disabled={isSaving || !newKey.trim() || !newLabel.trim()}
+                    style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}
+                >
+                    Add Role
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+
+// How long a revealed value stays on screen, and a copied value on the clipboard.
+const REVEAL_TIMEOUT_MS = 30_000;
+const CLIPBOARD_CLEAR_MS = 30_000;
+// After a successful password check, further reveals in this window don't ask again.
+const REAUTH_GRACE_MS = 5 * 60_000;
+
+let lastVerifiedAt = 0;
+
+interface SensitiveValueProps {
+    value: string | null;
+    label: string;
+    mask: (value: string) => string;
+    format?: (value: string) => string;
+    requirePassword?: boolean;
+    monospace?: boolean;
+}
+
+// Clears the clipboard later, unless the user has copied something else since.
+// If the browser won't let us read the clipboard we clear it anyway.
+const scheduleClipboardClear = (copied: string) => {
+    window.setTimeout(async () => {
+        try {
+            if (await navigator.clipboard.readText() !== copied) return;
+        } catch {
+            // Reading needs a permission some browsers never grant; fall through and clear.
+        }
+        navigator.clipboard.writeText('').catch(() => undefined);
+    }, CLIPBOARD_CLEAR_MS);
+};
+
+// A confidential value (SIN, date of birth, phone) that is masked until the user
+// explicitly reveals it, and masks itself again after REVEAL_TIMEOUT_MS.
+export function SensitiveValue({ value, label, mask, format = (v) => v, requirePassword = false, monospace = false }: SensitiveValueProps) {
+    const [isRevealed, setIsRevealed] = useState(false);
+    const [isAskingPassword, setIsAskingPassword] = useState(false);
+    const [password, setPassword] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+    const hideTimer = useRef<number | null>(null);
+
+    useEffect(() => () => {
+        if (hideTimer.current) window.clearTimeout(hideTimer.current);
+    }, []);
+
+    if (!value) {
+        return <span style={{ color: 'var(--text-main)', fontWeight: 500 }}>N/A</span>;
+    }
+
+    const reveal = () => {
+        setIsRevealed(true);
+        setIsAskingPassword(false);
+        setPassword('');
+        if (hideTimer.current) window.clearTimeout(hideTimer.current);
+        hideTimer.current = window.setTimeout(() => setIsRevealed(false), REVEAL_TIMEOUT_MS);
+    };
+
+    const hide = () => {
+        if (hideTimer.current) window.clearTimeout(hideTimer.current);
+        setIsRevealed(false);
+    };
+
+    const handleRevealClick = () => {
+        if (requirePassword && Date.now() - lastVerifiedAt > REAUTH_GRACE_MS) {
+            setIsAskingPassword(true);
+            return;
+        }
+        reveal();
+    };
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsVerifying(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            const { error } = user?.email
+                ? await supabase.auth.signInWithPassword({ email: user.email, password })
+                : { error: new Error('Not signed in') };
+            if (error) {
+                toast.error('Incorrect password.');
+                return;
+            }
+            lastVerifiedAt = Date.now();
+            reveal();
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        const text = format(value);
+        try {
+            await navigator.clipboard.writeText(text);
+            scheduleClipboardClear(text);
+            toast.success(`${label} copied. The clipboard will be cleared in ${CLIPBOARD_CLEAR_MS / 1000} seconds.`);
+        } catch {
+            toast.error('Could not copy to the clipboard.');
+        }
+    };
+
+    const linkButtonStyle = {
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        color: 'var(--primary-600)',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        cursor: 'pointer'
+    };
+
+    if (isAskingPassword) {
+        return (
+            <form onSubmit={handleVerify} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Your password"
+                    aria-label={`Enter your password to reveal ${label}`}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input-field"
+                    style={{ padding: '0.35rem 0.5rem', fontSize: '0.85rem' }}
+                    autoFocus
+                    required
+                />
+                <button type="submit" disabled={isVerifying} style={linkButtonStyle}>
+                    {isVerifying ? 'Checking...' : 'Reveal'}
+                </button>
+                <button type="button" onClick={() => setIsAskingPassword(false)} style={{ ...linkButtonStyle, color: 'var(--text-muted)' }}>
+                    Cancel
+                </button>
+            </form>
+        );
+    }
+
+    return (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+            <span style={{
+                color: 'var(--text-main)',
+                fontWeight: 500,
+                ...(monospace && { fontFamily: 'monospace', letterSpacing: '0.05em' })
+            }}>
+                {isRevealed ? format(value) : mask(value)}
+            </span>
+            <button type="button" onClick={isRevealed ? hide : handleRevealClick} style={linkButtonStyle} aria-label={`${isRevealed ? 'Hide' : 'Reveal'} ${label}`}>
+                {isRevealed ? 'Hide' : 'Reveal'}
+            </button>
+            {isRevealed && (
+                <button type="button" onClick={handleCopy} style={linkButtonStyle} aria-label={`Copy ${label}`}>
+                    Copy
+                </button>
+            )}
+        </div>
+    );
+}
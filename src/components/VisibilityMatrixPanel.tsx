@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { deleteMatrixPreset, describeError, saveMatrixPreset, saveRolePermissions } from '../lib/repository';
+import type { Department, MatrixPreset, RolePermission } from '../lib/repository';
+import type { RoleDefinition } from '../lib/roles';
+import { PROFILE_FIELDS, PROFILE_FIELD_LABELS, isAlwaysVisible } from '../lib/profileFields';
+import { changedRules, isCellChecked, rulesForRole, setMatrixCell, setMatrixColumn, toMatrixDraft } from '../utils/visibilityMatrix';
+import type { MatrixColumn, MatrixDraft } from '../utils/visibilityMatrix';
+
+interface VisibilityMatrixPanelProps {
+    roles: RoleDefinition[];
+    departments: Department[];
+    permissions: RolePermission[];
+    presets: MatrixPreset[];
+    onChange: () => Promise<void>;
+}
+
+const labelStyle = {
+    display: 'block',
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: 'var(--text-light)',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    marginBottom: '0.5rem'
+};
+
+// Which departments, and which of their fields, each role can see in the directory.
+// Edits go into a draft for the selected role (by hand, copied from another role,
+// or from a preset) and "Save changes" writes the whole draft in one transaction.
+export function VisibilityMatrixPanel({ roles, departments, permissions, presets, onChange }: VisibilityMatrixPanelProps) {
+    const [selectedRole, setSelectedRole] = useState<string>('clinical_provider');
+    // Null until the first edit; the saved matrix is shown until then
+    const [draft, setDraft] = useState<MatrixDraft | null>(null);
+    const [selectedPresetId, setSelectedPresetId] = useState('');
+    const [presetName, setPresetName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activeDepartments = departments.filter(d => !d.archived_at);
+    const saved = toMatrixDraft(rulesForRole(permissions, selectedRole), activeDepartments);
+    const current = draft ?? saved;
+    const changes = draft ? changedRules(draft, saved) : [];
+    const selectedPreset = presets.find(p => p.id === selectedPresetId);
+    const roleName = (key: string) => roles.find(r => r.key === key)?.label || key;
+
+    const confirmDiscard = () =>
+        changes.length === 0 || window.confirm(`Discard the unsaved changes to ${roleName(selectedRole)}?`);
+
+    const handleRoleChange = (role: string) => {
+        if (!confirmDiscard()) return;
+        setSelectedRole(role);
+        setDraft(null);
+    };
+
+    const handleCellToggle = (department: string, column: MatrixColumn) => {
+        const rule = current[department];
+        setDraft({ ...current, [department]: setMatrixCell(rule, column, !isCellChecked(rule, column)) });
+    };
+
+    const handleColumnSet = (column: MatrixColumn, checked: boolean) => {
+        setDraft(setMatrixColumn(current, column, checked));
+    };
+
+    const handleCopyFrom = (role: string) => {
+        if (!role) return;
+        setDraft(toMatrixDraft(rulesForRole(permissions, role), activeDepartments));
+        toast.success(`Copied ${roleName(role)}. Review and save to apply it to ${roleName(selectedRole)}.`);
+    };
+
+    const handleApplyPreset = () => {
+        if (!selectedPreset) return;
+        setDraft(toMatrixDraft(selectedPreset.rules, activeDepartments));
+        toast.success(`Applied ${selectedPreset.name}. Review and save to apply it to ${roleName(selectedRole)}.`);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await saveRolePermissions(selectedRole, changes);
+            await onChange();
+            setDraft(null);
+            toast.success(`Saved the matrix for ${roleName(selectedRole)}.`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to save the visibility matrix: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSavePreset = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = presetName.trim();
+        if (!name) return;
+        if (presets.some(p => p.name === name) && !window.confirm(`Replace the preset "${name}" with this matrix?`)) return;
+
+        setIsSaving(true);
+        try {
+            const id = await saveMatrixPreset(name, Object.values(current));
+            await onChange();
+            setPresetName('');
+            setSelectedPresetId(id);
+            toast.success(`Saved the preset "${name}".`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to save the preset: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeletePreset = async () => {
+        if (!selectedPreset || !window.confirm(`Delete the preset "${selectedPreset.name}"? Roles it was applied to keep their matrix.`)) return;
+
+        setIsSaving(true);
+        try {
+            await deleteMatrixPreset(selectedPreset.id);
+            await onChange();
+            setSelectedPresetId('');
+            toast.success(`Deleted the preset "${selectedPreset.name}".`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to delete the preset: ${describeError(err)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const buttonStyle = {
+        backgroundColor: 'transparent',
+        border: '1px solid var(--surface-border)',
+        color: 'var(--text-main)',
+        padding: '0.5rem 1rem',
+        borderRadius: '6px',
+        fontSize: '0.85rem',
+        fontWeight: 600,
+        cursor: isSaving ? 'not-allowed' : 'pointer',
+        whiteSpace: 'nowrap' as const
+    };
+
+    const columnButtonStyle = {
+        background: 'none',
+        border: 'none',
+        color: 'var(--primary-600)',
+        fontSize: '0.7rem',
+        fontWeight: 600,
+        cursor: 'pointer',
+        padding: 0
+    };
+
+    const columnHeader = (column: MatrixColumn, label: string) => (
+        <th key={column} style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600', whiteSpace: 'nowrap', verticalAlign: 'top' }}>
+            {label}
+            {(column === 'can_view' || !isAlwaysVisible(column)) && (
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.25rem' }}>
+                    <button type="button" onClick={() => handleColumnSet(column, true)} style={columnButtonStyle} aria-label={`Allow ${label} for every department`}>
+                        Allow all
+                    </button>
+                    <button type="button" onClick={() => handleColumnSet(column, false)} style={{ ...columnButtonStyle, color: 'var(--text-muted)' }} aria-label={`Deny ${label} for every department`}>
+                        Deny all
+                    </button>
+                </div>
+            )}
+        </th>
+    );
+
+    return (
+        <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px' }}>
+            <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '1.5rem' }}>Visibility Matrix</h2>
+
+            <div style={{ display: 'flex', gap: '2rem', flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: '1.5rem' }}>
+                <div>
+                    <label style={labelStyle}>Configure Matrix For Role</label>
+                    <select
+                        value={selectedRole}
+                        onChange={(e) => handleRoleChange(e.target.value)}
+                        className="input-field"
+                        style={{ width: '260px', cursor: 'pointer' }}
+                    >
+                        {roles.map(r => (
+                            <option key={r.key} value={r.key}>{r.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label style={labelStyle}>Copy From Role</label>
+                    <select
+                        value=""
+                        onChange={(e) => handleCopyFrom(e.target.value)}
+                        className="input-field"
+                        style={{ width: '260px', cursor: 'pointer' }}
+                    >
+                        <option value="">Choose a role...</option>
+                        {roles.filter(r => r.key !== selectedRole).map(r => (
+                            <option key={r.key} value={r.key}>{r.label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: '2rem', flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: '2rem' }}>
+                <div>
+                    <label style={labelStyle}>Presets</label>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <select
+                            value={selectedPresetId}
+                            onChange={(e) => setSelectedPresetId(e.target.value)}
+                            className="input-field"
+                            style={{ width: '260px', cursor: 'pointer' }}
+                        >
+                            <option value="">Choose a preset...</option>
+                            {presets.map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                        <button type="button" onClick={handleApplyPreset} disabled={!selectedPreset || isSaving} style={buttonStyle}>Apply</button>
+                        <button type="button" onClick={handleDeletePreset} disabled={!selectedPreset || isSaving} style={{ ...buttonStyle, color: '#dc2626' }}>Delete</button>
+                    </div>
+                </div>
+                <form onSubmit={handleSavePreset} style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        className="input-field"
+                        placeholder="Preset name"
+                        aria-label="Preset name"
+                        style={{ width: '200px' }}
+                    />
+                    <button type="submit" disabled={!presetName.trim() || isSaving} style={buttonStyle}>Save as Preset</button>
+                </form>
+            </div>
+
+            {changes.length > 0 && (
+                <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '1rem',
+                    padding: '0.75rem 1rem',
+                    marginBottom: '1rem',
+                    borderRadius: '8px',
+                    backgroundColor: '#fef3c7',
+                    color: '#92400e',
+                    fontWeight: 500
+                }}>
+                    <span>
+                        Unsaved changes to {changes.length} {changes.length === 1 ? 'department' : 'departments'} for {roleName(selectedRole)}.
+                    </span>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <button type="button" onClick={() => setDraft(null)} disabled={isSaving} style={buttonStyle}>Discard</button>
+                        <button type="button" onClick={handleSave} disabled={isSaving} className="btn-primary" style={{ width: 'auto', padding: '0.5rem 1.25rem', fontSize: '0.9rem' }}>
+                            {isSaving ? 'Saving...' : 'Save changes'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                            <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600', verticalAlign: 'top' }}>Target Department</th>
+                            {columnHeader('can_view', 'Can See Department?')}
+                            {PROFILE_FIELDS.map(field => columnHeader(field, PROFILE_FIELD_LABELS[field]))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {activeDepartments.map(({ key: dept, label }) => {
+                            const rule = current[dept];
+                            const changed = changes.some(c => c.target_department === dept);
+
+                            return (
+                                <tr key={dept} style={{ borderBottom: '1px solid var(--surface-border)', backgroundColor: changed ? '#fffbeb' : undefined }}>
+                                    <td style={{ padding: '1rem', fontWeight: '500', color: 'var(--text-main)' }}>
+                                        {label}
+                                    </td>
+                                    <td style={{ padding: '1rem' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={rule.can_view}
+                                            onChange={() => handleCellToggle(dept, 'can_view')}
+                                            style={{ width: '18px', height: '18px', cursor: 'pointer' }}
+                                        />
+                                    </td>
+                                    {PROFILE_FIELDS.map(field => {
+                                        const locked = isAlwaysVisible(field);
+                                        const isEnabled = rule.can_view && !locked;
+
+                                        return (
+                                            <td key={field} style={{ padding: '1rem' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isCellChecked(rule, field)}
+                                                    disabled={!isEnabled}
+                                                    title={locked ? 'Always shown to roles that can see the department' : undefined}
+                                                    onChange={() => handleCellToggle(dept, field)}
+                                                    style={{ width: '18px', height: '18px', cursor: isEnabled ? 'pointer' : 'not-allowed', opacity: isEnabled ? 1 : 0.5 }}
+                                                />
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
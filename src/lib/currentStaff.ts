@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { StaffProfile } from './repository';
+import type { Capability, RoleDefinition } from './roles';
+
+// The signed-in staff member, shared by the Navbar, route guards and pages so
+// the profile and role registry are loaded once per session rather than per page.
+// Provided by CurrentStaffProvider, which reloads it on auth changes and when the
+// person's roles (or what those roles can do) change in another session.
+export interface CurrentStaff {
+    // Null when signed out, or when the profile could not be loaded
+    profile: StaffProfile | null;
+    roleRegistry: RoleDefinition[];
+    capabilities: Set<Capability>;
+    isLoading: boolean;
+}
+
+export const SIGNED_OUT: CurrentStaff = {
+    profile: null,
+    roleRegistry: [],
+    capabilities: new Set(),
+    isLoading: false
+};
+
+export const CurrentStaffContext = createContext<CurrentStaff>(SIGNED_OUT);
+
+export const useCurrentStaff = () => useContext(CurrentStaffContext);
+
+// True when the staff member holds at least one of the capabilities.
+export const hasAnyCapability = (capabilities: Set<Capability>, required: Capability[]) =>
+    required.some(capability => capabilities.has(capability));
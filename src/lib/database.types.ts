@@ -0,0 +1,1035 @@
+// Generated from the local database with `npm run gen:types`. Do not edit by hand;
+// change the migrations under supabase/migrations and regenerate instead.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      certification_requirements: {
+        Row: {
+          certification_type: string
+          department: string
+        }
+        Insert: {
+          certification_type: string
+          department: string
+        }
+        Update: {
+          certification_type?: string
+          department?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_requirements_certification_type_fkey"
+            columns: ["certification_type"]
+            isOneToOne: false
+            referencedRelation: "certification_types"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "certification_requirements_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      certification_types: {
+        Row: {
+          archived_at: string | null
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          archived_at?: string | null
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          archived_at?: string | null
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      change_signals: {
+        Row: {
+          changed_at: string
+          entity: string
+          topic: string
+        }
+        Insert: {
+          changed_at?: string
+          entity: string
+          topic: string
+        }
+        Update: {
+          changed_at?: string
+          entity?: string
+          topic?: string
+        }
+        Relationships: []
+      }
+      departments: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      email_domains: {
+        Row: {
+          created_at: string
+          domain: string
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+        }
+        Relationships: []
+      }
+      hr_audit_log: {
+        Row: {
+          action: string
+          fields: string[]
+          id: number
+          occurred_at: string
+          subject_id: string
+          user_agent: string | null
+          viewer_id: string | null
+        }
+        Insert: {
+          action: string
+          fields?: string[]
+          id?: never
+          occurred_at?: string
+          subject_id: string
+          user_agent?: string | null
+          viewer_id?: string | null
+        }
+        Update: {
+          action?: string
+          fields?: string[]
+          id?: never
+          occurred_at?: string
+          subject_id?: string
+          user_agent?: string | null
+          viewer_id?: string | null
+        }
+        Relationships: []
+      }
+      hr_records: {
+        Row: {
+          created_at: string
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          id: string
+          sin: string | null
+        }
+        Insert: {
+          created_at?: string
+          date_of_birth?: string | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
+          end_date?: string | null
+          id: string
+          sin?: string | null
+        }
+        Update: {
+          created_at?: string
+          date_of_birth?: string | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
+          end_date?: string | null
+          id?: string
+          sin?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hr_records_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          is_headquarters: boolean
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          is_headquarters?: boolean
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          is_headquarters?: boolean
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      matrix_preset_rules: {
+        Row: {
+          can_view: boolean
+          preset_id: string
+          target_department: string
+          visible_fields: string[]
+        }
+        Insert: {
+          can_view?: boolean
+          preset_id: string
+          target_department: string
+          visible_fields?: string[]
+        }
+        Update: {
+          can_view?: boolean
+          preset_id?: string
+          target_department?: string
+          visible_fields?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matrix_preset_rules_preset_id_fkey"
+            columns: ["preset_id"]
+            isOneToOne: false
+            referencedRelation: "matrix_presets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matrix_preset_rules_target_department_fkey"
+            columns: ["target_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      matrix_presets: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          recipient_id: string
+          title: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          recipient_id: string
+          title: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          recipient_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      practitioner_licenses: {
+        Row: {
+          created_at: string
+          expires_on: string | null
+          id: string
+          issued_on: string | null
+          license_number: string
+          regulatory_body: string | null
+          staff_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          license_number: string
+          regulatory_body?: string | null
+          staff_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          license_number?: string
+          regulatory_body?: string | null
+          staff_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practitioner_licenses_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_change_requests: {
+        Row: {
+          changes: Json
+          id: string
+          previous: Json
+          requested_at: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          staff_id: string
+          status: string
+        }
+        Insert: {
+          changes: Json
+          id?: string
+          previous: Json
+          requested_at?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          staff_id: string
+          status?: string
+        }
+        Update: {
+          changes?: Json
+          id?: string
+          previous?: Json
+          requested_at?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          staff_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_change_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_change_requests_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          can_view: boolean
+          created_at: string
+          id: string
+          target_department: string
+          viewer_role: string
+          visible_fields: string[]
+        }
+        Insert: {
+          can_view?: boolean
+          created_at?: string
+          id?: string
+          target_department: string
+          viewer_role: string
+          visible_fields?: string[]
+        }
+        Update: {
+          can_view?: boolean
+          created_at?: string
+          id?: string
+          target_department?: string
+          viewer_role?: string
+          visible_fields?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_target_department_fkey"
+            columns: ["target_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "role_permissions_viewer_role_fkey"
+            columns: ["viewer_role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          capabilities: string[]
+          created_at: string
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          capabilities?: string[]
+          created_at?: string
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          capabilities?: string[]
+          created_at?: string
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      staff_certifications: {
+        Row: {
+          certification_type: string
+          expires_on: string | null
+          file_name: string
+          file_path: string
+          id: string
+          issued_on: string | null
+          staff_id: string
+          uploaded_at: string
+        }
+        Insert: {
+          certification_type: string
+          expires_on?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          issued_on?: string | null
+          staff_id: string
+          uploaded_at?: string
+        }
+        Update: {
+          certification_type?: string
+          expires_on?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          issued_on?: string | null
+          staff_id?: string
+          uploaded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_certifications_certification_type_fkey"
+            columns: ["certification_type"]
+            isOneToOne: false
+            referencedRelation: "certification_types"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "staff_certifications_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_invitations: {
+        Row: {
+          accepted_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_at: string
+          invited_by: string | null
+          staff_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          email: string
+          expires_at: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          staff_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_at?: string
+          invited_by?: string | null
+          staff_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_invitations_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_profiles: {
+        Row: {
+          bio: string | null
+          clinic_locations: string[]
+          created_at: string
+          department: string | null
+          display_name: string | null
+          employee_id: string | null
+          employment_status: string | null
+          employment_type: string | null
+          fluent_languages: string[]
+          highest_education: string | null
+          id: string
+          job_title: string | null
+          legal_first_name: string | null
+          legal_last_name: string | null
+          legal_middle_name: string | null
+          offboarded_at: string | null
+          practitioner_license_number: string | null
+          preferred_name: string | null
+          profile_photo_url: string | null
+          reports_to: string | null
+          role: string[]
+          work_email: string | null
+          work_phone: string | null
+        }
+        Insert: {
+          bio?: string | null
+          clinic_locations?: string[]
+          created_at?: string
+          department?: string | null
+          display_name?: string | null
+          employee_id?: string | null
+          employment_status?: string | null
+          employment_type?: string | null
+          fluent_languages?: string[]
+          highest_education?: string | null
+          id: string
+          job_title?: string | null
+          legal_first_name?: string | null
+          legal_last_name?: string | null
+          legal_middle_name?: string | null
+          offboarded_at?: string | null
+          practitioner_license_number?: string | null
+          preferred_name?: string | null
+          profile_photo_url?: string | null
+          reports_to?: string | null
+          role?: string[]
+          work_email?: string | null
+          work_phone?: string | null
+        }
+        Update: {
+          bio?: string | null
+          clinic_locations?: string[]
+          created_at?: string
+          department?: string | null
+          display_name?: string | null
+          employee_id?: string | null
+          employment_status?: string | null
+          employment_type?: string | null
+          fluent_languages?: string[]
+          highest_education?: string | null
+          id?: string
+          job_title?: string | null
+          legal_first_name?: string | null
+          legal_last_name?: string | null
+          legal_middle_name?: string | null
+          offboarded_at?: string | null
+          practitioner_license_number?: string | null
+          preferred_name?: string | null
+          profile_photo_url?: string | null
+          reports_to?: string | null
+          role?: string[]
+          work_email?: string | null
+          work_phone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_profiles_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "staff_profiles_reports_to_fkey"
+            columns: ["reports_to"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      certification_compliance: {
+        Row: {
+          certification_id: string | null
+          certification_type: string | null
+          department: string | null
+          expires_on: string | null
+          file_name: string | null
+          file_path: string | null
+          issued_on: string | null
+          job_title: string | null
+          staff_id: string | null
+          staff_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      directory_profiles: {
+        Row: {
+          bio: string | null
+          clinic_locations: string[] | null
+          department: string | null
+          department_label: string | null
+          department_sort_order: number | null
+          display_name: string | null
+          employee_id: string | null
+          employment_status: string | null
+          employment_type: string | null
+          fluent_languages: string[] | null
+          highest_education: string | null
+          id: string | null
+          job_title: string | null
+          legal_first_name: string | null
+          legal_last_name: string | null
+          legal_middle_name: string | null
+          practitioner_license_number: string | null
+          preferred_name: string | null
+          profile_photo_url: string | null
+          reports_to: string | null
+          role: string[] | null
+          search_text: string | null
+          work_email: string | null
+          work_phone: string | null
+        }
+        Relationships: []
+      }
+      hr_audit_entries: {
+        Row: {
+          action: string | null
+          fields: string[] | null
+          id: number | null
+          occurred_at: string | null
+          subject_id: string | null
+          subject_name: string | null
+          user_agent: string | null
+          viewer_id: string | null
+          viewer_name: string | null
+        }
+        Relationships: []
+      }
+      license_overview: {
+        Row: {
+          days_until_expiry: number | null
+          department: string | null
+          expires_on: string | null
+          id: string | null
+          issued_on: string | null
+          job_title: string | null
+          license_number: string | null
+          regulatory_body: string | null
+          reports_to: string | null
+          staff_id: string | null
+          staff_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      profile_change_queue: {
+        Row: {
+          changes: Json | null
+          current: Json | null
+          department: string | null
+          id: string | null
+          job_title: string | null
+          previous: Json | null
+          requested_at: string | null
+          staff_id: string | null
+          staff_name: string | null
+        }
+        Relationships: []
+      }
+      staff_departures: {
+        Row: {
+          department: string | null
+          employment_status: string | null
+          end_date: string | null
+          id: string | null
+          job_title: string | null
+          offboarded_at: string | null
+          staff_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      staff_invitation_status: {
+        Row: {
+          accepted_at: string | null
+          email: string | null
+          expires_at: string | null
+          id: string | null
+          invited_at: string | null
+          invited_by: string | null
+          invited_by_name: string | null
+          staff_id: string | null
+          staff_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      current_staff_locations: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      current_staff_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      can_write_profile_photo: {
+        Args: { object_name: string }
+        Returns: boolean
+      }
+      cancel_offboarding: {
+        Args: { employment_status: string; subject_id: string }
+        Returns: {
+          created_at: string
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          id: string
+          sin: string | null
+        }
+      }
+      directory_facets: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          departments: string[]
+          employment_types: string[]
+          languages: string[]
+          roles: string[]
+        }[]
+      }
+      directory_location_in_scope: {
+        Args: { target_locations: string[] }
+        Returns: boolean
+      }
+      directory_visible_fields: {
+        Args: { target_department: string }
+        Returns: string[]
+      }
+      has_capability: {
+        Args: { capability: string }
+        Returns: boolean
+      }
+      import_staff_updates: {
+        Args: { updates: Json }
+        Returns: number
+      }
+      is_manager_of: {
+        Args: { subject_id: string }
+        Returns: boolean
+      }
+      is_valid_sin: {
+        Args: { sin: string }
+        Returns: boolean
+      }
+      mark_notifications_read: {
+        Args: { notification_ids: string[] }
+        Returns: number
+      }
+      merge_departments: {
+        Args: { source_key: string; target_key: string }
+        Returns: undefined
+      }
+      merge_locations: {
+        Args: { source_name: string; target_name: string }
+        Returns: undefined
+      }
+      normalize_phone: {
+        Args: { phone: string }
+        Returns: string
+      }
+      offboard_staff: {
+        Args: { employment_status: string; end_date: string; subject_id: string }
+        Returns: {
+          created_at: string
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          id: string
+          sin: string | null
+        }
+      }
+      owns_certificate_file: {
+        Args: { object_name: string }
+        Returns: boolean
+      }
+      process_offboarding: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      read_hr_record: {
+        Args: { subject_id: string }
+        Returns: {
+          created_at: string
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          id: string
+          sin: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "hr_records"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      rename_department: {
+        Args: { new_key: string; new_label: string; old_key: string }
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          key: string
+          label: string
+          sort_order: number
+        }
+      }
+      rename_location: {
+        Args: { new_name: string; old_name: string }
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          is_headquarters: boolean
+          name: string
+          sort_order: number
+        }
+      }
+      request_profile_change: {
+        Args: { changes: Json }
+        Returns: {
+          changes: Json
+          id: string
+          previous: Json
+          requested_at: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          staff_id: string
+          status: string
+        }
+      }
+      request_user_agent: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      review_profile_change: {
+        Args: { approve: boolean; comment: string; request_id: string }
+        Returns: {
+          changes: Json
+          id: string
+          previous: Json
+          requested_at: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          staff_id: string
+          status: string
+        }
+      }
+      save_hr_record: {
+        Args: {
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          sin: string | null
+          subject_id: string
+        }
+        Returns: {
+          created_at: string
+          date_of_birth: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          end_date: string | null
+          id: string
+          sin: string | null
+        }
+      }
+      save_matrix_preset: {
+        Args: { preset_name: string; rules: Json }
+        Returns: string
+      }
+      save_role_permissions: {
+        Args: { role_key: string; rules: Json }
+        Returns: number
+      }
+      send_license_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      set_profile_photo: {
+        Args: { photo_url: string | null; subject_id: string }
+        Returns: {
+          bio: string | null
+          clinic_locations: string[]
+          created_at: string
+          department: string | null
+          display_name: string | null
+          employee_id: string | null
+          employment_status: string | null
+          employment_type: string | null
+          fluent_languages: string[]
+          highest_education: string | null
+          id: string
+          job_title: string | null
+          legal_first_name: string | null
+          legal_last_name: string | null
+          legal_middle_name: string | null
+          offboarded_at: string | null
+          practitioner_license_number: string | null
+          preferred_name: string | null
+          profile_photo_url: string | null
+          reports_to: string | null
+          role: string[]
+          work_email: string | null
+          work_phone: string | null
+        }
+      }
+      withdraw_profile_change: {
+        Args: { request_id: string }
+        Returns: {
+          changes: Json
+          id: string
+          previous: Json
+          requested_at: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          staff_id: string
+          status: string
+        }
+      }
+      write_hr_audit: {
+        Args: { audit_action: string; audit_fields: string[]; subject: string }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof (PublicSchema["Tables"] & PublicSchema["Views"])> =
+  (PublicSchema["Tables"] & PublicSchema["Views"])[T] extends { Row: infer R } ? R : never
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T] extends { Insert: infer I } ? I : never
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T] extends { Update: infer U } ? U : never
@@ -0,0 +1,51 @@
+import type { Tables } from './database.types';
+
+// Fields of a staff profile as they appear in the Visibility Matrix. Every column
+// of directory_profiles must be listed here (the Record type enforces it), so a
+// new column shows up in the matrix as soon as database.types.ts is regenerated.
+// Masked fields are an allowlist in role_permissions.visible_fields, which means
+// a field nobody has ticked yet stays hidden.
+
+export type ProfileField = Exclude<
+    keyof Tables<'directory_profiles'>,
+    // Row key and the columns the view derives for searching and sorting
+    'id' | 'search_text' | 'department_label' | 'department_sort_order'
+>;
+
+// Shown to anyone who can see the department; the directory can't identify a
+// person or place them in the org chart without them. Must match the unmasked
+// columns of directory_profiles.
+export const ALWAYS_VISIBLE_FIELDS: ProfileField[] = ['department', 'legal_first_name', 'legal_last_name', 'reports_to'];
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+    legal_first_name: 'Legal First Name',
+    legal_last_name: 'Legal Last Name',
+    department: 'Department',
+    reports_to: 'Reports To',
+    legal_middle_name: 'Legal Middle Name',
+    preferred_name: 'Preferred Name',
+    display_name: 'Display Name',
+    profile_photo_url: 'Photo',
+    job_title: 'Job Title',
+    role: 'Roles',
+    clinic_locations: 'Locations',
+    employee_id: 'Employee ID',
+    work_email: 'Work Email',
+    work_phone: 'Work Phone',
+    bio: 'Bio',
+    practitioner_license_number: 'License Number',
+    highest_education: 'Education',
+    employment_status: 'Employment Status',
+    employment_type: 'Employment Type',
+    fluent_languages: 'Languages'
+};
+
+// Changing one of these on your own profile creates a request for HR to approve
+// instead of saving directly. Must match request_profile_change.
+export type ApprovalRequiredField = 'legal_first_name' | 'legal_middle_name' | 'legal_last_name' | 'display_name';
+export const APPROVAL_REQUIRED_FIELDS: ApprovalRequiredField[] = ['legal_first_name', 'legal_middle_name', 'legal_last_name', 'display_name'];
+
+// Matrix column order follows the label map above.
+export const PROFILE_FIELDS = Object.keys(PROFILE_FIELD_LABELS) as ProfileField[];
+
+export const isAlwaysVisible = (field: ProfileField) => ALWAYS_VISIBLE_FIELDS.includes(field);
@@ -0,0 +1,1080 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Database, Json, Tables, TablesInsert, TablesUpdate } from './database.types';
+import type { RoleDefinition } from './roles';
+import type { ApprovalRequiredField } from './profileFields';
+import { EMPTY_DIRECTORY_FILTERS } from '../utils/directoryFilters';
+import type { DirectoryFilters, DirectorySort } from '../utils/directoryFilters';
+
+// Single entry point for reading and writing staff data. Pages should import
+// these functions and types instead of calling supabase.from(...) directly, so a
+// schema change only has to be reflected here and in database.types.ts.
+
+export type StaffProfile = Tables<'staff_profiles'>;
+export type StaffProfileUpdate = TablesUpdate<'staff_profiles'>;
+// Profile fields captured by the Add Staff wizard; the id comes from the new auth user.
+export type NewStaffProfile = Omit<TablesInsert<'staff_profiles'>, 'id' | 'created_at' | 'profile_photo_url' | 'practitioner_license_number'>;
+// Rows of the masked directory_profiles view; hidden fields come back as null.
+export type DirectoryProfile = Omit<Tables<'directory_profiles'>, 'id' | 'search_text' | 'department_sort_order'> & { id: string };
+// Distinct department, role, employment type and language values visible to the viewer
+export type DirectoryFacets = Database['public']['Functions']['directory_facets']['Returns'][number];
+export type HRRecord = Tables<'hr_records'>;
+export type HRRecordInput = Pick<HRRecord, 'sin' | 'date_of_birth' | 'emergency_contact_name' | 'emergency_contact_phone' | 'end_date'>;
+export type HrAuditEntry = Tables<'hr_audit_entries'>;
+export type StaffInvitation = Tables<'staff_invitation_status'>;
+export type InvitationStatus = 'pending' | 'accepted' | 'expired';
+export type StaffDeparture = Tables<'staff_departures'>;
+export type ProfileChangeRequest = Tables<'profile_change_requests'>;
+export type ProfileChangeStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+// Pending requests with the person's current values, for reviewers
+export type ProfileChangeQueueEntry = Tables<'profile_change_queue'>;
+export type PractitionerLicense = Tables<'practitioner_licenses'>;
+export type PractitionerLicenseInput = Pick<PractitionerLicense, 'regulatory_body' | 'license_number' | 'issued_on' | 'expires_on' | 'status'>;
+export type LicenseOverviewEntry = Tables<'license_overview'>;
+export type Notification = Tables<'notifications'>;
+export type CertificationType = Tables<'certification_types'>;
+export type CertificationTypeInput = TablesInsert<'certification_types'>;
+export type CertificationRequirement = Tables<'certification_requirements'>;
+export type StaffCertification = Tables<'staff_certifications'>;
+export type StaffCertificationInput = Pick<StaffCertification, 'certification_type' | 'issued_on' | 'expires_on'>;
+export type ComplianceEntry = Tables<'certification_compliance'>;
+export type ComplianceStatus = 'valid' | 'expiring' | 'expired' | 'missing';
+export type RolePermission = Tables<'role_permissions'>;
+// One department's row of a role's Visibility Matrix, as saved and as kept in presets
+export type MatrixRule = Pick<RolePermission, 'target_department' | 'can_view' | 'visible_fields'>;
+export type MatrixPreset = Tables<'matrix_presets'> & { rules: MatrixRule[] };
+export type RoleDefinitionInput = TablesInsert<'roles'>;
+export type Department = Tables<'departments'>;
+export type DepartmentInput = TablesInsert<'departments'>;
+export type ClinicLocation = Tables<'locations'>;
+export type ClinicLocationInput = TablesInsert<'locations'>;
+export type EmailDomain = Tables<'email_domains'>;
+
+export type RepositoryErrorCode = 'unauthenticated' | 'not_found' | 'forbidden' | 'conflict' | 'unknown';
+
+export class RepositoryError extends Error {
+    readonly code: RepositoryErrorCode;
+
+    constructor(code: RepositoryErrorCode, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'RepositoryError';
+        this.code = code;
+    }
+}
+
+const toRepositoryError = (error: PostgrestError): RepositoryError => {
+    switch (error.code) {
+        case 'PGRST116':
+            return new RepositoryError('not_found', 'Record not found.', error);
+        case '42501':
+            return new RepositoryError('forbidden', 'You do not have permission to perform this action.', error);
+        case '23505':
+            return new RepositoryError('conflict', 'A record with these details already exists.', error);
+        case 'P0002':
+            return new RepositoryError('not_found', error.message || 'Record not found.', error);
+        case '23503':
+            return new RepositoryError('conflict', 'This record is still referenced elsewhere.', error);
+        case '22023':
+        case '23514':
+            return new RepositoryError('conflict', error.message || 'This change would leave the data in an invalid state.', error);
+        default:
+            return new RepositoryError('unknown', error.message || 'An unexpected database error occurred.', error);
+    }
+};
+
+// Storage errors carry an HTTP status rather than a Postgres code.
+const toStorageRepositoryError = (error: { message: string; status?: number }): RepositoryError => {
+    if (error.status === 401 || error.status === 403) {
+        return new RepositoryError('forbidden', 'You do not have permission to perform this action.', error);
+    }
+    if (error.status === 413) {
+        return new RepositoryError('conflict', 'The file is too large.', error);
+    }
+    return new RepositoryError('unknown', error.message || 'An unexpected storage error occurred.', error);
+};
+
+// Edge function errors carry the HTTP response; the functions reply with { error: message }.
+const toFunctionRepositoryError = async (error: unknown): Promise<RepositoryError> => {
+    if (!(error instanceof FunctionsHttpError)) {
+        return new RepositoryError('unknown', describeError(error, 'The server could not be reached.'), error);
+    }
+
+    const response = error.context as Response;
+    const body = await response.json().catch(() => null);
+    const message = body?.error || error.message;
+    switch (response.status) {
+        case 401:
+            return new RepositoryError('unauthenticated', message, error);
+        case 403:
+            return new RepositoryError('forbidden', message, error);
+        case 404:
+            return new RepositoryError('not_found', message, error);
+        case 400:
+        case 409:
+            return new RepositoryError('conflict', message, error);
+        default:
+            return new RepositoryError('unknown', message || 'An unexpected server error occurred.', error);
+    }
+};
+
+// Human readable message for any error thrown by this module (or anything else).
+export const describeError = (err: unknown, fallback = 'Unknown error') => {
+    if (err instanceof Error && err.message) return err.message;
+    return fallback;
+};
+
+// --- Shared cache --------------------------------------------------------------
+// Reads are memoised per key for the lifetime of the session so pages and the
+// navbar share one request. Writes invalidate the keys they affect.
+
+const cache = new Map<string, Promise<unknown>>();
+
+const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const hit = cache.get(key);
+    if (hit) return hit as Promise<T>;
+
+    const pending = load().catch((err) => {
+        cache.delete(key);
+        throw err;
+    });
+    cache.set(key, pending);
+    return pending;
+};
+
+export const invalidateCache = (prefix = '') => {
+    for (const key of cache.keys()) {
+        if (key.startsWith(prefix)) cache.delete(key);
+    }
+};
+
+supabase.auth.onAuthStateChange((event) => {
+    if (event !== 'TOKEN_REFRESHED') invalidateCache();
+});
+
+// --- Live updates --------------------------------------------------------------
+// Edits made in other sessions arrive as change_signals rows naming the staff
+// member, role or viewer role that changed; staff signals only arrive for people
+// the viewer can see in the directory, or could see before the change. The
+// matching cache entries are dropped straight away and subscribers get the
+// changes in short batches, so a bulk import reloads a page once rather than once
+// per row. The channel stays open for the rest of the session once anything has
+// subscribed.
+
+export type LiveTopic = 'staff' | 'roles' | 'permissions';
+
+export interface LiveChange {
+    topic: LiveTopic;
+    // Staff id, role key or viewer role, depending on the topic
+    entity: string;
+}
+
+const LIVE_BATCH_MS = 300;
+
+const liveListeners = new Set<(changes: LiveChange[]) => void>();
+let liveChannelOpen = false;
+let pendingChanges: LiveChange[] = [];
+let flushTimer: number | undefined;
+
+const isLiveTopic = (value: string | undefined): value is LiveTopic =>
+    value === 'staff' || value === 'roles' || value === 'permissions';
+
+const flushLiveChanges = () => {
+    const changes = pendingChanges;
+    pendingChanges = [];
+    flushTimer = undefined;
+    liveListeners.forEach(listener => listener(changes));
+};
+
+const receiveLiveChange = (change: LiveChange) => {
+    invalidateCache(change.topic === 'staff' ? `profile:${change.entity}` : change.topic);
+    invalidateCache('directory');
+
+    if (!pendingChanges.some(c => c.topic === change.topic && c.entity === change.entity)) {
+        pendingChanges.push(change);
+    }
+    if (flushTimer === undefined) flushTimer = window.setTimeout(flushLiveChanges, LIVE_BATCH_MS);
+};
+
+// Calls the listener with every batch of changes until the returned function is called.
+export const subscribeToLiveUpdates = (listener: (changes: LiveChange[]) => void) => {
+    liveListeners.add(listener);
+
+    if (!liveChannelOpen) {
+        liveChannelOpen = true;
+        supabase
+            .channel('change-signals')
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'change_signals' }, (payload) => {
+                const row = payload.new as Partial<Tables<'change_signals'>>;
+                if (isLiveTopic(row.topic) && row.entity) receiveLiveChange({ topic: row.topic, entity: row.entity });
+            })
+            .subscribe();
+    }
+
+    return () => {
+        liveListeners.delete(listener);
+    };
+};
+
+// --- Staff profiles ------------------------------------------------------------
+
+export const getCurrentUserId = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new RepositoryError('unauthenticated', 'You are not signed in.');
+    return user.id;
+};
+
+export const getProfile = (id: string) => cached(`profile:${id}`, async () => {
+    const { data, error } = await supabase
+        .from('staff_profiles')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const getMyProfile = async () => getProfile(await getCurrentUserId());
+
+export const updateProfile = async (id: string, changes: StaffProfileUpdate) => {
+    const { data, error } = await supabase
+        .from('staff_profiles')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache(`profile:${id}`);
+    invalidateCache('directory');
+    return data;
+};
+
+// --- Staff import --------------------------------------------------------------
+// Updates from a spreadsheet are applied in one transaction; new staff go through
+// inviteStaff one at a time.
+
+export interface StaffImportUpdate {
+    id: string;
+    changes: StaffProfileUpdate;
+}
+
+// Unmasked profiles of everyone still employed, to diff an import against.
+export const listStaffProfiles = async () => {
+    const { data, error } = await supabase
+        .from('staff_profiles')
+        .select('*')
+        .is('offboarded_at', null);
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// Returns the number of profiles updated.
+export const importStaffUpdates = async (updates: StaffImportUpdate[]) => {
+    const { data, error } = await supabase.rpc('import_staff_updates', { updates: updates as unknown as Json });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('profile:');
+    invalidateCache('directory');
+    return data;
+};
+
+// --- Directory -----------------------------------------------------------------
+// Department visibility, location scoping and field masking are applied by the
+// directory_profiles view; searching and filtering run against the masked values.
+
+export const DIRECTORY_PAGE_SIZE = 48;
+
+export interface DirectoryPage {
+    rows: DirectoryProfile[];
+    total: number;
+}
+
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, '\\$&');
+
+// Postgres array literal, quoting every element so commas or braces in a
+// location name can't break the filter.
+const toArrayLiteral = (values: string[]) =>
+    `{${values.map(value => `"${value.replace(/["\\]/g, '\\$&')}"`).join(',')}}`;
+
+const directoryQuery = (filters: DirectoryFilters, sort: DirectorySort, count?: 'exact') => {
+    let query = supabase
+        .from('directory_profiles')
+        .select('*', { count });
+
+    filters.query.toLowerCase().split(/\s+/).filter(Boolean).forEach(term => {
+        query = query.ilike('search_text', `%${escapeLike(term)}%`);
+    });
+    if (filters.locations.length > 0) query = query.overlaps('clinic_locations', toArrayLiteral(filters.locations));
+    if (filters.departments.length > 0) query = query.in('department', filters.departments);
+    if (filters.roles.length > 0) query = query.overlaps('role', toArrayLiteral(filters.roles));
+    if (filters.employmentTypes.length > 0) query = query.in('employment_type', filters.employmentTypes);
+    if (filters.languages.length > 0) query = query.overlaps('fluent_languages', toArrayLiteral(filters.languages));
+
+    // Department first so group headers stay contiguous across pages; id last for stable paging
+    query = query
+        .order('department_sort_order', { nullsFirst: false })
+        .order('department_label', { nullsFirst: false });
+    if (sort === 'first_name') {
+        query = query.order('legal_first_name').order('legal_last_name');
+    } else if (sort === 'job_title') {
+        query = query.order('job_title', { nullsFirst: false }).order('legal_last_name');
+    } else {
+        query = query.order('legal_last_name').order('legal_first_name');
+    }
+
+    return query.order('id');
+};
+
+export const listDirectoryPage = (filters: DirectoryFilters, sort: DirectorySort, offset: number, limit = DIRECTORY_PAGE_SIZE) =>
+    cached(`directory:${JSON.stringify({ filters, sort, offset, limit })}`, async (): Promise<DirectoryPage> => {
+        const { data, error, count } = await directoryQuery(filters, sort, 'exact')
+            .range(offset, offset + limit - 1);
+
+        if (error) throw toRepositoryError(error);
+        return { rows: data as DirectoryProfile[], total: count ?? data.length };
+    });
+
+// Every row matching the filters, for exports, the org chart and the manager
+// picker. Fetched in batches because the API caps how many rows a request returns.
+const BATCH_SIZE = 1000;
+
+export const listAllDirectoryEntries = (filters: DirectoryFilters = EMPTY_DIRECTORY_FILTERS, sort: DirectorySort = 'last_name') =>
+    cached(`directory:all:${JSON.stringify({ filters, sort })}`, async () => {
+        const rows: DirectoryProfile[] = [];
+        for (;;) {
+            const { data, error } = await directoryQuery(filters, sort)
+                .range(rows.length, rows.length + BATCH_SIZE - 1);
+
+            if (error) throw toRepositoryError(error);
+            rows.push(...(data as DirectoryProfile[]));
+            if (data.length < BATCH_SIZE) return rows;
+        }
+    });
+
+// A single directory row, used to refresh one card after an edit.
+export const getDirectoryEntry = async (id: string) => {
+    const { data, error } = await supabase
+        .from('directory_profiles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) throw toRepositoryError(error);
+    return data as DirectoryProfile | null;
+};
+
+export const listDirectReports = async (managerId: string) => {
+    const { data, error } = await supabase
+        .from('directory_profiles')
+        .select('*')
+        .eq('reports_to', managerId);
+
+    if (error) throw toRepositoryError(error);
+    return data as DirectoryProfile[];
+};
+
+export const getDirectoryFacets = () => cached('directory:facets', async () => {
+    const { data, error } = await supabase.rpc('directory_facets').single();
+
+    if (error) throw toRepositoryError(error);
+    return data as DirectoryFacets;
+});
+
+// --- Profile photos -----------------------------------------------------------
+// Stored in the public profile-photos bucket as <staff id>/<timestamp>.jpg. Each
+// upload gets a new name so browsers and CDNs never show a stale cached photo.
+
+const PHOTO_BUCKET = 'profile-photos';
+
+// set_profile_photo only accepts photos from this bucket, but the database can't
+// check the host, so photos elsewhere are treated as missing.
+export const isProfilePhotoUrl = (url: string | null | undefined): url is string =>
+    !!url && url.startsWith(supabase.storage.from(PHOTO_BUCKET).getPublicUrl('').data.publicUrl);
+
+const removeOtherPhotos = async (id: string, keep?: string) => {
+    const { data, error } = await supabase.storage.from(PHOTO_BUCKET).list(id);
+    if (error) throw toStorageRepositoryError(error);
+
+    const stale = data.map(file => `${id}/${file.name}`).filter(path => path !== keep);
+    if (stale.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove(stale);
+    if (removeError) throw toStorageRepositoryError(removeError);
+};
+
+const setProfilePhoto = async (id: string, photoUrl: string | null) => {
+    const { data, error } = await supabase.rpc('set_profile_photo', { subject_id: id, photo_url: photoUrl });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache(`profile:${id}`);
+    invalidateCache('directory');
+    return data;
+};
+
+export const uploadProfilePhoto = async (id: string, photo: Blob) => {
+    const path = `${id}/${Date.now()}.jpg`;
+    const { error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, photo, { contentType: 'image/jpeg', cacheControl: '31536000' });
+    if (error) throw toStorageRepositoryError(error);
+
+    const { data: { publicUrl } } = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path);
+    const profile = await setProfilePhoto(id, publicUrl);
+    await removeOtherPhotos(id, path);
+    return profile;
+};
+
+export const removeProfilePhoto = async (id: string) => {
+    const profile = await setProfilePhoto(id, null);
+    await removeOtherPhotos(id);
+    return profile;
+};
+
+// --- New hires & invitations ---------------------------------------------------
+// Accounts are created by the invite-staff edge function, which holds the service
+// key. The invite link signs the new hire in and lands on /reset-password so they
+// choose a password first.
+
+const INVITE_FUNCTION = 'invite-staff';
+
+const inviteRedirect = () => `${window.location.origin}/reset-password`;
+
+// Returns the new staff member's id.
+export const inviteStaff = async (profile: NewStaffProfile) => {
+    const { data, error } = await supabase.functions.invoke<{ staffId: string }>(INVITE_FUNCTION, {
+        body: { action: 'invite', profile, redirectTo: inviteRedirect() }
+    });
+
+    if (error || !data) throw await toFunctionRepositoryError(error);
+    invalidateCache('directory');
+    invalidateCache('invitations');
+    return data.staffId;
+};
+
+export const resendStaffInvitation = async (staffId: string) => {
+    const { error } = await supabase.functions.invoke(INVITE_FUNCTION, {
+        body: { action: 'resend', staffId, redirectTo: inviteRedirect() }
+    });
+
+    if (error) throw await toFunctionRepositoryError(error);
+    invalidateCache('invitations');
+};
+
+// Latest invitation per staff member, newest first.
+export const listStaffInvitations = () => cached('invitations', async () => {
+    const { data, error } = await supabase
+        .from('staff_invitation_status')
+        .select('*')
+        .order('invited_at', { ascending: false });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+// --- HR records ----------------------------------------------------------------
+// Never cached: confidential data should not outlive the screen that shows it.
+
+// Reads go through read_hr_record so every access is written to the HR audit log.
+export const getHrRecord = async (id: string) => {
+    const { data, error } = await supabase
+        .rpc('read_hr_record', { subject_id: id })
+        .maybeSingle();
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// Creates the record if the staff member doesn't have one yet.
+export const saveHrRecord = async (id: string, record: HRRecordInput) => {
+    const { data, error } = await supabase.rpc('save_hr_record', {
+        subject_id: id,
+        sin: record.sin,
+        date_of_birth: record.date_of_birth,
+        emergency_contact_name: record.emergency_contact_name,
+        emergency_contact_phone: record.emergency_contact_phone,
+        end_date: record.end_date
+    });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// --- HR audit log --------------------------------------------------------------
+// Append-only; rows are written by the database. Never cached so the viewer
+// always shows the latest accesses.
+
+export interface HrAuditFilters {
+    viewer?: string;
+    subject?: string;
+    from?: string;
+    to?: string;
+}
+
+const hrAuditQuery = (filters: HrAuditFilters) => {
+    let query = supabase
+        .from('hr_audit_entries')
+        .select('*')
+        .order('occurred_at', { ascending: false })
+        .order('id', { ascending: false });
+
+    if (filters.viewer) query = query.ilike('viewer_name', `%${escapeLike(filters.viewer)}%`);
+    if (filters.subject) query = query.ilike('subject_name', `%${escapeLike(filters.subject)}%`);
+    if (filters.from) query = query.gte('occurred_at', filters.from);
+    if (filters.to) query = query.lte('occurred_at', filters.to);
+
+    return query;
+};
+
+// The latest entries, for the viewer.
+export const listHrAuditEntries = async (filters: HrAuditFilters = {}, limit = 500) => {
+    const { data, error } = await hrAuditQuery(filters).limit(limit);
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// Every entry matching the filters, for exports. Entries written while paging
+// (opening an HR file in another tab, say) would shift the pages, so the range
+// ends when the export starts.
+export const listAllHrAuditEntries = async (filters: HrAuditFilters = {}) => {
+    const range = { ...filters, to: filters.to ?? new Date().toISOString() };
+    const rows: HrAuditEntry[] = [];
+    for (;;) {
+        const { data, error } = await hrAuditQuery(range)
+            .range(rows.length, rows.length + BATCH_SIZE - 1);
+
+        if (error) throw toRepositoryError(error);
+        rows.push(...data);
+        if (data.length < BATCH_SIZE) return rows;
+    }
+};
+
+// --- Offboarding ---------------------------------------------------------------
+// Departures are scheduled through hr_records.end_date. On that date a nightly
+// job hides the person from the Directory and disables their sign-in; a date
+// that has already passed takes effect immediately.
+
+export const offboardStaff = async (id: string, endDate: string, employmentStatus: string) => {
+    const { data, error } = await supabase.rpc('offboard_staff', {
+        subject_id: id,
+        end_date: endDate,
+        employment_status: employmentStatus
+    });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache(`profile:${id}`);
+    invalidateCache('directory');
+    return data;
+};
+
+// Withdraws a departure that hasn't taken effect and restores the given status.
+export const cancelOffboarding = async (id: string, employmentStatus: string) => {
+    const { data, error } = await supabase.rpc('cancel_offboarding', {
+        subject_id: id,
+        employment_status: employmentStatus
+    });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache(`profile:${id}`);
+    invalidateCache('directory');
+    return data;
+};
+
+// Not cached: departures change when the nightly job runs.
+export const listDepartures = async () => {
+    const { data, error } = await supabase
+        .from('staff_departures')
+        .select('*')
+        .order('end_date', { ascending: false });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// --- Profile change requests ---------------------------------------------------
+// Legal and display names on your own profile change through a request that HR
+// approve or reject. Approving applies the change.
+
+export type ProfileChangeValues = Partial<Record<ApprovalRequiredField, string | null>>;
+
+export const requestProfileChange = async (changes: ProfileChangeValues) => {
+    const { data, error } = await supabase.rpc('request_profile_change', { changes });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+export const withdrawProfileChange = async (id: string) => {
+    const { data, error } = await supabase.rpc('withdraw_profile_change', { request_id: id });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// The signed-in user's most recent request, whatever its status. Not cached:
+// HR may review it at any time.
+export const getMyLatestProfileChange = async () => {
+    const { data, error } = await supabase
+        .from('profile_change_requests')
+        .select('*')
+        .eq('staff_id', await getCurrentUserId())
+        .order('requested_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// Oldest first, so requests are reviewed in the order they were made.
+export const listProfileChangeQueue = async () => {
+    const { data, error } = await supabase
+        .from('profile_change_queue')
+        .select('*')
+        .order('requested_at');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+export const reviewProfileChange = async (id: string, approve: boolean, comment: string) => {
+    const { data, error } = await supabase.rpc('review_profile_change', {
+        request_id: id,
+        approve,
+        comment
+    });
+
+    if (error) throw toRepositoryError(error);
+    if (approve) {
+        invalidateCache(`profile:${data.staff_id}`);
+        invalidateCache('directory');
+    }
+    return data;
+};
+
+// --- Practitioner licenses -----------------------------------------------------
+// practitioner_license_number on the profile is derived from these records, so
+// saving a license also refreshes the profile and the Directory.
+
+const afterLicenseChange = (staffId: string) => {
+    invalidateCache(`profile:${staffId}`);
+    invalidateCache('directory');
+};
+
+// Not cached: the nightly job and other editors change statuses and numbers.
+export const listLicenses = async (staffId: string) => {
+    const { data, error } = await supabase
+        .from('practitioner_licenses')
+        .select('*')
+        .eq('staff_id', staffId)
+        .order('expires_on', { ascending: true, nullsFirst: false });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+export const addLicense = async (staffId: string, license: PractitionerLicenseInput) => {
+    const { data, error } = await supabase
+        .from('practitioner_licenses')
+        .insert({ ...license, staff_id: staffId })
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    afterLicenseChange(staffId);
+    return data;
+};
+
+export const updateLicense = async (id: string, license: PractitionerLicenseInput) => {
+    const { data, error } = await supabase
+        .from('practitioner_licenses')
+        .update(license)
+        .eq('id', id)
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    afterLicenseChange(data.staff_id);
+    return data;
+};
+
+export const removeLicense = async (license: PractitionerLicense) => {
+    const { error } = await supabase
+        .from('practitioner_licenses')
+        .delete()
+        .eq('id', license.id);
+
+    if (error) throw toRepositoryError(error);
+    afterLicenseChange(license.staff_id);
+};
+
+// Soonest expiry first; licenses without an expiry date last.
+export const listLicenseOverview = async () => {
+    const { data, error } = await supabase
+        .from('license_overview')
+        .select('*')
+        .order('expires_on', { ascending: true, nullsFirst: false });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// --- Notifications -------------------------------------------------------------
+// Written by the database (license reminders); users can only read theirs and
+// mark them read.
+
+export const listMyNotifications = async (limit = 20) => {
+    const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('recipient_id', await getCurrentUserId())
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+export const markNotificationsRead = async (ids: string[]) => {
+    const { data, error } = await supabase.rpc('mark_notifications_read', { notification_ids: ids });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// --- Certifications ------------------------------------------------------------
+// Staff upload their own certificates to the private certificates bucket as
+// <staff id>/<uuid>.<ext>; the row records the type, dates and original file name.
+// Which certifications a department requires is set in Admin Settings.
+
+const CERTIFICATE_BUCKET = 'certificates';
+
+// How long a link to a certificate file works
+const CERTIFICATE_URL_SECONDS = 60;
+
+export const listCertificationTypes = () => cached('certification-types', async () => {
+    const { data, error } = await supabase
+        .from('certification_types')
+        .select('*')
+        .order('sort_order')
+        .order('label');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const upsertCertificationType = async (type: CertificationTypeInput) => {
+    const { data, error } = await supabase
+        .from('certification_types')
+        .upsert(type)
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('certification-');
+    return data;
+};
+
+export const listCertificationRequirements = () => cached('certification-requirements', async () => {
+    const { data, error } = await supabase
+        .from('certification_requirements')
+        .select('*');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const setCertificationRequired = async (department: string, certificationType: string, required: boolean) => {
+    const { error } = required
+        ? await supabase
+            .from('certification_requirements')
+            .upsert({ department, certification_type: certificationType })
+        : await supabase
+            .from('certification_requirements')
+            .delete()
+            .eq('department', department)
+            .eq('certification_type', certificationType);
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('certification-requirements');
+};
+
+// Not cached: the list changes with every upload.
+export const listCertifications = async (staffId: string) => {
+    const { data, error } = await supabase
+        .from('staff_certifications')
+        .select('*')
+        .eq('staff_id', staffId)
+        .order('uploaded_at', { ascending: false });
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+const fileExtension = (file: File) => {
+    const match = file.name.match(/\.([a-z0-9]+)$/i);
+    return match ? match[1].toLowerCase() : 'bin';
+};
+
+export const uploadCertification = async (staffId: string, file: File, details: StaffCertificationInput) => {
+    const path = `${staffId}/${crypto.randomUUID()}.${fileExtension(file)}`;
+    const { error: uploadError } = await supabase.storage
+        .from(CERTIFICATE_BUCKET)
+        .upload(path, file, { contentType: file.type });
+    if (uploadError) throw toStorageRepositoryError(uploadError);
+
+    const { data, error } = await supabase
+        .from('staff_certifications')
+        .insert({ ...details, staff_id: staffId, file_path: path, file_name: file.name })
+        .select()
+        .single();
+
+    if (error) {
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(CERTIFICATE_BUCKET).remove([path]);
+        throw toRepositoryError(error);
+    }
+    return data;
+};
+
+export const removeCertification = async (certification: StaffCertification) => {
+    const { error } = await supabase
+        .from('staff_certifications')
+        .delete()
+        .eq('id', certification.id);
+    if (error) throw toRepositoryError(error);
+
+    const { error: removeError } = await supabase.storage
+        .from(CERTIFICATE_BUCKET)
+        .remove([certification.file_path]);
+    if (removeError) throw toStorageRepositoryError(removeError);
+};
+
+export const getCertificateUrl = async (filePath: string, fileName: string) => {
+    const { data, error } = await supabase.storage
+        .from(CERTIFICATE_BUCKET)
+        .createSignedUrl(filePath, CERTIFICATE_URL_SECONDS, { download: fileName });
+
+    if (error) throw toStorageRepositoryError(error);
+    return data.signedUrl;
+};
+
+// Not cached: statuses depend on today's date and on uploads by everyone.
+export const listCertificationCompliance = async () => {
+    const { data, error } = await supabase
+        .from('certification_compliance')
+        .select('*')
+        .order('staff_name');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+};
+
+// --- Role permissions ----------------------------------------------------------
+
+export const listPermissions = () => cached('permissions', async () => {
+    const { data, error } = await supabase
+        .from('role_permissions')
+        .select('*')
+        .order('viewer_role')
+        .order('target_department');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+// Writes every given department rule for the role in one transaction.
+export const saveRolePermissions = async (role: string, rules: MatrixRule[]) => {
+    const { data, error } = await supabase.rpc('save_role_permissions', { role_key: role, rules: rules as unknown as Json });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('permissions');
+    invalidateCache('directory');
+    return data;
+};
+
+export const listMatrixPresets = () => cached('matrix-presets', async (): Promise<MatrixPreset[]> => {
+    const [presets, rules] = await Promise.all([
+        supabase.from('matrix_presets').select('*').order('name'),
+        supabase.from('matrix_preset_rules').select('*')
+    ]);
+
+    if (presets.error) throw toRepositoryError(presets.error);
+    if (rules.error) throw toRepositoryError(rules.error);
+    return presets.data.map(preset => ({
+        ...preset,
+        rules: rules.data
+            .filter(rule => rule.preset_id === preset.id)
+            .map(({ target_department, can_view, visible_fields }) => ({ target_department, can_view, visible_fields }))
+    }));
+});
+
+// Creates a preset, or replaces the rules of the preset with the same name.
+export const saveMatrixPreset = async (name: string, rules: MatrixRule[]) => {
+    const { data, error } = await supabase.rpc('save_matrix_preset', { preset_name: name, rules: rules as unknown as Json });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('matrix-presets');
+    return data;
+};
+
+export const deleteMatrixPreset = async (id: string) => {
+    const { error } = await supabase.from('matrix_presets').delete().eq('id', id);
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('matrix-presets');
+};
+
+// --- Role registry -------------------------------------------------------------
+
+export const listRoles = () => cached('roles', async (): Promise<RoleDefinition[]> => {
+    const { data, error } = await supabase
+        .from('roles')
+        .select('*')
+        .order('sort_order')
+        .order('key');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const upsertRole = async (role: RoleDefinitionInput) => {
+    const { data, error } = await supabase
+        .from('roles')
+        .upsert(role, { onConflict: 'key' })
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('roles');
+    invalidateCache('directory');
+    return data;
+};
+
+// --- Departments & locations ---------------------------------------------------
+// Both lists include archived rows; filter on archived_at where only active
+// entries should be offered.
+
+export const listDepartments = () => cached('departments', async () => {
+    const { data, error } = await supabase
+        .from('departments')
+        .select('*')
+        .order('sort_order')
+        .order('label');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const upsertDepartment = async (department: DepartmentInput) => {
+    const { data, error } = await supabase
+        .from('departments')
+        .upsert(department, { onConflict: 'key' })
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('departments');
+    return data;
+};
+
+export const renameDepartment = async (oldKey: string, newKey: string, newLabel: string) => {
+    const { data, error } = await supabase.rpc('rename_department', { old_key: oldKey, new_key: newKey, new_label: newLabel });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('departments');
+    invalidateCache('permissions');
+    invalidateCache('directory');
+    invalidateCache('profile:');
+    return data;
+};
+
+export const mergeDepartments = async (sourceKey: string, targetKey: string) => {
+    const { error } = await supabase.rpc('merge_departments', { source_key: sourceKey, target_key: targetKey });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('departments');
+    invalidateCache('permissions');
+    invalidateCache('directory');
+    invalidateCache('profile:');
+};
+
+export const listLocations = () => cached('locations', async () => {
+    const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('sort_order')
+        .order('name');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const upsertLocation = async (location: ClinicLocationInput) => {
+    const { data, error } = await supabase
+        .from('locations')
+        .upsert(location, { onConflict: 'name' })
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('locations');
+    invalidateCache('directory');
+    return data;
+};
+
+export const renameLocation = async (oldName: string, newName: string) => {
+    const { data, error } = await supabase.rpc('rename_location', { old_name: oldName, new_name: newName });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('locations');
+    invalidateCache('directory');
+    invalidateCache('profile:');
+    return data;
+};
+
+export const mergeLocations = async (sourceName: string, targetName: string) => {
+    const { error } = await supabase.rpc('merge_locations', { source_name: sourceName, target_name: targetName });
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('locations');
+    invalidateCache('directory');
+    invalidateCache('profile:');
+};
+
+// --- Email domains -------------------------------------------------------------
+// Work emails must use one of these; with none configured any domain is accepted.
+
+export const listEmailDomains = () => cached('email-domains', async () => {
+    const { data, error } = await supabase
+        .from('email_domains')
+        .select('*')
+        .order('domain');
+
+    if (error) throw toRepositoryError(error);
+    return data;
+});
+
+export const addEmailDomain = async (domain: string) => {
+    const { data, error } = await supabase
+        .from('email_domains')
+        .insert({ domain })
+        .select()
+        .single();
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('email-domains');
+    return data;
+};
+
+export const removeEmailDomain = async (domain: string) => {
+    const { error } = await supabase
+        .from('email_domains')
+        .delete()
+        .eq('domain', domain);
+
+    if (error) throw toRepositoryError(error);
+    invalidateCache('email-domains');
+};
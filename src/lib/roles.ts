@@ -0,0 +1,74 @@
+import type { Tables } from './database.types';
+
+// Role registry helpers. Roles, their labels and their capabilities live in the
+// `roles` table and are edited from Admin Settings; guards in the UI should ask
+// for a capability rather than checking role names.
+
+export const CAPABILITIES = [
+    'editStaff',
+    'viewHrFile',
+    'editHrFile',
+    'editLegalName',
+    'reviewProfileChanges',
+    'inviteStaff',
+    'importStaff',
+    'offboardStaff',
+    'viewLicenses',
+    'manageLicenses',
+    'viewCompliance',
+    'manageMatrix',
+    'manageRoles',
+    'manageOrganization',
+    'managePhotos',
+    'viewAllLocations',
+    'viewAuditLog'
+] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+export const CAPABILITY_LABELS: Record<Capability, { label: string; description: string }> = {
+    editStaff: { label: 'Edit Staff', description: 'Change roles, departments, locations and job details of any staff member.' },
+    viewHrFile: { label: 'View HR Files', description: 'Open the confidential HR file of any staff member.' },
+    editHrFile: { label: 'Edit HR Files', description: 'Create and change SIN, date of birth, emergency contact and end date.' },
+    editLegalName: { label: 'Edit Legal Names', description: 'Change legal and display names.' },
+    reviewProfileChanges: { label: 'Review Profile Changes', description: 'Approve or reject staff requests to change their legal or display name.' },
+    inviteStaff: { label: 'Invite Staff', description: 'Add new hires and send them an invitation to sign in.' },
+    importStaff: { label: 'Import Staff', description: 'Update and add staff in bulk from a CSV or XLSX spreadsheet.' },
+    offboardStaff: { label: 'Offboard Staff', description: 'Record departures; on the end date the person is hidden and their sign-in disabled.' },
+    viewLicenses: { label: 'View License Dashboard', description: 'See every practitioner license and which ones expire in the next 90 days.' },
+    manageLicenses: { label: 'Manage Licenses', description: 'Add practitioner licenses and change their dates and status.' },
+    viewCompliance: { label: 'View Compliance', description: 'See the certification compliance matrix and open staff certificates.' },
+    manageMatrix: { label: 'Manage Visibility Matrix', description: 'Configure which departments and fields each role can see.' },
+    manageRoles: { label: 'Manage Roles', description: 'Add roles and change their labels and capabilities.' },
+    manageOrganization: { label: 'Manage Organization', description: 'Add, rename, merge and archive departments and clinic locations.' },
+    managePhotos: { label: 'Manage Photos', description: 'Replace or remove any staff member\'s profile photo.' },
+    viewAllLocations: { label: 'View All Locations', description: 'See colleagues at every clinic, not only their own. Applies only when every role a person holds grants it.' },
+    viewAuditLog: { label: 'View HR Audit Log', description: 'See who opened or changed HR files, and export the log.' }
+};
+
+export type RoleDefinition = Tables<'roles'>;
+
+// Capabilities that grant access to at least one section of Admin Settings.
+export const ADMIN_CAPABILITIES: Capability[] = ['manageMatrix', 'manageRoles', 'manageOrganization'];
+
+export const canAccessAdmin = (capabilities: Set<Capability>) =>
+    ADMIN_CAPABILITIES.some(cap => capabilities.has(cap));
+
+export const isCapability = (value: string): value is Capability =>
+    (CAPABILITIES as readonly string[]).includes(value);
+
+// Union of the capabilities granted by each of a staff member's roles.
+export const capabilitiesFor = (registry: RoleDefinition[], staffRoles: string[]) => {
+    const granted = new Set<Capability>();
+    registry
+        .filter(role => staffRoles.includes(role.key))
+        .forEach(role => role.capabilities.filter(isCapability).forEach(cap => granted.add(cap)));
+    return granted;
+};
+
+export const roleLabel = (registry: RoleDefinition[], key: string) =>
+    registry.find(role => role.key === key)?.label
+    ?? key.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const formatRoles = (registry: RoleDefinition[], staffRoles: string[]) =>
+    staffRoles.map(key => roleLabel(registry, key)).join(', ');
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabasePublishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY || '';
@@ -7,4 +8,27 @@ if (!supabaseUrl || !supabasePublishableKey) {
   console.warn('Supabase URL or Publishable Key is missing. Check your environment variables.');
 }
 
-export const supabase = createClient(supabaseUrl, supabasePublishableKey);
+// Links in auth emails say what they are for (recovery, invite, ...) in the URL hash.
+// Read it before the client signs in from the link and clears the hash.
+export const emailLinkType = new URLSearchParams(window.location.hash.slice(1)).get('type');
+
+// Whether the session came from a reset or invite link and still needs a password.
+// Kept in sessionStorage until the password is saved, so a reload or a restored tab
+// still asks for it.
+const PASSWORD_SETUP_KEY = 'phoenixhub.passwordSetup';
+
+export const isPasswordSetupPending = () => sessionStorage.getItem(PASSWORD_SETUP_KEY) === 'pending';
+
+export const setPasswordSetupPending = (pending: boolean) => {
+  if (pending) {
+    sessionStorage.setItem(PASSWORD_SETUP_KEY, 'pending');
+  } else {
+    sessionStorage.removeItem(PASSWORD_SETUP_KEY);
+  }
+};
+
+if (emailLinkType === 'recovery' || emailLinkType === 'invite') {
+  setPasswordSetupPending(true);
+}
+
+export const supabase = createClient<Database>(supabaseUrl, supabasePublishableKey);
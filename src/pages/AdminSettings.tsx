@@ -1,68 +1,37 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
-import { Navigate } from 'react-router-dom';
+import { listCertificationRequirements, listCertificationTypes, listDepartments, listEmailDomains, listLocations, listMatrixPresets, listPermissions, listRoles } from '../lib/repository';
+import type { CertificationRequirement, CertificationType, ClinicLocation, Department, EmailDomain, MatrixPreset, RolePermission } from '../lib/repository';
+import { useCurrentStaff } from '../lib/currentStaff';
+import type { RoleDefinition } from '../lib/roles';
+import { RoleRegistryPanel } from '../components/RoleRegistryPanel';
+import { DepartmentsPanel } from '../components/DepartmentsPanel';
+import { LocationsPanel } from '../components/LocationsPanel';
+import { EmailDomainsPanel } from '../components/EmailDomainsPanel';
+import { CertificationRequirementsPanel } from '../components/CertificationRequirementsPanel';
+import { VisibilityMatrixPanel } from '../components/VisibilityMatrixPanel';
 import toast from 'react-hot-toast';
 
-interface RolePermission {
-    id?: string;
-    viewer_role: string;
-    target_department: string;
-    can_view: boolean;
-    visible_fields: string[];
-    created_at?: string;
-}
-
-const ROLES = [
-    'system_admin',
-    'executive',
-    'management',
-    'hr_management',
-    'administrative_support',
-    'clinical_provider'
-];
-
-const DEPARTMENTS = [
-    'clinical',
-    'executive',
-    'finance',
-    'hr',
-    'it',
-    'marketing',
-    'operations'
-];
-
 export function AdminSettings() {
-    const [isExecutive, setIsExecutive] = useState<boolean | null>(null);
+    const { capabilities } = useCurrentStaff();
+    const canManageMatrix = capabilities.has('manageMatrix');
     const [isLoading, setIsLoading] = useState(true);
     const [permissions, setPermissions] = useState<RolePermission[]>([]);
-    const [selectedRole, setSelectedRole] = useState<string>('clinical_provider');
+    const [presets, setPresets] = useState<MatrixPreset[]>([]);
+    const [roles, setRoles] = useState<RoleDefinition[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<ClinicLocation[]>([]);
+    const [emailDomains, setEmailDomains] = useState<EmailDomain[]>([]);
+    const [certificationTypes, setCertificationTypes] = useState<CertificationType[]>([]);
+    const [certificationRequirements, setCertificationRequirements] = useState<CertificationRequirement[]>([]);
 
     useEffect(() => {
-        const verifyAndLoadData = async () => {
+        // The route only opens for staff who may administer at least one section
+        const loadData = async () => {
             setIsLoading(true);
             try {
-                // Verify Executive
-                const { data: { user } } = await supabase.auth.getUser();
-                if (!user) {
-                    setIsExecutive(false);
-                    return;
-                }
-
-                const { data: profile } = await supabase
-                    .from('staff_profiles')
-                    .select('role')
-                    .eq('id', user.id)
-                    .single();
-
-                if (!profile?.role?.includes('executive')) {
-                    setIsExecutive(false);
-                    return;
-                }
-
-                setIsExecutive(true);
-
-                // Load Permissions
-                await fetchPermissions();
+                // Load Roles, Organization & Permissions
+                await Promise.all([fetchRoles(), fetchOrganization()]);
+                if (canManageMatrix) await fetchPermissions();
             } catch (err) {
                 console.error(err);
                 toast.error("Failed to load settings.");
@@ -71,73 +40,35 @@ export function AdminSettings() {
             }
         };
 
-        verifyAndLoadData();
-    }, []);
-
-    const fetchPermissions = async () => {
-        const { data, error } = await supabase
-            .from('role_permissions')
-            .select('*')
-            .order('viewer_role')
-            .order('target_department');
+        loadData();
+    }, [canManageMatrix]);
 
-        if (error) throw error;
-        setPermissions(data as RolePermission[]);
+    const fetchRoles = async () => {
+        setRoles(await listRoles());
     };
 
-    const formatLabel = (str: string) => {
-        if (!str) return '';
-        if (str.toLowerCase() === 'it') return 'IT';
-        if (str.toLowerCase() === 'hr') return 'HR';
-
-        return str.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+    const fetchOrganization = async () => {
+        const [depts, locs, domains, certTypes, certRequirements] = await Promise.all([
+            listDepartments(),
+            listLocations(),
+            listEmailDomains(),
+            listCertificationTypes(),
+            listCertificationRequirements()
+        ]);
+        setDepartments(depts);
+        setLocations(locs);
+        setEmailDomains(domains);
+        setCertificationTypes(certTypes);
+        setCertificationRequirements(certRequirements);
     };
 
-    const handleToggle = async (dept: string, field: 'can_view' | 'work_phone' | 'bio', currentValue: boolean) => {
-        try {
-            const existingRule = permissions.find(p => p.viewer_role === selectedRole && p.target_department === dept);
-
-            let newCanView = existingRule ? existingRule.can_view : false;
-            let newVisibleFields = existingRule?.visible_fields || [];
-
-            if (field === 'can_view') {
-                newCanView = !currentValue;
-            } else {
-                if (!currentValue) {
-                    newVisibleFields = [...newVisibleFields, field];
-                } else {
-                    newVisibleFields = newVisibleFields.filter(f => f !== field);
-                }
-            }
-
-            const rowObject = {
-                viewer_role: selectedRole,
-                target_department: dept,
-                can_view: newCanView,
-                visible_fields: newVisibleFields
-            };
-
-            const { error: upsertError } = await supabase
-                .from('role_permissions')
-                .upsert(rowObject, { onConflict: 'viewer_role, target_department' });
-
-            if (upsertError) {
-                console.error("Supabase error during upsert:", upsertError);
-                throw upsertError;
-            }
-
-            await fetchPermissions();
-            toast.success('Updated matrix successfully.');
-        } catch (err: any) {
-            console.error("Detailed catch error:", err);
-            toast.error(`Failed to update visibility matrix: ${err.message || 'Unknown error'}`);
-        }
+    const fetchPermissions = async () => {
+        const [rules, savedPresets] = await Promise.all([listPermissions(), listMatrixPresets()]);
+        setPermissions(rules);
+        setPresets(savedPresets);
     };
 
     if (isLoading) return <LoadingSpinner />;
-    if (isExecutive === false) return <Navigate to="/dashboard" replace />;
-
-    const currentRolePermissions = permissions.filter(p => p.viewer_role === selectedRole);
 
     return (
         <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
@@ -148,78 +79,33 @@ export function AdminSettings() {
                 Manage role-based access control and system configurations.
             </p>
 
-            <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px' }}>
-                <h2 style={{ fontSize: '1.5rem', fontWeight: '600', color: 'var(--text-main)', marginBottom: '1.5rem' }}>Visibility Matrix</h2>
-
-                <div style={{ marginBottom: '2rem' }}>
-                    <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-light)', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.5rem' }}>
-                        Configure Matrix For Role
-                    </label>
-                    <select
-                        value={selectedRole}
-                        onChange={(e) => setSelectedRole(e.target.value)}
-                        className="input-field"
-                        style={{ maxWidth: '300px', cursor: 'pointer' }}
-                    >
-                        {ROLES.map(r => (
-                            <option key={r} value={r}>{formatLabel(r)}</option>
-                        ))}
-                    </select>
-                </div>
-
-                <div style={{ overflowX: 'auto' }}>
-                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
-                        <thead>
-                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
-                                <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Target Department</th>
-                                <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Can See Department?</th>
-                                <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Can See Work Phone?</th>
-                                <th style={{ padding: '1rem', color: 'var(--text-main)', fontWeight: '600' }}>Can See Bio?</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {DEPARTMENTS.map(dept => {
-                                const permRule = currentRolePermissions.find(p => p.target_department === dept);
-                                const isVisible = permRule?.can_view || false;
-
-                                return (
-                                    <tr key={dept} style={{ borderBottom: '1px solid var(--surface-border)' }}>
-                                        <td style={{ padding: '1rem', fontWeight: '500', color: 'var(--text-main)' }}>
-                                            {formatLabel(dept)}
-                                        </td>
-                                        <td style={{ padding: '1rem' }}>
-                                            <input
-                                                type="checkbox"
-                                                checked={isVisible}
-                                                onChange={() => handleToggle(dept, 'can_view', isVisible)}
-                                                style={{ width: '18px', height: '18px', cursor: 'pointer' }}
-                                            />
-                                        </td>
-                                        <td style={{ padding: '1rem' }}>
-                                            <input
-                                                type="checkbox"
-                                                checked={permRule?.visible_fields?.includes('work_phone') || false}
-                                                disabled={!isVisible}
-                                                onChange={() => handleToggle(dept, 'work_phone', permRule?.visible_fields?.includes('work_phone') || false)}
-                                                style={{ width: '18px', height: '18px', cursor: isVisible ? 'pointer' : 'not-allowed', opacity: isVisible ? 1 : 0.5 }}
-                                            />
-                                        </td>
-                                        <td style={{ padding: '1rem' }}>
-                                            <input
-                                                type="checkbox"
-                                                checked={permRule?.visible_fields?.includes('bio') || false}
-                                                disabled={!isVisible}
-                                                onChange={() => handleToggle(dept, 'bio', permRule?.visible_fields?.includes('bio') || false)}
-                                                style={{ width: '18px', height: '18px', cursor: isVisible ? 'pointer' : 'not-allowed', opacity: isVisible ? 1 : 0.5 }}
-                                            />
-                                        </td>
-                                    </tr>
-                                );
-                            })}
-                        </tbody>
-                    </table>
-                </div>
-            </div>
+            {capabilities.has('manageRoles') && (
+                <RoleRegistryPanel roles={roles} onChange={fetchRoles} />
+            )}
+
+            {capabilities.has('manageOrganization') && (
+                <>
+                    <DepartmentsPanel departments={departments} onChange={fetchOrganization} />
+                    <LocationsPanel locations={locations} onChange={fetchOrganization} />
+                    <EmailDomainsPanel domains={emailDomains} onChange={fetchOrganization} />
+                    <CertificationRequirementsPanel
+                        types={certificationTypes}
+                        requirements={certificationRequirements}
+                        departments={departments}
+                        onChange={fetchOrganization}
+                    />
+                </>
+            )}
+
+            {capabilities.has('manageMatrix') && (
+                <VisibilityMatrixPanel
+                    roles={roles}
+                    departments={departments}
+                    permissions={permissions}
+                    presets={presets}
+                    onChange={fetchPermissions}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { describeError, listAllHrAuditEntries, listHrAuditEntries } from '../lib/repository';
+import type { HrAuditEntry, HrAuditFilters } from '../lib/repository';
+import { downloadCsv, toCsv } from '../utils/csv';
+import type { CsvColumn } from '../utils/csv';
+import toast from 'react-hot-toast';
+
+const ACTION_LABELS: Record<string, string> = {
+    read: 'Viewed',
+    create: 'Created',
+    update: 'Changed',
+    delete: 'Deleted'
+};
+
+const CSV_COLUMNS: CsvColumn<HrAuditEntry>[] = [
+    { header: 'Timestamp', value: entry => entry.occurred_at },
+    { header: 'Viewer', value: entry => entry.viewer_name },
+    { header: 'Viewer ID', value: entry => entry.viewer_id },
+    { header: 'Subject', value: entry => entry.subject_name },
+    { header: 'Subject ID', value: entry => entry.subject_id },
+    { header: 'Action', value: entry => entry.action },
+    { header: 'Fields', value: entry => (entry.fields || []).join(' ') },
+    { header: 'User Agent', value: entry => entry.user_agent }
+];
+
+const labelStyle = {
+    display: 'block',
+    fontSize: '0.75rem',
+    fontWeight: 600,
+    color: 'var(--text-light)',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    marginBottom: '0.5rem'
+};
+
+// Date inputs give local calendar days; the range includes the whole "to" day.
+const toFilters = (viewer: string, subject: string, from: string, to: string): HrAuditFilters => ({
+    viewer: viewer.trim() || undefined,
+    subject: subject.trim() || undefined,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+});
+
+export function AuditLog() {
+    const [entries, setEntries] = useState<HrAuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+    // Filters of the list on screen; the export uses these rather than unsubmitted input
+    const [appliedFilters, setAppliedFilters] = useState<HrAuditFilters>({});
+
+    const [viewer, setViewer] = useState('');
+    const [subject, setSubject] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const fetchEntries = async (filters: HrAuditFilters = {}) => {
+        try {
+            setEntries(await listHrAuditEntries(filters));
+            setAppliedFilters(filters);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to load the audit log: ${describeError(err)}`);
+        }
+    };
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                await fetchEntries();
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load the audit log.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        fetchEntries(toFilters(viewer, subject, from, to));
+    };
+
+    const handleReset = () => {
+        setViewer('');
+        setSubject('');
+        setFrom('');
+        setTo('');
+        fetchEntries();
+    };
+
+    // The list only shows the latest entries; the export has every matching one
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const all = await listAllHrAuditEntries(appliedFilters);
+            const stamp = new Date().toISOString().slice(0, 10);
+            downloadCsv(`hr-audit-log-${stamp}.csv`, toCsv(all, CSV_COLUMNS));
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to export the audit log: ${describeError(err)}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading audit log...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                HR Audit Log
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                Every time an HR file is opened or changed. Entries cannot be edited or removed.
+            </p>
+
+            <form onSubmit={handleSearch} className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', marginBottom: '1.5rem', display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'flex-end' }}>
+                <div style={{ flex: '1 1 200px' }}>
+                    <label style={labelStyle}>Viewer</label>
+                    <input className="input-field" value={viewer} onChange={(e) => setViewer(e.target.value)} placeholder="Name of who opened the file" />
+                </div>
+                <div style={{ flex: '1 1 200px' }}>
+                    <label style={labelStyle}>Subject</label>
+                    <input className="input-field" value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="Name of whose file" />
+                </div>
+                <div style={{ flex: '0 1 170px' }}>
+                    <label style={labelStyle}>From</label>
+                    <input className="input-field" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div style={{ flex: '0 1 170px' }}>
+                    <label style={labelStyle}>To</label>
+                    <input className="input-field" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button type="submit" className="btn-primary">Search</button>
+                    <button
+                        type="button"
+                        onClick={handleReset}
+                        style={{ padding: '0.75rem 1rem', borderRadius: '8px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#475569', fontWeight: 600, cursor: 'pointer' }}
+                    >
+                        Reset
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        disabled={entries.length === 0 || isExporting}
+                        style={{ padding: '0.75rem 1rem', borderRadius: '8px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#475569', fontWeight: 600, cursor: entries.length === 0 || isExporting ? 'not-allowed' : 'pointer' }}
+                    >
+                        {isExporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </form>
+
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                {entries.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '2rem' }}>No audit entries match these filters.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>When</th>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Viewer</th>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Subject</th>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Action</th>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Fields</th>
+                                <th style={{ padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' }}>Browser</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(entry => (
+                                <tr key={entry.id} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={{ padding: '0.75rem', whiteSpace: 'nowrap', color: 'var(--text-main)' }}>
+                                        {entry.occurred_at ? new Date(entry.occurred_at).toLocaleString() : ''}
+                                    </td>
+                                    <td style={{ padding: '0.75rem', color: 'var(--text-main)' }}>{entry.viewer_name || 'Unknown user'}</td>
+                                    <td style={{ padding: '0.75rem', color: 'var(--text-main)' }}>{entry.subject_name || 'Unknown staff'}</td>
+                                    <td style={{ padding: '0.75rem', color: 'var(--text-main)' }}>{ACTION_LABELS[entry.action || ''] || entry.action}</td>
+                                    <td style={{ padding: '0.75rem', color: 'var(--text-muted)' }}>{(entry.fields || []).join(', ')}</td>
+                                    <td style={{ padding: '0.75rem', color: 'var(--text-muted)', maxWidth: '260px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={entry.user_agent || undefined}>
+                                        {entry.user_agent || '—'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { describeError, getCertificateUrl, listCertificationCompliance, listCertificationTypes, listDepartments } from '../lib/repository';
+import type { CertificationType, ComplianceEntry, ComplianceStatus, Department } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+import { COMPLIANCE_STATUS_COLORS, COMPLIANCE_STATUS_LABELS, isComplianceStatus } from '../utils/certifications';
+
+const cellStyle = { padding: '0.75rem', color: 'var(--text-main)' };
+const headerStyle = { padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+const SUMMARY_STATUSES: ComplianceStatus[] = ['missing', 'expired', 'expiring', 'valid'];
+
+interface StaffRow {
+    staffId: string;
+    name: string;
+    jobTitle: string | null;
+    department: string | null;
+    cells: Map<string, ComplianceEntry>;
+}
+
+// Groups the view's one-row-per-requirement output into one row per person.
+const toStaffRows = (entries: ComplianceEntry[]): StaffRow[] => {
+    const rows = new Map<string, StaffRow>();
+    for (const entry of entries) {
+        if (!entry.staff_id || !entry.certification_type) continue;
+        let row = rows.get(entry.staff_id);
+        if (!row) {
+            row = { staffId: entry.staff_id, name: entry.staff_name || 'Unnamed staff', jobTitle: entry.job_title, department: entry.department, cells: new Map() };
+            rows.set(entry.staff_id, row);
+        }
+        row.cells.set(entry.certification_type, entry);
+    }
+    return [...rows.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Compliance matrix: every current staff member against the certifications their
+// department requires. Missing and expired certificates are highlighted.
+export function Compliance() {
+    const [entries, setEntries] = useState<ComplianceEntry[]>([]);
+    const [types, setTypes] = useState<CertificationType[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [departmentFilter, setDepartmentFilter] = useState('all');
+    const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [rows, allTypes, depts] = await Promise.all([listCertificationCompliance(), listCertificationTypes(), listDepartments()]);
+                setEntries(rows);
+                setTypes(allTypes);
+                setDepartments(depts);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load compliance.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading compliance...</p>
+            </div>
+        );
+    }
+
+    const departmentLabel = (key: string | null) =>
+        (key && departments.find(d => d.key === key)?.label) || key || 'Unassigned';
+
+    const statusOf = (entry: ComplianceEntry): ComplianceStatus => isComplianceStatus(entry.status) ? entry.status : 'missing';
+    const isProblem = (entry: ComplianceEntry) => statusOf(entry) === 'missing' || statusOf(entry) === 'expired';
+
+    const filtered = entries.filter(e => departmentFilter === 'all' || e.department === departmentFilter);
+    const staffRows = toStaffRows(filtered).filter(row => !showProblemsOnly || [...row.cells.values()].some(isProblem));
+
+    // Columns are the certifications required somewhere in the filtered departments
+    const columns = types.filter(t => filtered.some(e => e.certification_type === t.key));
+    const departmentsWithRequirements = departments.filter(d => entries.some(e => e.department === d.key));
+
+    const handleOpen = async (entry: ComplianceEntry) => {
+        if (!entry.file_path) return;
+        try {
+            window.open(await getCertificateUrl(entry.file_path, entry.file_name || 'certificate'), '_blank', 'noopener');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to open the certificate: ${describeError(err)}`);
+        }
+    };
+
+    const renderCell = (entry: ComplianceEntry | undefined) => {
+        if (!entry) {
+            return <span style={{ color: 'var(--text-light)' }}>—</span>;
+        }
+        const status = statusOf(entry);
+        const chip = (
+            <span style={{
+                backgroundColor: COMPLIANCE_STATUS_COLORS[status].background,
+                color: COMPLIANCE_STATUS_COLORS[status].color,
+                padding: '0.1rem 0.5rem',
+                borderRadius: '9999px',
+                fontSize: '0.75rem',
+                fontWeight: 600,
+                whiteSpace: 'nowrap'
+            }}>
+                {COMPLIANCE_STATUS_LABELS[status]}
+            </span>
+        );
+        if (!entry.file_path) return chip;
+        return (
+            <button
+                type="button"
+                onClick={() => handleOpen(entry)}
+                title={entry.expires_on ? `${entry.file_name} · Expires ${formatDateOnly(entry.expires_on)}` : `${entry.file_name} · No expiry`}
+                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', display: 'inline-flex', flexDirection: 'column', alignItems: 'center', gap: '0.2rem' }}
+            >
+                {chip}
+                {entry.expires_on && <span style={{ color: 'var(--text-muted)', fontSize: '0.75rem' }}>{formatDateOnly(entry.expires_on)}</span>}
+            </button>
+        );
+    };
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                Compliance
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                Certifications each department requires, per staff member. Staff upload their certificates from their Dashboard; select a status to open the certificate.
+            </p>
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem', marginBottom: '2.5rem' }}>
+                {SUMMARY_STATUSES.map(status => {
+                    const count = filtered.filter(e => statusOf(e) === status).length;
+                    const isAlert = (status === 'missing' || status === 'expired') && count > 0;
+                    return (
+                        <div key={status} className="glass-panel" style={{ padding: '1.25rem', borderRadius: '16px' }}>
+                            <div style={{ fontSize: '2rem', fontWeight: 700, color: isAlert ? '#b91c1c' : 'var(--text-main)' }}>{count}</div>
+                            <div style={{ color: 'var(--text-muted)', fontWeight: 600, fontSize: '0.9rem' }}>{COMPLIANCE_STATUS_LABELS[status]}</div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+                <select
+                    className="input-field"
+                    value={departmentFilter}
+                    onChange={(e) => setDepartmentFilter(e.target.value)}
+                    style={{ maxWidth: '240px', padding: '0.5rem' }}
+                    aria-label="Department"
+                >
+                    <option value="all">All departments</option>
+                    {departmentsWithRequirements.map(d => (
+                        <option key={d.key} value={d.key}>{d.label}</option>
+                    ))}
+                </select>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: 'var(--text-main)', fontSize: '0.9rem', cursor: 'pointer' }}>
+                    <input type="checkbox" checked={showProblemsOnly} onChange={(e) => setShowProblemsOnly(e.target.checked)} />
+                    Only staff with missing or expired certificates
+                </label>
+            </div>
+
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                {staffRows.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '1rem' }}>
+                        {entries.length === 0 ? 'No department requires a certification yet. Set requirements in Admin Settings.' : 'Nobody matches these filters.'}
+                    </p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={headerStyle}>Staff Member</th>
+                                <th style={headerStyle}>Department</th>
+                                {columns.map(type => (
+                                    <th key={type.key} style={{ ...headerStyle, textAlign: 'center' }}>{type.label}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {staffRows.map(row => (
+                                <tr key={row.staffId} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={cellStyle}>
+                                        <Link to={`/directory/${row.staffId}`} style={{ color: 'var(--primary-600)', fontWeight: 600, textDecoration: 'none' }}>
+                                            {row.name}
+                                        </Link>
+                                        {row.jobTitle && <div style={{ color: 'var(--text-muted)', fontSize: '0.8rem' }}>{row.jobTitle}</div>}
+                                    </td>
+                                    <td style={cellStyle}>{departmentLabel(row.department)}</td>
+                                    {columns.map(type => {
+                                        const entry = row.cells.get(type.key);
+                                        return (
+                                            <td
+                                                key={type.key}
+                                                style={{
+                                                    ...cellStyle,
+                                                    textAlign: 'center',
+                                                    backgroundColor: entry && isProblem(entry) ? '#fef2f2' : undefined
+                                                }}
+                                            >
+                                                {renderCell(entry)}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
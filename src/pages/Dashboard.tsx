@@ -1,48 +1,36 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { describeError, getHrRecord, getMyLatestProfileChange, getMyProfile, listEmailDomains, RepositoryError, requestProfileChange, subscribeToLiveUpdates, updateProfile, withdrawProfileChange } from '../lib/repository';
+import type { HRRecord, ProfileChangeRequest, ProfileChangeValues, StaffProfile } from '../lib/repository';
+import { APPROVAL_REQUIRED_FIELDS } from '../lib/profileFields';
+import { useCurrentStaff } from '../lib/currentStaff';
+import { formatRoles } from '../lib/roles';
 import type { User } from '@supabase/supabase-js';
-import { formatPhoneNumber } from '../utils/formatters';
+import { formatPersonName, formatPhoneNumber } from '../utils/formatters';
+import { formatDateOnly, formatSin, maskDate, maskPhone, maskSin } from '../utils/masking';
 import toast from 'react-hot-toast';
+import { SensitiveValue } from '../components/SensitiveValue';
+import { ChangePasswordModal } from '../components/ChangePasswordModal';
+import { Avatar } from '../components/Avatar';
+import { ProfilePhotoActions } from '../components/ProfilePhotoActions';
+import { ProfileChangeNotice } from '../components/ProfileChangeNotice';
+import { CertificationsPanel } from '../components/CertificationsPanel';
+import { asProfileChangeValues, sameProfileChanges } from '../utils/profileChanges';
+import { normalizeEmail, normalizePhone, validatePhone, validateWorkEmail } from '../utils/contactDetails';
 
-interface StaffProfile {
-    id: string;
-    role: string[];
-    department: string;
-    clinic_locations: string[];
-    work_phone: string;
-    bio: string;
-    job_title?: string;
-    employee_id?: string;
-    preferred_name?: string;
-    legal_first_name?: string;
-    legal_middle_name?: string;
-    legal_last_name?: string;
-    display_name?: string;
-    work_email?: string;
-    practitioner_license_number?: string;
-    highest_education?: string;
-    profile_photo_url?: string;
-    employment_status?: string;
-    employment_type?: string;
-    fluent_languages?: string[];
-}
-
-export interface HRRecord {
-    id: string;
-    sin: string;
-    date_of_birth: string;
-    emergency_contact_name: string;
-    emergency_contact_phone: string;
-    end_date?: string;
-}
+const errorStyle = { display: 'block', fontSize: '0.8rem', color: 'var(--error-text)', marginTop: '0.25rem' };
 
 export function Dashboard({ user }: { user: User | null }) {
     const [profileData, setProfileData] = useState<StaffProfile | null>(null);
+    const { roleRegistry } = useCurrentStaff();
+    const [emailDomains, setEmailDomains] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
 
     // Edit mode states
     const [isEditing, setIsEditing] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    // Contact errors show once a field has been left or a save attempted
+    const [showContactErrors, setShowContactErrors] = useState(false);
     const [formData, setFormData] = useState({
         work_phone: '',
         work_email: '',
@@ -59,7 +47,12 @@ export function Dashboard({ user }: { user: User | null }) {
     const [hrRecord, setHrRecord] = useState<HRRecord | null>(null);
     const [isHrLoading, setIsHrLoading] = useState(false);
     const [hrError, setHrError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'profile' | 'hr'>('profile');
+    const [activeTab, setActiveTab] = useState<'profile' | 'certifications' | 'hr'>('profile');
+    const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+    // Latest legal/display name change request
+    const [latestChange, setLatestChange] = useState<ProfileChangeRequest | null>(null);
+    const [isWithdrawing, setIsWithdrawing] = useState(false);
 
     useEffect(() => {
         const fetchProfile = async () => {
@@ -70,130 +63,165 @@ export function Dashboard({ user }: { user: User | null }) {
 
             setIsLoading(true);
 
-            const { data, error: fetchError } = await supabase
-                .from('staff_profiles')
-                .select('*')
-                .eq('id', user.id)
-                .single();
-
-            if (fetchError) {
-                console.error("Dashboard profile fetch error:", fetchError);
-                if (fetchError.code === 'PGRST116') {
+            try {
+                const [profile, change, domains] = await Promise.all([
+                    getMyProfile(), getMyLatestProfileChange(), listEmailDomains()
+                ]);
+                setProfileData(profile);
+                setEmailDomains(domains.map(d => d.domain));
+                setLatestChange(change);
+            } catch (err) {
+                console.error("Dashboard profile fetch error:", err);
+                if (err instanceof RepositoryError && err.code === 'not_found') {
                     toast.error('Profile not found. Please contact the clinic administrator.');
                 } else {
-                    toast.error(`Error: ${fetchError.message || 'An error occurred while fetching your profile.'}`);
+                    toast.error(`Error: ${describeError(err, 'An error occurred while fetching your profile.')}`);
                 }
-            } else if (data) {
-                setProfileData({
-                    ...data,
-                    clinic_locations: data.clinic_locations || [],
-                    fluent_languages: data.fluent_languages || []
-                } as StaffProfile);
             }
 
             setIsLoading(false);
         };
 
-        const fetchHrRecord = async () => {
-            if (!user) return;
-            setIsHrLoading(true);
+        fetchProfile();
+    }, [user]);
 
-            const { data, error } = await supabase
-                .from('hr_records')
-                .select('*')
-                .eq('id', user.id)
-                .single();
+    // Every read of the HR record is audited, so it is only fetched when the HR tab is opened
+    useEffect(() => {
+        if (activeTab !== 'hr' || !user) return;
+        let cancelled = false;
 
-            if (error && error.code !== 'PGRST116') {
-                setHrError('Could not load HR data.');
-            } else if (data) {
-                setHrRecord(data as HRRecord);
-            }
-            setIsHrLoading(false);
+        getHrRecord(user.id)
+            .then(record => {
+                if (!cancelled) setHrRecord(record);
+            })
+            .catch(err => {
+                console.error(err);
+                if (!cancelled) setHrError('Could not load HR data.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsHrLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
         };
+    }, [activeTab, user]);
 
-        fetchProfile();
-        fetchHrRecord();
+    const openHrTab = () => {
+        if (activeTab === 'hr') return;
+        setHrError(null);
+        setIsHrLoading(true);
+        setActiveTab('hr');
+    };
+
+    // Keep the profile current when HR or an approver changes it in another session
+    useEffect(() => {
+        if (!user) return;
+
+        return subscribeToLiveUpdates(async changes => {
+            if (!changes.some(c => c.topic === 'staff' && c.entity === user.id)) return;
+            try {
+                const [profile, change] = await Promise.all([getMyProfile(), getMyLatestProfileChange()]);
+                setProfileData(profile);
+                setLatestChange(change);
+            } catch (err) {
+                console.error(err);
+            }
+        });
     }, [user]);
 
     const handleLogout = async () => {
         await supabase.auth.signOut();
     };
 
-    const formatRole = (roles: string[]) => {
-        if (!roles || roles.length === 0) return '';
-        return roles.map(role => {
-            if (role === 'system_admin') return 'System Admin';
-            if (role === 'executive') return 'Executive';
-            if (role === 'management') return 'Management';
-            if (role === 'hr_management') return 'HR Management';
-            if (role === 'administrative_support') return 'Admin Support';
-            if (role === 'clinical_provider') return 'Clinical Provider';
-            if (role === 'hr') return 'HR';
-            return role.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-        }).join(', ');
-    };
+    const profileName = profileData ? formatPersonName(profileData) : '';
 
-    const userRole = profileData?.role || [];
-    const isHR = userRole.includes('hr') || userRole.includes('hr_management') || userRole.includes('executive');
+    const pendingChanges = latestChange?.status === 'pending' ? asProfileChangeValues(latestChange.changes) : null;
 
     const handleEditClick = () => {
+        // Names start from the pending request, if any, so editing again doesn't lose it
+        const nameValue = (field: keyof ProfileChangeValues) =>
+            (pendingChanges && field in pendingChanges ? pendingChanges[field] : profileData?.[field]) || '';
+
         setFormData({
-            work_phone: profileData?.work_phone || '',
+            work_phone: profileData?.work_phone ? formatPhoneNumber(profileData.work_phone) : '',
             work_email: profileData?.work_email || '',
             bio: profileData?.bio || '',
             preferred_name: profileData?.preferred_name || '',
-            legal_first_name: profileData?.legal_first_name || '',
-            legal_middle_name: profileData?.legal_middle_name || '',
-            legal_last_name: profileData?.legal_last_name || '',
-            display_name: profileData?.display_name || '',
+            legal_first_name: nameValue('legal_first_name'),
+            legal_middle_name: nameValue('legal_middle_name'),
+            legal_last_name: nameValue('legal_last_name'),
+            display_name: nameValue('display_name'),
             fluent_languages: profileData?.fluent_languages || []
         });
+        setShowContactErrors(false);
         setIsEditing(true);
     };
 
+    const contactErrors = {
+        work_email: validateWorkEmail(formData.work_email, emailDomains),
+        work_phone: validatePhone(formData.work_phone)
+    };
+
     const handleCancelClick = () => {
         setIsEditing(false);
     };
 
     const handleSaveClick = async () => {
         if (!user) return;
+        if (contactErrors.work_email || contactErrors.work_phone) {
+            setShowContactErrors(true);
+            toast.error('Check your contact details.');
+            return;
+        }
         setIsSaving(true);
 
-        const { error: saveError } = await supabase
-            .from('staff_profiles')
-            .update({
-                work_phone: formData.work_phone,
-                work_email: formData.work_email,
-                bio: formData.bio,
-                preferred_name: formData.preferred_name,
-                legal_first_name: formData.legal_first_name,
-                legal_middle_name: formData.legal_middle_name,
-                legal_last_name: formData.legal_last_name,
-                display_name: formData.display_name,
-                fluent_languages: formData.fluent_languages
-            })
-            .eq('id', user.id);
-
-        setIsSaving(false);
+        // Legal and display names aren't saved here; changes to them go to HR for approval
+        const nameChanges: ProfileChangeValues = {};
+        APPROVAL_REQUIRED_FIELDS.forEach(field => {
+            const value = formData[field].trim() || null;
+            if (value !== (profileData?.[field] || null)) nameChanges[field] = value;
+        });
+        const hasNameChanges = Object.keys(nameChanges).length > 0;
 
-        if (saveError) {
-            toast.error(saveError.message || 'An error occurred while saving your profile.');
-        } else {
-            setProfileData(prev => prev ? {
-                ...prev,
-                work_phone: formData.work_phone,
-                work_email: formData.work_email,
+        try {
+            const updated = await updateProfile(user.id, {
+                work_phone: normalizePhone(formData.work_phone),
+                work_email: normalizeEmail(formData.work_email) || null,
                 bio: formData.bio,
                 preferred_name: formData.preferred_name,
-                legal_first_name: formData.legal_first_name,
-                legal_middle_name: formData.legal_middle_name,
-                legal_last_name: formData.legal_last_name,
-                display_name: formData.display_name,
                 fluent_languages: formData.fluent_languages
-            } : null);
+            });
+            setProfileData(updated);
+
+            if (hasNameChanges && !(pendingChanges && sameProfileChanges(nameChanges, pendingChanges))) {
+                setLatestChange(await requestProfileChange(nameChanges));
+                toast.success('Profile updated. Your name change has been sent to HR for approval.');
+            } else if (!hasNameChanges && latestChange && pendingChanges) {
+                // Names were put back as they are, so the pending request is no longer wanted
+                setLatestChange(await withdrawProfileChange(latestChange.id));
+                toast.success('Profile updated and your name change request withdrawn.');
+            } else {
+                toast.success('Profile updated successfully!');
+            }
             setIsEditing(false);
-            toast.success('Profile updated successfully!');
+        } catch (err) {
+            toast.error(describeError(err, 'An error occurred while saving your profile.'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleWithdrawChange = async () => {
+        if (!latestChange) return;
+        setIsWithdrawing(true);
+        try {
+            setLatestChange(await withdrawProfileChange(latestChange.id));
+            toast.success('Name change request withdrawn.');
+        } catch (err) {
+            toast.error(describeError(err, 'Could not withdraw the request.'));
+        } finally {
+            setIsWithdrawing(false);
         }
     };
 
@@ -241,6 +269,14 @@ export function Dashboard({ user }: { user: User | null }) {
                 {profileData ? (
                     <div style={{ textAlign: 'center' }}>
                         <div style={{ marginBottom: '1.5rem', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.5rem' }}>
+                            <Avatar photoUrl={profileData.profile_photo_url} name={profileName} size={88} />
+                            {isEditing && (
+                                <ProfilePhotoActions
+                                    personId={profileData.id}
+                                    hasPhoto={!!profileData.profile_photo_url}
+                                    onChange={(updated) => setProfileData(updated)}
+                                />
+                            )}
                             <h1 style={{
                                 fontSize: '2rem',
                                 fontWeight: '700',
@@ -248,7 +284,7 @@ export function Dashboard({ user }: { user: User | null }) {
                                 marginBottom: '0.25rem',
                                 letterSpacing: '-0.025em'
                             }}>
-                                {profileData.display_name || `${profileData.preferred_name || profileData.legal_first_name || ''} ${profileData.legal_last_name || ''}`.trim() || 'Unknown Profile'}
+                                {profileName || 'Unknown Profile'}
                             </h1>
                             <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center' }}>
                                 <span style={{
@@ -260,7 +296,7 @@ export function Dashboard({ user }: { user: User | null }) {
                                     fontSize: '0.875rem',
                                     fontWeight: '500',
                                 }}>
-                                    {profileData.role ? formatRole(profileData.role) : 'Staff Member'}
+                                    {profileData.role.length > 0 ? formatRoles(roleRegistry, profileData.role) : 'Staff Member'}
                                 </span>
                                 {profileData.clinic_locations && profileData.clinic_locations.length > 0 && profileData.clinic_locations.map(loc => (
                                     <span key={loc} style={{
@@ -278,6 +314,8 @@ export function Dashboard({ user }: { user: User | null }) {
                             </div>
                         </div>
 
+                        <ProfileChangeNotice request={latestChange} onWithdraw={handleWithdrawChange} isWithdrawing={isWithdrawing} />
+
                         {/* Navigation Tabs */}
                         <div style={{
                             display: 'flex',
@@ -304,7 +342,24 @@ export function Dashboard({ user }: { user: User | null }) {
                                 Public Profile
                             </button>
                             <button
-                                onClick={() => setActiveTab('hr')}
+                                onClick={() => setActiveTab('certifications')}
+                                style={{
+                                    background: 'none',
+                                    border: 'none',
+                                    padding: '0.5rem 1rem',
+                                    fontSize: '0.95rem',
+                                    fontWeight: 600,
+                                    color: activeTab === 'certifications' ? 'var(--primary-600)' : 'var(--text-light)',
+                                    borderBottom: activeTab === 'certifications' ? '2px solid var(--primary-600)' : '2px solid transparent',
+                                    cursor: 'pointer',
+                                    transition: 'all 0.2s ease',
+                                    transform: activeTab === 'certifications' ? 'translateY(1px)' : 'none'
+                                }}
+                            >
+                                Certifications
+                            </button>
+                            <button
+                                onClick={openHrTab}
                                 style={{
                                     background: 'none',
                                     border: 'none',
@@ -334,7 +389,9 @@ export function Dashboard({ user }: { user: User | null }) {
                             marginBottom: '2rem',
                             textAlign: 'left'
                         }}>
-                            {activeTab === 'hr' ? (
+                            {activeTab === 'certifications' ? (
+                                <CertificationsPanel staffId={profileData.id} department={profileData.department} />
+                            ) : activeTab === 'hr' ? (
                                 isHrLoading ? (
                                     <div style={{ textAlign: 'center', color: 'var(--text-muted)', padding: '2rem' }}>Loading HR data...</div>
                                 ) : hrRecord ? (
@@ -342,15 +399,11 @@ export function Dashboard({ user }: { user: User | null }) {
                                         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
                                             <div>
                                                 <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: '#be185d', marginBottom: '0.25rem', fontWeight: 600 }}>Date of Birth</div>
-                                                <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
-                                                    {hrRecord.date_of_birth ? new Date(hrRecord.date_of_birth).toLocaleDateString() : 'N/A'}
-                                                </div>
+                                                <SensitiveValue value={hrRecord.date_of_birth} label="date of birth" mask={maskDate} format={formatDateOnly} />
                                             </div>
                                             <div>
                                                 <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: '#be185d', marginBottom: '0.25rem', fontWeight: 600 }}>Social Insurance Number</div>
-                                                <div style={{ color: 'var(--text-main)', fontWeight: 500, fontFamily: 'monospace', letterSpacing: '0.05em' }}>
-                                                    {hrRecord.sin || 'N/A'}
-                                                </div>
+                                                <SensitiveValue value={hrRecord.sin} label="SIN" mask={maskSin} format={formatSin} monospace />
                                             </div>
                                             {hrRecord.end_date && (
                                                 <div style={{ gridColumn: '1 / -1' }}>
@@ -373,9 +426,7 @@ export function Dashboard({ user }: { user: User | null }) {
                                                 </div>
                                                 <div>
                                                     <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: '#be185d', marginBottom: '0.25rem', fontWeight: 600 }}>Phone Number</div>
-                                                    <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
-                                                        {hrRecord.emergency_contact_phone ? formatPhoneNumber(hrRecord.emergency_contact_phone) : 'N/A'}
-                                                    </div>
+                                                    <SensitiveValue value={hrRecord.emergency_contact_phone} label="emergency contact phone" mask={maskPhone} format={formatPhoneNumber} />
                                                 </div>
                                             </div>
                                         </div>
@@ -399,8 +450,6 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     onChange={(e) => setFormData({ ...formData, legal_first_name: e.target.value })}
                                                     className="input-field"
                                                     placeholder="Given name"
-                                                    disabled={!isHR}
-                                                    style={{ opacity: isHR ? 1 : 0.6, cursor: isHR ? 'text' : 'not-allowed' }}
                                                 />
                                             </div>
                                             <div>
@@ -413,8 +462,6 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     onChange={(e) => setFormData({ ...formData, legal_middle_name: e.target.value })}
                                                     className="input-field"
                                                     placeholder="Middle name (optional)"
-                                                    disabled={!isHR}
-                                                    style={{ opacity: isHR ? 1 : 0.6, cursor: isHR ? 'text' : 'not-allowed' }}
                                                 />
                                             </div>
                                             <div>
@@ -427,8 +474,6 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     onChange={(e) => setFormData({ ...formData, legal_last_name: e.target.value })}
                                                     className="input-field"
                                                     placeholder="Family name"
-                                                    disabled={!isHR}
-                                                    style={{ opacity: isHR ? 1 : 0.6, cursor: isHR ? 'text' : 'not-allowed' }}
                                                 />
                                             </div>
                                         </div>
@@ -445,22 +490,23 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     placeholder="What should we call you?"
                                                 />
                                             </div>
-                                            {isHR && (
-                                                <div>
-                                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>
-                                                        Display Name
-                                                    </label>
-                                                    <input
-                                                        type="text"
-                                                        value={formData.display_name}
-                                                        onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
-                                                        className="input-field"
-                                                        placeholder="Full display name (e.g. Dr. Jane Doe)"
-                                                    />
-                                                    <span style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>This is the name displayed to patients and staff.</span>
-                                                </div>
-                                            )}
+                                            <div>
+                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>
+                                                    Display Name
+                                                </label>
+                                                <input
+                                                    type="text"
+                                                    value={formData.display_name}
+                                                    onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+                                                    className="input-field"
+                                                    placeholder="Full display name (e.g. Dr. Jane Doe)"
+                                                />
+                                                <span style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>This is the name displayed to patients and staff.</span>
+                                            </div>
                                         </div>
+                                        <p style={{ fontSize: '0.8rem', color: 'var(--text-muted)', marginTop: '1rem' }}>
+                                            Changes to your legal or display name are reviewed by HR before they appear on your profile.
+                                        </p>
                                     </div>
 
                                     {/* Contact Information Card */}
@@ -475,9 +521,11 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     type="email"
                                                     value={formData.work_email}
                                                     onChange={(e) => setFormData({ ...formData, work_email: e.target.value })}
+                                                    onBlur={() => setShowContactErrors(true)}
                                                     className="input-field"
-                                                    placeholder="Email address"
+                                                    placeholder={`name@${emailDomains[0] ?? 'example.com'}`}
                                                 />
+                                                {showContactErrors && contactErrors.work_email && <span style={errorStyle}>{contactErrors.work_email}</span>}
                                             </div>
                                             <div>
                                                 <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>
@@ -487,9 +535,15 @@ export function Dashboard({ user }: { user: User | null }) {
                                                     type="tel"
                                                     value={formData.work_phone}
                                                     onChange={(e) => setFormData({ ...formData, work_phone: e.target.value })}
+                                                    onBlur={() => {
+                                                        setShowContactErrors(true);
+                                                        const phone = normalizePhone(formData.work_phone);
+                                                        if (phone) setFormData({ ...formData, work_phone: formatPhoneNumber(phone) });
+                                                    }}
                                                     className="input-field"
-                                                    placeholder="Enter phone number"
+                                                    placeholder="604-555-0123 x12"
                                                 />
+                                                {showContactErrors && contactErrors.work_phone && <span style={errorStyle}>{contactErrors.work_phone}</span>}
                                             </div>
                                         </div>
                                     </div>
@@ -658,6 +712,37 @@ export function Dashboard({ user }: { user: User | null }) {
                             )
                         )}
 
+                        {!isEditing && user?.email && (
+                            <button
+                                onClick={() => setIsChangingPassword(true)}
+                                style={{
+                                    width: '100%',
+                                    padding: '0.75rem 1.5rem',
+                                    borderRadius: '8px',
+                                    border: '1px solid #e2e8f0',
+                                    backgroundColor: '#ffffff',
+                                    color: '#475569',
+                                    fontSize: '1rem',
+                                    fontWeight: 600,
+                                    cursor: 'pointer',
+                                    transition: 'all 0.2s ease',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    gap: '0.5rem',
+                                    marginBottom: '1rem'
+                                }}
+                                onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#f8fafc'}
+                                onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#ffffff'}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                                    <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
+                                </svg>
+                                Change Password
+                            </button>
+                        )}
+
                         <button
                             onClick={handleLogout}
                             style={{
@@ -733,6 +818,10 @@ export function Dashboard({ user }: { user: User | null }) {
                     </div>
                 )}
             </div>
+
+            {isChangingPassword && user?.email && (
+                <ChangePasswordModal email={user.email} onClose={() => setIsChangingPassword(false)} />
+            )}
         </div>
     );
 }
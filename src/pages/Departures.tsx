@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { cancelOffboarding, describeError, listDepartments, listDepartures } from '../lib/repository';
+import type { Department, StaffDeparture } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+
+const cellStyle = { padding: '0.75rem', color: 'var(--text-main)' };
+const headerStyle = { padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+// Status restored when a scheduled departure is withdrawn
+const RESTORED_STATUS = 'Active';
+
+// Upcoming and completed departures for HR. Departed staff are hidden from the
+// Directory, so completed departures are listed without a profile link.
+export function Departures() {
+    const [departures, setDepartures] = useState<StaffDeparture[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [rows, depts] = await Promise.all([listDepartures(), listDepartments()]);
+                setDepartures(rows);
+                setDepartments(depts);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load departures.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleCancel = async (departure: StaffDeparture) => {
+        if (!departure.id) return;
+        if (!window.confirm(`Withdraw the departure of ${departure.staff_name}? Their status will be set back to ${RESTORED_STATUS}.`)) return;
+
+        setCancellingId(departure.id);
+        try {
+            await cancelOffboarding(departure.id, RESTORED_STATUS);
+            setDepartures(await listDepartures());
+            toast.success('Departure withdrawn.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to withdraw the departure: ${describeError(err)}`);
+        } finally {
+            setCancellingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading departures...</p>
+            </div>
+        );
+    }
+
+    const departmentLabel = (key: string | null) =>
+        (key && departments.find(d => d.key === key)?.label) || key || 'Unassigned';
+
+    // Soonest first for upcoming, most recent first for completed
+    const upcoming = departures.filter(d => d.status === 'upcoming').reverse();
+    const completed = departures.filter(d => d.status === 'completed');
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                Departures
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                On their last day, departing staff are hidden from the Directory and can no longer sign in. Their records are kept.
+            </p>
+
+            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Upcoming</h2>
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto', marginBottom: '2.5rem' }}>
+                {upcoming.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '1rem' }}>No departures are scheduled.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={headerStyle}>Staff Member</th>
+                                <th style={headerStyle}>Department</th>
+                                <th style={headerStyle}>Reason</th>
+                                <th style={headerStyle}>Last Day</th>
+                                <th style={headerStyle}></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {upcoming.map(departure => (
+                                <tr key={departure.id} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={cellStyle}>
+                                        <Link to={`/directory/${departure.id}`} style={{ color: 'var(--primary-600)', fontWeight: 600, textDecoration: 'none' }}>
+                                            {departure.staff_name || 'Unnamed staff'}
+                                        </Link>
+                                    </td>
+                                    <td style={cellStyle}>{departmentLabel(departure.department)}</td>
+                                    <td style={cellStyle}>{departure.employment_status}</td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{departure.end_date ? formatDateOnly(departure.end_date) : ''}</td>
+                                    <td style={{ ...cellStyle, textAlign: 'right' }}>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleCancel(departure)}
+                                            disabled={cancellingId !== null}
+                                            style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: cancellingId !== null ? 'not-allowed' : 'pointer' }}
+                                        >
+                                            {cancellingId === departure.id ? 'Withdrawing...' : 'Withdraw'}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Completed</h2>
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                {completed.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '1rem' }}>No one has been offboarded yet.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={headerStyle}>Staff Member</th>
+                                <th style={headerStyle}>Department</th>
+                                <th style={headerStyle}>Reason</th>
+                                <th style={headerStyle}>Last Day</th>
+                                <th style={headerStyle}>Access Removed</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {completed.map(departure => (
+                                <tr key={departure.id} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={cellStyle}>{departure.staff_name || 'Unnamed staff'}</td>
+                                    <td style={cellStyle}>{departmentLabel(departure.department)}</td>
+                                    <td style={cellStyle}>{departure.employment_status}</td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{departure.end_date ? formatDateOnly(departure.end_date) : ''}</td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap', color: 'var(--text-muted)' }}>
+                                        {departure.offboarded_at ? new Date(departure.offboarded_at).toLocaleString() : ''}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
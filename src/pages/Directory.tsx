@@ -1,64 +1,65 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
-import { formatPhoneNumber } from '../utils/formatters';
+import { useCallback, useEffect, useEffectEvent, useLayoutEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import { describeError, getDirectoryEntry, getDirectoryFacets, getProfile, listDepartments, listAllDirectoryEntries, listDirectoryPage, listLocations, subscribeToLiveUpdates, updateProfile } from '../lib/repository';
+import type { ClinicLocation, Department, DirectoryFacets, DirectoryProfile, LiveChange } from '../lib/repository';
+import { useCurrentStaff } from '../lib/currentStaff';
+import { roleLabel } from '../lib/roles';
+import { formatPersonName, formatPhoneNumber } from '../utils/formatters';
+import { phoneHref } from '../utils/contactDetails';
 import toast from 'react-hot-toast';
-
-interface StaffProfile {
-    id: string;
-    role: string[];
-    department: string;
-    clinic_locations: string[];
-    work_phone: string;
-    bio: string;
-    job_title?: string;
-    employee_id?: string;
-    preferred_name?: string;
-    legal_first_name?: string;
-    legal_middle_name?: string;
-    legal_last_name?: string;
-    display_name?: string;
-    work_email?: string;
-    practitioner_license_number?: string;
-    highest_education?: string;
-    profile_photo_url?: string;
-    employment_status?: string;
-    employment_type?: string;
-    fluent_languages?: string[];
-}
-
-export interface HRRecord {
-    id: string;
-    sin: string;
-    date_of_birth: string;
-    emergency_contact_name: string;
-    emergency_contact_phone: string;
-    end_date?: string;
-}
-
-interface RolePermission {
-    id: string;
-    viewer_role: string;
-    target_department: string;
-    can_view: boolean;
-    visible_fields: string[];
-}
-
-const DEPARTMENTS = [
-    'clinical',
-    'executive',
-    'finance',
-    'hr',
-    'it',
-    'marketing'
-];
+import { Avatar } from '../components/Avatar';
+import { ProfilePhotoActions } from '../components/ProfilePhotoActions';
+import { DirectoryFilterBar } from '../components/DirectoryFilterBar';
+import type { FilterGroup } from '../components/DirectoryFilterBar';
+import { hasActiveFilters, parseDirectoryFilters, parseDirectorySort, toSearchParams } from '../utils/directoryFilters';
+import type { DirectoryFilters, DirectorySort } from '../utils/directoryFilters';
+import { downloadCsv, downloadFile, toCsv } from '../utils/csv';
+import { toXlsx } from '../utils/xlsx';
+import { staffExportColumns } from '../utils/staffSpreadsheet';
+import { downloadVCards } from '../utils/vcard';
+import { reportsUnder } from '../utils/orgChart';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const CARD_MIN_WIDTH = 300;
+const GRID_GAP = 24;
+// Beyond this many people changed at once (an import), reload instead of re-reading cards
+const LIVE_REFRESH_LIMIT = 10;
+
+// The virtualized list is made of department headers and rows of cards.
+type DirectoryRow =
+    | { kind: 'header'; key: string; label: string; department: string | null }
+    | { kind: 'cards'; key: string; people: DirectoryProfile[] };
 
 export function Directory() {
-    const [staff, setStaff] = useState<StaffProfile[]>([]);
-    const [currentUserRole, setCurrentUserRole] = useState<string[] | null>(null);
-    const [currentUserLocations, setCurrentUserLocations] = useState<string[]>([]);
-    const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
+    // Loaded pages, in server order (department, then the chosen sort)
+    const [staff, setStaff] = useState<DirectoryProfile[]>([]);
+    const [total, setTotal] = useState(0);
+    // The search the loaded pages belong to; more pages are only fetched for it
+    const [loadedKey, setLoadedKey] = useState<string | null>(null);
+    const [isPageLoading, setIsPageLoading] = useState(false);
+    // The search whose next page failed; infinite scroll waits for Retry or a new search
+    const [loadErrorKey, setLoadErrorKey] = useState<string | null>(null);
+    const [facets, setFacets] = useState<DirectoryFacets | null>(null);
+    // Bumped to reload from the first page after an edit moves someone between groups
+    const [reloadToken, setReloadToken] = useState(0);
+    const { profile: me, roleRegistry, capabilities } = useCurrentStaff();
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<ClinicLocation[]>([]);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filters = parseDirectoryFilters(searchParams);
+    const sort = parseDirectorySort(searchParams);
+    const queryKey = toSearchParams(filters, sort).toString();
+    // Bumped for every new search so responses to stale ones are ignored
+    const requestRef = useRef(0);
+
+    const rootRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    const [listWidth, setListWidth] = useState(1136);
+    const [listTop, setListTop] = useState(0);
 
     const [isLoading, setIsLoading] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
 
     // Edit State
     const [editingUserId, setEditingUserId] = useState<string | null>(null);
@@ -66,58 +67,24 @@ export function Directory() {
     const [editDept, setEditDept] = useState<string>('');
     const [editJobTitle, setEditJobTitle] = useState<string>('');
     const [editLocations, setEditLocations] = useState<string[]>([]);
-    const [editLicense, setEditLicense] = useState<string>('');
+    const [editReportsTo, setEditReportsTo] = useState<string>('');
+    // Everyone in the directory, for the manager picker
+    const [managerOptions, setManagerOptions] = useState<DirectoryProfile[]>([]);
     const [isSaving, setIsSaving] = useState(false);
 
-    // HR File State
-    const [viewingHrId, setViewingHrId] = useState<string | null>(null);
-    const [hrRecord, setHrRecord] = useState<HRRecord | null>(null);
-    const [isHrLoading, setIsHrLoading] = useState(false);
-    const [hrError, setHrError] = useState<string | null>(null);
-
     useEffect(() => {
         const fetchDirectoryAndAuth = async () => {
             setIsLoading(true);
 
             try {
-                // 1. Get current user's profile info
-                let currentRole = null;
-
-                const { data: { user } } = await supabase.auth.getUser();
-                if (user) {
-                    const { data: profile } = await supabase
-                        .from('staff_profiles')
-                        .select('department, role, clinic_locations')
-                        .eq('id', user.id)
-                        .single();
-
-                    if (profile) {
-                        setCurrentUserRole(profile.role);
-                        setCurrentUserLocations(profile.clinic_locations || []);
-                        currentRole = profile.role;
-                    }
-                }
-
-                // 2. Fetch role permissions for this specific role
-                if (currentRole && currentRole.length > 0) {
-                    const { data: perms } = await supabase
-                        .from('role_permissions')
-                        .select('*')
-                        .in('viewer_role', currentRole); // Use .in for arrays
-                    if (perms) {
-                        setRolePermissions(perms as RolePermission[]);
-                    }
-                }
-
-                // 3. Fetch all staff (filtering location client-side)
-                const { data: allStaff, error: staffError } = await supabase.from('staff_profiles').select('*').order('legal_last_name');
-
-                if (staffError) throw staffError;
-
-                if (allStaff) {
-                    setStaff(allStaff as StaffProfile[]);
-                }
-            } catch (err: any) {
+                // The lists behind the filter chips. The directory pages load separately.
+                const [depts, locs, chipValues] = await Promise.all([
+                    listDepartments(), listLocations(), getDirectoryFacets()
+                ]);
+                setDepartments(depts);
+                setLocations(locs);
+                setFacets(chipValues);
+            } catch (err) {
                 console.error(err);
                 toast.error('Failed to load directory. Please try again later.');
             } finally {
@@ -128,82 +95,169 @@ export function Directory() {
         fetchDirectoryAndAuth();
     }, []);
 
-    const formatDepartment = (dept: string) => {
-        if (!dept) return '';
-        if (dept.toLowerCase() === 'it') return 'IT';
-        return dept.charAt(0).toUpperCase() + dept.slice(1);
-    };
+    // First page for the current search; debounced so typing doesn't fire a request per key
+    useEffect(() => {
+        const request = ++requestRef.current;
+        const timer = window.setTimeout(async () => {
+            const params = new URLSearchParams(queryKey);
+            setIsPageLoading(true);
+            try {
+                const page = await listDirectoryPage(parseDirectoryFilters(params), parseDirectorySort(params), 0);
+                if (request !== requestRef.current) return;
+                setStaff(page.rows);
+                setTotal(page.total);
+                setLoadedKey(queryKey);
+                setLoadErrorKey(null);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load directory. Please try again later.');
+            } finally {
+                if (request === requestRef.current) setIsPageLoading(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
 
-    // RBAC Logic directly via RolePermissions table matrix
-    const getVisibleStaffAndMasking = () => {
-        if (!currentUserRole || currentUserRole.length === 0) return [];
+        return () => window.clearTimeout(timer);
+    }, [queryKey, reloadToken]);
 
-        const isClinicManager = currentUserRole.includes('management');
+    const hasMore = loadedKey === queryKey && staff.length < total;
+    const loadFailed = loadErrorKey === queryKey;
 
-        return staff.filter(person => {
-            if (isClinicManager) {
-                if (!currentUserLocations.includes('Headquarter')) {
-                    const targetLocations = person.clinic_locations || [];
-                    const hasIntersection = targetLocations.some(loc => currentUserLocations.includes(loc));
-                    if (!hasIntersection) return false;
-                }
-            }
+    const loadMore = useCallback(async () => {
+        const request = requestRef.current;
+        const params = new URLSearchParams(queryKey);
+        setIsPageLoading(true);
+        try {
+            const page = await listDirectoryPage(parseDirectoryFilters(params), parseDirectorySort(params), staff.length);
+            if (request !== requestRef.current) return;
+            setStaff(prev => [...prev, ...page.rows]);
+            setTotal(page.total);
+        } catch (err) {
+            console.error(err);
+            if (request === requestRef.current) setLoadErrorKey(queryKey);
+            toast.error('Failed to load more staff.');
+        } finally {
+            if (request === requestRef.current) setIsPageLoading(false);
+        }
+    }, [queryKey, staff.length]);
+
+    // Track the list's width (cards per row) and its position on the page (the
+    // virtualizer measures window scroll from the top of the document).
+    useLayoutEffect(() => {
+        const root = rootRef.current;
+        if (!root) return;
+
+        const measure = () => {
+            const list = listRef.current;
+            if (!list) return;
+            setListWidth(list.clientWidth);
+            setListTop(list.getBoundingClientRect().top + window.scrollY);
+        };
+        const observer = new ResizeObserver(measure);
+        observer.observe(root);
+        measure();
+        return () => observer.disconnect();
+    }, [isLoading]);
+
+    const formatDepartment = (dept: string) =>
+        departments.find(d => d.key === dept)?.label || dept;
+
+    const columns = Math.max(1, Math.floor((listWidth + GRID_GAP) / (CARD_MIN_WIDTH + GRID_GAP)));
+
+    // Pages arrive sorted by department, so a header is inserted wherever the
+    // department changes, including where it continues from the previous page.
+    const rows: DirectoryRow[] = [];
+    let currentDept: string | null = null;
+    staff.forEach(person => {
+        const dept = person.department || 'unassigned';
+        if (dept !== currentDept) {
+            currentDept = dept;
+            rows.push({
+                kind: 'header',
+                key: `header:${dept}`,
+                label: person.department_label || (person.department ? formatDepartment(person.department) : 'Unassigned'),
+                department: person.department
+            });
+        }
+        const current = rows[rows.length - 1];
+        if (current.kind === 'cards' && current.people.length < columns) {
+            current.people.push(person);
+        } else {
+            rows.push({ kind: 'cards', key: `cards:${person.id}`, people: [person] });
+        }
+    });
 
-            const personDept = person.department?.toLowerCase();
-            const rule = rolePermissions.find(p => p.target_department === personDept);
-            return rule && rule.can_view;
-        }).map(person => {
-            const rule = rolePermissions.find(p => p.target_department === person.department?.toLowerCase());
-
-            if (rule) {
-                const visibleFields = rule.visible_fields || [];
-                return {
-                    ...person,
-                    work_phone: visibleFields.includes('work_phone') ? person.work_phone : '',
-                    bio: visibleFields.includes('bio') ? person.bio : ''
-                };
-            }
-            return person; // Should theoretically not be hit since it's filtered
-        });
-    };
+    const virtualizer = useWindowVirtualizer({
+        count: rows.length,
+        estimateSize: index => (rows[index].kind === 'header' ? 90 : 260),
+        getItemKey: index => rows[index].key,
+        overscan: 4,
+        scrollMargin: listTop
+    });
+    const virtualItems = virtualizer.getVirtualItems();
+    const lastVisibleIndex = virtualItems.length > 0 ? virtualItems[virtualItems.length - 1].index : -1;
 
-    const handleEditClick = (person: StaffProfile) => {
-        setEditingUserId(person.id);
-        setEditRole(person.role || []);
-        setEditDept(person.department || '');
-        setEditJobTitle(person.job_title || '');
-        setEditLocations(person.clinic_locations || []);
-        setEditLicense(person.practitioner_license_number || '');
-        // Assuming we add editJobTitle later, adding basic job title support
+    // Infinite scroll: fetch the next page once the last rows come into view
+    useEffect(() => {
+        if (hasMore && !isPageLoading && !loadFailed && lastVisibleIndex >= rows.length - 2) loadMore();
+    }, [hasMore, isPageLoading, loadFailed, lastVisibleIndex, rows.length, loadMore]);
+
+    // Re-read one card through the masked view so it only shows what this viewer
+    // may see. A changed department moves the card to another group, and a row
+    // that no longer comes back has left this viewer's directory and is dropped.
+    const refreshEntry = async (id: string) => {
+        const entry = await getDirectoryEntry(id);
+        const previous = staff.find(p => p.id === id);
+        if (entry && previous && entry.department === previous.department) {
+            setStaff(prev => prev.map(p => (p.id === id ? entry : p)));
+        } else if (!entry && previous) {
+            setStaff(prev => prev.filter(p => p.id !== id));
+            setTotal(count => count - 1);
+        } else if (previous || (entry && staff.length >= total)) {
+            // Someone new only needs a reload once every page is loaded; otherwise
+            // they turn up when the page they're on is scrolled to.
+            setReloadToken(token => token + 1);
+        }
     };
 
-    const handleViewHrFile = async (personId: string) => {
-        setViewingHrId(personId);
-        setIsHrLoading(true);
-        setHrError(null);
-        setHrRecord(null);
-
+    // Edits made in other sessions. A change to the viewer's own role, or to what
+    // roles may see, can change the masking on every card, so those reload the
+    // whole directory (the viewer's capabilities update through useCurrentStaff);
+    // other edits re-read just the cards concerned.
+    const applyLiveChanges = useEffectEvent(async (changes: LiveChange[]) => {
+        const affectsEveryCard = changes.some(c => c.topic !== 'staff' || c.entity === me?.id);
         try {
-            const { data, error } = await supabase
-                .from('hr_records')
-                .select('*')
-                .eq('id', personId)
-                .single();
-
-            if (error) throw error;
-            if (data) setHrRecord(data as HRRecord);
+            setFacets(await getDirectoryFacets());
+            if (affectsEveryCard || changes.length > LIVE_REFRESH_LIMIT) {
+                setReloadToken(token => token + 1);
+            } else {
+                await Promise.all(changes.map(c => refreshEntry(c.entity)));
+            }
         } catch (err) {
             console.error(err);
-            setHrError('Access denied or HR record not found.');
-        } finally {
-            setIsHrLoading(false);
         }
-    };
+    });
+
+    useEffect(() => subscribeToLiveUpdates(changes => applyLiveChanges(changes)), []);
 
-    const closeHrModal = () => {
-        setViewingHrId(null);
-        setHrRecord(null);
-        setHrError(null);
+    // The directory row may have fields masked for this viewer, so the form is
+    // filled from the full profile (editors can read it) to avoid saving blanks.
+    const handleEditClick = async (person: DirectoryProfile) => {
+        try {
+            const [profile, everyone] = await Promise.all([getProfile(person.id), listAllDirectoryEntries()]);
+            const under = reportsUnder(everyone, person.id);
+            setManagerOptions(everyone
+                .filter(p => p.id !== person.id && !under.has(p.id))
+                .sort((a, b) => formatPersonName(a).localeCompare(formatPersonName(b))));
+            setEditingUserId(person.id);
+            setEditRole(profile.role || []);
+            setEditDept(profile.department || '');
+            setEditJobTitle(profile.job_title || '');
+            setEditLocations(profile.clinic_locations || []);
+            setEditReportsTo(profile.reports_to || '');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to load staff profile: ${describeError(err)}`);
+        }
     };
 
     const handleCancelEdit = () => {
@@ -214,31 +268,21 @@ export function Directory() {
         setIsSaving(true);
 
         try {
-            const { error: updateError } = await supabase
-                .from('staff_profiles')
-                .update({
-                    role: editRole,
-                    department: editDept,
-                    job_title: editJobTitle,
-                    clinic_locations: editLocations,
-                    practitioner_license_number: editLicense
-                })
-                .eq('id', targetUserId);
-
-            if (updateError) throw updateError;
-
-            // Update local state
-            setStaff(prevStaff => prevStaff.map(person =>
-                person.id === targetUserId
-                    ? { ...person, role: editRole, department: editDept, job_title: editJobTitle, clinic_locations: editLocations, practitioner_license_number: editLicense }
-                    : person
-            ));
+            await updateProfile(targetUserId, {
+                role: editRole,
+                department: editDept,
+                job_title: editJobTitle,
+                clinic_locations: editLocations,
+                reports_to: editReportsTo || null
+            });
+
+            await refreshEntry(targetUserId);
 
             toast.success('Staff profile updated successfully!');
             setEditingUserId(null);
-        } catch (err: any) {
+        } catch (err) {
             console.error(err);
-            toast.error('Failed to update staff profile.');
+            toast.error(`Failed to update staff profile: ${describeError(err)}`);
         } finally {
             setIsSaving(false);
         }
@@ -270,573 +314,537 @@ export function Directory() {
         );
     }
 
-    const visibleStaff = getVisibleStaffAndMasking();
-
-    // Group by department
-    const groupedStaff = visibleStaff.reduce((acc, person) => {
-        const dept = person.department || 'Unassigned';
-        if (!acc[dept]) acc[dept] = [];
-        acc[dept].push(person);
-        return acc;
-    }, {} as Record<string, StaffProfile[]>);
-
-    // Sort departments alphabetically, but push 'Unassigned' to the end
-    const departments = Object.keys(groupedStaff).sort((a, b) => {
-        if (a === 'Unassigned') return 1;
-        if (b === 'Unassigned') return -1;
-        return a.localeCompare(b);
-    });
+    const handleFiltersChange = (next: DirectoryFilters) => {
+        setSearchParams(toSearchParams(next, sort), { replace: true });
+    };
 
-    const isExecutive = currentUserRole?.includes('executive') || false;
-    const isHrOrExec = currentUserRole?.includes('executive') || currentUserRole?.includes('hr') || currentUserRole?.includes('hr_management');
+    const handleSortChange = (next: DirectorySort) => {
+        setSearchParams(toSearchParams(filters, next), { replace: true });
+    };
 
-    return (
-        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
-            <h1 style={{
-                fontSize: '2rem',
-                fontWeight: '700',
-                color: 'var(--text-main)',
-                marginBottom: '1rem',
-                letterSpacing: '-0.025em'
-            }}>
-                Staff Directory
-            </h1>
-            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
-                Connect with our team of professionals.
-            </p>
-
-            {visibleStaff.length > 0 ? (
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '3rem' }}>
-                    {departments.map(dept => (
-                        <div key={dept}>
-                            <h2 style={{
-                                fontSize: '1.5rem',
-                                color: 'var(--text-main)',
-                                borderBottom: '2px solid var(--surface-border)',
-                                paddingBottom: '0.5rem',
-                                marginBottom: '1.5rem',
-                                fontWeight: '600'
-                            }}>
-                                {formatDepartment(dept)} Team
-                            </h2>
-                            <div style={{
-                                display: 'grid',
-                                gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
-                                gap: '1.5rem'
-                            }}>
-                                {groupedStaff[dept].map((person) => {
-                                    const isEditing = editingUserId === person.id;
-
-                                    return (
-                                        <div key={person.id} className="glass-panel" style={{
-                                            padding: '1.5rem',
-                                            borderRadius: '12px',
-                                            display: 'flex',
-                                            flexDirection: 'column',
-                                            transition: 'transform 0.2s ease',
-                                            position: 'relative',
-                                        }}>
-                                            {isExecutive && !isEditing && (
-                                                <button
-                                                    onClick={() => handleEditClick(person)}
-                                                    style={{
-                                                        position: 'absolute',
-                                                        top: '1rem',
-                                                        right: '1rem',
-                                                        backgroundColor: 'transparent',
-                                                        border: '1px solid var(--primary-600)',
-                                                        color: 'var(--primary-600)',
-                                                        padding: '0.25rem 0.75rem',
-                                                        borderRadius: '6px',
-                                                        fontSize: '0.75rem',
-                                                        fontWeight: 600,
-                                                        cursor: 'pointer',
-                                                        transition: 'all 0.2s ease',
-                                                    }}
-                                                    onMouseOver={(e) => {
-                                                        e.currentTarget.style.backgroundColor = 'var(--primary-600)';
-                                                        e.currentTarget.style.color = '#ffffff';
-                                                    }}
-                                                    onMouseOut={(e) => {
-                                                        e.currentTarget.style.backgroundColor = 'transparent';
-                                                        e.currentTarget.style.color = 'var(--primary-600)';
-                                                    }}
-                                                >
-                                                    Edit Role
-                                                </button>
-                                            )}
-
-                                            <div style={{ marginBottom: '1rem', paddingRight: isExecutive ? '4rem' : '0', display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
-
-                                                {/* Avatar Render */}
-                                                <div style={{
-                                                    flexShrink: 0,
-                                                    width: '48px',
-                                                    height: '48px',
-                                                    borderRadius: '50%',
-                                                    backgroundColor: 'var(--primary-100)',
-                                                    color: 'var(--primary-700)',
-                                                    display: 'flex',
-                                                    alignItems: 'center',
-                                                    justifyContent: 'center',
-                                                    fontSize: '1.25rem',
-                                                    fontWeight: 'bold',
-                                                    overflow: 'hidden',
-                                                    border: '2px solid white',
-                                                    boxShadow: '0 2px 4px rgba(0,0,0,0.05)'
-                                                }}>
-                                                    {person.profile_photo_url ? (
-                                                        <img src={person.profile_photo_url} alt={person.display_name || person.preferred_name || person.legal_first_name || 'Staff'} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-                                                    ) : (
-                                                        (person.preferred_name?.charAt(0) || person.legal_first_name?.charAt(0) || '?').toUpperCase()
-                                                    )}
-                                                </div>
-
-                                                <div style={{ flex: 1 }}>
-                                                    <h3 style={{
-                                                        fontSize: '1.25rem',
-                                                        fontWeight: '600',
-                                                        color: 'var(--text-main)',
-                                                        marginBottom: '0.25rem'
-                                                    }}>
-                                                        {person.display_name || `${person.preferred_name || person.legal_first_name || ''} ${person.legal_last_name || ''}`.trim() || 'Unknown Staff'}
-                                                    </h3>
-
-                                                    {!isEditing ? (
-                                                        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '0.5rem' }}>
-                                                            <span style={{
-                                                                display: 'inline-block',
-                                                                backgroundColor: '#f1f5f9',
-                                                                color: '#475569',
-                                                                padding: '0.25rem 0.6rem',
-                                                                borderRadius: '9999px',
-                                                                fontSize: '0.75rem',
-                                                                fontWeight: '600',
-                                                                textTransform: 'uppercase',
-                                                                letterSpacing: '0.05em'
-                                                            }}>
-                                                                {person.job_title || 'Staff'}
-                                                            </span>
-                                                            {person.clinic_locations && person.clinic_locations.map(loc => (
-                                                                <span key={loc} style={{
-                                                                    display: 'inline-block',
-                                                                    backgroundColor: '#f3f4f6',
-                                                                    color: '#374151',
-                                                                    padding: '0.25rem 0.6rem',
-                                                                    borderRadius: '9999px',
-                                                                    fontSize: '0.75rem',
-                                                                    fontWeight: '600',
-                                                                }}>
-                                                                    {loc}
-                                                                </span>
-                                                            ))}
-                                                        </div>
-                                                    ) : (
-                                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '1rem' }}>
-                                                            <div>
-                                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Display Job Title</label>
-                                                                <input
-                                                                    type="text"
-                                                                    value={editJobTitle}
-                                                                    onChange={(e) => setEditJobTitle(e.target.value)}
-                                                                    className="input-field"
-                                                                    placeholder="e.g. Senior Acupuncturist"
-                                                                    style={{ padding: '0.5rem', fontSize: '0.875rem' }}
-                                                                />
-                                                            </div>
-                                                            <div>
-                                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Practitioner License Number</label>
-                                                                <input
-                                                                    type="text"
-                                                                    value={editLicense}
-                                                                    onChange={(e) => setEditLicense(e.target.value)}
-                                                                    className="input-field"
-                                                                    placeholder="e.g. CTCMA12345"
-                                                                    style={{ padding: '0.5rem', fontSize: '0.875rem' }}
-                                                                />
-                                                            </div>
-                                                            <div>
-                                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>System Access Roles</label>
-                                                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
-                                                                    {[
-                                                                        { value: 'executive', label: 'Executive' },
-                                                                        { value: 'management', label: 'Management' },
-                                                                        { value: 'administrative_support', label: 'Admin Support' },
-                                                                        { value: 'clinical_provider', label: 'Clinical Provider' },
-                                                                        { value: 'hr', label: 'HR' }
-                                                                    ].map(role => (
-                                                                        <label key={role.value} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
-                                                                            <input
-                                                                                type="checkbox"
-                                                                                checked={editRole.includes(role.value)}
-                                                                                onChange={(e) => {
-                                                                                    if (e.target.checked) {
-                                                                                        setEditRole([...editRole, role.value]);
-                                                                                    } else {
-                                                                                        setEditRole(editRole.filter(r => r !== role.value));
-                                                                                    }
-                                                                                }}
-                                                                                style={{ width: '16px', height: '16px', cursor: 'pointer' }}
-                                                                            />
-                                                                            {role.label}
-                                                                        </label>
-                                                                    ))}
-                                                                </div>
-                                                            </div>
-                                                            <div>
-                                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Department</label>
-                                                                <select
-                                                                    className="input-field"
-                                                                    value={editDept}
-                                                                    onChange={(e) => setEditDept(e.target.value)}
-                                                                    style={{ padding: '0.5rem', fontSize: '0.875rem' }}
-                                                                >
-                                                                    <option value="">Select Department</option>
-                                                                    {DEPARTMENTS.map(d => (
-                                                                        <option key={d} value={d}>{formatDepartment(d)}</option>
-                                                                    ))}
-                                                                </select>
-                                                            </div>
-                                                            <div>
-                                                                <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>Locations</label>
-                                                                <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-                                                                    {['Headquarter', 'Burnaby', 'Richmond'].map(loc => (
-                                                                        <label key={loc} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
-                                                                            <input
-                                                                                type="checkbox"
-                                                                                checked={editLocations.includes(loc)}
-                                                                                onChange={(e) => {
-                                                                                    if (e.target.checked) {
-                                                                                        setEditLocations([...editLocations, loc]);
-                                                                                    } else {
-                                                                                        setEditLocations(editLocations.filter(l => l !== loc));
-                                                                                    }
-                                                                                }}
-                                                                                style={{ width: '16px', height: '16px', cursor: 'pointer' }}
-                                                                            />
-                                                                            {loc}
-                                                                        </label>
-                                                                    ))}
-                                                                </div>
-                                                            </div>
-                                                            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
-                                                                <button
-                                                                    onClick={() => handleSaveRole(person.id)}
-                                                                    disabled={isSaving}
-                                                                    style={{
-                                                                        flex: 1,
-                                                                        backgroundColor: 'var(--primary-600)',
-                                                                        color: 'white',
-                                                                        border: 'none',
-                                                                        padding: '0.5rem',
-                                                                        borderRadius: '6px',
-                                                                        fontSize: '0.875rem',
-                                                                        fontWeight: 600,
-                                                                        cursor: isSaving ? 'not-allowed' : 'pointer',
-                                                                        opacity: isSaving ? 0.7 : 1
-                                                                    }}
-                                                                >
-                                                                    {isSaving ? 'Saving...' : 'Save'}
-                                                                </button>
-                                                                <button
-                                                                    onClick={handleCancelEdit}
-                                                                    disabled={isSaving}
-                                                                    style={{
-                                                                        flex: 1,
-                                                                        backgroundColor: '#f1f5f9',
-                                                                        color: '#475569',
-                                                                        border: 'none',
-                                                                        padding: '0.5rem',
-                                                                        borderRadius: '6px',
-                                                                        fontSize: '0.875rem',
-                                                                        fontWeight: 600,
-                                                                        cursor: isSaving ? 'not-allowed' : 'pointer',
-                                                                    }}
-                                                                >
-                                                                    Cancel
-                                                                </button>
-                                                            </div>
-                                                        </div>
-                                                    )}
-                                                </div>
-
-                                                {!isEditing && (person.work_phone || person.bio || person.practitioner_license_number) && (
-                                                    <div style={{
-                                                        marginTop: 'auto',
-                                                        paddingTop: '1rem',
-                                                        borderTop: '1px solid var(--surface-border)'
-                                                    }}>
-                                                        {person.practitioner_license_number && (
-                                                            <div style={{ marginBottom: (person.work_phone || person.bio || isHrOrExec) ? '0.75rem' : '0' }}>
-                                                                <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>License Number</div>
-                                                                <div style={{
-                                                                    color: 'var(--text-main)',
-                                                                    fontSize: '0.9rem',
-                                                                    fontWeight: 500,
-                                                                    fontStyle: 'normal'
-                                                                }}>
-                                                                    {person.practitioner_license_number}
-                                                                </div>
-                                                            </div>
-                                                        )}
-                                                        {person.work_phone && (
-                                                            <div style={{ marginBottom: person.bio || isHrOrExec ? '0.75rem' : '0' }}>
-                                                                <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>Work Phone</div>
-                                                                <div style={{
-                                                                    color: 'var(--text-main)',
-                                                                    fontSize: '0.9rem',
-                                                                    fontWeight: 500,
-                                                                    fontStyle: 'normal'
-                                                                }}>
-                                                                    <a href={`tel:${person.work_phone}`} style={{ color: 'inherit', textDecoration: 'none' }}>
-                                                                        {formatPhoneNumber(person.work_phone)}
-                                                                    </a>
-                                                                </div>
-                                                            </div>
-                                                        )}
-                                                        {person.bio && (
-                                                            <div style={{ marginBottom: isHrOrExec ? '0.75rem' : '0' }}>
-                                                                <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>Bio</div>
-                                                                <div style={{
-                                                                    color: 'var(--text-main)',
-                                                                    fontSize: '0.9rem',
-                                                                    lineHeight: 1.5,
-                                                                    fontStyle: 'normal'
-                                                                }}>
-                                                                    {person.bio}
-                                                                </div>
-                                                            </div>
-                                                        )}
-                                                        {isHrOrExec && !isEditing && (
-                                                            <div style={{ marginTop: '0.5rem' }}>
-                                                                <button
-                                                                    onClick={() => handleViewHrFile(person.id)}
-                                                                    style={{
-                                                                        backgroundColor: '#fce7f3',
-                                                                        color: '#be185d',
-                                                                        border: '1px solid #fbcfe8',
-                                                                        padding: '0.35rem 0.75rem',
-                                                                        borderRadius: '6px',
-                                                                        fontSize: '0.75rem',
-                                                                        fontWeight: 600,
-                                                                        cursor: 'pointer',
-                                                                        transition: 'all 0.2s ease',
-                                                                        width: '100%',
-                                                                        display: 'flex',
-                                                                        alignItems: 'center',
-                                                                        justifyContent: 'center',
-                                                                        gap: '0.35rem'
-                                                                    }}
-                                                                >
-                                                                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
-                                                                    View HR File
-                                                                </button>
-                                                            </div>
-                                                        )}
-                                                    </div>
-                                                )}
-                                            </div>
-                                        </div>
-                                    );
-                                })}
-                            </div>
-                        </div>
-                    ))}
-                </div>
-            ) : (
-                !isLoading && (
-                    <div style={{
-                        textAlign: 'center',
-                        padding: '3rem',
-                        backgroundColor: 'white',
-                        borderRadius: '12px',
-                        color: 'var(--text-muted)'
-                    }}>
-                        No staff members available for viewing.
-                    </div>
-                )
-            )}
+    // Exports what the viewer can see with the current search and filters applied
+    const handleExport = async (format: 'csv' | 'xlsx' | 'vcf') => {
+        setIsExporting(true);
+        try {
+            const people = await listAllDirectoryEntries(filters, sort);
+            const columns = staffExportColumns({ departments, locations, roleRegistry });
+            const filename = `staff-directory-${new Date().toISOString().slice(0, 10)}`;
+            if (format === 'csv') downloadCsv(`${filename}.csv`, toCsv(people, columns));
+            else if (format === 'xlsx') downloadFile(`${filename}.xlsx`, toXlsx(people, columns, 'Staff Directory'));
+            else await downloadVCards(people, departments, filename);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to export the directory: ${describeError(err)}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-            {/* HR File Modal */}
-            {viewingHrId && (
-                <div style={{
-                    position: 'fixed',
-                    top: 0,
-                    left: 0,
-                    right: 0,
-                    bottom: 0,
-                    backgroundColor: 'rgba(15, 23, 42, 0.4)',
-                    backdropFilter: 'blur(4px)',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    zIndex: 50,
-                    animation: 'fade-in 0.2s ease-out'
-                }} onClick={closeHrModal}>
-                    <div style={{
-                        backgroundColor: 'white',
-                        borderRadius: '16px',
-                        width: '100%',
-                        maxWidth: '500px',
-                        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
-                        overflow: 'hidden',
-                        animation: 'slide-up 0.3s cubic-bezier(0.16, 1, 0.3, 1)'
-                    }} onClick={(e) => e.stopPropagation()}>
+    // Contacts for one department group, still narrowed by the other filters
+    const handleDepartmentContacts = async (department: string | null, label: string) => {
+        setIsExporting(true);
+        try {
+            const people = (await listAllDirectoryEntries(
+                { ...filters, departments: department ? [department] : [] },
+                sort
+            )).filter(person => person.department === department);
+            await downloadVCards(people, departments, `${label} contacts`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to export contacts: ${describeError(err)}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-                        <div style={{
-                            padding: '1.5rem',
-                            borderBottom: '1px solid var(--surface-border)',
-                            display: 'flex',
-                            justifyContent: 'space-between',
-                            alignItems: 'center',
-                            backgroundColor: '#fdf2f8'
+    const handlePersonContact = async (person: DirectoryProfile) => {
+        try {
+            await downloadVCards([person], departments, formatPersonName(person));
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to create the contact card: ${describeError(err)}`);
+        }
+    };
+
+    // Chip options: organisation lists for locations, and the values the viewer can
+    // see across the whole directory (not just the loaded pages) for everything else.
+    const filterGroups: FilterGroup[] = [
+        {
+            key: 'locations',
+            label: 'Location',
+            options: locations.filter(l => !l.archived_at).map(l => ({ value: l.name, label: l.name }))
+        },
+        {
+            key: 'departments',
+            label: 'Department',
+            options: (facets?.departments || []).map(key => ({ value: key, label: formatDepartment(key) }))
+        },
+        {
+            key: 'roles',
+            label: 'Role',
+            options: (facets?.roles || []).map(key => ({ value: key, label: roleLabel(roleRegistry, key) }))
+        },
+        {
+            key: 'employmentTypes',
+            label: 'Employment',
+            options: (facets?.employment_types || []).map(v => ({ value: v, label: v }))
+        },
+        {
+            key: 'languages',
+            label: 'Language',
+            options: (facets?.languages || []).map(v => ({ value: v, label: v }))
+        }
+    ];
+
+    const canEditStaff = capabilities.has('editStaff');
+    const canViewHrFile = capabilities.has('viewHrFile');
+    const canManagePhotos = capabilities.has('managePhotos');
+
+    const renderCard = (person: DirectoryProfile) => {
+        const isEditing = editingUserId === person.id;
+
+        return (
+            <div key={person.id} className="glass-panel" style={{
+                padding: '1.5rem',
+                borderRadius: '12px',
+                display: 'flex',
+                flexDirection: 'column',
+                transition: 'transform 0.2s ease',
+                position: 'relative',
+            }}>
+                {canEditStaff && !isEditing && (
+                    <button
+                        onClick={() => handleEditClick(person)}
+                        style={{
+                            position: 'absolute',
+                            top: '1rem',
+                            right: '1rem',
+                            backgroundColor: 'transparent',
+                            border: '1px solid var(--primary-600)',
+                            color: 'var(--primary-600)',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '6px',
+                            fontSize: '0.75rem',
+                            fontWeight: 600,
+                            cursor: 'pointer',
+                            transition: 'all 0.2s ease',
+                        }}
+                        onMouseOver={(e) => {
+                            e.currentTarget.style.backgroundColor = 'var(--primary-600)';
+                            e.currentTarget.style.color = '#ffffff';
+                        }}
+                        onMouseOut={(e) => {
+                            e.currentTarget.style.backgroundColor = 'transparent';
+                            e.currentTarget.style.color = 'var(--primary-600)';
+                        }}
+                    >
+                        Edit Role
+                    </button>
+                )}
+
+                <div style={{ marginBottom: '1rem', paddingRight: canEditStaff ? '4rem' : '0', display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
+
+                    <Avatar photoUrl={person.profile_photo_url} name={formatPersonName(person)} />
+
+                    <div style={{ flex: 1 }}>
+                        <h3 style={{
+                            fontSize: '1.25rem',
+                            fontWeight: '600',
+                            color: 'var(--text-main)',
+                            marginBottom: '0.25rem'
                         }}>
-                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-                                <div style={{
-                                    backgroundColor: '#fbcfe8',
-                                    padding: '0.5rem',
-                                    borderRadius: '8px',
-                                    color: '#be185d'
+                            <Link to={`/directory/${person.id}`} style={{ color: 'inherit', textDecoration: 'none' }}>
+                                {formatPersonName(person) || 'Unknown Staff'}
+                            </Link>
+                        </h3>
+                        {canManagePhotos && !isEditing && (
+                            <div style={{ display: 'flex', marginBottom: '0.25rem' }}>
+                                <ProfilePhotoActions
+                                    personId={person.id}
+                                    hasPhoto={!!person.profile_photo_url}
+                                    onChange={() => refreshEntry(person.id)}
+                                />
+                            </div>
+                        )}
+
+                        {!isEditing ? (
+                            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                                <span style={{
+                                    display: 'inline-block',
+                                    backgroundColor: '#f1f5f9',
+                                    color: '#475569',
+                                    padding: '0.25rem 0.6rem',
+                                    borderRadius: '9999px',
+                                    fontSize: '0.75rem',
+                                    fontWeight: '600',
+                                    textTransform: 'uppercase',
+                                    letterSpacing: '0.05em'
                                 }}>
-                                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
+                                    {person.job_title || 'Staff'}
+                                </span>
+                                {person.clinic_locations && person.clinic_locations.map(loc => (
+                                    <span key={loc} style={{
+                                        display: 'inline-block',
+                                        backgroundColor: '#f3f4f6',
+                                        color: '#374151',
+                                        padding: '0.25rem 0.6rem',
+                                        borderRadius: '9999px',
+                                        fontSize: '0.75rem',
+                                        fontWeight: '600',
+                                    }}>
+                                        {loc}
+                                    </span>
+                                ))}
+                            </div>
+                        ) : (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '1rem' }}>
+                                <div>
+                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Display Job Title</label>
+                                    <input
+                                        type="text"
+                                        value={editJobTitle}
+                                        onChange={(e) => setEditJobTitle(e.target.value)}
+                                        className="input-field"
+                                        placeholder="e.g. Senior Acupuncturist"
+                                        style={{ padding: '0.5rem', fontSize: '0.875rem' }}
+                                    />
                                 </div>
                                 <div>
-                                    <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: '#831843', margin: 0 }}>HR Confidential File</h2>
-                                    <p style={{ fontSize: '0.85rem', color: '#be185d', margin: 0, opacity: 0.8 }}>Strictly Internal Access</p>
+                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>System Access Roles</label>
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+                                        {roleRegistry.map(role => (
+                                            <label key={role.key} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editRole.includes(role.key)}
+                                                    onChange={(e) => {
+                                                        if (e.target.checked) {
+                                                            setEditRole([...editRole, role.key]);
+                                                        } else {
+                                                            setEditRole(editRole.filter(r => r !== role.key));
+                                                        }
+                                                    }}
+                                                    style={{ width: '16px', height: '16px', cursor: 'pointer' }}
+                                                />
+                                                {role.label}
+                                            </label>
+                                        ))}
+                                    </div>
                                 </div>
-                            </div>
-                            <button
-                                onClick={closeHrModal}
-                                style={{
-                                    background: 'transparent',
-                                    border: 'none',
-                                    color: '#9ca3af',
-                                    cursor: 'pointer',
-                                    padding: '0.5rem',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                    borderRadius: '50%',
-                                    transition: 'background-color 0.2s ease'
-                                }}
-                                onMouseOver={(e) => {
-                                    e.currentTarget.style.backgroundColor = 'rgba(0,0,0,0.05)';
-                                    e.currentTarget.style.color = '#4b5563';
-                                }}
-                                onMouseOut={(e) => {
-                                    e.currentTarget.style.backgroundColor = 'transparent';
-                                    e.currentTarget.style.color = '#9ca3af';
-                                }}
-                            >
-                                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
-                            </button>
-                        </div>
-
-                        <div style={{ padding: '2rem' }}>
-                            {isHrLoading ? (
-                                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem', padding: '2rem' }}>
-                                    <svg style={{ animation: 'logo-spin 1s linear infinite', color: '#be185d' }} xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="2" x2="12" y2="6"></line><line x1="12" y1="18" x2="12" y2="22"></line><line x1="4.93" y1="4.93" x2="7.76" y2="7.76"></line><line x1="16.24" y1="16.24" x2="19.07" y2="19.07"></line><line x1="2" y1="12" x2="6" y2="12"></line><line x1="18" y1="12" x2="22" y2="12"></line><line x1="4.93" y1="19.07" x2="7.76" y2="16.24"></line><line x1="16.24" y1="7.76" x2="19.07" y2="4.93"></line></svg>
-                                    <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>Securely fetching records...</p>
+                                <div>
+                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Department</label>
+                                    <select
+                                        className="input-field"
+                                        value={editDept}
+                                        onChange={(e) => setEditDept(e.target.value)}
+                                        style={{ padding: '0.5rem', fontSize: '0.875rem' }}
+                                    >
+                                        <option value="">Select Department</option>
+                                        {departments.filter(d => !d.archived_at || d.key === editDept).map(d => (
+                                            <option key={d.key} value={d.key}>{d.label}</option>
+                                        ))}
+                                    </select>
                                 </div>
-                            ) : hrError ? (
-                                <div style={{
-                                    backgroundColor: '#fef2f2',
-                                    color: '#ef4444',
-                                    padding: '1rem',
-                                    borderRadius: '8px',
-                                    display: 'flex',
-                                    gap: '0.75rem',
-                                    alignItems: 'center'
-                                }}>
-                                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>
-                                    <span>{hrError}</span>
+                                <div>
+                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600, display: 'block' }}>Reports To</label>
+                                    <select
+                                        className="input-field"
+                                        value={editReportsTo}
+                                        onChange={(e) => setEditReportsTo(e.target.value)}
+                                        style={{ padding: '0.5rem', fontSize: '0.875rem' }}
+                                    >
+                                        <option value="">No manager</option>
+                                        {editReportsTo && !managerOptions.some(p => p.id === editReportsTo) && (
+                                            <option value={editReportsTo}>Current manager</option>
+                                        )}
+                                        {managerOptions.map(p => (
+                                            <option key={p.id} value={p.id}>
+                                                {formatPersonName(p)}{p.job_title ? ` (${p.job_title})` : ''}
+                                            </option>
+                                        ))}
+                                    </select>
                                 </div>
-                            ) : hrRecord ? (
-                                <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
-
-                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
-                                        <div>
-                                            <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600 }}>Date of Birth</div>
-                                            <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
-                                                {hrRecord.date_of_birth ? new Date(hrRecord.date_of_birth).toLocaleDateString() : 'N/A'}
-                                            </div>
-                                        </div>
-                                        <div>
-                                            <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600 }}>Social Insurance Number</div>
-                                            <div style={{ color: 'var(--text-main)', fontWeight: 500, fontFamily: 'monospace', letterSpacing: '0.05em' }}>
-                                                {hrRecord.sin || 'N/A'}
-                                            </div>
-                                        </div>
+                                <div>
+                                    <label style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.5rem', fontWeight: 600, display: 'block' }}>Locations</label>
+                                    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                        {locations.filter(l => !l.archived_at || editLocations.includes(l.name)).map(({ name: loc }) => (
+                                            <label key={loc} style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-main)', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editLocations.includes(loc)}
+                                                    onChange={(e) => {
+                                                        if (e.target.checked) {
+                                                            setEditLocations([...editLocations, loc]);
+                                                        } else {
+                                                            setEditLocations(editLocations.filter(l => l !== loc));
+                                                        }
+                                                    }}
+                                                    style={{ width: '16px', height: '16px', cursor: 'pointer' }}
+                                                />
+                                                {loc}
+                                            </label>
+                                        ))}
                                     </div>
+                                </div>
+                                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                                    <button
+                                        onClick={() => handleSaveRole(person.id)}
+                                        disabled={isSaving}
+                                        style={{
+                                            flex: 1,
+                                            backgroundColor: 'var(--primary-600)',
+                                            color: 'white',
+                                            border: 'none',
+                                            padding: '0.5rem',
+                                            borderRadius: '6px',
+                                            fontSize: '0.875rem',
+                                            fontWeight: 600,
+                                            cursor: isSaving ? 'not-allowed' : 'pointer',
+                                            opacity: isSaving ? 0.7 : 1
+                                        }}
+                                    >
+                                        {isSaving ? 'Saving...' : 'Save'}
+                                    </button>
+                                    <button
+                                        onClick={handleCancelEdit}
+                                        disabled={isSaving}
+                                        style={{
+                                            flex: 1,
+                                            backgroundColor: '#f1f5f9',
+                                            color: '#475569',
+                                            border: 'none',
+                                            padding: '0.5rem',
+                                            borderRadius: '6px',
+                                            fontSize: '0.875rem',
+                                            fontWeight: 600,
+                                            cursor: isSaving ? 'not-allowed' : 'pointer',
+                                        }}
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
 
+                    {!isEditing && (person.work_phone || person.bio || person.practitioner_license_number) && (
+                        <div style={{
+                            marginTop: 'auto',
+                            paddingTop: '1rem',
+                            borderTop: '1px solid var(--surface-border)'
+                        }}>
+                            {person.practitioner_license_number && (
+                                <div style={{ marginBottom: (person.work_phone || person.bio || canViewHrFile) ? '0.75rem' : '0' }}>
+                                    <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>License Number</div>
                                     <div style={{
-                                        borderTop: '1px solid var(--surface-border)',
-                                        paddingTop: '1.25rem'
+                                        color: 'var(--text-main)',
+                                        fontSize: '0.9rem',
+                                        fontWeight: 500,
+                                        fontStyle: 'normal'
                                     }}>
-                                        <h3 style={{ fontSize: '0.9rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Emergency Contact</h3>
-                                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
-                                            <div>
-                                                <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600 }}>Contact Name</div>
-                                                <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
-                                                    {hrRecord.emergency_contact_name || 'N/A'}
-                                                </div>
-                                            </div>
-                                            <div>
-                                                <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.25rem', fontWeight: 600 }}>Phone Number</div>
-                                                <div style={{ color: 'var(--text-main)', fontWeight: 500 }}>
-                                                    {hrRecord.emergency_contact_phone ? formatPhoneNumber(hrRecord.emergency_contact_phone) : 'N/A'}
-                                                </div>
-                                            </div>
-                                        </div>
+                                        {person.practitioner_license_number}
                                     </div>
-
-                                    {hrRecord.end_date && (
-                                        <div style={{
-                                            borderTop: '1px solid var(--surface-border)',
-                                            paddingTop: '1.25rem'
-                                        }}>
-                                            <div style={{ display: 'grid', gridTemplateColumns: '1fr', gap: '1.5rem' }}>
-                                                <div>
-                                                    <div style={{ fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: '#be185d', marginBottom: '0.25rem', fontWeight: 600 }}>Termination / End Date</div>
-                                                    <div style={{ color: '#ef4444', fontWeight: 600 }}>
-                                                        {new Date(hrRecord.end_date).toLocaleDateString()}
-                                                    </div>
-                                                </div>
-                                            </div>
-                                        </div>
-                                    )}
-
-                                    <div style={{ marginTop: '0.5rem' }}>
+                                </div>
+                            )}
+                            {person.work_phone && (
+                                <div style={{ marginBottom: person.bio || canViewHrFile ? '0.75rem' : '0' }}>
+                                    <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>Work Phone</div>
+                                    <div style={{
+                                        color: 'var(--text-main)',
+                                        fontSize: '0.9rem',
+                                        fontWeight: 500,
+                                        fontStyle: 'normal'
+                                    }}>
+                                        <a href={phoneHref(person.work_phone)} style={{ color: 'inherit', textDecoration: 'none' }}>
+                                            {formatPhoneNumber(person.work_phone)}
+                                        </a>
                                         <button
-                                            onClick={closeHrModal}
-                                            style={{
-                                                width: '100%',
-                                                padding: '0.75rem',
-                                                backgroundColor: '#f1f5f9',
-                                                color: '#475569',
-                                                border: 'none',
-                                                borderRadius: '8px',
-                                                fontWeight: 600,
-                                                cursor: 'pointer',
-                                                transition: 'background-color 0.2s ease'
-                                            }}
-                                            onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#e2e8f0'}
-                                            onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#f1f5f9'}
+                                            type="button"
+                                            onClick={() => handlePersonContact(person)}
+                                            style={{ background: 'none', border: 'none', marginLeft: '0.75rem', padding: 0, color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.8rem', cursor: 'pointer' }}
                                         >
-                                            Done
+                                            Add to contacts
                                         </button>
                                     </div>
+                                </div>
+                            )}
+                            {person.bio && (
+                                <div style={{ marginBottom: canViewHrFile ? '0.75rem' : '0' }}>
+                                    <div style={{ fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-light)', marginBottom: '0.1rem', fontWeight: 600 }}>Bio</div>
+                                    <div style={{
+                                        color: 'var(--text-main)',
+                                        fontSize: '0.9rem',
+                                        lineHeight: 1.5,
+                                        fontStyle: 'normal'
+                                    }}>
+                                        {person.bio}
+                                    </div>
+                                </div>
+                            )}
+                            {canViewHrFile && !isEditing && (
+                                <div style={{ marginTop: '0.5rem' }}>
+                                    <Link
+                                        to={`/directory/${person.id}#hr-file`}
+                                        style={{
+                                            backgroundColor: '#fce7f3',
+                                            color: '#be185d',
+                                            border: '1px solid #fbcfe8',
+                                            padding: '0.35rem 0.75rem',
+                                            borderRadius: '6px',
+                                            fontSize: '0.75rem',
+                                            fontWeight: 600,
+                                            textDecoration: 'none',
+                                            transition: 'all 0.2s ease',
+                                            width: '100%',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            gap: '0.35rem'
+                                        }}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
+                                        View HR File
+                                    </Link>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
 
+    return (
+        <div ref={rootRef} style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem', marginBottom: '2rem', flexWrap: 'wrap' }}>
+                <div>
+                    <h1 style={{
+                        fontSize: '2rem',
+                        fontWeight: '700',
+                        color: 'var(--text-main)',
+                        marginBottom: '1rem',
+                        letterSpacing: '-0.025em'
+                    }}>
+                        Staff Directory
+                    </h1>
+                    <p style={{ color: 'var(--text-muted)', fontSize: '1.05rem' }}>
+                        Connect with our team of professionals.
+                    </p>
+                </div>
+                <div style={{ display: 'flex', gap: '0.75rem' }}>
+                    {(['csv', 'xlsx', 'vcf'] as const).map(format => (
+                        <button
+                            key={format}
+                            type="button"
+                            onClick={() => handleExport(format)}
+                            disabled={isExporting || total === 0}
+                            title={format === 'vcf' ? 'Contact cards for everyone shown, to add to a phone or address book' : undefined}
+                            style={{ padding: '0.75rem 1rem', borderRadius: '8px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#475569', fontWeight: 600, cursor: isExporting || total === 0 ? 'not-allowed' : 'pointer' }}
+                        >
+                            {format === 'vcf' ? 'Export vCards' : `Export ${format.toUpperCase()}`}
+                        </button>
+                    ))}
+                    {capabilities.has('importStaff') && (
+                        <Link to="/directory/import" className="btn-primary" style={{ textDecoration: 'none' }}>
+                            Import
+                        </Link>
+                    )}
+                </div>
+            </div>
+
+            <DirectoryFilterBar
+                filters={filters}
+                groups={filterGroups}
+                resultCount={total}
+                sort={sort}
+                onChange={handleFiltersChange}
+                onSortChange={handleSortChange}
+            />
+
+            <div ref={listRef} style={{ position: 'relative', height: `${virtualizer.getTotalSize()}px` }}>
+                {virtualItems.map(item => {
+                    const row = rows[item.index];
+                    return (
+                        <div
+                            key={row.key}
+                            data-index={item.index}
+                            ref={virtualizer.measureElement}
+                            style={{
+                                position: 'absolute',
+                                top: 0,
+                                left: 0,
+                                width: '100%',
+                                transform: `translateY(${item.start - listTop}px)`,
+                                paddingTop: row.kind === 'header' && item.index > 0 ? '3rem' : 0,
+                                paddingBottom: '1.5rem'
+                            }}
+                        >
+                            {row.kind === 'header' ? (
+                                <div style={{
+                                    display: 'flex',
+                                    justifyContent: 'space-between',
+                                    alignItems: 'baseline',
+                                    borderBottom: '2px solid var(--surface-border)',
+                                    paddingBottom: '0.5rem'
+                                }}>
+                                    <h2 style={{ fontSize: '1.5rem', color: 'var(--text-main)', fontWeight: '600' }}>
+                                        {row.label} Team
+                                    </h2>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDepartmentContacts(row.department, row.label)}
+                                        disabled={isExporting}
+                                        style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: isExporting ? 'not-allowed' : 'pointer' }}
+                                    >
+                                        Download contacts
+                                    </button>
                                 </div>
-                            ) : null}
+                            ) : (
+                                <div style={{
+                                    display: 'grid',
+                                    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                                    gap: `${GRID_GAP}px`
+                                }}>
+                                    {row.people.map(renderCard)}
+                                </div>
+                            )}
                         </div>
-                    </div>
+                    );
+                })}
+            </div>
+
+            {isPageLoading && (
+                <p style={{ textAlign: 'center', color: 'var(--text-muted)', padding: '1.5rem' }}>Loading...</p>
+            )}
+
+            {!isPageLoading && hasMore && loadFailed && (
+                <div style={{ textAlign: 'center', color: 'var(--text-muted)', padding: '1.5rem' }}>
+                    Couldn't load more staff.{' '}
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setLoadErrorKey(null);
+                            loadMore();
+                        }}
+                        style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '1rem', cursor: 'pointer' }}
+                    >
+                        Retry
+                    </button>
                 </div>
             )}
+
+            {!isPageLoading && staff.length === 0 && (
+                <div style={{
+                    textAlign: 'center',
+                    padding: '3rem',
+                    backgroundColor: 'white',
+                    borderRadius: '12px',
+                    color: 'var(--text-muted)'
+                }}>
+                    {hasActiveFilters(filters) ? 'No one matches this search.' : 'No staff members available for viewing.'}
+                </div>
+            )}
+
         </div>
     );
 }
-
-// Add these to global CSS or index.css for modal animations if not already present
-// @keyframes slide-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
-// @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import clinicLogo from '../assets/logo.svg';
+import toast from 'react-hot-toast';
+
+export function ForgotPassword() {
+    const [email, setEmail] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [sent, setSent] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+            redirectTo: `${window.location.origin}/reset-password`,
+        });
+        setLoading(false);
+
+        // Rate limits are worth surfacing; otherwise always show the same confirmation
+        // so this screen can't be used to find out which emails have accounts.
+        if (error && error.status === 429) {
+            toast.error('Too many reset requests. Please wait a few minutes and try again.');
+            return;
+        }
+        setSent(true);
+    };
+
+    return (
+        <div style={{
+            minHeight: '100vh',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '1rem',
+        }}>
+            <div className="glass-panel animate-fade-in" style={{
+                width: '100%',
+                maxWidth: '420px',
+                padding: '2.5rem',
+                borderRadius: '16px',
+            }}>
+                <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
+                    <img
+                        src={clinicLogo}
+                        alt="Phoenix Clinic Logo"
+                        style={{ width: '200px', height: 'auto', objectFit: 'contain', margin: '0 auto 1rem', display: 'block' }}
+                    />
+                    <h1 style={{
+                        fontSize: '1.5rem',
+                        fontWeight: '600',
+                        color: 'var(--text-main)',
+                        marginBottom: '0.5rem'
+                    }}>
+                        Reset Your Password
+                    </h1>
+                    <p style={{ color: 'var(--text-muted)', fontSize: '0.95rem' }}>
+                        {sent
+                            ? `If an account exists for ${email}, a reset link is on its way. The link expires in one hour.`
+                            : 'Enter your work email and we will send you a link to choose a new password.'}
+                    </p>
+                </div>
+
+                {!sent && (
+                    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+                        <div>
+                            <label style={{
+                                display: 'block',
+                                fontSize: '0.875rem',
+                                fontWeight: '500',
+                                color: 'var(--text-main)',
+                                marginBottom: '0.5rem'
+                            }}>
+                                Email Address
+                            </label>
+                            <input
+                                className="input-field"
+                                type="email"
+                                placeholder="name@phoenixrehab.ca"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                required
+                                autoFocus
+                            />
+                        </div>
+
+                        <button className="btn-primary" type="submit" disabled={loading}>
+                            {loading ? 'Sending...' : 'Send Reset Link'}
+                        </button>
+                    </form>
+                )}
+
+                <div style={{ marginTop: '1.5rem', textAlign: 'center', fontSize: '0.85rem' }}>
+                    <Link to="/" style={{ color: '#475569', textDecoration: 'none', fontWeight: 500 }}>
+                        Back to sign in
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { listDepartments, listLicenseOverview } from '../lib/repository';
+import type { Department, LicenseOverviewEntry } from '../lib/repository';
+import { formatDateOnly } from '../utils/masking';
+import { EXPIRY_WINDOWS, LICENSE_STATUS_COLORS, LICENSE_STATUS_LABELS, describeExpiry, effectiveLicenseStatus } from '../utils/licenses';
+
+const cellStyle = { padding: '0.75rem', color: 'var(--text-main)' };
+const headerStyle = { padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+type ExpiryWindow = typeof EXPIRY_WINDOWS[number];
+
+const isActive = (entry: LicenseOverviewEntry) => entry.status === 'active';
+
+// License expiries for management. Days are counted by the database, the same
+// way the reminder job counts them, so the dashboard and the reminders agree.
+export function Licenses() {
+    const [licenses, setLicenses] = useState<LicenseOverviewEntry[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [expiryWindow, setExpiryWindow] = useState<ExpiryWindow>(EXPIRY_WINDOWS[0]);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [rows, depts] = await Promise.all([listLicenseOverview(), listDepartments()]);
+                setLicenses(rows);
+                setDepartments(depts);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load licenses.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading licenses...</p>
+            </div>
+        );
+    }
+
+    const departmentLabel = (key: string | null) =>
+        (key && departments.find(d => d.key === key)?.label) || key || 'Unassigned';
+
+    const daysLeft = (entry: LicenseOverviewEntry) => entry.days_until_expiry ?? Number.POSITIVE_INFINITY;
+
+    // Active licenses only: suspended and revoked ones aren't renewed
+    const expired = licenses.filter(l => isActive(l) && daysLeft(l) < 0);
+    const expiringWithin = (days: number) => licenses.filter(l => isActive(l) && daysLeft(l) >= 0 && daysLeft(l) <= days);
+    const expiring = expiringWithin(expiryWindow);
+    const incomplete = licenses.filter(l => !l.regulatory_body || !l.expires_on);
+
+    const statusChip = (entry: LicenseOverviewEntry) => {
+        const status = effectiveLicenseStatus({ status: entry.status || 'active', expires_on: entry.expires_on });
+        return (
+            <span style={{
+                backgroundColor: LICENSE_STATUS_COLORS[status].background,
+                color: LICENSE_STATUS_COLORS[status].color,
+                padding: '0.1rem 0.5rem',
+                borderRadius: '9999px',
+                fontSize: '0.75rem',
+                fontWeight: 600,
+                whiteSpace: 'nowrap'
+            }}>
+                {LICENSE_STATUS_LABELS[status]}
+            </span>
+        );
+    };
+
+    const renderTable = (rows: LicenseOverviewEntry[], emptyMessage: string, showDays = true) => (
+        <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto', marginBottom: '2.5rem' }}>
+            {rows.length === 0 ? (
+                <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '1rem' }}>{emptyMessage}</p>
+            ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                    <thead>
+                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                            <th style={headerStyle}>Staff Member</th>
+                            <th style={headerStyle}>Department</th>
+                            <th style={headerStyle}>Regulatory Body</th>
+                            <th style={headerStyle}>License Number</th>
+                            <th style={headerStyle}>Status</th>
+                            <th style={headerStyle}>Expires</th>
+                            {showDays && <th style={headerStyle}></th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(entry => (
+                            <tr key={entry.id} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                <td style={cellStyle}>
+                                    <Link to={`/directory/${entry.staff_id}`} style={{ color: 'var(--primary-600)', fontWeight: 600, textDecoration: 'none' }}>
+                                        {entry.staff_name || 'Unnamed staff'}
+                                    </Link>
+                                    {entry.job_title && <div style={{ color: 'var(--text-muted)', fontSize: '0.8rem' }}>{entry.job_title}</div>}
+                                </td>
+                                <td style={cellStyle}>{departmentLabel(entry.department)}</td>
+                                <td style={cellStyle}>{entry.regulatory_body || <span style={{ color: 'var(--text-muted)' }}>Not recorded</span>}</td>
+                                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{entry.license_number || <span style={{ color: 'var(--text-muted)' }}>Hidden</span>}</td>
+                                <td style={cellStyle}>{statusChip(entry)}</td>
+                                <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                                    {entry.expires_on ? formatDateOnly(entry.expires_on) : <span style={{ color: 'var(--text-muted)' }}>Not recorded</span>}
+                                </td>
+                                {showDays && (
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap', color: daysLeft(entry) <= EXPIRY_WINDOWS[0] ? '#b91c1c' : '#b45309', fontWeight: 600 }}>
+                                        {entry.days_until_expiry !== null && describeExpiry(entry.days_until_expiry)}
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                Licenses
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                Providers and their managers are reminded 90, 60 and 30 days before a license expires. Renewals are recorded on the provider's profile.
+            </p>
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem', marginBottom: '2.5rem' }}>
+                {EXPIRY_WINDOWS.map(days => {
+                    const isSelected = days === expiryWindow;
+                    return (
+                        <button
+                            key={days}
+                            type="button"
+                            onClick={() => setExpiryWindow(days)}
+                            aria-pressed={isSelected}
+                            className="glass-panel"
+                            style={{
+                                padding: '1.25rem',
+                                borderRadius: '16px',
+                                textAlign: 'left',
+                                cursor: 'pointer',
+                                border: `2px solid ${isSelected ? 'var(--primary-600)' : 'transparent'}`
+                            }}
+                        >
+                            <div style={{ fontSize: '2rem', fontWeight: 700, color: 'var(--text-main)' }}>{expiringWithin(days).length}</div>
+                            <div style={{ color: 'var(--text-muted)', fontWeight: 600, fontSize: '0.9rem' }}>Expiring within {days} days</div>
+                        </button>
+                    );
+                })}
+                <div className="glass-panel" style={{ padding: '1.25rem', borderRadius: '16px', border: '2px solid transparent' }}>
+                    <div style={{ fontSize: '2rem', fontWeight: 700, color: expired.length > 0 ? '#b91c1c' : 'var(--text-main)' }}>{expired.length}</div>
+                    <div style={{ color: 'var(--text-muted)', fontWeight: 600, fontSize: '0.9rem' }}>Expired</div>
+                </div>
+            </div>
+
+            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Expiring within {expiryWindow} days</h2>
+            {renderTable(expiring, `No licenses expire in the next ${expiryWindow} days.`)}
+
+            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Expired</h2>
+            {renderTable([...expired].reverse(), 'No licenses have lapsed.')}
+
+            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '0.5rem' }}>Missing Details</h2>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1rem', fontSize: '0.95rem' }}>
+                Licenses without a regulatory body or expiry date, usually ones carried over from the old license number field. No reminders are sent without an expiry date.
+            </p>
+            {renderTable(incomplete, 'Every license has its regulatory body and expiry date.', false)}
+        </div>
+    );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import clinicLogo from '../assets/logo.svg';
 import toast from 'react-hot-toast';
@@ -94,14 +95,14 @@ export function Login() {
                             }}>
                                 Password
                             </label>
-                            <a href="#" style={{
+                            <Link to="/forgot-password" style={{
                                 fontSize: '0.8rem',
                                 color: '#475569',
                                 textDecoration: 'none',
                                 fontWeight: '500'
                             }}>
                                 Forgot password?
-                            </a>
+                            </Link>
                         </div>
                         <input
                             className="input-field"
@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { listAllDirectoryEntries, listDepartments, listLocations } from '../lib/repository';
+import type { ClinicLocation, Department, DirectoryProfile } from '../lib/repository';
+import { formatPersonName } from '../utils/formatters';
+import { buildOrgTree, countReports } from '../utils/orgChart';
+import type { OrgNode } from '../utils/orgChart';
+import { Avatar } from '../components/Avatar';
+
+// Levels open when the page loads
+const DEFAULT_OPEN_DEPTH = 2;
+
+interface OrgChartNodeProps {
+    node: OrgNode;
+    depth: number;
+    isOpen: (node: OrgNode, depth: number) => boolean;
+    onToggle: (node: OrgNode, open: boolean) => void;
+    departmentLabel: (person: DirectoryProfile) => string;
+}
+
+function OrgChartNode({ node, depth, isOpen, onToggle, departmentLabel }: OrgChartNodeProps) {
+    const { person, reports } = node;
+    const open = reports.length > 0 && isOpen(node, depth);
+    const total = countReports(node);
+
+    return (
+        <li style={{ listStyle: 'none' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0' }}>
+                {reports.length > 0 ? (
+                    <button
+                        type="button"
+                        onClick={() => onToggle(node, !open)}
+                        aria-expanded={open}
+                        aria-label={open ? `Hide ${formatPersonName(person)}'s reports` : `Show ${formatPersonName(person)}'s reports`}
+                        style={{ width: '24px', height: '24px', borderRadius: '6px', border: '1px solid #e2e8f0', backgroundColor: '#ffffff', color: '#475569', cursor: 'pointer', fontSize: '0.7rem', flexShrink: 0 }}
+                    >
+                        {open ? '▾' : '▸'}
+                    </button>
+                ) : (
+                    <span style={{ width: '24px', flexShrink: 0 }} />
+                )}
+                <Avatar photoUrl={person.profile_photo_url} name={formatPersonName(person)} size={40} />
+                <div style={{ minWidth: 0 }}>
+                    <Link to={`/directory/${person.id}`} style={{ color: 'var(--text-main)', fontWeight: 600, textDecoration: 'none' }}>
+                        {formatPersonName(person) || 'Unknown Staff'}
+                    </Link>
+                    <div style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                        {person.job_title ? `${person.job_title} · ` : ''}{departmentLabel(person)}
+                    </div>
+                </div>
+                {total > 0 && (
+                    <span
+                        title={`${reports.length} direct report${reports.length === 1 ? '' : 's'}`}
+                        style={{ marginLeft: 'auto', backgroundColor: '#f1f5f9', color: '#475569', padding: '0.2rem 0.6rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: 600, whiteSpace: 'nowrap' }}
+                    >
+                        {total} {total === 1 ? 'report' : 'reports'}
+                    </span>
+                )}
+            </div>
+            {open && (
+                <ul style={{ margin: 0, marginLeft: '11px', paddingLeft: '1.5rem', borderLeft: '2px solid var(--surface-border)' }}>
+                    {reports.map(report => (
+                        <OrgChartNode
+                            key={report.person.id}
+                            node={report}
+                            depth={depth + 1}
+                            isOpen={isOpen}
+                            onToggle={onToggle}
+                            departmentLabel={departmentLabel}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+}
+
+// Reporting lines as an expandable tree. Built from the viewer's directory, so
+// it only contains people they can see.
+export function OrgChart() {
+    const [people, setPeople] = useState<DirectoryProfile[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<ClinicLocation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [location, setLocation] = useState('');
+    const [department, setDepartment] = useState('');
+    // Levels open by default, and nodes the user opened or closed by hand
+    const [openDepth, setOpenDepth] = useState(DEFAULT_OPEN_DEPTH);
+    const [toggled, setToggled] = useState<Record<string, boolean>>({});
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [entries, depts, locs] = await Promise.all([
+                    listAllDirectoryEntries(), listDepartments(), listLocations()
+                ]);
+                setPeople(entries);
+                setDepartments(depts);
+                setLocations(locs);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load the org chart.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading org chart...</p>
+            </div>
+        );
+    }
+
+    const departmentLabel = (person: DirectoryProfile) =>
+        person.department_label
+        || departments.find(d => d.key === person.department)?.label
+        || person.department
+        || 'Unassigned';
+
+    const visible = people.filter(person =>
+        (!location || (person.clinic_locations || []).includes(location))
+        && (!department || person.department === department)
+    );
+    const roots = buildOrgTree(visible);
+
+    const isOpen = (node: OrgNode, depth: number) => toggled[node.person.id] ?? depth < openDepth;
+    const handleToggle = (node: OrgNode, open: boolean) => setToggled({ ...toggled, [node.person.id]: open });
+    const setAll = (depth: number) => {
+        setOpenDepth(depth);
+        setToggled({});
+    };
+
+    const linkButtonStyle = { background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: 'pointer' };
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                Org Chart
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                Who reports to whom. Open a name to see their profile.
+            </p>
+
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                <select className="input-field" value={location} onChange={(e) => setLocation(e.target.value)} style={{ maxWidth: '240px' }}>
+                    <option value="">All locations</option>
+                    {locations.filter(l => !l.archived_at).map(l => (
+                        <option key={l.name} value={l.name}>{l.name}</option>
+                    ))}
+                </select>
+                <select className="input-field" value={department} onChange={(e) => setDepartment(e.target.value)} style={{ maxWidth: '240px' }}>
+                    <option value="">All departments</option>
+                    {departments.filter(d => !d.archived_at).map(d => (
+                        <option key={d.key} value={d.key}>{d.label}</option>
+                    ))}
+                </select>
+                <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+                    <button type="button" onClick={() => setAll(Infinity)} style={linkButtonStyle}>Expand all</button>
+                    <button type="button" onClick={() => setAll(0)} style={linkButtonStyle}>Collapse all</button>
+                </div>
+            </div>
+
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px' }}>
+                {roots.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '2rem' }}>No one matches these filters.</p>
+                ) : (
+                    <ul style={{ margin: 0, padding: 0 }}>
+                        {roots.map(root => (
+                            <OrgChartNode
+                                key={root.person.id}
+                                node={root}
+                                depth={0}
+                                isOpen={isOpen}
+                                onToggle={handleToggle}
+                                departmentLabel={departmentLabel}
+                            />
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { describeError, listDepartments, listProfileChangeQueue, reviewProfileChange } from '../lib/repository';
+import type { Department, ProfileChangeQueueEntry } from '../lib/repository';
+import { asProfileChangeValues, profileChangeRows } from '../utils/profileChanges';
+
+const cellStyle = { padding: '0.5rem 0.75rem', color: 'var(--text-main)' };
+const headerStyle = { padding: '0.5rem 0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+// Pending legal and display name changes for HR. Each request shows the values
+// when it was made and the requested ones; a value that has changed since is
+// flagged, as approving overwrites it.
+export function ProfileApprovals() {
+    const [queue, setQueue] = useState<ProfileChangeQueueEntry[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [comments, setComments] = useState<Record<string, string>>({});
+    const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [rows, depts] = await Promise.all([listProfileChangeQueue(), listDepartments()]);
+                setQueue(rows);
+                setDepartments(depts);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load profile change requests.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleReview = async (entry: ProfileChangeQueueEntry, approve: boolean) => {
+        if (!entry.id) return;
+        const comment = (comments[entry.id] || '').trim();
+        if (!approve && !comment) {
+            toast.error('Add a comment explaining why the request was rejected.');
+            return;
+        }
+
+        setReviewingId(entry.id);
+        try {
+            await reviewProfileChange(entry.id, approve, comment);
+            setQueue(await listProfileChangeQueue());
+            toast.success(approve ? `Approved. ${entry.staff_name}'s profile has been updated.` : 'Request rejected.');
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to review the request: ${describeError(err)}`);
+        } finally {
+            setReviewingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading profile change requests...</p>
+            </div>
+        );
+    }
+
+    const departmentLabel = (key: string | null) =>
+        (key && departments.find(d => d.key === key)?.label) || key || 'Unassigned';
+
+    const buttonStyle = (color: string, disabled: boolean) => ({
+        padding: '0.5rem 1rem',
+        borderRadius: '8px',
+        border: 'none',
+        backgroundColor: color,
+        color: '#ffffff',
+        fontWeight: 600,
+        fontSize: '0.9rem',
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.6 : 1
+    });
+
+    return (
+        <div style={{ maxWidth: '1000px', margin: '0 auto', padding: '2rem' }}>
+            <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                Profile Approvals
+            </h1>
+            <p style={{ color: 'var(--text-muted)', marginBottom: '2rem', fontSize: '1.05rem' }}>
+                Staff changes to their legal or display name wait here until approved. The requester sees your comment.
+            </p>
+
+            {queue.length === 0 ? (
+                <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px' }}>
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '1rem' }}>No requests are waiting for review.</p>
+                </div>
+            ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+                    {queue.map(entry => {
+                        const id = entry.id || '';
+                        const current = asProfileChangeValues(entry.current);
+                        const isBusy = reviewingId !== null;
+
+                        return (
+                            <div key={id} className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px' }}>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+                                    <div>
+                                        <Link to={`/directory/${entry.staff_id}`} style={{ color: 'var(--primary-600)', fontWeight: 600, fontSize: '1.1rem', textDecoration: 'none' }}>
+                                            {entry.staff_name || 'Unnamed staff'}
+                                        </Link>
+                                        <div style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                                            {entry.job_title ? `${entry.job_title} · ` : ''}{departmentLabel(entry.department)}
+                                        </div>
+                                    </div>
+                                    <span style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                                        Requested {entry.requested_at ? new Date(entry.requested_at).toLocaleString() : ''}
+                                    </span>
+                                </div>
+
+                                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem', marginBottom: '1rem' }}>
+                                    <thead>
+                                        <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                            <th style={headerStyle}>Field</th>
+                                            <th style={headerStyle}>Before</th>
+                                            <th style={headerStyle}>Requested</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {profileChangeRows(entry.changes, entry.previous).map(row => {
+                                            const now = current[row.field] ?? '';
+                                            return (
+                                                <tr key={row.field} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                                    <td style={{ ...cellStyle, fontWeight: 500 }}>{row.label}</td>
+                                                    <td style={{ ...cellStyle, color: '#b91c1c', textDecoration: row.before ? 'line-through' : 'none' }}>
+                                                        {row.before || <span style={{ color: 'var(--text-light)', fontStyle: 'italic' }}>blank</span>}
+                                                        {now !== row.before && (
+                                                            <div style={{ color: '#92400e', fontSize: '0.8rem', textDecoration: 'none' }}>
+                                                                Now "{now || 'blank'}"
+                                                            </div>
+                                                        )}
+                                                    </td>
+                                                    <td style={{ ...cellStyle, color: '#15803d', fontWeight: 600 }}>
+                                                        {row.after || <span style={{ color: 'var(--text-light)', fontStyle: 'italic', fontWeight: 400 }}>blank</span>}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+
+                                <textarea
+                                    value={comments[id] || ''}
+                                    onChange={(e) => setComments({ ...comments, [id]: e.target.value })}
+                                    className="input-field"
+                                    placeholder="Comment for the requester (required to reject)"
+                                    rows={2}
+                                    style={{ resize: 'vertical', fontFamily: 'inherit', width: '100%', marginBottom: '0.75rem' }}
+                                />
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                                    <button type="button" onClick={() => handleReview(entry, false)} disabled={isBusy} style={buttonStyle('#dc2626', isBusy)}>
+                                        {reviewingId === id ? 'Saving...' : 'Reject'}
+                                    </button>
+                                    <button type="button" onClick={() => handleReview(entry, true)} disabled={isBusy} style={buttonStyle('#16a34a', isBusy)}>
+                                        {reviewingId === id ? 'Saving...' : 'Approve'}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isPasswordStrong } from '../utils/passwordPolicy';
+import { PasswordChecklist } from '../components/PasswordChecklist';
+import clinicLogo from '../assets/logo.svg';
+import toast from 'react-hot-toast';
+
+interface ResetPasswordProps {
+    session: Session | null;
+    onComplete: () => void;
+}
+
+// Landing page for the link in the reset (or invite) email. Supabase signs the user
+// in from the link; App keeps them here until they choose a password. Other signed-in
+// sessions are sent away: they change their password from the Dashboard, which asks
+// for the current one.
+export function ResetPassword({ session, onComplete }: ResetPasswordProps) {
+    const navigate = useNavigate();
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const email = session?.user.email;
+    const canSubmit = isPasswordStrong(password, email) && password === confirmPassword;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+
+        setLoading(true);
+        const { error } = await supabase.auth.updateUser({ password });
+        setLoading(false);
+
+        if (error) {
+            toast.error(error.message);
+            return;
+        }
+
+        toast.success('Password updated. You are now signed in.');
+        onComplete();
+        navigate('/dashboard', { replace: true });
+    };
+
+    return (
+        <div style={{
+            minHeight: '100vh',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '1rem',
+        }}>
+            <div className="glass-panel animate-fade-in" style={{
+                width: '100%',
+                maxWidth: '420px',
+                padding: '2.5rem',
+                borderRadius: '16px',
+            }}>
+                <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
+                    <img
+                        src={clinicLogo}
+                        alt="Phoenix Clinic Logo"
+                        style={{ width: '200px', height: 'auto', objectFit: 'contain', margin: '0 auto 1rem', display: 'block' }}
+                    />
+                    <h1 style={{
+                        fontSize: '1.5rem',
+                        fontWeight: '600',
+                        color: 'var(--text-main)',
+                        marginBottom: '0.5rem'
+                    }}>
+                        Choose a New Password
+                    </h1>
+                    {session && (
+                        <p style={{ color: 'var(--text-muted)', fontSize: '0.95rem' }}>
+                            Resetting the password for {email}.
+                        </p>
+                    )}
+                </div>
+
+                {!session ? (
+                    <div style={{ textAlign: 'center' }}>
+                        <p style={{ color: 'var(--text-muted)', marginBottom: '1.5rem' }}>
+                            This reset link is invalid or has expired.
+                        </p>
+                        <Link to="/forgot-password" className="btn-primary" style={{ textDecoration: 'none' }}>
+                            Request a new link
+                        </Link>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+                        <div>
+                            <label style={{
+                                display: 'block',
+                                fontSize: '0.875rem',
+                                fontWeight: '500',
+                                color: 'var(--text-main)',
+                                marginBottom: '0.5rem'
+                            }}>
+                                New Password
+                            </label>
+                            <input
+                                className="input-field"
+                                type="password"
+                                autoComplete="new-password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                                autoFocus
+                            />
+                            <PasswordChecklist password={password} email={email} />
+                        </div>
+
+                        <div>
+                            <label style={{
+                                display: 'block',
+                                fontSize: '0.875rem',
+                                fontWeight: '500',
+                                color: 'var(--text-main)',
+                                marginBottom: '0.5rem'
+                            }}>
+                                Confirm New Password
+                            </label>
+                            <input
+                                className="input-field"
+                                type="password"
+                                autoComplete="new-password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                required
+                            />
+                            {confirmPassword && password !== confirmPassword && (
+                                <span style={{ fontSize: '0.8rem', color: 'var(--error-text)' }}>Passwords do not match.</span>
+                            )}
+                        </div>
+
+                        <button className="btn-primary" type="submit" disabled={loading || !canSubmit}>
+                            {loading ? 'Updating...' : 'Update Password'}
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
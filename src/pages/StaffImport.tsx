@@ -0,0 +1,328 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { describeError, importStaffUpdates, inviteStaff, listDepartments, listEmailDomains, listLocations, listRoles, listStaffProfiles } from '../lib/repository';
+import type { ClinicLocation, Department, StaffProfile } from '../lib/repository';
+import { useCurrentStaff } from '../lib/currentStaff';
+import type { RoleDefinition } from '../lib/roles';
+import { parseCsv } from '../utils/csv';
+import { readXlsx } from '../utils/xlsx';
+import { autoMapColumns, canMatchRows, planStaffImport, SPREADSHEET_FIELDS, spreadsheetFieldLabel } from '../utils/staffSpreadsheet';
+import type { ColumnMapping, ImportAction, SpreadsheetField } from '../utils/staffSpreadsheet';
+
+const ACTION_STYLES: Record<ImportAction, { label: string; color: string; background: string }> = {
+    add: { label: 'Add', color: '#166534', background: '#dcfce7' },
+    update: { label: 'Update', color: '#1e40af', background: '#dbeafe' },
+    unchanged: { label: 'No change', color: '#475569', background: '#f1f5f9' },
+    error: { label: 'Error', color: '#991b1b', background: '#fee2e2' }
+};
+
+const cellStyle = { padding: '0.75rem', color: 'var(--text-main)', verticalAlign: 'top' as const };
+const headerStyle = { padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+interface Sheet {
+    fileName: string;
+    rows: string[][];
+}
+
+const readSheet = async (file: File) => {
+    if (/\.xlsx$/i.test(file.name)) return readXlsx(file);
+    if (/\.csv$/i.test(file.name)) return parseCsv(await file.text());
+    throw new Error('Choose a .csv or .xlsx file.');
+};
+
+// Bulk updates and additions from a spreadsheet. Nothing is written until the
+// dry run has been reviewed; rows with errors are skipped.
+export function StaffImport() {
+    const navigate = useNavigate();
+    const { capabilities } = useCurrentStaff();
+    const [existing, setExisting] = useState<StaffProfile[]>([]);
+    const [roleRegistry, setRoleRegistry] = useState<RoleDefinition[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<ClinicLocation[]>([]);
+    const [emailDomains, setEmailDomains] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [sheet, setSheet] = useState<Sheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>([]);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [profiles, registry, depts, locs, domains] = await Promise.all([
+                    listStaffProfiles(), listRoles(), listDepartments(), listLocations(), listEmailDomains()
+                ]);
+                setExisting(profiles);
+                setRoleRegistry(registry);
+                setDepartments(depts);
+                setLocations(locs);
+                setEmailDomains(domains.map(d => d.domain));
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load staff for the import.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const rows = await readSheet(file);
+            if (!rows[0] || rows[0].every(cell => !cell.trim())) {
+                toast.error('The first row should hold the column headers.');
+                return;
+            }
+            setSheet({ fileName: file.name, rows });
+            setMapping(autoMapColumns(rows[0]));
+        } catch (err) {
+            console.error(err);
+            toast.error(`Could not read ${file.name}: ${describeError(err)}`);
+        }
+    };
+
+    const handleMappingChange = (column: number, field: SpreadsheetField | null) => {
+        setMapping(mapping.map((current, i) => (i === column ? field : current)));
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading...</p>
+            </div>
+        );
+    }
+
+    const isMatchable = canMatchRows(mapping);
+    const plan = sheet && isMatchable
+        ? planStaffImport(sheet.rows, mapping, {
+            existing,
+            departments,
+            locations,
+            roleRegistry,
+            canAdd: capabilities.has('inviteStaff'),
+            emailDomains
+        })
+        : [];
+    const count = (action: ImportAction) => plan.filter(row => row.action === action).length;
+    const updates = plan.filter(row => row.action === 'update');
+    const additions = plan.filter(row => row.action === 'add');
+    const visibleRows = showUnchanged ? plan : plan.filter(row => row.action !== 'unchanged');
+
+    const handleApply = async () => {
+        const summary = [
+            updates.length > 0 && `update ${updates.length} staff member${updates.length === 1 ? '' : 's'}`,
+            additions.length > 0 && `add and invite ${additions.length} new staff member${additions.length === 1 ? '' : 's'}`
+        ].filter(Boolean).join(' and ');
+        if (!window.confirm(`This will ${summary}. Continue?`)) return;
+
+        setIsApplying(true);
+        const failures: string[] = [];
+        try {
+            if (updates.length > 0) {
+                await importStaffUpdates(updates.map(row => ({ id: row.staffId!, changes: row.values })));
+            }
+        } catch (err) {
+            console.error(err);
+            toast.error(`No changes were saved: ${describeError(err)}`);
+            setIsApplying(false);
+            return;
+        }
+
+        for (const row of additions) {
+            try {
+                await inviteStaff(row.values);
+            } catch (err) {
+                console.error(err);
+                failures.push(`row ${row.rowNumber} (${describeError(err)})`);
+            }
+        }
+
+        if (failures.length === 0) {
+            toast.success('Import complete.');
+            navigate('/directory');
+            return;
+        }
+
+        // Reload so the preview shows only what's left to do
+        toast.error(`Updates were saved, but these new staff could not be added: ${failures.join('; ')}`, { duration: 8000 });
+        try {
+            setExisting(await listStaffProfiles());
+        } catch (err) {
+            console.error(err);
+        }
+        setIsApplying(false);
+    };
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem', display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+            <div>
+                <Link to="/directory" style={{ color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.9rem', textDecoration: 'none' }}>
+                    &larr; Back to Directory
+                </Link>
+                <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', margin: '1rem 0', letterSpacing: '-0.025em' }}>
+                    Import Staff
+                </h1>
+                <p style={{ color: 'var(--text-muted)', fontSize: '1.05rem' }}>
+                    Upload a CSV or XLSX file, such as a Directory export. Rows are matched to staff by Staff ID, or by work email
+                    when there is no ID. Blank cells leave a field unchanged.
+                </p>
+            </div>
+
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                <label className="btn-primary" style={{ cursor: isApplying ? 'not-allowed' : 'pointer' }}>
+                    {sheet ? 'Choose Another File' : 'Choose File'}
+                    <input type="file" accept=".csv,.xlsx" onChange={handleFile} disabled={isApplying} style={{ display: 'none' }} />
+                </label>
+                {sheet && (
+                    <span style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                        {sheet.fileName} · {sheet.rows.length - 1} row{sheet.rows.length === 2 ? '' : 's'}
+                    </span>
+                )}
+            </div>
+
+            {sheet && (
+                <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                    <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '1rem' }}>Columns</h2>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={headerStyle}>Spreadsheet Column</th>
+                                <th style={headerStyle}>First Value</th>
+                                <th style={headerStyle}>Imports As</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sheet.rows[0].map((header, column) => (
+                                <tr key={column} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                    <td style={cellStyle}>{header || <em style={{ color: 'var(--text-light)' }}>No header</em>}</td>
+                                    <td style={{ ...cellStyle, color: 'var(--text-muted)' }}>{sheet.rows[1]?.[column] ?? ''}</td>
+                                    <td style={cellStyle}>
+                                        <select
+                                            className="input-field"
+                                            value={mapping[column] ?? ''}
+                                            onChange={(e) => handleMappingChange(column, (e.target.value || null) as SpreadsheetField | null)}
+                                            disabled={isApplying}
+                                            style={{ maxWidth: '260px' }}
+                                        >
+                                            <option value="">Don't import</option>
+                                            {SPREADSHEET_FIELDS.map(field => (
+                                                <option key={field} value={field} disabled={mapping.includes(field) && mapping[column] !== field}>
+                                                    {spreadsheetFieldLabel(field)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {!isMatchable && (
+                        <p style={{ color: '#991b1b', fontSize: '0.9rem', marginTop: '1rem' }}>
+                            Import a Staff ID or Work Email column so rows can be matched to existing staff.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {sheet && isMatchable && (
+                <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+                        <div>
+                            <h2 style={{ fontSize: '1.25rem', fontWeight: 600, color: 'var(--text-main)', marginBottom: '0.25rem' }}>Dry Run</h2>
+                            <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                                {count('add')} to add · {count('update')} to update · {count('unchanged')} unchanged · {count('error')} with errors (skipped)
+                            </p>
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem', color: 'var(--text-muted)', cursor: 'pointer' }}>
+                                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                                Show unchanged rows
+                            </label>
+                            <button
+                                type="button"
+                                className="btn-primary"
+                                onClick={handleApply}
+                                disabled={isApplying || updates.length + additions.length === 0}
+                                style={{ opacity: isApplying || updates.length + additions.length === 0 ? 0.6 : 1 }}
+                            >
+                                {isApplying ? 'Importing...' : 'Apply Import'}
+                            </button>
+                        </div>
+                    </div>
+
+                    {visibleRows.length === 0 ? (
+                        <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '2rem' }}>Nothing in this file would change.</p>
+                    ) : (
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                            <thead>
+                                <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                    <th style={headerStyle}>Row</th>
+                                    <th style={headerStyle}>Staff Member</th>
+                                    <th style={headerStyle}>Action</th>
+                                    <th style={headerStyle}>Changes</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleRows.map(row => {
+                                    const style = ACTION_STYLES[row.action];
+                                    return (
+                                        <tr key={row.rowNumber} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                            <td style={{ ...cellStyle, color: 'var(--text-muted)' }}>{row.rowNumber}</td>
+                                            <td style={cellStyle}>
+                                                {row.staffId ? (
+                                                    <Link to={`/directory/${row.staffId}`} style={{ color: 'var(--primary-600)', fontWeight: 600, textDecoration: 'none' }}>
+                                                        {row.name || 'Unnamed staff'}
+                                                    </Link>
+                                                ) : (row.name || 'Unnamed staff')}
+                                            </td>
+                                            <td style={cellStyle}>
+                                                <span style={{
+                                                    display: 'inline-block',
+                                                    padding: '0.2rem 0.6rem',
+                                                    borderRadius: '9999px',
+                                                    fontSize: '0.75rem',
+                                                    fontWeight: 600,
+                                                    color: style.color,
+                                                    backgroundColor: style.background
+                                                }}>
+                                                    {style.label}
+                                                </span>
+                                            </td>
+                                            <td style={cellStyle}>
+                                                {row.errors.map(error => (
+                                                    <div key={error} style={{ color: '#991b1b' }}>{error}</div>
+                                                ))}
+                                                {row.errors.length === 0 && row.changes.map(change => (
+                                                    <div key={change.field}>
+                                                        <span style={{ color: 'var(--text-muted)' }}>{spreadsheetFieldLabel(change.field)}:</span>{' '}
+                                                        {change.before && (
+                                                            <>
+                                                                <span style={{ textDecoration: 'line-through', color: 'var(--text-light)' }}>{change.before}</span>
+                                                                {' → '}
+                                                            </>
+                                                        )}
+                                                        {change.after}
+                                                    </div>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
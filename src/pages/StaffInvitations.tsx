@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { describeError, listDepartments, listEmailDomains, listLocations, listRoles, listStaffInvitations, resendStaffInvitation } from '../lib/repository';
+import type { ClinicLocation, Department, InvitationStatus, StaffInvitation } from '../lib/repository';
+import { useCurrentStaff } from '../lib/currentStaff';
+import type { RoleDefinition } from '../lib/roles';
+import { AddStaffWizard } from '../components/AddStaffWizard';
+
+const STATUS_STYLES: Record<InvitationStatus, { label: string; color: string; background: string }> = {
+    pending: { label: 'Pending', color: '#92400e', background: '#fef3c7' },
+    accepted: { label: 'Accepted', color: '#166534', background: '#dcfce7' },
+    expired: { label: 'Expired', color: '#991b1b', background: '#fee2e2' }
+};
+
+const cellStyle = { padding: '0.75rem', color: 'var(--text-main)' };
+const headerStyle = { padding: '0.75rem', color: 'var(--text-main)', fontWeight: '600' };
+
+// New hires: the Add Staff wizard and the status of every invitation sent.
+export function StaffInvitations() {
+    const navigate = useNavigate();
+    const { capabilities } = useCurrentStaff();
+    const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+    const [roleRegistry, setRoleRegistry] = useState<RoleDefinition[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [locations, setLocations] = useState<ClinicLocation[]>([]);
+    const [emailDomains, setEmailDomains] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isWizardOpen, setIsWizardOpen] = useState(false);
+    const [resendingId, setResendingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const [invites, registry, depts, locs, domains] = await Promise.all([
+                    listStaffInvitations(), listRoles(), listDepartments(), listLocations(), listEmailDomains()
+                ]);
+                setInvitations(invites);
+                setRoleRegistry(registry);
+                setDepartments(depts);
+                setLocations(locs);
+                setEmailDomains(domains.map(d => d.domain));
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load invitations.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, []);
+
+    const handleResend = async (invitation: StaffInvitation) => {
+        if (!invitation.staff_id) return;
+        setResendingId(invitation.staff_id);
+        try {
+            await resendStaffInvitation(invitation.staff_id);
+            setInvitations(await listStaffInvitations());
+            toast.success(`Invitation re-sent to ${invitation.email}.`);
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to re-send the invitation: ${describeError(err)}`);
+        } finally {
+            setResendingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{ minHeight: 'calc(100vh - 64px)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading invitations...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem', marginBottom: '2rem' }}>
+                <div>
+                    <h1 style={{ fontSize: '2rem', fontWeight: '700', color: 'var(--text-main)', marginBottom: '1rem', letterSpacing: '-0.025em' }}>
+                        New Hires
+                    </h1>
+                    <p style={{ color: 'var(--text-muted)', fontSize: '1.05rem' }}>
+                        Add staff members and follow their invitations until they sign in.
+                    </p>
+                </div>
+                <button type="button" className="btn-primary" onClick={() => setIsWizardOpen(true)}>
+                    Add Staff
+                </button>
+            </div>
+
+            <div className="glass-panel" style={{ padding: '1.5rem', borderRadius: '16px', overflowX: 'auto' }}>
+                {invitations.length === 0 ? (
+                    <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '2rem' }}>No invitations have been sent yet.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                        <thead>
+                            <tr style={{ borderBottom: '2px solid var(--surface-border)', textAlign: 'left' }}>
+                                <th style={headerStyle}>Staff Member</th>
+                                <th style={headerStyle}>Email</th>
+                                <th style={headerStyle}>Invited</th>
+                                <th style={headerStyle}>Invited By</th>
+                                <th style={headerStyle}>Status</th>
+                                <th style={headerStyle}></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {invitations.map(invitation => {
+                                const status = STATUS_STYLES[(invitation.status || 'pending') as InvitationStatus];
+                                return (
+                                    <tr key={invitation.id} style={{ borderBottom: '1px solid var(--surface-border)' }}>
+                                        <td style={cellStyle}>
+                                            <Link to={`/directory/${invitation.staff_id}`} style={{ color: 'var(--primary-600)', fontWeight: 600, textDecoration: 'none' }}>
+                                                {invitation.staff_name || 'Unnamed staff'}
+                                            </Link>
+                                        </td>
+                                        <td style={cellStyle}>{invitation.email}</td>
+                                        <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                                            {invitation.invited_at ? new Date(invitation.invited_at).toLocaleString() : ''}
+                                        </td>
+                                        <td style={cellStyle}>{invitation.invited_by_name || 'Unknown user'}</td>
+                                        <td style={cellStyle}>
+                                            <span
+                                                title={invitation.status === 'accepted' && invitation.accepted_at
+                                                    ? `Accepted ${new Date(invitation.accepted_at).toLocaleString()}`
+                                                    : invitation.expires_at ? `Link valid until ${new Date(invitation.expires_at).toLocaleString()}` : undefined}
+                                                style={{
+                                                    display: 'inline-block',
+                                                    padding: '0.2rem 0.6rem',
+                                                    borderRadius: '9999px',
+                                                    fontSize: '0.75rem',
+                                                    fontWeight: 600,
+                                                    color: status.color,
+                                                    backgroundColor: status.background
+                                                }}
+                                            >
+                                                {status.label}
+                                            </span>
+                                        </td>
+                                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                                            {invitation.status !== 'accepted' && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleResend(invitation)}
+                                                    disabled={resendingId !== null}
+                                                    style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: resendingId !== null ? 'not-allowed' : 'pointer' }}
+                                                >
+                                                    {resendingId === invitation.staff_id ? 'Sending...' : 'Re-send'}
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {isWizardOpen && (
+                <AddStaffWizard
+                    roleRegistry={roleRegistry}
+                    departments={departments}
+                    locations={locations}
+                    emailDomains={emailDomains}
+                    canAssignRoles={capabilities.has('editStaff') || capabilities.has('manageRoles')}
+                    canEditHrFile={capabilities.has('editHrFile')}
+                    canManageLicenses={capabilities.has('manageLicenses')}
+                    onClose={() => setIsWizardOpen(false)}
+                    onCreated={(staffId) => navigate(`/directory/${staffId}`)}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { describeError, getDirectoryEntry, listDepartments, listDirectReports } from '../lib/repository';
+import type { Department, DirectoryProfile } from '../lib/repository';
+import { useCurrentStaff } from '../lib/currentStaff';
+import { formatRoles } from '../lib/roles';
+import { PROFILE_FIELD_LABELS, PROFILE_FIELDS } from '../lib/profileFields';
+import type { ProfileField } from '../lib/profileFields';
+import { formatPersonName, formatPhoneNumber } from '../utils/formatters';
+import { phoneHref } from '../utils/contactDetails';
+import { downloadVCards } from '../utils/vcard';
+import { Avatar } from '../components/Avatar';
+import { ProfilePhotoActions } from '../components/ProfilePhotoActions';
+import { HrFilePanel } from '../components/HrFilePanel';
+import { LicensesPanel } from '../components/LicensesPanel';
+import { OffboardingForm } from '../components/OffboardingForm';
+
+// Shown in the header rather than the details grid
+const HEADER_FIELDS: ProfileField[] = [
+    'legal_first_name',
+    'legal_last_name',
+    'preferred_name',
+    'display_name',
+    'profile_photo_url',
+    'job_title',
+    'department',
+    'clinic_locations'
+];
+
+const DETAIL_FIELDS = PROFILE_FIELDS.filter(field => !HEADER_FIELDS.includes(field));
+
+const labelStyle = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    color: 'var(--text-light)',
+    marginBottom: '0.25rem',
+    fontWeight: 600
+};
+
+const chipStyle = {
+    display: 'inline-block',
+    backgroundColor: '#f1f5f9',
+    color: '#475569',
+    padding: '0.25rem 0.6rem',
+    borderRadius: '9999px',
+    fontSize: '0.75rem',
+    fontWeight: 600
+};
+
+// A single colleague at /directory/:id. The profile is read through the same
+// masked directory_profiles view as the Directory, so department visibility,
+// location scoping and field masking apply identically; a profile the viewer
+// can't see looks the same as one that doesn't exist.
+export function StaffProfile() {
+    const { id = '' } = useParams();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const [person, setPerson] = useState<DirectoryProfile | null>(null);
+    const { profile: viewer, roleRegistry, capabilities } = useCurrentStaff();
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [manager, setManager] = useState<DirectoryProfile | null>(null);
+    const [directReports, setDirectReports] = useState<DirectoryProfile[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isOffboarding, setIsOffboarding] = useState(false);
+
+    useEffect(() => {
+        const fetchProfile = async () => {
+            setIsLoading(true);
+            try {
+                const [entry, depts, reports] = await Promise.all([
+                    getDirectoryEntry(id), listDepartments(), listDirectReports(id)
+                ]);
+                setPerson(entry);
+                setDepartments(depts);
+                setDirectReports([...reports].sort((x, y) => formatPersonName(x).localeCompare(formatPersonName(y))));
+                // A manager the viewer can't see stays hidden
+                setManager(entry?.reports_to ? await getDirectoryEntry(entry.reports_to) : null);
+            } catch (err) {
+                console.error(err);
+                toast.error('Failed to load this profile. Please try again later.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchProfile();
+    }, [id]);
+
+    const refreshPerson = async () => {
+        setPerson(await getDirectoryEntry(id));
+    };
+
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}/directory/${id}`);
+            toast.success('Profile link copied.');
+        } catch {
+            toast.error('Could not copy the link.');
+        }
+    };
+
+    const handleAddToContacts = async () => {
+        if (!person) return;
+        try {
+            await downloadVCards([person], departments, formatPersonName(person));
+        } catch (err) {
+            console.error(err);
+            toast.error(`Failed to create the contact card: ${describeError(err)}`);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div style={{
+                minHeight: 'calc(100vh - 64px)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                padding: '1rem',
+            }}>
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+                    <svg style={{ animation: 'logo-spin 1s linear infinite', color: 'var(--primary-600)' }} xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="12" y1="2" x2="12" y2="6"></line>
+                        <line x1="12" y1="18" x2="12" y2="22"></line>
+                        <line x1="4.93" y1="4.93" x2="7.76" y2="7.76"></line>
+                        <line x1="16.24" y1="16.24" x2="19.07" y2="19.07"></line>
+                        <line x1="2" y1="12" x2="6" y2="12"></line>
+                        <line x1="18" y1="12" x2="22" y2="12"></line>
+                        <line x1="4.93" y1="19.07" x2="7.76" y2="16.24"></line>
+                        <line x1="16.24" y1="7.76" x2="19.07" y2="4.93"></line>
+                    </svg>
+                    <p style={{ color: 'var(--text-muted)', fontWeight: 500 }}>Loading profile...</p>
+                </div>
+            </div>
+        );
+    }
+
+    const backLink = (
+        <Link to="/directory" style={{ color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.9rem', textDecoration: 'none' }}>
+            &larr; Back to Directory
+        </Link>
+    );
+
+    if (!person) {
+        return (
+            <div style={{ maxWidth: '900px', margin: '0 auto', padding: '2rem' }}>
+                {backLink}
+                <div style={{
+                    marginTop: '1.5rem',
+                    textAlign: 'center',
+                    padding: '3rem',
+                    backgroundColor: 'white',
+                    borderRadius: '12px',
+                    color: 'var(--text-muted)'
+                }}>
+                    This profile doesn't exist or you don't have access to it.
+                </div>
+            </div>
+        );
+    }
+
+    const name = formatPersonName(person);
+    const canChangePhoto = viewer?.id === person.id || capabilities.has('managePhotos');
+    const canOffboard = viewer?.id !== person.id && capabilities.has('offboardStaff');
+    // The database limits licenses to the provider, their manager and license viewers
+    const canSeeLicenses = viewer?.id === person.id
+        || (!!viewer && person.reports_to === viewer.id)
+        || capabilities.has('viewLicenses')
+        || capabilities.has('manageLicenses');
+    const departmentLabel = person.department_label
+        || departments.find(d => d.key === person.department)?.label
+        || person.department
+        || 'Unassigned';
+
+    const renderValue = (field: ProfileField) => {
+        switch (field) {
+            case 'role':
+                return formatRoles(roleRegistry, person.role || []);
+            case 'reports_to':
+                return manager && (
+                    <Link to={`/directory/${manager.id}`} style={{ color: 'var(--primary-600)', textDecoration: 'none' }}>
+                        {formatPersonName(manager)}
+                    </Link>
+                );
+            case 'work_email':
+                return person.work_email && (
+                    <a href={`mailto:${person.work_email}`} style={{ color: 'var(--primary-600)', textDecoration: 'none' }}>{person.work_email}</a>
+                );
+            case 'work_phone':
+                return person.work_phone && (
+                    <a href={phoneHref(person.work_phone)} style={{ color: 'inherit', textDecoration: 'none' }}>{formatPhoneNumber(person.work_phone)}</a>
+                );
+            case 'fluent_languages':
+                return (person.fluent_languages || []).join(', ');
+            default: {
+                const value = person[field];
+                return Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+    };
+
+    // Masked fields come back as null and are left out entirely, as is a manager
+    // outside the viewer's directory
+    const details = DETAIL_FIELDS.filter(field => {
+        if (field === 'reports_to') return !!manager;
+        const value = person[field];
+        return Array.isArray(value) ? value.length > 0 : !!value;
+    });
+
+    return (
+        <div style={{ maxWidth: '900px', margin: '0 auto', padding: '2rem', display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                {backLink}
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+                    <button
+                        type="button"
+                        onClick={handleCopyLink}
+                        style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: 'pointer' }}
+                    >
+                        Copy link
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleAddToContacts}
+                        style={{ background: 'none', border: 'none', color: 'var(--primary-600)', fontWeight: 600, fontSize: '0.85rem', cursor: 'pointer' }}
+                    >
+                        Add to contacts
+                    </button>
+                    {canOffboard && (
+                        <button
+                            type="button"
+                            onClick={() => setIsOffboarding(true)}
+                            style={{ background: 'none', border: '1px solid #fca5a5', borderRadius: '6px', padding: '0.25rem 0.75rem', color: '#dc2626', fontWeight: 600, fontSize: '0.8rem', cursor: 'pointer' }}
+                        >
+                            Offboard
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', display: 'flex', gap: '1.5rem', alignItems: 'flex-start' }}>
+                <Avatar photoUrl={person.profile_photo_url} name={name} size={88} />
+                <div style={{ flex: 1 }}>
+                    <h1 style={{ fontSize: '1.75rem', fontWeight: 700, color: 'var(--text-main)', letterSpacing: '-0.025em', marginBottom: '0.25rem' }}>
+                        {name || 'Unknown Staff'}
+                    </h1>
+                    <p style={{ color: 'var(--text-muted)', marginBottom: '0.75rem' }}>
+                        {person.job_title ? `${person.job_title} · ` : ''}{departmentLabel}
+                    </p>
+                    {person.clinic_locations && person.clinic_locations.length > 0 && (
+                        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+                            {person.clinic_locations.map(loc => (
+                                <span key={loc} style={chipStyle}>{loc}</span>
+                            ))}
+                        </div>
+                    )}
+                    {canChangePhoto && (
+                        <div style={{ display: 'flex' }}>
+                            <ProfilePhotoActions personId={person.id} hasPhoto={!!person.profile_photo_url} onChange={refreshPerson} />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {details.length > 0 && (
+                <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px', display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: '1.5rem' }}>
+                    {details.map(field => (
+                        <div key={field} style={field === 'bio' ? { gridColumn: '1 / -1' } : undefined}>
+                            <div style={labelStyle}>{PROFILE_FIELD_LABELS[field]}</div>
+                            <div style={{ color: 'var(--text-main)', fontWeight: field === 'bio' ? 400 : 500, lineHeight: 1.5 }}>
+                                {renderValue(field)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {directReports.length > 0 && (
+                <div className="glass-panel" style={{ padding: '2rem', borderRadius: '16px' }}>
+                    <div style={labelStyle}>Direct Reports</div>
+                    <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                        {directReports.map(report => (
+                            <Link key={report.id} to={`/directory/${report.id}`} style={{ ...chipStyle, textDecoration: 'none' }}>
+                                {formatPersonName(report)}
+                            </Link>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {canSeeLicenses && (
+                <LicensesPanel key={person.id} personId={person.id} canEdit={capabilities.has('manageLicenses')} />
+            )}
+
+            {capabilities.has('viewHrFile') && (
+                <HrFilePanel
+                    key={person.id}
+                    personId={person.id}
+                    canEdit={capabilities.has('editHrFile')}
+                    autoOpen={location.hash === '#hr-file'}
+                />
+            )}
+
+            {isOffboarding && (
+                <OffboardingForm
+                    personId={person.id}
+                    personName={name}
+                    onClose={() => setIsOffboarding(false)}
+                    onOffboarded={(effectiveNow) => {
+                        setIsOffboarding(false);
+                        // Someone who has left is no longer in the directory
+                        if (effectiveNow) navigate('/departures');
+                    }}
+                />
+            )}
+        </div>
+    );
+}
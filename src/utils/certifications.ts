@@ -0,0 +1,75 @@
+import type { ComplianceStatus, StaffCertification, StaffCertificationInput } from '../lib/repository';
+import { daysUntil } from './licenses';
+
+// Certificate uploads and compliance statuses. The limits match the certificates
+// bucket and the 30-day window matches the certification_compliance view.
+
+export const CERTIFICATE_MAX_BYTES = 10 * 1024 * 1024;
+
+export const CERTIFICATE_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export const EXPIRING_SOON_DAYS = 30;
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+    valid: 'Valid',
+    expiring: 'Expiring soon',
+    expired: 'Expired',
+    missing: 'Missing'
+};
+
+export const COMPLIANCE_STATUS_COLORS: Record<ComplianceStatus, { background: string; color: string }> = {
+    valid: { background: '#dcfce7', color: '#166534' },
+    expiring: { background: '#fef3c7', color: '#92400e' },
+    expired: { background: '#fee2e2', color: '#991b1b' },
+    missing: { background: '#fee2e2', color: '#991b1b' }
+};
+
+export const isComplianceStatus = (value: string | null): value is ComplianceStatus =>
+    value !== null && value in COMPLIANCE_STATUS_LABELS;
+
+// Status of an uploaded certificate; without an expiry date it never expires.
+export const certificationStatus = (certification: Pick<StaffCertification, 'expires_on'>): Exclude<ComplianceStatus, 'missing'> => {
+    if (!certification.expires_on) return 'valid';
+    const days = daysUntil(certification.expires_on);
+    if (days < 0) return 'expired';
+    return days <= EXPIRING_SOON_DAYS ? 'expiring' : 'valid';
+};
+
+export interface CertificationDraft {
+    certification_type: string;
+    issued_on: string;
+    expires_on: string;
+}
+
+export const EMPTY_CERTIFICATION_DRAFT: CertificationDraft = {
+    certification_type: '',
+    issued_on: '',
+    expires_on: ''
+};
+
+export type CertificationErrors = Partial<Record<keyof CertificationDraft | 'file', string>>;
+
+export const validateCertification = (draft: CertificationDraft, file: File | null): CertificationErrors => {
+    const errors: CertificationErrors = {};
+
+    if (!draft.certification_type) errors.certification_type = 'Choose the type of certificate.';
+    if (draft.issued_on && draft.expires_on && draft.expires_on < draft.issued_on) {
+        errors.expires_on = 'The expiry date is before the issue date.';
+    }
+
+    if (!file) {
+        errors.file = 'Choose the certificate file.';
+    } else if (!CERTIFICATE_FILE_TYPES.includes(file.type)) {
+        errors.file = 'Upload a PDF or an image (JPEG, PNG or WebP).';
+    } else if (file.size > CERTIFICATE_MAX_BYTES) {
+        errors.file = 'The file is larger than 10 MB.';
+    }
+
+    return errors;
+};
+
+export const toCertificationInput = (draft: CertificationDraft): StaffCertificationInput => ({
+    certification_type: draft.certification_type,
+    issued_on: draft.issued_on || null,
+    expires_on: draft.expires_on || null
+});
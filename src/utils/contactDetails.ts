@@ -0,0 +1,113 @@
+// Parsing, validation and display of phone numbers and work emails. Phones are
+// stored in E.164 (+14165550123), with an extension as ";ext=123" (RFC 3966);
+// the database normalizes with the same rules (see public.normalize_phone).
+// Numbers without a country code are read as North American.
+
+export interface PhoneNumber {
+    // + and up to 15 digits
+    e164: string;
+    extension: string | null;
+}
+
+// Countries sharing the +1 code whose users expect the national format
+const NANP_REGIONS = ['US', 'CA', 'PR', 'JM', 'BS', 'BB', 'TT'];
+
+// "x123", "ext 123", "ext. 123", "extension 123", "#123" or ";ext=123" at the end
+const EXTENSION_PATTERN = /^(.*?)\s*(?:;ext=|(?:extension|ext\.?|x|#)\s*)(\d{1,6})\s*$/i;
+const NANP_PATTERN = /^1[2-9]\d{2}[2-9]\d{6}$/;
+const E164_DIGITS = /^[1-9]\d{7,14}$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const parsePhone = (input: string): PhoneNumber | null => {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+
+    const match = trimmed.match(EXTENSION_PATTERN);
+    const main = (match ? match[1] : trimmed).trim();
+    const extension = match ? match[2] : null;
+    let digits = main.replace(/\D/g, '');
+
+    if (main.startsWith('+')) {
+        // Already international
+    } else if (digits.length === 10) {
+        digits = `1${digits}`;
+    } else if (digits.length === 11 && digits.startsWith('1')) {
+        // North American with the trunk prefix
+    } else if (digits.startsWith('011')) {
+        digits = digits.slice(3);
+    } else if (digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else {
+        return null;
+    }
+
+    if (!E164_DIGITS.test(digits)) return null;
+    if (digits.startsWith('1') && !NANP_PATTERN.test(digits)) return null;
+
+    return { e164: `+${digits}`, extension };
+};
+
+// Stored form, or null when the input isn't a phone number.
+export const normalizePhone = (input: string) => {
+    const phone = parsePhone(input);
+    return phone && (phone.extension ? `${phone.e164};ext=${phone.extension}` : phone.e164);
+};
+
+export const validatePhone = (input: string) =>
+    !input.trim() || parsePhone(input) ? null : 'Enter a valid phone number, e.g. 416-555-0123 or +44 20 7946 0958. Add an extension with "x".';
+
+const withExtension = (number: string, phone: PhoneNumber) =>
+    phone.extension ? `${number} ext. ${phone.extension}` : number;
+
+// +1 416-555-0123 for North American numbers; others as stored, since their
+// grouping varies by country.
+export const formatPhoneInternational = (phone: PhoneNumber) => {
+    const digits = phone.e164.slice(1);
+    const number = NANP_PATTERN.test(digits)
+        ? `+1 ${digits.slice(1, 4)}-${digits.slice(4, 7)}-${digits.slice(7)}`
+        : phone.e164;
+    return withExtension(number, phone);
+};
+
+const localeRegion = (locale: string) => {
+    try {
+        return new Intl.Locale(locale).maximize().region ?? null;
+    } catch {
+        return null;
+    }
+};
+
+// National format, (416) 555-0123, for viewers in North America; international otherwise.
+export const formatPhone = (phone: PhoneNumber, locale = navigator.language) => {
+    const digits = phone.e164.slice(1);
+    const region = localeRegion(locale);
+    if (NANP_PATTERN.test(digits) && region && NANP_REGIONS.includes(region)) {
+        return withExtension(`(${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`, phone);
+    }
+    return formatPhoneInternational(phone);
+};
+
+// tel: link target; dialers understand the RFC 3966 extension.
+export const phoneHref = (value: string) => {
+    const phone = parsePhone(value);
+    if (!phone) return `tel:${value.replace(/[^\d+]/g, '')}`;
+    return `tel:${phone.e164}${phone.extension ? `;ext=${phone.extension}` : ''}`;
+};
+
+// --- Email ---------------------------------------------------------------------
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const emailDomain = (email: string) => normalizeEmail(email).split('@').pop() ?? '';
+
+// With no domains configured any domain is accepted, as in the database.
+export const validateWorkEmail = (email: string, allowedDomains: string[]) => {
+    const normalized = normalizeEmail(email);
+    if (!normalized) return null;
+    if (!EMAIL_PATTERN.test(normalized)) return 'Enter a valid email address.';
+    if (allowedDomains.length > 0 && !allowedDomains.includes(emailDomain(normalized))) {
+        return `Use a clinic email address (${allowedDomains.map(domain => `@${domain}`).join(', ')}).`;
+    }
+    return null;
+};
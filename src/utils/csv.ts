@@ -0,0 +1,84 @@
+// CSV helpers for exports and imports. Values are quoted when needed and cells
+// that a spreadsheet would treat as a formula are prefixed so they open as plain
+// text; parseCsv strips that prefix again so exported files import unchanged.
+
+export interface CsvColumn<T> {
+    header: string;
+    value: (row: T) => string | number | null | undefined;
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (raw: string | number | null | undefined) => {
+    let cell = raw == null ? '' : String(raw);
+    if (FORMULA_START.test(cell)) cell = `'${cell}`;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) => {
+    const lines = [
+        columns.map(col => escapeCell(col.header)).join(','),
+        ...rows.map(row => columns.map(col => escapeCell(col.value(row))).join(','))
+    ];
+    return lines.join('\r\n');
+};
+
+// Rows of cells, including blank rows so row numbers match the file.
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let wasQuoted = false;
+
+    const endCell = () => {
+        row.push(!wasQuoted && cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell);
+        cell = '';
+        wasQuoted = false;
+    };
+
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === ',') {
+            endCell();
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endCell();
+            rows.push(row.length === 1 && row[0] === '' ? [] : row);
+            row = [];
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        endCell();
+        rows.push(row);
+    }
+    return rows;
+};
+
+export const downloadFile = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+    // Leading BOM so Excel picks up UTF-8 names correctly
+    downloadFile(filename, new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+};
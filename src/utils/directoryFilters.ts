@@ -0,0 +1,69 @@
+// Directory search, filter and sort state, kept in the URL so a filtered view can
+// be bookmarked or shared: ?q=acupuncture&location=Richmond&language=Mandarin
+// Multiple values of one filter match any of them; different filters must all
+// match. The filtering itself happens in the database (listDirectoryPage).
+
+export interface DirectoryFilters {
+    query: string;
+    locations: string[];
+    departments: string[];
+    roles: string[];
+    employmentTypes: string[];
+    languages: string[];
+}
+
+export type DirectorySort = 'last_name' | 'first_name' | 'job_title';
+
+export const EMPTY_DIRECTORY_FILTERS: DirectoryFilters = {
+    query: '',
+    locations: [],
+    departments: [],
+    roles: [],
+    employmentTypes: [],
+    languages: []
+};
+
+export type DirectoryFilterKey = Exclude<keyof DirectoryFilters, 'query'>;
+
+export const FILTER_PARAMS: Record<DirectoryFilterKey, string> = {
+    locations: 'location',
+    departments: 'department',
+    roles: 'role',
+    employmentTypes: 'type',
+    languages: 'language'
+};
+
+export const parseDirectoryFilters = (params: URLSearchParams): DirectoryFilters => ({
+    query: params.get('q') || '',
+    locations: params.getAll(FILTER_PARAMS.locations),
+    departments: params.getAll(FILTER_PARAMS.departments),
+    roles: params.getAll(FILTER_PARAMS.roles),
+    employmentTypes: params.getAll(FILTER_PARAMS.employmentTypes),
+    languages: params.getAll(FILTER_PARAMS.languages)
+});
+
+export const SORTS: DirectorySort[] = ['last_name', 'first_name', 'job_title'];
+
+export const SORT_LABELS: Record<DirectorySort, string> = {
+    last_name: 'Last name',
+    first_name: 'First name',
+    job_title: 'Job title'
+};
+
+export const parseDirectorySort = (params: URLSearchParams): DirectorySort => {
+    const sort = params.get('sort');
+    return SORTS.find(s => s === sort) || 'last_name';
+};
+
+export const toSearchParams = (filters: DirectoryFilters, sort: DirectorySort = 'last_name') => {
+    const params = new URLSearchParams();
+    if (sort !== 'last_name') params.set('sort', sort);
+    if (filters.query.trim()) params.set('q', filters.query);
+    (Object.keys(FILTER_PARAMS) as DirectoryFilterKey[]).forEach(key => {
+        filters[key].forEach(value => params.append(FILTER_PARAMS[key], value));
+    });
+    return params;
+};
+
+export const hasActiveFilters = (filters: DirectoryFilters) =>
+    filters.query.trim() !== '' || (Object.keys(FILTER_PARAMS) as DirectoryFilterKey[]).some(key => filters[key].length > 0);
@@ -1,14 +1,20 @@
-export const formatPhoneNumber = (phoneNumberString: string) => {
-    // Remove all non-numeric characters
-    const cleaned = ('' + phoneNumberString).replace(/\D/g, '');
+import { formatPhone, parsePhone } from './contactDetails';
 
-    // Check if the input is of correct length
-    const match = cleaned.match(/^(\d{3})(\d{3})(\d{4})$/);
+// Stored numbers in the viewer's format. Anything that isn't a phone number
+// (legacy values the backfill couldn't parse) is shown as it is.
+export const formatPhoneNumber = (phoneNumberString: string) => {
+    const phone = parsePhone(phoneNumberString);
+    return phone ? formatPhone(phone) : phoneNumberString;
+};
 
-    if (match) {
-        return `${match[1]}-${match[2]}-${match[3]}`;
-    }
+interface NameFields {
+    display_name: string | null;
+    preferred_name: string | null;
+    legal_first_name: string | null;
+    legal_last_name: string | null;
+}
 
-    // Return original string if it doesn't match standard lengths
-    return phoneNumberString;
-};
+// Name shown on cards and profile headers: the display name if set, otherwise
+// preferred (or legal) first name and last name.
+export const formatPersonName = (person: NameFields) =>
+    person.display_name || `${person.preferred_name || person.legal_first_name || ''} ${person.legal_last_name || ''}`.trim();
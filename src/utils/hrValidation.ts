@@ -0,0 +1,99 @@
+import type { HRRecordInput } from '../lib/repository';
+import { normalizePhone, validatePhone } from './contactDetails';
+
+// Validation for the HR record editor. The database enforces the same rules
+// (see the hr_records check constraints), this gives inline messages first.
+
+export const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Canadian SIN: nine digits where every second digit is doubled (Luhn check).
+export const isValidSin = (sin: string) => {
+    const digits = digitsOnly(sin);
+    if (digits.length !== 9) return false;
+
+    const total = digits.split('').reduce((sum, char, index) => {
+        let digit = Number(char);
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        return sum + digit;
+    }, 0);
+    return total % 10 === 0;
+};
+
+const MIN_WORKING_AGE = 14;
+
+const yearsAfter = (isoDate: string, years: number) => {
+    const date = new Date(`${isoDate}T00:00:00`);
+    date.setFullYear(date.getFullYear() + years);
+    return date;
+};
+
+export interface HrRecordDraft {
+    sin: string;
+    date_of_birth: string;
+    emergency_contact_name: string;
+    emergency_contact_phone: string;
+    end_date: string;
+}
+
+export const EMPTY_HR_DRAFT: HrRecordDraft = {
+    sin: '',
+    date_of_birth: '',
+    emergency_contact_name: '',
+    emergency_contact_phone: '',
+    end_date: ''
+};
+
+export type HrRecordErrors = Partial<Record<keyof HrRecordDraft, string>>;
+
+export const validateHrRecord = (draft: HrRecordDraft): HrRecordErrors => {
+    const errors: HrRecordErrors = {};
+    const today = new Date();
+
+    if (draft.sin && !isValidSin(draft.sin)) {
+        errors.sin = 'Enter a valid 9-digit SIN.';
+    }
+
+    if (draft.date_of_birth) {
+        const birth = new Date(`${draft.date_of_birth}T00:00:00`);
+        if (Number.isNaN(birth.getTime()) || birth.getFullYear() < 1900) {
+            errors.date_of_birth = 'Enter a valid date of birth.';
+        } else if (yearsAfter(draft.date_of_birth, MIN_WORKING_AGE) > today) {
+            errors.date_of_birth = `Staff must be at least ${MIN_WORKING_AGE} years old.`;
+        }
+    }
+
+    if (draft.end_date) {
+        const end = new Date(`${draft.end_date}T00:00:00`);
+        if (Number.isNaN(end.getTime())) {
+            errors.end_date = 'Enter a valid end date.';
+        } else if (draft.date_of_birth && !errors.date_of_birth && end <= yearsAfter(draft.date_of_birth, MIN_WORKING_AGE)) {
+            errors.end_date = 'The end date is before this person could have started working.';
+        }
+    }
+
+    const phoneError = validatePhone(draft.emergency_contact_phone);
+    if (phoneError) {
+        errors.emergency_contact_phone = phoneError;
+    }
+
+    if (draft.emergency_contact_phone && !draft.emergency_contact_name.trim()) {
+        errors.emergency_contact_name = 'Add a name for this emergency contact.';
+    }
+
+    return errors;
+};
+
+export const isEmptyHrDraft = (draft: HrRecordDraft) =>
+    Object.values(draft).every(value => !value.trim());
+
+// Values as stored: digits only for SIN, E.164 for phone, null for anything left blank.
+export const toHrRecordInput = (draft: HrRecordDraft): HRRecordInput => ({
+    sin: digitsOnly(draft.sin) || null,
+    date_of_birth: draft.date_of_birth || null,
+    emergency_contact_name: draft.emergency_contact_name.trim() || null,
+    emergency_contact_phone: normalizePhone(draft.emergency_contact_phone),
+    end_date: draft.end_date || null
+});
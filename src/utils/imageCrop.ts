@@ -0,0 +1,44 @@
+// Browser-side cropping and resizing for profile photos. Photos are stored as
+// square JPEGs so uploads stay small whatever the camera produced.
+
+export const PHOTO_SIZE = 512;
+const PHOTO_QUALITY = 0.85;
+
+// Square region of the source image, in source pixels.
+export interface CropArea {
+    x: number;
+    y: number;
+    size: number;
+}
+
+// The caller owns `src`; object URLs must stay valid while the image is on screen.
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('This file could not be read as an image.'));
+    image.src = src;
+});
+
+export const cropToBlob = (image: HTMLImageElement, crop: CropArea, size = PHOTO_SIZE) => new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+        reject(new Error('Image editing is not supported in this browser.'));
+        return;
+    }
+
+    // JPEG has no transparency; keep transparent PNG areas white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size, size);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+
+    canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('The photo could not be processed.'))),
+        'image/jpeg',
+        PHOTO_QUALITY
+    );
+});
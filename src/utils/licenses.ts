@@ -0,0 +1,107 @@
+import type { PractitionerLicense, PractitionerLicenseInput } from '../lib/repository';
+
+// Statuses a license can be given. "Expired" isn't one of them: it follows from
+// the expiry date, as in the database.
+
+export const LICENSE_STATUSES = ['active', 'pending', 'suspended', 'revoked'] as const;
+
+export type LicenseStatus = typeof LICENSE_STATUSES[number];
+
+export type EffectiveLicenseStatus = LicenseStatus | 'expired';
+
+export const LICENSE_STATUS_LABELS: Record<EffectiveLicenseStatus, string> = {
+    active: 'Active',
+    pending: 'Pending',
+    suspended: 'Suspended',
+    revoked: 'Revoked',
+    expired: 'Expired'
+};
+
+export const LICENSE_STATUS_COLORS: Record<EffectiveLicenseStatus, { background: string; color: string }> = {
+    active: { background: '#dcfce7', color: '#166534' },
+    pending: { background: '#e0f2fe', color: '#075985' },
+    suspended: { background: '#fef3c7', color: '#92400e' },
+    revoked: { background: '#f3f4f6', color: '#374151' },
+    expired: { background: '#fee2e2', color: '#991b1b' }
+};
+
+// Reminder thresholds, matching send_license_reminders.
+export const EXPIRY_WINDOWS = [30, 60, 90] as const;
+
+export const isLicenseStatus = (value: string): value is LicenseStatus =>
+    (LICENSE_STATUSES as readonly string[]).includes(value);
+
+// Whole days from today (local) to a YYYY-MM-DD date; negative once it has passed.
+export const daysUntil = (date: string) => {
+    const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+    const now = new Date();
+    return Math.round((Date.UTC(year, month - 1, day) - Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())) / 86_400_000);
+};
+
+export const effectiveLicenseStatus = (license: Pick<PractitionerLicense, 'status' | 'expires_on'>): EffectiveLicenseStatus => {
+    if (license.expires_on && daysUntil(license.expires_on) < 0) return 'expired';
+    return isLicenseStatus(license.status) ? license.status : 'active';
+};
+
+export const describeExpiry = (days: number) => {
+    if (days < -1) return `Expired ${-days} days ago`;
+    if (days === -1) return 'Expired yesterday';
+    if (days === 0) return 'Expires today';
+    if (days === 1) return 'Expires tomorrow';
+    return `Expires in ${days} days`;
+};
+
+// --- Editing -------------------------------------------------------------------
+
+export interface LicenseDraft {
+    regulatory_body: string;
+    license_number: string;
+    issued_on: string;
+    expires_on: string;
+    status: LicenseStatus;
+}
+
+export const EMPTY_LICENSE_DRAFT: LicenseDraft = {
+    regulatory_body: '',
+    license_number: '',
+    issued_on: '',
+    expires_on: '',
+    status: 'active'
+};
+
+export type LicenseErrors = Partial<Record<keyof LicenseDraft, string>>;
+
+export const toLicenseDraft = (license: PractitionerLicense | null): LicenseDraft => license ? {
+    regulatory_body: license.regulatory_body || '',
+    license_number: license.license_number,
+    issued_on: license.issued_on?.slice(0, 10) || '',
+    expires_on: license.expires_on?.slice(0, 10) || '',
+    status: isLicenseStatus(license.status) ? license.status : 'active'
+} : EMPTY_LICENSE_DRAFT;
+
+// New and edited licenses need the body and expiry date that reminders rely on;
+// only carried-over licenses may lack them.
+export const validateLicense = (draft: LicenseDraft): LicenseErrors => {
+    const errors: LicenseErrors = {};
+
+    if (!draft.regulatory_body.trim()) errors.regulatory_body = 'Enter the regulatory body, e.g. College of Physiotherapists of Ontario.';
+    if (!draft.license_number.trim()) errors.license_number = 'Enter the license number.';
+    if (!draft.expires_on) errors.expires_on = 'Enter the expiry date.';
+    if (draft.issued_on && draft.expires_on && draft.expires_on < draft.issued_on) {
+        errors.expires_on = 'The expiry date is before the issue date.';
+    }
+
+    return errors;
+};
+
+// Status always has a value, so only the typed fields count.
+export const isEmptyLicenseDraft = (draft: LicenseDraft) =>
+    !draft.regulatory_body.trim() && !draft.license_number.trim() && !draft.issued_on && !draft.expires_on;
+
+export const toLicenseInput = (draft: LicenseDraft): PractitionerLicenseInput => ({
+    regulatory_body: draft.regulatory_body.trim() || null,
+    license_number: draft.license_number.trim(),
+    issued_on: draft.issued_on || null,
+    expires_on: draft.expires_on || null,
+    status: draft.status
+});
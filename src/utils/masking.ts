@@ -0,0 +1,20 @@
+// Masked and revealed renderings of confidential HR values. Masks keep just
+// enough of the value (the last digits) for someone to confirm they have the
+// right record without being able to read it off the screen.
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+export const formatSin = (sin: string) => {
+    const digits = digitsOf(sin);
+    return digits.length === 9 ? `${digits.slice(0, 3)} ${digits.slice(3, 6)} ${digits.slice(6)}` : sin;
+};
+
+export const maskSin = (sin: string) => `*** *** ${digitsOf(sin).slice(-3).padStart(3, '*')}`;
+
+// Date-only values (YYYY-MM-DD) are parsed as local dates so they don't shift a day west of UTC.
+export const formatDateOnly = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString();
+
+export const maskDate = () => '**/**/****';
+
+// The extension isn't part of the masked digits.
+export const maskPhone = (phone: string) => `***-***-${digitsOf(phone.split(';')[0]).slice(-4).padStart(4, '*')}`;
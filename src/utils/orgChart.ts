@@ -0,0 +1,49 @@
+import type { DirectoryProfile } from '../lib/repository';
+import { formatPersonName } from './formatters';
+
+// Reporting-line helpers for the org chart and the manager picker. They work on
+// the viewer's directory rows, so someone whose manager the viewer can't see (or
+// who was filtered out) is shown at the top of their own branch.
+
+export interface OrgNode {
+    person: DirectoryProfile;
+    reports: OrgNode[];
+}
+
+// Count of everyone below a node, not only direct reports.
+export const countReports = (node: OrgNode): number =>
+    node.reports.reduce((sum, report) => sum + 1 + countReports(report), 0);
+
+// Roots and each person's reports, alphabetically by name.
+export const buildOrgTree = (people: DirectoryProfile[]): OrgNode[] => {
+    const nodes = new Map(people.map(person => [person.id, { person, reports: [] } as OrgNode]));
+    const roots: OrgNode[] = [];
+
+    nodes.forEach(node => {
+        const manager = node.person.reports_to ? nodes.get(node.person.reports_to) : undefined;
+        if (manager) manager.reports.push(node);
+        else roots.push(node);
+    });
+
+    const sortLevel = (level: OrgNode[]) => {
+        level.sort((a, b) => formatPersonName(a.person).localeCompare(formatPersonName(b.person)));
+        level.forEach(node => sortLevel(node.reports));
+    };
+    sortLevel(roots);
+
+    return roots;
+};
+
+// Ids of everyone who reports to the person, directly or through others. None of
+// them can become the person's manager without creating a loop.
+export const reportsUnder = (people: DirectoryProfile[], id: string) => {
+    const under = new Set<string>();
+    let frontier = [id];
+    while (frontier.length > 0) {
+        frontier = people
+            .filter(person => person.reports_to && frontier.includes(person.reports_to) && !under.has(person.id))
+            .map(person => person.id);
+        frontier.forEach(reportId => under.add(reportId));
+    }
+    return under;
+};
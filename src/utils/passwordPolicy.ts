@@ -0,0 +1,27 @@
+// Password strength policy for resets and changes. The same minimums are configured
+// on the auth server (supabase/config.toml), so this only exists to give inline feedback.
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+export interface PasswordRuleResult {
+    label: string;
+    met: boolean;
+}
+
+export const checkPasswordStrength = (password: string, email?: string): PasswordRuleResult[] => {
+    const emailName = email?.split('@')[0]?.toLowerCase() || '';
+
+    return [
+        { label: `At least ${MIN_PASSWORD_LENGTH} characters`, met: password.length >= MIN_PASSWORD_LENGTH },
+        { label: 'An uppercase and a lowercase letter', met: /[a-z]/.test(password) && /[A-Z]/.test(password) },
+        { label: 'A number', met: /\d/.test(password) },
+        { label: 'A symbol (e.g. ! @ # $)', met: /[^A-Za-z0-9]/.test(password) },
+        {
+            label: 'Does not contain your email name',
+            met: password.length > 0 && (emailName.length < 3 || !password.toLowerCase().includes(emailName))
+        },
+    ];
+};
+
+export const isPasswordStrong = (password: string, email?: string) =>
+    checkPasswordStrength(password, email).every(rule => rule.met);
@@ -0,0 +1,45 @@
+import type { Json } from '../lib/database.types';
+import { APPROVAL_REQUIRED_FIELDS, PROFILE_FIELD_LABELS } from '../lib/profileFields';
+import type { ApprovalRequiredField } from '../lib/profileFields';
+import type { ProfileChangeRequest, ProfileChangeValues } from '../lib/repository';
+
+// A rejected request stays on the employee's profile this long, so the comment is seen.
+const REJECTED_NOTICE_DAYS = 30;
+
+// Before/after rows for a profile change request, shared by the employee's
+// notice on their profile and the HR approval queue.
+
+export interface ProfileChangeRow {
+    field: ApprovalRequiredField;
+    label: string;
+    before: string;
+    after: string;
+}
+
+export const asProfileChangeValues = (value: Json | null) =>
+    (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as ProfileChangeValues;
+
+// In the usual field order; only fields the request changes.
+export const profileChangeRows = (changes: Json | null, previous: Json | null): ProfileChangeRow[] => {
+    const after = asProfileChangeValues(changes);
+    const before = asProfileChangeValues(previous);
+    return APPROVAL_REQUIRED_FIELDS
+        .filter(field => field in after)
+        .map(field => ({
+            field,
+            label: PROFILE_FIELD_LABELS[field],
+            before: before[field] ?? '',
+            after: after[field] ?? ''
+        }));
+};
+
+export const sameProfileChanges = (a: ProfileChangeValues, b: ProfileChangeValues) => {
+    const fields = Object.keys(a) as ApprovalRequiredField[];
+    return fields.length === Object.keys(b).length
+        && fields.every(field => field in b && (a[field] ?? null) === (b[field] ?? null));
+};
+
+export const isRecentlyRejected = (request: ProfileChangeRequest) =>
+    request.status === 'rejected'
+    && !!request.reviewed_at
+    && Date.now() - new Date(request.reviewed_at).getTime() < REJECTED_NOTICE_DAYS * 24 * 60 * 60 * 1000;
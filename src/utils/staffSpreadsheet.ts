@@ -0,0 +1,277 @@
+import type { ClinicLocation, Department, DirectoryProfile, StaffProfile } from '../lib/repository';
+import { PROFILE_FIELD_LABELS, PROFILE_FIELDS } from '../lib/profileFields';
+import type { ProfileField } from '../lib/profileFields';
+import { roleLabel } from '../lib/roles';
+import type { RoleDefinition } from '../lib/roles';
+import { formatPersonName, formatPhoneNumber } from './formatters';
+import { normalizeEmail, normalizePhone, validatePhone, validateWorkEmail } from './contactDetails';
+import type { CsvColumn } from './csv';
+
+// Spreadsheet layout shared by the Directory export and the staff import, so an
+// exported file can be edited and imported straight back. Rows are matched to
+// existing staff by Staff ID, or by work email when there is no ID column.
+// Photos, reporting lines and license numbers are left out; they are edited in
+// the app (license numbers come from the practitioner's license records).
+
+type AppOnlyField = 'profile_photo_url' | 'reports_to' | 'practitioner_license_number';
+
+const APP_ONLY_FIELDS: AppOnlyField[] = ['profile_photo_url', 'reports_to', 'practitioner_license_number'];
+
+export type ImportableField = Exclude<ProfileField, AppOnlyField>;
+export type SpreadsheetField = 'id' | ImportableField;
+
+export const SPREADSHEET_FIELDS: SpreadsheetField[] = [
+    'id',
+    ...PROFILE_FIELDS.filter((field): field is ImportableField => !(APP_ONLY_FIELDS as ProfileField[]).includes(field))
+];
+
+export const spreadsheetFieldLabel = (field: SpreadsheetField) =>
+    field === 'id' ? 'Staff ID' : PROFILE_FIELD_LABELS[field];
+
+// Needed to add someone new, as in the Add Staff wizard.
+const REQUIRED_FOR_NEW: ImportableField[] = ['legal_first_name', 'legal_last_name', 'work_email', 'department'];
+
+// Location names may contain commas, so lists are written with semicolons.
+const LIST_SEPARATOR = '; ';
+
+// Common headers from spreadsheets that weren't exported from here.
+const HEADER_ALIASES: Record<string, SpreadsheetField> = {
+    id: 'id',
+    firstname: 'legal_first_name',
+    middlename: 'legal_middle_name',
+    lastname: 'legal_last_name',
+    email: 'work_email',
+    phone: 'work_phone',
+    title: 'job_title',
+    role: 'role',
+    location: 'clinic_locations',
+    language: 'fluent_languages'
+};
+
+export interface Organization {
+    departments: Department[];
+    locations: ClinicLocation[];
+    roleRegistry: RoleDefinition[];
+}
+
+type FieldValue = string | string[] | null;
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// How a value reads in a spreadsheet cell and in the import preview.
+const displayValue = (org: Organization, field: SpreadsheetField, value: FieldValue | undefined) => {
+    if (value == null) return '';
+    if (field === 'department') return org.departments.find(d => d.key === value)?.label ?? String(value);
+    if (field === 'role') return (value as string[]).map(key => roleLabel(org.roleRegistry, key)).join(LIST_SEPARATOR);
+    if (field === 'work_phone') return formatPhoneNumber(value as string);
+    return Array.isArray(value) ? value.join(LIST_SEPARATOR) : value;
+};
+
+// Directory export columns. Fields masked for the viewer come through blank.
+export const staffExportColumns = (org: Organization): CsvColumn<DirectoryProfile>[] =>
+    SPREADSHEET_FIELDS.map(field => ({
+        header: spreadsheetFieldLabel(field),
+        value: person => displayValue(org, field, person[field])
+    }));
+
+// --- Column mapping ------------------------------------------------------------
+
+export type ColumnMapping = (SpreadsheetField | null)[];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/s$/, '');
+
+// Guesses a field for each header; each field is used at most once.
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+    const used = new Set<SpreadsheetField>();
+    return headers.map(header => {
+        const key = normalizeHeader(header);
+        const field = SPREADSHEET_FIELDS.find(f =>
+            normalizeHeader(f) === key || normalizeHeader(spreadsheetFieldLabel(f)) === key
+        ) ?? HEADER_ALIASES[key];
+
+        if (!field || used.has(field)) return null;
+        used.add(field);
+        return field;
+    });
+};
+
+export const canMatchRows = (mapping: ColumnMapping) =>
+    mapping.includes('id') || mapping.includes('work_email');
+
+// --- Dry run -------------------------------------------------------------------
+
+export type ImportAction = 'add' | 'update' | 'unchanged' | 'error';
+
+export type StaffImportValues = Partial<Pick<StaffProfile, ImportableField>>;
+
+export interface FieldChange {
+    field: ImportableField;
+    before: string;
+    after: string;
+}
+
+export interface ImportRow {
+    // As numbered in the spreadsheet, header included
+    rowNumber: number;
+    action: ImportAction;
+    name: string;
+    staffId: string | null;
+    changes: FieldChange[];
+    // The changed fields for an update, every filled-in field for an addition
+    values: StaffImportValues;
+    errors: string[];
+}
+
+export interface ImportContext extends Organization {
+    existing: StaffProfile[];
+    canAdd: boolean;
+    emailDomains: string[];
+}
+
+const splitList = (raw: string, separators: RegExp) =>
+    raw.split(separators).map(item => item.trim()).filter(Boolean);
+
+// Resolves a cell to the stored value, accepting labels as well as keys.
+const parseCell = (context: ImportContext, field: ImportableField, raw: string): { value: FieldValue } | { error: string } => {
+    switch (field) {
+        case 'department': {
+            const department = context.departments.find(d => !d.archived_at && (sameText(d.key, raw) || sameText(d.label, raw)));
+            return department ? { value: department.key } : { error: `Unknown department "${raw}".` };
+        }
+        case 'clinic_locations': {
+            const names = splitList(raw, /;/);
+            const unknown = names.filter(name => !context.locations.some(l => !l.archived_at && sameText(l.name, name)));
+            if (unknown.length > 0) return { error: `Unknown location ${unknown.map(name => `"${name}"`).join(', ')}.` };
+            return { value: names.map(name => context.locations.find(l => !l.archived_at && sameText(l.name, name))!.name) };
+        }
+        case 'role': {
+            const names = splitList(raw, /[;,]/);
+            const keys = names.map(name => context.roleRegistry.find(r => sameText(r.key, name) || sameText(r.label, name))?.key);
+            const unknown = names.filter((_, i) => !keys[i]);
+            if (unknown.length > 0) return { error: `Unknown role ${unknown.map(name => `"${name}"`).join(', ')}.` };
+            return { value: keys as string[] };
+        }
+        case 'fluent_languages':
+            return { value: splitList(raw, /[;,]/) };
+        case 'work_phone': {
+            const phone = normalizePhone(raw);
+            return phone ? { value: phone } : { error: `Work phone "${raw}": ${validatePhone(raw)}` };
+        }
+        case 'work_email': {
+            const error = validateWorkEmail(raw, context.emailDomains);
+            return error ? { error: `Work email "${raw}": ${error}` } : { value: normalizeEmail(raw) };
+        }
+        default:
+            return { value: raw };
+    }
+};
+
+const sameValue = (field: ImportableField, before: FieldValue, after: FieldValue) => {
+    if (Array.isArray(before) || Array.isArray(after)) {
+        const sorted = (list: FieldValue) => [...(list as string[] | null) || []].sort().join('\n');
+        return sorted(before) === sorted(after);
+    }
+    if (field === 'work_phone' && before) return normalizePhone(before) === after;
+    if (field === 'work_email' && before && after) return sameText(before, after);
+    return (before ?? '') === (after ?? '');
+};
+
+// Works out what importing each row would do, without changing anything. Blank
+// cells leave a field as it is, so a partial or masked export is safe to import.
+export const planStaffImport = (rows: string[][], mapping: ColumnMapping, context: ImportContext): ImportRow[] => {
+    const byId = new Map(context.existing.map(person => [person.id, person]));
+    const byEmail = new Map(context.existing
+        .filter(person => person.work_email)
+        .map(person => [person.work_email!.toLowerCase(), person]));
+    // Person (id or new email) -> first row that touches them
+    const claimed = new Map<string, number>();
+    const plan: ImportRow[] = [];
+
+    rows.slice(1).forEach((cells, index) => {
+        const rowNumber = index + 2;
+        if (cells.every(cell => !cell.trim())) return;
+
+        const errors: string[] = [];
+        const parsed: Partial<Record<ImportableField, FieldValue>> = {};
+        let staffId: string | null = null;
+
+        mapping.forEach((field, column) => {
+            const raw = (cells[column] ?? '').trim();
+            if (!field || !raw) return;
+            if (field === 'id') {
+                staffId = raw;
+                return;
+            }
+            const result = parseCell(context, field, raw);
+            if ('error' in result) errors.push(result.error);
+            else parsed[field] = result.value;
+        });
+
+        const email = typeof parsed.work_email === 'string' ? parsed.work_email.toLowerCase() : null;
+        let target: StaffProfile | undefined;
+        if (staffId) {
+            target = byId.get(staffId);
+            if (!target) errors.push(`No current staff member has the Staff ID ${staffId}.`);
+        } else if (email) {
+            target = byEmail.get(email);
+        }
+
+        const owner = email ? byEmail.get(email) : undefined;
+        if (target && owner && owner.id !== target.id) {
+            errors.push(`${parsed.work_email} is already the work email of ${formatPersonName(owner)}.`);
+        }
+
+        const claimKey = target?.id ?? email;
+        if (claimKey) {
+            const firstRow = claimed.get(claimKey);
+            if (firstRow) errors.push(`Row ${firstRow} is for the same person.`);
+            else claimed.set(claimKey, rowNumber);
+        }
+
+        const changes: FieldChange[] = [];
+        const values: Record<string, FieldValue> = {};
+        (Object.keys(parsed) as ImportableField[]).forEach(field => {
+            const after = parsed[field] ?? null;
+            const before = target ? target[field] : null;
+            if (target && sameValue(field, before, after)) return;
+            values[field] = after;
+            changes.push({
+                field,
+                before: displayValue(context, field, before),
+                after: displayValue(context, field, after)
+            });
+        });
+
+        if (!target && !staffId) {
+            const missing = REQUIRED_FOR_NEW.filter(field => parsed[field] == null);
+            if (missing.length > 0) {
+                errors.push(`New staff need ${missing.map(field => PROFILE_FIELD_LABELS[field]).join(', ')}.`);
+            } else if (!context.canAdd) {
+                errors.push('You don\'t have permission to add new staff.');
+            }
+        }
+
+        const name = formatPersonName({
+            display_name: (parsed.display_name as string | undefined) ?? target?.display_name ?? null,
+            preferred_name: (parsed.preferred_name as string | undefined) ?? target?.preferred_name ?? null,
+            legal_first_name: (parsed.legal_first_name as string | undefined) ?? target?.legal_first_name ?? null,
+            legal_last_name: (parsed.legal_last_name as string | undefined) ?? target?.legal_last_name ?? null
+        });
+
+        let action: ImportAction = 'add';
+        if (errors.length > 0) action = 'error';
+        else if (target) action = changes.length > 0 ? 'update' : 'unchanged';
+
+        plan.push({
+            rowNumber,
+            action,
+            name,
+            staffId: target?.id ?? null,
+            changes,
+            values: values as StaffImportValues,
+            errors
+        });
+    });
+
+    return plan;
+};
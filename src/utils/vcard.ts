@@ -0,0 +1,102 @@
+import { isProfilePhotoUrl } from '../lib/repository';
+import type { Department, DirectoryProfile } from '../lib/repository';
+import { formatPersonName } from './formatters';
+import { formatPhoneInternational, parsePhone } from './contactDetails';
+import { downloadFile } from './csv';
+
+// vCard 3.0 contacts for phones and address books. Cards are built from
+// directory_profiles rows, which already have the fields the viewer's
+// role_permissions hide set to null, so a masked field is simply left out.
+
+const ORGANIZATION = 'Phoenix Rehab';
+
+interface VCardPhoto {
+    type: string;
+    base64: string;
+}
+
+const escapeText = (value: string) =>
+    value
+        .replace(/\\/g, '\\\\')
+        .replace(/\r?\n/g, '\\n')
+        .replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space.
+const foldLine = (line: string) => {
+    const chars = Array.from(line);
+    if (chars.length <= 75) return line;
+    const parts = [chars.slice(0, 75).join('')];
+    for (let i = 75; i < chars.length; i += 74) parts.push(` ${chars.slice(i, i + 74).join('')}`);
+    return parts.join('\r\n');
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+// Embedded rather than linked: most phones don't fetch photo URLs.
+const fetchPhoto = async (url: string): Promise<VCardPhoto | null> => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        const blob = await response.blob();
+        const type = blob.type.replace(/^image\//, '').toUpperCase();
+        return { type: type === 'JPG' ? 'JPEG' : type || 'JPEG', base64: toBase64(await blob.arrayBuffer()) };
+    } catch {
+        return null;
+    }
+};
+
+const toVCard = (person: DirectoryProfile, departmentLabel: string | null, photo: VCardPhoto | null) => {
+    const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `UID:urn:uuid:${person.id}`,
+        `N:${[person.legal_last_name, person.legal_first_name, person.legal_middle_name, '', '']
+            .map(part => escapeText(part || ''))
+            .join(';')}`,
+        `FN:${escapeText(formatPersonName(person))}`
+    ];
+
+    if (person.preferred_name) lines.push(`NICKNAME:${escapeText(person.preferred_name)}`);
+    lines.push(`ORG:${escapeText(ORGANIZATION)}${departmentLabel ? `;${escapeText(departmentLabel)}` : ''}`);
+    if (person.job_title) lines.push(`TITLE:${escapeText(person.job_title)}`);
+    if (person.work_phone) {
+        // With the country code, so the number dials from anywhere
+        const phone = parsePhone(person.work_phone);
+        lines.push(`TEL;TYPE=WORK,VOICE:${escapeText(phone ? formatPhoneInternational(phone) : person.work_phone)}`);
+    }
+    if (person.work_email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${person.work_email}`);
+    // Clinics have no street addresses on file, so the location name goes in the extended address
+    (person.clinic_locations || []).forEach(location => {
+        lines.push(`ADR;TYPE=WORK:;${escapeText(location)};;;;;`);
+    });
+    if (photo) {
+        lines.push(`PHOTO;ENCODING=b;TYPE=${photo.type}:${photo.base64}`);
+    } else if (isProfilePhotoUrl(person.profile_photo_url)) {
+        lines.push(`PHOTO;VALUE=URI:${person.profile_photo_url}`);
+    }
+    lines.push('END:VCARD');
+
+    return lines.map(foldLine).join('\r\n');
+};
+
+const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'contacts';
+
+// One .vcf file holding a card for each person.
+export const downloadVCards = async (people: DirectoryProfile[], departments: Department[], filename: string) => {
+    const cards = await Promise.all(people.map(async person => {
+        const photo = isProfilePhotoUrl(person.profile_photo_url) ? await fetchPhoto(person.profile_photo_url) : null;
+        const departmentLabel = person.department_label
+            || departments.find(d => d.key === person.department)?.label
+            || person.department;
+        return toVCard(person, departmentLabel, photo);
+    }));
+
+    downloadFile(`${safeFilename(filename)}.vcf`, new Blob([`${cards.join('\r\n')}\r\n`], { type: 'text/vcard;charset=utf-8' }));
+};
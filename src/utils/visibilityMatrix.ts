@@ -0,0 +1,53 @@
+import type { Department, MatrixRule, RolePermission } from '../lib/repository';
+import { isAlwaysVisible } from '../lib/profileFields';
+import type { ProfileField } from '../lib/profileFields';
+
+// Draft of one role's Visibility Matrix: a rule per active department, keyed by
+// department. Edits happen on the draft and are saved together.
+export type MatrixDraft = Record<string, MatrixRule>;
+
+// "Can see department?" followed by one column per profile field
+export type MatrixColumn = 'can_view' | ProfileField;
+
+// A draft from a set of rules (a role's saved permissions or a preset). Departments
+// without a rule can't be seen; rules for archived departments are left out.
+export const toMatrixDraft = (rules: MatrixRule[], departments: Department[]): MatrixDraft =>
+    Object.fromEntries(departments.map(({ key }) => {
+        const rule = rules.find(r => r.target_department === key);
+        return [key, {
+            target_department: key,
+            can_view: rule?.can_view ?? false,
+            visible_fields: rule ? [...rule.visible_fields] : []
+        }];
+    }));
+
+export const rulesForRole = (permissions: RolePermission[], role: string): MatrixRule[] =>
+    permissions.filter(p => p.viewer_role === role);
+
+// Always-visible fields follow "Can see department?".
+export const isCellChecked = (rule: MatrixRule, column: MatrixColumn) =>
+    column === 'can_view' || isAlwaysVisible(column) ? rule.can_view : rule.visible_fields.includes(column);
+
+// Masked fields can only be granted for a department the role can see.
+export const setMatrixCell = (rule: MatrixRule, column: MatrixColumn, checked: boolean): MatrixRule => {
+    if (column === 'can_view') return { ...rule, can_view: checked };
+    if (isAlwaysVisible(column) || (checked && !rule.can_view)) return rule;
+    if (checked === rule.visible_fields.includes(column)) return rule;
+
+    const others = rule.visible_fields.filter(f => f !== column);
+    return { ...rule, visible_fields: checked ? [...others, column] : others };
+};
+
+// Allow all / deny all for one column.
+export const setMatrixColumn = (draft: MatrixDraft, column: MatrixColumn, checked: boolean): MatrixDraft =>
+    Object.fromEntries(Object.entries(draft).map(([department, rule]) => [department, setMatrixCell(rule, column, checked)]));
+
+const sameFields = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(field => b.includes(field));
+
+// Rules of the draft that differ from the saved matrix.
+export const changedRules = (draft: MatrixDraft, saved: MatrixDraft): MatrixRule[] =>
+    Object.values(draft).filter(rule => {
+        const before = saved[rule.target_department];
+        return !before || rule.can_view !== before.can_view || !sameFields(rule.visible_fields, before.visible_fields);
+    });
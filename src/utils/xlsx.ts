@@ -0,0 +1,273 @@
+// Minimal XLSX support for spreadsheet exports and imports, without a library.
+// Written workbooks hold one sheet of inline strings in an uncompressed zip.
+// Reading takes the first sheet of any workbook Excel, Numbers or Sheets saves,
+// as plain text cells with dates as ISO dates.
+
+import type { CsvColumn } from './csv';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// --- Zip -----------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Stored (uncompressed) entries are all a few small XML files need.
+const zip = (files: { name: string; content: string }[]) => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    const central: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 names
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true);
+        entry.setUint16(6, 20, true);
+        entry.setUint16(8, 0x0800, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, data.length, true);
+        entry.setUint32(24, data.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), name, data);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: XLSX_TYPE });
+};
+
+const inflate = async (bytes: Uint8Array<ArrayBuffer>) => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const unzip = async (buffer: ArrayBuffer) => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    let end = buffer.byteLength - 22;
+    while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+    if (end < 0) throw new Error('This file is not a valid XLSX workbook.');
+
+    const files = new Map<string, string>();
+    let entry = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        const method = view.getUint16(entry + 10, true);
+        const size = view.getUint32(entry + 20, true);
+        const nameLength = view.getUint16(entry + 28, true);
+        const extraLength = view.getUint16(entry + 30, true);
+        const commentLength = view.getUint16(entry + 32, true);
+        const local = view.getUint32(entry + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, entry + 46, nameLength));
+
+        const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+        const data = new Uint8Array(buffer, start, size);
+        if (name.endsWith('.xml') || name.endsWith('.rels')) {
+            files.set(name, decoder.decode(method === 8 ? await inflate(data) : data));
+        }
+        entry += 46 + nameLength + extraLength + commentLength;
+    }
+    return files;
+};
+
+// --- Workbook ------------------------------------------------------------------
+
+// Control characters other than tab and newlines are not allowed in XML
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (value: string) =>
+    [...value].filter(isXmlChar).join('')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+const columnIndex = (reference: string) =>
+    [...reference.replace(/\d+$/, '')].reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export const toXlsx = <T>(rows: T[], columns: CsvColumn<T>[], sheetName = 'Sheet1') => {
+    const cell = (value: string | number | null | undefined, row: number, col: number) => {
+        const ref = `${columnName(col)}${row + 1}`;
+        if (value == null || value === '') return '';
+        if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    };
+
+    const sheetRows = [
+        columns.map(col => col.header),
+        ...rows.map(row => columns.map(col => col.value(row)))
+    ].map((values, r) => `<row r="${r + 1}">${values.map((value, c) => cell(value, r, c)).join('')}</row>`);
+
+    const ns = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+    const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+    const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+    return zip([
+        {
+            name: '[Content_Types].xml',
+            content: `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+                + '</Types>'
+        },
+        {
+            name: '_rels/.rels',
+            content: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+                + `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>`
+                + '</Relationships>'
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: `${header}<workbook xmlns="${ns}" xmlns:r="${relNs}">`
+                + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+                + '</workbook>'
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+                + `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>`
+                + '</Relationships>'
+        },
+        {
+            name: 'xl/worksheets/sheet1.xml',
+            content: `${header}<worksheet xmlns="${ns}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+        }
+    ]);
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Matches on local names so prefixed (x:c) and unprefixed markup both work.
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const textOf = (parent: Element) => elements(parent, 't').map(t => t.textContent || '').join('');
+
+// Built-in number formats Excel shows as dates or times
+const DATE_FORMAT_IDS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47];
+
+// A custom format is a date when it has day, month, year or time codes outside
+// quoted text, escapes and [colour] or [$-409] tags.
+const isDateFormat = (code: string) => /[dmyhs]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ''));
+
+// Which cell styles (the s attribute, an index into cellXfs) format dates
+const dateStyles = (stylesXml: string | undefined) => {
+    if (!stylesXml) return new Set<number>();
+    const styles = parseXml(stylesXml);
+    const customDates = new Set(elements(styles, 'numFmt')
+        .filter(format => isDateFormat(format.getAttribute('formatCode') || ''))
+        .map(format => Number(format.getAttribute('numFmtId'))));
+
+    const cellFormats = elements(styles, 'cellXfs')[0];
+    const result = new Set<number>();
+    (cellFormats ? elements(cellFormats, 'xf') : []).forEach((xf, index) => {
+        const id = Number(xf.getAttribute('numFmtId'));
+        if (DATE_FORMAT_IDS.includes(id) || customDates.has(id)) result.add(index);
+    });
+    return result;
+};
+
+// Dates are stored as days since 1900 (1904 in some older Mac workbooks), with
+// the time of day as the fraction.
+const serialToDate = (serial: number, date1904: boolean) => {
+    const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+    const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+    return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+};
+
+// Rows of the first sheet as text, with blank rows and cells left in place as
+// empty so row numbers match what the user sees in their spreadsheet.
+export const readXlsx = async (file: Blob): Promise<string[][]> => {
+    const files = await unzip(await file.arrayBuffer());
+
+    const workbook = files.get('xl/workbook.xml');
+    const workbookRels = files.get('xl/_rels/workbook.xml.rels');
+    if (!workbook || !workbookRels) throw new Error('This file is not a valid XLSX workbook.');
+
+    const workbookDoc = parseXml(workbook);
+    const firstSheet = elements(workbookDoc, 'sheet')[0];
+    const relId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const target = elements(parseXml(workbookRels), 'Relationship')
+        .find(rel => rel.getAttribute('Id') === relId)
+        ?.getAttribute('Target');
+    if (!target) throw new Error('The workbook has no sheets.');
+
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheet = files.get(sheetPath);
+    if (!sheet) throw new Error('The workbook has no sheets.');
+
+    const sharedXml = files.get('xl/sharedStrings.xml');
+    const shared = sharedXml ? elements(parseXml(sharedXml), 'si').map(textOf) : [];
+
+    const dates = dateStyles(files.get('xl/styles.xml'));
+    const date1904 = ['1', 'true'].includes(elements(workbookDoc, 'workbookPr')[0]?.getAttribute('date1904') ?? '');
+
+    const rows: string[][] = [];
+    elements(parseXml(sheet), 'row').forEach(row => {
+        const values: string[] = [];
+        elements(row, 'c').forEach((cell, position) => {
+            const ref = cell.getAttribute('r');
+            const index = ref ? columnIndex(ref) : position;
+            const type = cell.getAttribute('t');
+            const raw = elements(cell, 'v')[0]?.textContent ?? '';
+            const isDate = (!type || type === 'n') && raw !== '' && dates.has(Number(cell.getAttribute('s')));
+
+            let value: string;
+            if (type === 's') value = shared[Number(raw)] ?? '';
+            else if (type === 'inlineStr') value = textOf(cell);
+            else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+            else if (isDate) value = serialToDate(Number(raw), date1904);
+            else value = raw;
+
+            while (values.length < index) values.push('');
+            values[index] = value;
+        });
+
+        const number = Number(row.getAttribute('r')) || rows.length + 1;
+        while (rows.length < number - 1) rows.push([]);
+        rows[number - 1] = values;
+    });
+    return rows;
+};
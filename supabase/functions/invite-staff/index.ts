@@ -0,0 +1,196 @@
+// Creates a staff account and emails the new hire an invite link.
+//
+// POST { action: 'invite', profile, redirectTo }  creates the auth user, the
+//   staff_profiles row and an invitation; returns { staffId }
+// POST { action: 'resend', staffId, redirectTo }   re-sends a pending or expired invite
+//
+// Runs with the service key, so the caller's inviteStaff capability is checked
+// first with their own token. The insert also skips guard_staff_profile_update,
+// so roles are only accepted from callers who could assign them anyway (editStaff
+// or manageRoles) and must exist in the registry. HR fields and licenses are not
+// handled here: the app saves them afterwards as the caller, HR fields through
+// save_hr_record so they are audited normally.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Keep in sync with [auth.email] otp_expiry in supabase/config.toml
+const INVITE_TTL_HOURS = 24;
+
+// staff_profiles columns the wizard may set
+const PROFILE_FIELDS = [
+    'legal_first_name',
+    'legal_middle_name',
+    'legal_last_name',
+    'preferred_name',
+    'display_name',
+    'employee_id',
+    'work_email',
+    'work_phone',
+    'job_title',
+    'department',
+    'role',
+    'clinic_locations',
+    'employment_status',
+    'employment_type'
+] as const;
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+const isEmail = (value: unknown): value is string =>
+    typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const expiresAt = () => new Date(Date.now() + INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+    if (req.method !== 'POST') return json({ error: 'Method not allowed.' }, 405);
+
+    try {
+        const authorization = req.headers.get('Authorization');
+        if (!authorization) throw new HttpError(401, 'You are not signed in.');
+
+        const url = Deno.env.get('SUPABASE_URL')!;
+        const caller = createClient(url, Deno.env.get('SUPABASE_ANON_KEY')!, {
+            global: { headers: { Authorization: authorization } },
+            auth: { persistSession: false }
+        });
+        const admin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+            auth: { persistSession: false }
+        });
+
+        const { data: { user: inviter } } = await caller.auth.getUser();
+        if (!inviter) throw new HttpError(401, 'You are not signed in.');
+
+        const { data: allowed, error: capabilityError } = await caller.rpc('has_capability', { capability: 'inviteStaff' });
+        if (capabilityError) throw capabilityError;
+        if (!allowed) throw new HttpError(403, 'You do not have permission to invite staff.');
+
+        const body = await req.json();
+        const redirectTo = typeof body.redirectTo === 'string' ? body.redirectTo : undefined;
+
+        if (body.action === 'invite') {
+            const input = body.profile ?? {};
+            const profile: Record<string, unknown> = {};
+            for (const field of PROFILE_FIELDS) {
+                if (input[field] !== undefined) profile[field] = input[field];
+            }
+
+            const email = typeof profile.work_email === 'string' ? profile.work_email.trim().toLowerCase() : '';
+            if (!isEmail(email)) throw new HttpError(400, 'A valid work email is required.');
+            if (!String(profile.legal_first_name ?? '').trim() || !String(profile.legal_last_name ?? '').trim()) {
+                throw new HttpError(400, 'Legal first and last name are required.');
+            }
+            profile.work_email = email;
+
+            const roles = profile.role ?? [];
+            if (!isStringArray(roles)) throw new HttpError(400, 'Roles must be a list of role keys.');
+            if (roles.length > 0) {
+                const [{ data: canEditStaff, error: editError }, { data: canManageRoles, error: manageError }] = await Promise.all([
+                    caller.rpc('has_capability', { capability: 'editStaff' }),
+                    caller.rpc('has_capability', { capability: 'manageRoles' })
+                ]);
+                if (editError) throw editError;
+                if (manageError) throw manageError;
+                if (!canEditStaff && !canManageRoles) {
+                    throw new HttpError(403, 'You do not have permission to assign roles. Invite without roles and ask an administrator to assign them.');
+                }
+
+                const { data: known, error: rolesError } = await admin.from('roles').select('key').in('key', roles);
+                if (rolesError) throw rolesError;
+                const unknown = roles.filter(role => !known.some((r: { key: string }) => r.key === role));
+                if (unknown.length > 0) throw new HttpError(400, `Unknown role: ${unknown.join(', ')}.`);
+            }
+            profile.role = roles;
+
+            // Checked before the invite goes out; the profile trigger enforces it too
+            const { data: domains, error: domainsError } = await admin.from('email_domains').select('domain');
+            if (domainsError) throw domainsError;
+            const domain = email.split('@').pop();
+            if (domains.length > 0 && !domains.some((d: { domain: string }) => d.domain === domain)) {
+                throw new HttpError(400, `Work emails must use a clinic domain, not ${domain}.`);
+            }
+
+            const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, { redirectTo });
+            if (inviteError) {
+                throw new HttpError(inviteError.status === 422 ? 409 : 400, inviteError.message);
+            }
+            const staffId = invited.user.id;
+
+            // Without a profile the account is unusable, so undo the auth user if this fails
+            const { error: profileError } = await admin.from('staff_profiles').insert({ ...profile, id: staffId });
+            if (profileError) {
+                await admin.auth.admin.deleteUser(staffId);
+                throw new HttpError(profileError.code === '23505' ? 409 : 400, profileError.message);
+            }
+
+            const { error: invitationError } = await admin.from('staff_invitations').insert({
+                staff_id: staffId,
+                email,
+                invited_by: inviter.id,
+                expires_at: expiresAt()
+            });
+            if (invitationError) {
+                // Deleting the auth user removes the profile with it
+                await admin.auth.admin.deleteUser(staffId);
+                throw invitationError;
+            }
+
+            return json({ staffId });
+        }
+
+        if (body.action === 'resend') {
+            const staffId = typeof body.staffId === 'string' ? body.staffId : '';
+            const { data: latest, error: latestError } = await admin
+                .from('staff_invitations')
+                .select('email, accepted_at')
+                .eq('staff_id', staffId)
+                .order('invited_at', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+            if (latestError) throw latestError;
+            if (!latest) throw new HttpError(404, 'This staff member has no invitation.');
+            if (latest.accepted_at) throw new HttpError(409, 'This invitation has already been accepted.');
+
+            const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(latest.email, { redirectTo });
+            if (inviteError) throw new HttpError(400, inviteError.message);
+
+            const { error: invitationError } = await admin.from('staff_invitations').insert({
+                staff_id: staffId,
+                email: latest.email,
+                invited_by: inviter.id,
+                expires_at: expiresAt()
+            });
+            if (invitationError) throw invitationError;
+
+            return json({ staffId });
+        }
+
+        throw new HttpError(400, 'Unknown action.');
+    } catch (err) {
+        if (err instanceof HttpError) return json({ error: err.message }, err.status);
+        console.error(err);
+        return json({ error: err instanceof Error ? err.message : 'Unexpected error.' }, 500);
+    }
+});
@@ -0,0 +1,46 @@
+-- Baseline of the tables the app was built against before migrations were tracked.
+-- Written idempotently so it can be applied to the hosted project without changes.
+
+create table if not exists public.staff_profiles (
+    id uuid primary key references auth.users (id) on delete cascade,
+    role text[] not null default '{}',
+    department text,
+    clinic_locations text[] not null default '{}',
+    work_phone text,
+    bio text,
+    job_title text,
+    employee_id text,
+    preferred_name text,
+    legal_first_name text,
+    legal_middle_name text,
+    legal_last_name text,
+    display_name text,
+    work_email text,
+    practitioner_license_number text,
+    highest_education text,
+    profile_photo_url text,
+    employment_status text,
+    employment_type text,
+    fluent_languages text[] not null default '{}',
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.hr_records (
+    id uuid primary key references public.staff_profiles (id) on delete cascade,
+    sin text,
+    date_of_birth date,
+    emergency_contact_name text,
+    emergency_contact_phone text,
+    end_date date,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.role_permissions (
+    id uuid primary key default gen_random_uuid(),
+    viewer_role text not null,
+    target_department text not null,
+    can_view boolean not null default false,
+    visible_fields text[] not null default '{}',
+    created_at timestamptz not null default now(),
+    unique (viewer_role, target_department)
+);
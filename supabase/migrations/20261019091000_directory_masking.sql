@@ -0,0 +1,180 @@
+-- Directory visibility is enforced here instead of in the browser.
+-- The Directory page reads from `directory_profiles`, which only returns the rows
+-- and columns the caller's roles are allowed to see according to `role_permissions`.
+
+-- Roles of the signed-in staff member. Security definer so policies on
+-- staff_profiles can call it without recursing into themselves.
+create or replace function public.current_staff_roles()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((select role from public.staff_profiles where id = auth.uid()), '{}'::text[]);
+$$;
+
+create or replace function public.current_staff_locations()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((select clinic_locations from public.staff_profiles where id = auth.uid()), '{}'::text[]);
+$$;
+
+create or replace function public.has_staff_role(roles text[])
+returns boolean
+language sql
+stable
+as $$
+    select public.current_staff_roles() && roles;
+$$;
+
+-- Fields the caller may see for a department, or null when the department is hidden.
+-- A staff member with several roles gets the union of what each role allows.
+create or replace function public.directory_visible_fields(target_department text)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select case
+        when bool_or(rp.can_view) then
+            coalesce(array_agg(distinct f.field) filter (where rp.can_view and f.field is not null), '{}'::text[])
+    end
+    from public.role_permissions rp
+    left join lateral unnest(rp.visible_fields) as f(field) on true
+    where rp.viewer_role = any(public.current_staff_roles())
+      and rp.target_department = lower(directory_visible_fields.target_department);
+$$;
+
+-- Clinic managers only see colleagues who share one of their locations,
+-- unless they are based at headquarters.
+create or replace function public.directory_location_in_scope(target_locations text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select not ('management' = any(public.current_staff_roles()))
+        or 'Headquarter' = any(public.current_staff_locations())
+        or coalesce(target_locations, '{}'::text[]) && public.current_staff_locations();
+$$;
+
+create or replace view public.directory_profiles
+with (security_barrier = true)
+as
+select
+    p.id,
+    p.role,
+    p.department,
+    p.clinic_locations,
+    case when 'work_phone' = any(v.fields) then p.work_phone end as work_phone,
+    case when 'bio' = any(v.fields) then p.bio end as bio,
+    p.job_title,
+    p.employee_id,
+    p.preferred_name,
+    p.legal_first_name,
+    p.legal_middle_name,
+    p.legal_last_name,
+    p.display_name,
+    p.work_email,
+    p.practitioner_license_number,
+    p.highest_education,
+    p.profile_photo_url,
+    p.employment_status,
+    p.employment_type,
+    p.fluent_languages
+from public.staff_profiles p
+cross join lateral (select public.directory_visible_fields(p.department) as fields) v
+where auth.uid() is not null
+  and v.fields is not null
+  and public.directory_location_in_scope(p.clinic_locations);
+
+revoke all on public.directory_profiles from anon, public;
+grant select on public.directory_profiles to authenticated;
+
+-- Row level security on the base tables. Everyone except HR and executives is
+-- limited to their own rows; the directory goes through the view above.
+alter table public.staff_profiles enable row level security;
+alter table public.hr_records enable row level security;
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "staff_profiles_select" on public.staff_profiles;
+create policy "staff_profiles_select" on public.staff_profiles
+    for select to authenticated
+    using (id = auth.uid() or public.has_staff_role(array['executive', 'hr', 'hr_management']));
+
+drop policy if exists "staff_profiles_update_self" on public.staff_profiles;
+create policy "staff_profiles_update_self" on public.staff_profiles
+    for update to authenticated
+    using (id = auth.uid())
+    with check (id = auth.uid());
+
+drop policy if exists "staff_profiles_update_executive" on public.staff_profiles;
+create policy "staff_profiles_update_executive" on public.staff_profiles
+    for update to authenticated
+    using (public.has_staff_role(array['executive']))
+    with check (public.has_staff_role(array['executive']));
+
+drop policy if exists "hr_records_select" on public.hr_records;
+create policy "hr_records_select" on public.hr_records
+    for select to authenticated
+    using (id = auth.uid() or public.has_staff_role(array['executive', 'hr', 'hr_management']));
+
+drop policy if exists "role_permissions_select" on public.role_permissions;
+create policy "role_permissions_select" on public.role_permissions
+    for select to authenticated
+    using (viewer_role = any(public.current_staff_roles()) or public.has_staff_role(array['executive']));
+
+drop policy if exists "role_permissions_write" on public.role_permissions;
+create policy "role_permissions_write" on public.role_permissions
+    for all to authenticated
+    using (public.has_staff_role(array['executive']))
+    with check (public.has_staff_role(array['executive']));
+
+-- Self-service updates may not touch the columns executives and HR manage.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null or public.has_staff_role(array['executive']) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type then
+        raise exception 'Only executives can change role, department, location or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_staff_role(array['hr', 'hr_management'])
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'Only HR can change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists guard_staff_profile_update on public.staff_profiles;
+create trigger guard_staff_profile_update
+    before update on public.staff_profiles
+    for each row execute function public.guard_staff_profile_update();
@@ -0,0 +1,176 @@
+-- Central role registry. Every role has a display label and a set of named
+-- capabilities; policies and the UI check capabilities instead of role names,
+-- so what a role may do is configured here rather than in code.
+
+create table if not exists public.roles (
+    key text primary key,
+    label text not null,
+    capabilities text[] not null default '{}',
+    sort_order integer not null default 100,
+    created_at timestamptz not null default now(),
+    constraint roles_known_capabilities check (
+        capabilities <@ array[
+            'editStaff',
+            'viewHrFile',
+            'editLegalName',
+            'manageMatrix',
+            'manageRoles',
+            'viewAllLocations'
+        ]::text[]
+    )
+);
+
+insert into public.roles (key, label, capabilities, sort_order) values
+    ('system_admin', 'System Admin', array['manageRoles', 'viewAllLocations'], 10),
+    ('executive', 'Executive', array['editStaff', 'viewHrFile', 'editLegalName', 'manageMatrix', 'manageRoles', 'viewAllLocations'], 20),
+    ('management', 'Management', array[]::text[], 30),
+    ('hr_management', 'HR Management', array['viewHrFile', 'editLegalName', 'viewAllLocations'], 40),
+    ('hr', 'HR', array['viewHrFile', 'editLegalName', 'viewAllLocations'], 50),
+    ('administrative_support', 'Admin Support', array['viewAllLocations'], 60),
+    ('clinical_provider', 'Clinical Provider', array['viewAllLocations'], 70)
+on conflict (key) do nothing;
+
+-- Register any role already in use so nothing loses access when the
+-- foreign key below is added. They start without capabilities.
+insert into public.roles (key, label)
+select distinct r, initcap(replace(r, '_', ' '))
+from (
+    select unnest(role) as r from public.staff_profiles
+    union
+    select viewer_role from public.role_permissions
+) existing
+where r is not null
+on conflict (key) do nothing;
+
+alter table public.role_permissions
+    drop constraint if exists role_permissions_viewer_role_fkey,
+    add constraint role_permissions_viewer_role_fkey
+        foreign key (viewer_role) references public.roles (key)
+        on update cascade on delete cascade;
+
+create or replace function public.has_capability(capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.roles r
+        where r.key = any(public.current_staff_roles())
+          and capability = any(r.capabilities)
+    );
+$$;
+
+-- At least one role must keep manageRoles, otherwise nobody can fix the registry.
+create or replace function public.guard_role_registry()
+returns trigger
+language plpgsql
+as $$
+begin
+    if not exists (select 1 from public.roles where 'manageRoles' = any(capabilities)) then
+        raise exception 'At least one role must keep the manageRoles capability.'
+            using errcode = '23514';
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists guard_role_registry on public.roles;
+create trigger guard_role_registry
+    after update or delete on public.roles
+    for each statement execute function public.guard_role_registry();
+
+alter table public.roles enable row level security;
+
+drop policy if exists "roles_select" on public.roles;
+create policy "roles_select" on public.roles
+    for select to authenticated
+    using (true);
+
+drop policy if exists "roles_write" on public.roles;
+create policy "roles_write" on public.roles
+    for all to authenticated
+    using (public.has_capability('manageRoles'))
+    with check (public.has_capability('manageRoles'));
+
+-- Re-express the directory and table policies in terms of capabilities.
+
+create or replace function public.directory_location_in_scope(target_locations text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.has_capability('viewAllLocations')
+        or 'Headquarter' = any(public.current_staff_locations())
+        or coalesce(target_locations, '{}'::text[]) && public.current_staff_locations();
+$$;
+
+drop policy if exists "staff_profiles_select" on public.staff_profiles;
+create policy "staff_profiles_select" on public.staff_profiles
+    for select to authenticated
+    using (id = auth.uid() or public.has_capability('editStaff') or public.has_capability('viewHrFile'));
+
+drop policy if exists "staff_profiles_update_executive" on public.staff_profiles;
+drop policy if exists "staff_profiles_update_editor" on public.staff_profiles;
+create policy "staff_profiles_update_editor" on public.staff_profiles
+    for update to authenticated
+    using (public.has_capability('editStaff'))
+    with check (public.has_capability('editStaff'));
+
+drop policy if exists "hr_records_select" on public.hr_records;
+create policy "hr_records_select" on public.hr_records
+    for select to authenticated
+    using (id = auth.uid() or public.has_capability('viewHrFile'));
+
+drop policy if exists "role_permissions_select" on public.role_permissions;
+create policy "role_permissions_select" on public.role_permissions
+    for select to authenticated
+    using (viewer_role = any(public.current_staff_roles()) or public.has_capability('manageMatrix'));
+
+drop policy if exists "role_permissions_write" on public.role_permissions;
+create policy "role_permissions_write" on public.role_permissions
+    for all to authenticated
+    using (public.has_capability('manageMatrix'))
+    with check (public.has_capability('manageMatrix'));
+
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type then
+        raise exception 'You are not allowed to change role, department, location or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop function if exists public.has_staff_role(text[]);
@@ -0,0 +1,313 @@
+-- Departments and clinic locations become admin-managed tables instead of
+-- lists hard-coded in the UI. Rows are archived rather than deleted so
+-- historical profiles keep pointing at something meaningful.
+
+create table if not exists public.departments (
+    key text primary key,
+    label text not null,
+    sort_order integer not null default 100,
+    archived_at timestamptz,
+    created_at timestamptz not null default now(),
+    constraint departments_key_format check (key ~ '^[a-z0-9_]+$')
+);
+
+create table if not exists public.locations (
+    name text primary key,
+    is_headquarters boolean not null default false,
+    sort_order integer not null default 100,
+    archived_at timestamptz,
+    created_at timestamptz not null default now(),
+    constraint locations_name_not_blank check (btrim(name) <> '')
+);
+
+insert into public.departments (key, label, sort_order) values
+    ('clinical', 'Clinical', 10),
+    ('executive', 'Executive', 20),
+    ('finance', 'Finance', 30),
+    ('hr', 'HR', 40),
+    ('it', 'IT', 50),
+    ('marketing', 'Marketing', 60),
+    ('operations', 'Operations', 70)
+on conflict (key) do nothing;
+
+insert into public.locations (name, is_headquarters, sort_order) values
+    ('Headquarter', true, 10),
+    ('Burnaby', false, 20),
+    ('Richmond', false, 30)
+on conflict (name) do nothing;
+
+-- Normalise existing department values to keys and register any we don't know yet.
+update public.staff_profiles
+set department = nullif(lower(btrim(department)), '')
+where department is distinct from nullif(lower(btrim(department)), '');
+
+update public.role_permissions
+set target_department = lower(btrim(target_department))
+where target_department <> lower(btrim(target_department));
+
+insert into public.departments (key, label)
+select distinct d, initcap(replace(d, '_', ' '))
+from (
+    select department as d from public.staff_profiles
+    union
+    select target_department from public.role_permissions
+) existing
+where d is not null
+on conflict (key) do nothing;
+
+insert into public.locations (name)
+select distinct unnest(clinic_locations)
+from public.staff_profiles
+on conflict (name) do nothing;
+
+alter table public.staff_profiles
+    drop constraint if exists staff_profiles_department_fkey,
+    add constraint staff_profiles_department_fkey
+        foreign key (department) references public.departments (key)
+        on update cascade;
+
+alter table public.role_permissions
+    drop constraint if exists role_permissions_target_department_fkey,
+    add constraint role_permissions_target_department_fkey
+        foreign key (target_department) references public.departments (key)
+        on update cascade on delete cascade;
+
+-- New capability for maintaining departments and locations.
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editLegalName',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'viewAllLocations'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'manageOrganization')
+where key in ('executive', 'system_admin')
+  and not ('manageOrganization' = any(capabilities));
+
+alter table public.departments enable row level security;
+alter table public.locations enable row level security;
+
+drop policy if exists "departments_select" on public.departments;
+create policy "departments_select" on public.departments
+    for select to authenticated
+    using (true);
+
+drop policy if exists "departments_write" on public.departments;
+create policy "departments_write" on public.departments
+    for all to authenticated
+    using (public.has_capability('manageOrganization'))
+    with check (public.has_capability('manageOrganization'));
+
+drop policy if exists "locations_select" on public.locations;
+create policy "locations_select" on public.locations
+    for select to authenticated
+    using (true);
+
+drop policy if exists "locations_write" on public.locations;
+create policy "locations_write" on public.locations
+    for all to authenticated
+    using (public.has_capability('manageOrganization'))
+    with check (public.has_capability('manageOrganization'));
+
+-- Headquarters is now a flag on the location rather than a literal name.
+create or replace function public.directory_location_in_scope(target_locations text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.has_capability('viewAllLocations')
+        or exists (
+            select 1 from public.locations l
+            where l.is_headquarters and l.name = any(public.current_staff_locations())
+        )
+        or coalesce(target_locations, '{}'::text[]) && public.current_staff_locations();
+$$;
+
+-- The rename/merge functions below rewrite department and location values on
+-- other people's profiles. They mark the transaction so the self-service guard
+-- on staff_profiles lets those cascaded updates through.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type then
+        raise exception 'You are not allowed to change role, department, location or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Rename a department's key and/or label. Staff profiles and matrix rules
+-- follow the key through the on update cascade foreign keys.
+create or replace function public.rename_department(old_key text, new_key text, new_label text)
+returns public.departments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    result public.departments;
+begin
+    if not public.has_capability('manageOrganization') then
+        raise exception 'Not allowed to manage departments.' using errcode = '42501';
+    end if;
+
+    perform set_config('phoenixhub.organization_sync', 'on', true);
+
+    update public.departments
+    set key = new_key, label = new_label
+    where key = old_key
+    returning * into result;
+
+    if result is null then
+        raise exception 'Department % does not exist.', old_key using errcode = 'P0002';
+    end if;
+
+    return result;
+end;
+$$;
+
+-- Move everyone from one department into another and archive the source.
+-- The target keeps its own matrix rules; the source's rules are dropped.
+create or replace function public.merge_departments(source_key text, target_key text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.has_capability('manageOrganization') then
+        raise exception 'Not allowed to manage departments.' using errcode = '42501';
+    end if;
+
+    perform set_config('phoenixhub.organization_sync', 'on', true);
+
+    if source_key = target_key then
+        raise exception 'Cannot merge a department into itself.' using errcode = '22023';
+    end if;
+
+    if not exists (select 1 from public.departments where key = target_key and archived_at is null) then
+        raise exception 'Target department % does not exist or is archived.', target_key using errcode = 'P0002';
+    end if;
+
+    update public.staff_profiles set department = target_key where department = source_key;
+    delete from public.role_permissions where target_department = source_key;
+    update public.departments set archived_at = coalesce(archived_at, now()) where key = source_key;
+end;
+$$;
+
+create or replace function public.rename_location(old_name text, new_name text)
+returns public.locations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    result public.locations;
+begin
+    if not public.has_capability('manageOrganization') then
+        raise exception 'Not allowed to manage locations.' using errcode = '42501';
+    end if;
+
+    perform set_config('phoenixhub.organization_sync', 'on', true);
+
+    update public.locations set name = new_name where name = old_name returning * into result;
+
+    if result is null then
+        raise exception 'Location % does not exist.', old_name using errcode = 'P0002';
+    end if;
+
+    update public.staff_profiles
+    set clinic_locations = array_replace(clinic_locations, old_name, new_name)
+    where old_name = any(clinic_locations);
+
+    return result;
+end;
+$$;
+
+-- Move everyone assigned to one location to another and archive the source.
+create or replace function public.merge_locations(source_name text, target_name text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.has_capability('manageOrganization') then
+        raise exception 'Not allowed to manage locations.' using errcode = '42501';
+    end if;
+
+    perform set_config('phoenixhub.organization_sync', 'on', true);
+
+    if source_name = target_name then
+        raise exception 'Cannot merge a location into itself.' using errcode = '22023';
+    end if;
+
+    if not exists (select 1 from public.locations where name = target_name and archived_at is null) then
+        raise exception 'Target location % does not exist or is archived.', target_name using errcode = 'P0002';
+    end if;
+
+    update public.staff_profiles p
+    set clinic_locations = array(
+        select distinct loc
+        from unnest(array_replace(p.clinic_locations, source_name, target_name)) as loc
+    )
+    where source_name = any(p.clinic_locations);
+
+    update public.locations set archived_at = coalesce(archived_at, now()) where name = source_name;
+end;
+$$;
+
+revoke execute on function public.rename_department(text, text, text) from anon, public;
+revoke execute on function public.merge_departments(text, text) from anon, public;
+revoke execute on function public.rename_location(text, text) from anon, public;
+revoke execute on function public.merge_locations(text, text) from anon, public;
+grant execute on function public.rename_department(text, text, text) to authenticated;
+grant execute on function public.merge_departments(text, text) to authenticated;
+grant execute on function public.rename_location(text, text) to authenticated;
+grant execute on function public.merge_locations(text, text) to authenticated;
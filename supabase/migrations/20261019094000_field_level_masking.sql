@@ -0,0 +1,55 @@
+-- Field-level masking for every column of the directory.
+-- Previously only work_phone and bio were masked; anyone who could see a department
+-- also saw every other field. Now each column is returned only when the viewer's
+-- roles list it in role_permissions.visible_fields. The department and legal first and
+-- last names stay visible because a row is meaningless without them.
+--
+-- New staff_profiles columns are not exposed here until they are added to this view,
+-- and once added they should be wrapped in the same case expression so they start
+-- out hidden for every role. src/lib/profileFields.ts lists the same fields for the matrix.
+
+-- Keep the directory cards looking the same after the upgrade: rules that already let a
+-- role see a department also get the fields the cards were showing unconditionally.
+-- Sensitive fields (email, employee id, license, education, employment, languages)
+-- are left for an administrator to grant explicitly.
+update public.role_permissions
+set visible_fields = (
+    select array_agg(distinct f)
+    from unnest(
+        visible_fields || array['preferred_name', 'display_name', 'profile_photo_url', 'job_title', 'role', 'clinic_locations']
+    ) as f
+)
+where can_view;
+
+create or replace view public.directory_profiles
+with (security_barrier = true)
+as
+select
+    p.id,
+    case when 'role' = any(v.fields) then p.role end as role,
+    p.department,
+    case when 'clinic_locations' = any(v.fields) then p.clinic_locations end as clinic_locations,
+    case when 'work_phone' = any(v.fields) then p.work_phone end as work_phone,
+    case when 'bio' = any(v.fields) then p.bio end as bio,
+    case when 'job_title' = any(v.fields) then p.job_title end as job_title,
+    case when 'employee_id' = any(v.fields) then p.employee_id end as employee_id,
+    case when 'preferred_name' = any(v.fields) then p.preferred_name end as preferred_name,
+    p.legal_first_name,
+    case when 'legal_middle_name' = any(v.fields) then p.legal_middle_name end as legal_middle_name,
+    p.legal_last_name,
+    case when 'display_name' = any(v.fields) then p.display_name end as display_name,
+    case when 'work_email' = any(v.fields) then p.work_email end as work_email,
+    case when 'practitioner_license_number' = any(v.fields) then p.practitioner_license_number end as practitioner_license_number,
+    case when 'highest_education' = any(v.fields) then p.highest_education end as highest_education,
+    case when 'profile_photo_url' = any(v.fields) then p.profile_photo_url end as profile_photo_url,
+    case when 'employment_status' = any(v.fields) then p.employment_status end as employment_status,
+    case when 'employment_type' = any(v.fields) then p.employment_type end as employment_type,
+    case when 'fluent_languages' = any(v.fields) then p.fluent_languages end as fluent_languages
+from public.staff_profiles p
+cross join lateral (select public.directory_visible_fields(p.department) as fields) v
+where auth.uid() is not null
+  and v.fields is not null
+  and public.directory_location_in_scope(p.clinic_locations);
+
+revoke all on public.directory_profiles from anon, public;
+grant select on public.directory_profiles to authenticated;
@@ -0,0 +1,188 @@
+-- Audit trail for the confidential HR file.
+-- Every read and write of hr_records leaves a row in hr_audit_log recording who
+-- looked at whose file, which fields, when, and from which browser. Reads go
+-- through read_hr_record() so they can't skip the log; writes are logged by a
+-- trigger. The log is append-only and only visible with the viewAuditLog capability.
+
+create table if not exists public.hr_audit_log (
+    id bigint generated always as identity primary key,
+    viewer_id uuid,
+    subject_id uuid not null,
+    action text not null,
+    fields text[] not null default '{}',
+    user_agent text,
+    occurred_at timestamptz not null default now(),
+    constraint hr_audit_log_action check (action in ('read', 'create', 'update', 'delete'))
+);
+
+create index if not exists hr_audit_log_occurred_at_idx on public.hr_audit_log (occurred_at desc);
+create index if not exists hr_audit_log_subject_idx on public.hr_audit_log (subject_id, occurred_at desc);
+create index if not exists hr_audit_log_viewer_idx on public.hr_audit_log (viewer_id, occurred_at desc);
+
+-- New capability for reading the audit log; executives only.
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editLegalName',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'viewAuditLog')
+where key = 'executive'
+  and not ('viewAuditLog' = any(capabilities));
+
+-- User agent of the current API request, as forwarded by PostgREST.
+create or replace function public.request_user_agent()
+returns text
+language sql
+stable
+as $$
+    select nullif(current_setting('request.headers', true), '')::json ->> 'user-agent';
+$$;
+
+create or replace function public.write_hr_audit(subject uuid, audit_action text, audit_fields text[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    insert into public.hr_audit_log (viewer_id, subject_id, action, fields, user_agent)
+    values (auth.uid(), subject, audit_action, audit_fields, public.request_user_agent());
+$$;
+
+revoke all on function public.write_hr_audit(uuid, text, text[]) from public, anon, authenticated;
+
+-- The log can only grow: no policy allows updates or deletes, and this trigger
+-- also stops the table owner and service role from rewriting history.
+create or replace function public.guard_hr_audit_log()
+returns trigger
+language plpgsql
+as $$
+begin
+    raise exception 'The HR audit log is append-only'
+        using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists guard_hr_audit_log on public.hr_audit_log;
+create trigger guard_hr_audit_log
+    before update or delete on public.hr_audit_log
+    for each row execute function public.guard_hr_audit_log();
+
+drop trigger if exists guard_hr_audit_log_truncate on public.hr_audit_log;
+create trigger guard_hr_audit_log_truncate
+    before truncate on public.hr_audit_log
+    for each statement execute function public.guard_hr_audit_log();
+
+alter table public.hr_audit_log enable row level security;
+revoke insert, update, delete, truncate on public.hr_audit_log from anon, authenticated;
+
+drop policy if exists "hr_audit_log_select" on public.hr_audit_log;
+create policy "hr_audit_log_select" on public.hr_audit_log
+    for select to authenticated
+    using (public.has_capability('viewAuditLog'));
+
+-- Reads. Direct selects on hr_records are no longer allowed; the app calls this
+-- function, which applies the same access rule and records the read.
+drop policy if exists "hr_records_select" on public.hr_records;
+
+create or replace function public.read_hr_record(subject_id uuid)
+returns setof public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    hr_row public.hr_records;
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in' using errcode = '42501';
+    end if;
+
+    if subject_id <> auth.uid() and not public.has_capability('viewHrFile') then
+        raise exception 'You do not have permission to view this HR file'
+            using errcode = '42501';
+    end if;
+
+    select * into hr_row from public.hr_records h where h.id = subject_id;
+    if not found then
+        return;
+    end if;
+
+    perform public.write_hr_audit(
+        subject_id,
+        'read',
+        array['sin', 'date_of_birth', 'emergency_contact_name', 'emergency_contact_phone', 'end_date']
+    );
+    return next hr_row;
+end;
+$$;
+
+revoke all on function public.read_hr_record(uuid) from public, anon;
+grant execute on function public.read_hr_record(uuid) to authenticated;
+
+-- Writes, whichever path they take. Only the columns that actually changed are listed.
+create or replace function public.audit_hr_record_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    changed text[];
+begin
+    if tg_op = 'DELETE' then
+        perform public.write_hr_audit(old.id, 'delete', '{}');
+        return old;
+    end if;
+
+    select coalesce(array_agg(n.key order by n.key), '{}'::text[]) into changed
+    from jsonb_each(to_jsonb(new)) n
+    where n.key not in ('id', 'created_at')
+      and (tg_op = 'INSERT' or n.value is distinct from to_jsonb(old) -> n.key);
+
+    if tg_op = 'INSERT' then
+        perform public.write_hr_audit(new.id, 'create', changed);
+    elsif cardinality(changed) > 0 then
+        perform public.write_hr_audit(new.id, 'update', changed);
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists audit_hr_record_write on public.hr_records;
+create trigger audit_hr_record_write
+    after insert or update or delete on public.hr_records
+    for each row execute function public.audit_hr_record_write();
+
+-- Audit entries with the names of the people involved, for the audit viewer.
+-- Executives may not otherwise be able to read every profile, so the names are
+-- resolved here and the whole view is gated on viewAuditLog.
+create or replace view public.hr_audit_entries
+with (security_barrier = true)
+as
+select
+    a.id,
+    a.occurred_at,
+    a.action,
+    a.fields,
+    a.user_agent,
+    a.viewer_id,
+    coalesce(nullif(vp.display_name, ''), concat_ws(' ', vp.legal_first_name, vp.legal_last_name)) as viewer_name,
+    a.subject_id,
+    coalesce(nullif(sp.display_name, ''), concat_ws(' ', sp.legal_first_name, sp.legal_last_name)) as subject_name
+from public.hr_audit_log a
+left join public.staff_profiles vp on vp.id = a.viewer_id
+left join public.staff_profiles sp on sp.id = a.subject_id
+where public.has_capability('viewAuditLog');
+
+revoke all on public.hr_audit_entries from anon, public;
+grant select on public.hr_audit_entries to authenticated;
@@ -0,0 +1,128 @@
+-- Editing HR records from the Directory.
+-- A new editHrFile capability (HR, HR management and executives) allows creating
+-- and changing records through save_hr_record(). Values are validated here as
+-- well as in the browser; the audit trigger on hr_records logs each save.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'editHrFile')
+where key in ('executive', 'hr', 'hr_management')
+  and not ('editHrFile' = any(capabilities));
+
+-- Canadian SINs are nine digits passing the Luhn check.
+create or replace function public.is_valid_sin(sin text)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+    total int := 0;
+    digit int;
+begin
+    if sin !~ '^\d{9}$' then
+        return false;
+    end if;
+    for i in 1..9 loop
+        digit := substr(sin, i, 1)::int;
+        if i % 2 = 0 then
+            digit := digit * 2;
+            if digit > 9 then
+                digit := digit - 9;
+            end if;
+        end if;
+        total := total + digit;
+    end loop;
+    return total % 10 = 0;
+end;
+$$;
+
+-- Store SINs and phone numbers as bare digits; the UI formats them for display.
+update public.hr_records
+set sin = nullif(regexp_replace(sin, '\D', '', 'g'), ''),
+    emergency_contact_phone = nullif(regexp_replace(emergency_contact_phone, '\D', '', 'g'), '')
+where sin ~ '\D' or emergency_contact_phone ~ '\D';
+
+-- Not validated against existing rows, which may hold legacy values HR has yet to fix.
+alter table public.hr_records drop constraint if exists hr_records_sin_valid;
+alter table public.hr_records add constraint hr_records_sin_valid
+    check (sin is null or public.is_valid_sin(sin)) not valid;
+
+alter table public.hr_records drop constraint if exists hr_records_date_of_birth_sane;
+alter table public.hr_records add constraint hr_records_date_of_birth_sane
+    check (date_of_birth is null or (date_of_birth >= date '1900-01-01' and date_of_birth <= current_date - interval '14 years')) not valid;
+
+alter table public.hr_records drop constraint if exists hr_records_end_date_after_birth;
+alter table public.hr_records add constraint hr_records_end_date_after_birth
+    check (end_date is null or date_of_birth is null or end_date > date_of_birth + interval '14 years') not valid;
+
+alter table public.hr_records drop constraint if exists hr_records_emergency_phone_format;
+alter table public.hr_records add constraint hr_records_emergency_phone_format
+    check (emergency_contact_phone is null or emergency_contact_phone ~ '^\d{10}$') not valid;
+
+-- Creates the record when it is missing, otherwise replaces its values.
+create or replace function public.save_hr_record(
+    subject_id uuid,
+    sin text,
+    date_of_birth date,
+    emergency_contact_name text,
+    emergency_contact_phone text,
+    end_date date
+)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+begin
+    if not public.has_capability('editHrFile') then
+        raise exception 'You do not have permission to edit HR files'
+            using errcode = '42501';
+    end if;
+
+    if not exists (select 1 from public.staff_profiles p where p.id = subject_id) then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    if nullif(sin, '') is not null and not public.is_valid_sin(sin) then
+        raise exception 'The SIN is not valid' using errcode = '22023';
+    end if;
+
+    insert into public.hr_records as h (id, sin, date_of_birth, emergency_contact_name, emergency_contact_phone, end_date)
+    values (
+        subject_id,
+        nullif(sin, ''),
+        date_of_birth,
+        nullif(btrim(emergency_contact_name), ''),
+        nullif(emergency_contact_phone, ''),
+        end_date
+    )
+    on conflict (id) do update set
+        sin = excluded.sin,
+        date_of_birth = excluded.date_of_birth,
+        emergency_contact_name = excluded.emergency_contact_name,
+        emergency_contact_phone = excluded.emergency_contact_phone,
+        end_date = excluded.end_date
+    returning h.* into saved;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.save_hr_record(uuid, text, date, text, text, date) from public, anon;
+grant execute on function public.save_hr_record(uuid, text, date, text, text, date) to authenticated;
@@ -0,0 +1,103 @@
+-- Profile photos.
+-- Photos live in the public `profile-photos` bucket under a folder named after
+-- the staff member's id (<id>/<timestamp>.jpg). Staff may only write to their own
+-- folder; the new managePhotos capability (executives) can replace or remove
+-- anyone's photo. Who sees a photo in the directory is still governed by the
+-- profile_photo_url column of the visibility matrix.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('profile-photos', 'profile-photos', true, 2097152, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do update set
+    public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'managePhotos')
+where key = 'executive'
+  and not ('managePhotos' = any(capabilities));
+
+-- True when the object path is inside a folder the caller may write to.
+create or replace function public.can_write_profile_photo(object_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select auth.uid() is not null
+        and (
+            (storage.foldername(object_name))[1] = auth.uid()::text
+            or public.has_capability('managePhotos')
+        );
+$$;
+
+drop policy if exists "profile_photos_insert" on storage.objects;
+create policy "profile_photos_insert" on storage.objects
+    for insert to authenticated
+    with check (bucket_id = 'profile-photos' and public.can_write_profile_photo(name));
+
+drop policy if exists "profile_photos_update" on storage.objects;
+create policy "profile_photos_update" on storage.objects
+    for update to authenticated
+    using (bucket_id = 'profile-photos' and public.can_write_profile_photo(name))
+    with check (bucket_id = 'profile-photos' and public.can_write_profile_photo(name));
+
+drop policy if exists "profile_photos_delete" on storage.objects;
+create policy "profile_photos_delete" on storage.objects
+    for delete to authenticated
+    using (bucket_id = 'profile-photos' and public.can_write_profile_photo(name));
+
+-- Listing a folder is needed to clean up old uploads.
+drop policy if exists "profile_photos_select" on storage.objects;
+create policy "profile_photos_select" on storage.objects
+    for select to authenticated
+    using (bucket_id = 'profile-photos' and public.can_write_profile_photo(name));
+
+-- Points a profile at a new photo, or clears it. Staff can change their own photo
+-- without editStaff; managePhotos is enough to change someone else's.
+create or replace function public.set_profile_photo(subject_id uuid, photo_url text)
+returns public.staff_profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.staff_profiles;
+begin
+    if auth.uid() is null or (subject_id <> auth.uid() and not public.has_capability('managePhotos')) then
+        raise exception 'You do not have permission to change this photo'
+            using errcode = '42501';
+    end if;
+
+    update public.staff_profiles p
+    set profile_photo_url = nullif(photo_url, '')
+    where p.id = subject_id
+    returning p.* into saved;
+
+    if not found then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.set_profile_photo(uuid, text) from public, anon;
+grant execute on function public.set_profile_photo(uuid, text) to authenticated;
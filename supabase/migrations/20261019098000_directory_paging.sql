@@ -0,0 +1,80 @@
+-- Server-side search, filtering, sorting and paging for the Directory.
+-- directory_profiles gains three columns at the end:
+--   search_text            lower-cased text the search box matches, built only from
+--                          fields the viewer may see, so a search can't reveal a masked value
+--   department_label /     so pages can be ordered by department and each group's
+--   department_sort_order  header continues correctly across page boundaries
+
+create or replace view public.directory_profiles
+with (security_barrier = true)
+as
+select
+    masked.*,
+    lower(concat_ws(' ',
+        masked.preferred_name,
+        masked.legal_first_name,
+        masked.legal_middle_name,
+        masked.legal_last_name,
+        masked.display_name,
+        masked.job_title,
+        masked.bio,
+        array_to_string(masked.fluent_languages, ' ')
+    )) as search_text,
+    d.label as department_label,
+    d.sort_order as department_sort_order
+from (
+    select
+        p.id,
+        case when 'role' = any(v.fields) then p.role end as role,
+        p.department,
+        case when 'clinic_locations' = any(v.fields) then p.clinic_locations end as clinic_locations,
+        case when 'work_phone' = any(v.fields) then p.work_phone end as work_phone,
+        case when 'bio' = any(v.fields) then p.bio end as bio,
+        case when 'job_title' = any(v.fields) then p.job_title end as job_title,
+        case when 'employee_id' = any(v.fields) then p.employee_id end as employee_id,
+        case when 'preferred_name' = any(v.fields) then p.preferred_name end as preferred_name,
+        p.legal_first_name,
+        case when 'legal_middle_name' = any(v.fields) then p.legal_middle_name end as legal_middle_name,
+        p.legal_last_name,
+        case when 'display_name' = any(v.fields) then p.display_name end as display_name,
+        case when 'work_email' = any(v.fields) then p.work_email end as work_email,
+        case when 'practitioner_license_number' = any(v.fields) then p.practitioner_license_number end as practitioner_license_number,
+        case when 'highest_education' = any(v.fields) then p.highest_education end as highest_education,
+        case when 'profile_photo_url' = any(v.fields) then p.profile_photo_url end as profile_photo_url,
+        case when 'employment_status' = any(v.fields) then p.employment_status end as employment_status,
+        case when 'employment_type' = any(v.fields) then p.employment_type end as employment_type,
+        case when 'fluent_languages' = any(v.fields) then p.fluent_languages end as fluent_languages
+    from public.staff_profiles p
+    cross join lateral (select public.directory_visible_fields(p.department) as fields) v
+    where auth.uid() is not null
+      and v.fields is not null
+      and public.directory_location_in_scope(p.clinic_locations)
+) masked
+left join public.departments d on d.key = masked.department;
+
+revoke all on public.directory_profiles from anon, public;
+grant select on public.directory_profiles to authenticated;
+
+-- Values offered as filter chips. Runs as the caller, so it only sees what the
+-- directory view shows them: a masked language is never offered as a filter.
+create or replace function public.directory_facets()
+returns table (
+    departments text[],
+    roles text[],
+    employment_types text[],
+    languages text[]
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    select
+        array(select distinct d.department from public.directory_profiles d where d.department is not null order by 1),
+        array(select distinct r from public.directory_profiles d, unnest(d.role) r order by 1),
+        array(select distinct d.employment_type from public.directory_profiles d where d.employment_type is not null order by 1),
+        array(select distinct l from public.directory_profiles d, unnest(d.fluent_languages) l order by 1);
+$$;
+
+revoke all on function public.directory_facets() from public, anon;
+grant execute on function public.directory_facets() to authenticated;
@@ -0,0 +1,106 @@
+-- New-hire creation and invitations.
+-- The invite-staff edge function (supabase/functions/invite-staff) holds the
+-- service key: it creates the auth user, sends the invite email, inserts the
+-- staff_profiles row and records the invitation here. The new inviteStaff
+-- capability (executives and HR) gates it. Clients can only read invitations.
+--
+-- Status is derived rather than stored: accepted once the new hire signs in for
+-- the first time, expired when the invite link has lapsed, otherwise pending.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'inviteStaff',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'inviteStaff')
+where key in ('executive', 'hr_management', 'hr')
+  and not ('inviteStaff' = any(capabilities));
+
+create table if not exists public.staff_invitations (
+    id uuid primary key default gen_random_uuid(),
+    staff_id uuid not null references public.staff_profiles (id) on delete cascade,
+    email text not null,
+    invited_by uuid references public.staff_profiles (id) on delete set null,
+    invited_at timestamptz not null default now(),
+    expires_at timestamptz not null,
+    accepted_at timestamptz
+);
+
+create index if not exists staff_invitations_staff_id_idx
+    on public.staff_invitations (staff_id, invited_at desc);
+
+alter table public.staff_invitations enable row level security;
+
+revoke insert, update, delete, truncate on public.staff_invitations from anon, authenticated;
+
+drop policy if exists "staff_invitations_select" on public.staff_invitations;
+create policy "staff_invitations_select" on public.staff_invitations
+    for select to authenticated
+    using (public.has_capability('inviteStaff'));
+
+-- An invite link signs the new hire in, so the first sign-in marks it accepted.
+create or replace function public.accept_staff_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.staff_invitations
+    set accepted_at = new.last_sign_in_at
+    where staff_id = new.id
+      and accepted_at is null;
+    return new;
+end;
+$$;
+
+revoke all on function public.accept_staff_invitation() from public, anon, authenticated;
+
+drop trigger if exists accept_staff_invitation on auth.users;
+create trigger accept_staff_invitation
+    after update of last_sign_in_at on auth.users
+    for each row
+    when (old.last_sign_in_at is null and new.last_sign_in_at is not null)
+    execute function public.accept_staff_invitation();
+
+-- Latest invitation per staff member with its derived status. Names are joined
+-- in here because inviteStaff alone doesn't grant reading other profiles.
+create or replace view public.staff_invitation_status
+with (security_barrier = true)
+as
+select distinct on (i.staff_id)
+    i.id,
+    i.staff_id,
+    coalesce(nullif(sp.display_name, ''), concat_ws(' ', sp.legal_first_name, sp.legal_last_name)) as staff_name,
+    i.email,
+    i.invited_by,
+    coalesce(nullif(ip.display_name, ''), concat_ws(' ', ip.legal_first_name, ip.legal_last_name)) as invited_by_name,
+    i.invited_at,
+    i.expires_at,
+    i.accepted_at,
+    case
+        when i.accepted_at is not null then 'accepted'
+        when i.expires_at < now() then 'expired'
+        else 'pending'
+    end as status
+from public.staff_invitations i
+join public.staff_profiles sp on sp.id = i.staff_id
+left join public.staff_profiles ip on ip.id = i.invited_by
+where public.has_capability('inviteStaff')
+order by i.staff_id, i.invited_at desc;
+
+revoke all on public.staff_invitation_status from anon, public;
+grant select on public.staff_invitation_status to authenticated;
@@ -0,0 +1,338 @@
+-- Offboarding.
+-- Departures are driven by hr_records.end_date. offboard_staff sets the end date
+-- and employment status; on the end date process_offboarding (run nightly by
+-- pg_cron, and straight away for a date that has already passed) marks the
+-- profile offboarded, which hides it from the Directory, and bans the auth
+-- account so the person can no longer sign in. Nothing is deleted: the profile,
+-- HR record and audit history are kept for retention.
+-- The new offboardStaff capability (executives and HR) gates all of it.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'inviteStaff',
+        'offboardStaff',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'offboardStaff')
+where key in ('executive', 'hr_management', 'hr')
+  and not ('offboardStaff' = any(capabilities));
+
+alter table public.staff_profiles
+    add column if not exists offboarded_at timestamptz;
+
+-- The offboarding functions below change employment_status and offboarded_at on
+-- other people's profiles, for callers who may not hold editStaff. Like the
+-- organization sync, they mark the transaction and nothing else may change.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.offboarding', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.practitioner_license_number, new.employment_type,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.practitioner_license_number, old.employment_type,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type then
+        raise exception 'You are not allowed to change role, department, location or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Only the offboarding functions set this
+create or replace function public.guard_offboarded_at()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.offboarded_at is distinct from old.offboarded_at
+        and auth.uid() is not null
+        and current_setting('phoenixhub.offboarding', true) is distinct from 'on' then
+        raise exception 'Use offboard_staff to change a departure'
+            using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists guard_offboarded_at on public.staff_profiles;
+create trigger guard_offboarded_at
+    before update of offboarded_at on public.staff_profiles
+    for each row
+    execute function public.guard_offboarded_at();
+
+-- Directory: same as before, without offboarded staff.
+create or replace view public.directory_profiles
+with (security_barrier = true)
+as
+select
+    masked.*,
+    lower(concat_ws(' ',
+        masked.preferred_name,
+        masked.legal_first_name,
+        masked.legal_middle_name,
+        masked.legal_last_name,
+        masked.display_name,
+        masked.job_title,
+        masked.bio,
+        array_to_string(masked.fluent_languages, ' ')
+    )) as search_text,
+    d.label as department_label,
+    d.sort_order as department_sort_order
+from (
+    select
+        p.id,
+        case when 'role' = any(v.fields) then p.role end as role,
+        p.department,
+        case when 'clinic_locations' = any(v.fields) then p.clinic_locations end as clinic_locations,
+        case when 'work_phone' = any(v.fields) then p.work_phone end as work_phone,
+        case when 'bio' = any(v.fields) then p.bio end as bio,
+        case when 'job_title' = any(v.fields) then p.job_title end as job_title,
+        case when 'employee_id' = any(v.fields) then p.employee_id end as employee_id,
+        case when 'preferred_name' = any(v.fields) then p.preferred_name end as preferred_name,
+        p.legal_first_name,
+        case when 'legal_middle_name' = any(v.fields) then p.legal_middle_name end as legal_middle_name,
+        p.legal_last_name,
+        case when 'display_name' = any(v.fields) then p.display_name end as display_name,
+        case when 'work_email' = any(v.fields) then p.work_email end as work_email,
+        case when 'practitioner_license_number' = any(v.fields) then p.practitioner_license_number end as practitioner_license_number,
+        case when 'highest_education' = any(v.fields) then p.highest_education end as highest_education,
+        case when 'profile_photo_url' = any(v.fields) then p.profile_photo_url end as profile_photo_url,
+        case when 'employment_status' = any(v.fields) then p.employment_status end as employment_status,
+        case when 'employment_type' = any(v.fields) then p.employment_type end as employment_type,
+        case when 'fluent_languages' = any(v.fields) then p.fluent_languages end as fluent_languages
+    from public.staff_profiles p
+    cross join lateral (select public.directory_visible_fields(p.department) as fields) v
+    where auth.uid() is not null
+      and v.fields is not null
+      and public.directory_location_in_scope(p.clinic_locations)
+      and p.offboarded_at is null
+) masked
+left join public.departments d on d.key = masked.department;
+
+revoke all on public.directory_profiles from anon, public;
+grant select on public.directory_profiles to authenticated;
+
+-- Completes every departure whose end date has arrived. Safe to run repeatedly.
+-- Returns the number of people offboarded.
+create or replace function public.process_offboarding()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    departed uuid[];
+begin
+    perform set_config('phoenixhub.offboarding', 'on', true);
+
+    with due as (
+        update public.staff_profiles p
+        set offboarded_at = now()
+        from public.hr_records h
+        where h.id = p.id
+          and h.end_date <= current_date
+          and p.offboarded_at is null
+        returning p.id
+    )
+    select coalesce(array_agg(id), '{}') into departed from due;
+
+    perform set_config('phoenixhub.offboarding', 'off', true);
+
+    if cardinality(departed) = 0 then
+        return 0;
+    end if;
+
+    -- Ban the accounts and end any open sessions (refresh tokens go with them)
+    update auth.users
+    set banned_until = 'infinity'
+    where id = any(departed);
+
+    delete from auth.sessions where user_id = any(departed);
+
+    return cardinality(departed);
+end;
+$$;
+
+revoke all on function public.process_offboarding() from public, anon, authenticated;
+
+-- Records a departure. A date today or earlier takes effect immediately.
+create or replace function public.offboard_staff(subject_id uuid, end_date date, employment_status text)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+begin
+    if not public.has_capability('offboardStaff') then
+        raise exception 'You do not have permission to offboard staff'
+            using errcode = '42501';
+    end if;
+
+    if subject_id = auth.uid() then
+        raise exception 'You cannot offboard yourself' using errcode = '22023';
+    end if;
+
+    if end_date is null then
+        raise exception 'An end date is required' using errcode = '22023';
+    end if;
+
+    if nullif(btrim(employment_status), '') is null then
+        raise exception 'An employment status is required' using errcode = '22023';
+    end if;
+
+    if exists (select 1 from public.staff_profiles p where p.id = subject_id and p.offboarded_at is not null) then
+        raise exception 'This person has already been offboarded' using errcode = '22023';
+    end if;
+
+    perform set_config('phoenixhub.offboarding', 'on', true);
+    update public.staff_profiles p
+    set employment_status = btrim(offboard_staff.employment_status)
+    where p.id = subject_id;
+
+    if not found then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+    perform set_config('phoenixhub.offboarding', 'off', true);
+
+    insert into public.hr_records as h (id, end_date)
+    values (subject_id, offboard_staff.end_date)
+    on conflict (id) do update set end_date = excluded.end_date
+    returning h.* into saved;
+
+    if offboard_staff.end_date <= current_date then
+        perform public.process_offboarding();
+    end if;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.offboard_staff(uuid, date, text) from public, anon;
+grant execute on function public.offboard_staff(uuid, date, text) to authenticated;
+
+-- Withdraws a departure that hasn't happened yet.
+create or replace function public.cancel_offboarding(subject_id uuid, employment_status text)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+begin
+    if not public.has_capability('offboardStaff') then
+        raise exception 'You do not have permission to offboard staff'
+            using errcode = '42501';
+    end if;
+
+    if exists (select 1 from public.staff_profiles p where p.id = subject_id and p.offboarded_at is not null) then
+        raise exception 'This departure has already taken effect' using errcode = '22023';
+    end if;
+
+    update public.hr_records h
+    set end_date = null
+    where h.id = subject_id
+    returning h.* into saved;
+
+    if not found then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    perform set_config('phoenixhub.offboarding', 'on', true);
+    update public.staff_profiles p
+    set employment_status = nullif(btrim(cancel_offboarding.employment_status), '')
+    where p.id = subject_id;
+    perform set_config('phoenixhub.offboarding', 'off', true);
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.cancel_offboarding(uuid, text) from public, anon;
+grant execute on function public.cancel_offboarding(uuid, text) to authenticated;
+
+-- Upcoming and completed departures for HR.
+create or replace view public.staff_departures
+with (security_barrier = true)
+as
+select
+    p.id,
+    coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) as staff_name,
+    p.department,
+    p.job_title,
+    p.employment_status,
+    h.end_date,
+    p.offboarded_at,
+    case when p.offboarded_at is null then 'upcoming' else 'completed' end as status
+from public.hr_records h
+join public.staff_profiles p on p.id = h.id
+where h.end_date is not null
+  and public.has_capability('offboardStaff');
+
+revoke all on public.staff_departures from anon, public;
+grant select on public.staff_departures to authenticated;
+
+-- Nightly, shortly after midnight UTC
+create extension if not exists pg_cron with schema extensions;
+
+select cron.schedule('process-offboarding', '15 0 * * *', $$select public.process_offboarding()$$);
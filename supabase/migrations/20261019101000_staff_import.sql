@@ -0,0 +1,98 @@
+-- Bulk staff import.
+-- The Import page maps spreadsheet columns to profile fields, shows a dry run and
+-- then applies the changes to existing staff through import_staff_updates, in a
+-- single transaction so a failing row leaves nothing half-applied. New staff are
+-- added one by one through the invite-staff edge function, like the Add Staff
+-- wizard, because they need an auth account and an invitation.
+-- The new importStaff capability (executives) gates it.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'inviteStaff',
+        'importStaff',
+        'offboardStaff',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'importStaff')
+where key = 'executive'
+  and not ('importStaff' = any(capabilities));
+
+-- updates is a JSON array of {"id": ..., "changes": {field: value}}. Runs as the
+-- caller, so the staff_profiles policies and guard_staff_profile_update decide
+-- which rows and fields may change exactly as they do for a single edit.
+create or replace function public.import_staff_updates(updates jsonb)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+    entry jsonb;
+    changes jsonb;
+    unknown_field text;
+    applied integer := 0;
+begin
+    if not public.has_capability('importStaff') then
+        raise exception 'You do not have permission to import staff'
+            using errcode = '42501';
+    end if;
+
+    if jsonb_typeof(updates) is distinct from 'array' then
+        raise exception 'updates must be an array' using errcode = '22023';
+    end if;
+
+    for entry in select value from jsonb_array_elements(updates) loop
+        changes := coalesce(entry -> 'changes', '{}'::jsonb);
+
+        select key into unknown_field
+        from jsonb_object_keys(changes) as key
+        where key <> all (array[
+            'role', 'department', 'clinic_locations', 'job_title', 'employee_id',
+            'preferred_name', 'legal_first_name', 'legal_middle_name', 'legal_last_name',
+            'display_name', 'work_email', 'work_phone', 'bio', 'practitioner_license_number',
+            'highest_education', 'employment_status', 'employment_type', 'fluent_languages'
+        ])
+        limit 1;
+
+        if unknown_field is not null then
+            raise exception 'The field % cannot be imported', unknown_field using errcode = '22023';
+        end if;
+
+        update public.staff_profiles p
+        set (role, department, clinic_locations, job_title, employee_id,
+             preferred_name, legal_first_name, legal_middle_name, legal_last_name,
+             display_name, work_email, work_phone, bio, practitioner_license_number,
+             highest_education, employment_status, employment_type, fluent_languages)
+          = (select r.role, r.department, r.clinic_locations, r.job_title, r.employee_id,
+                    r.preferred_name, r.legal_first_name, r.legal_middle_name, r.legal_last_name,
+                    r.display_name, r.work_email, r.work_phone, r.bio, r.practitioner_license_number,
+                    r.highest_education, r.employment_status, r.employment_type, r.fluent_languages
+             from jsonb_populate_record(p, changes) as r)
+        where p.id = (entry ->> 'id')::uuid
+          and p.offboarded_at is null;
+
+        if not found then
+            raise exception 'Staff member % not found', entry ->> 'id' using errcode = 'P0002';
+        end if;
+
+        applied := applied + 1;
+    end loop;
+
+    return applied;
+end;
+$$;
+
+revoke all on function public.import_staff_updates(jsonb) from public, anon;
+grant execute on function public.import_staff_updates(jsonb) to authenticated;
@@ -0,0 +1,168 @@
+-- Reporting lines.
+-- staff_profiles.reports_to points at the person's manager. Changing it needs
+-- editStaff, like the other organisational fields, and a trigger refuses any
+-- change that would make someone report (directly or not) to themselves.
+-- Reporting lines aren't confidential, so directory_profiles shows reports_to to
+-- everyone who can see the person, like their department.
+
+alter table public.staff_profiles
+    add column if not exists reports_to uuid references public.staff_profiles (id) on delete set null;
+
+create index if not exists staff_profiles_reports_to_idx on public.staff_profiles (reports_to);
+
+create or replace function public.guard_reporting_line()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.reports_to is null then
+        return new;
+    end if;
+
+    if new.reports_to = new.id then
+        raise exception 'Someone cannot report to themselves.' using errcode = '23514';
+    end if;
+
+    -- One reporting-line change at a time, so two concurrent edits can't close a loop
+    perform pg_advisory_xact_lock(hashtext('phoenixhub.reporting_lines'));
+
+    if exists (
+        with recursive chain (id) as (
+            select new.reports_to
+            union
+            select p.reports_to
+            from public.staff_profiles p
+            join chain c on c.id = p.id
+            where p.reports_to is not null
+        )
+        select 1 from chain where id = new.id
+    ) then
+        raise exception 'This would create a loop in the reporting lines.' using errcode = '23514';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists guard_reporting_line on public.staff_profiles;
+create trigger guard_reporting_line
+    before insert or update of reports_to on public.staff_profiles
+    for each row execute function public.guard_reporting_line();
+
+-- Same as before, with reports_to added.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.offboarding', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.practitioner_license_number, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.practitioner_license_number, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type
+        or new.reports_to is distinct from old.reports_to then
+        raise exception 'You are not allowed to change role, department, location, manager or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Same as before, with reports_to added after department. The column can't be
+-- inserted into the middle of an existing view, so it is recreated.
+drop view if exists public.directory_profiles;
+
+create view public.directory_profiles
+with (security_barrier = true)
+as
+select
+    masked.*,
+    lower(concat_ws(' ',
+        masked.preferred_name,
+        masked.legal_first_name,
+        masked.legal_middle_name,
+        masked.legal_last_name,
+        masked.display_name,
+        masked.job_title,
+        masked.bio,
+        array_to_string(masked.fluent_languages, ' ')
+    )) as search_text,
+    d.label as department_label,
+    d.sort_order as department_sort_order
+from (
+    select
+        p.id,
+        case when 'role' = any(v.fields) then p.role end as role,
+        p.department,
+        p.reports_to,
+        case when 'clinic_locations' = any(v.fields) then p.clinic_locations end as clinic_locations,
+        case when 'work_phone' = any(v.fields) then p.work_phone end as work_phone,
+        case when 'bio' = any(v.fields) then p.bio end as bio,
+        case when 'job_title' = any(v.fields) then p.job_title end as job_title,
+        case when 'employee_id' = any(v.fields) then p.employee_id end as employee_id,
+        case when 'preferred_name' = any(v.fields) then p.preferred_name end as preferred_name,
+        p.legal_first_name,
+        case when 'legal_middle_name' = any(v.fields) then p.legal_middle_name end as legal_middle_name,
+        p.legal_last_name,
+        case when 'display_name' = any(v.fields) then p.display_name end as display_name,
+        case when 'work_email' = any(v.fields) then p.work_email end as work_email,
+        case when 'practitioner_license_number' = any(v.fields) then p.practitioner_license_number end as practitioner_license_number,
+        case when 'highest_education' = any(v.fields) then p.highest_education end as highest_education,
+        case when 'profile_photo_url' = any(v.fields) then p.profile_photo_url end as profile_photo_url,
+        case when 'employment_status' = any(v.fields) then p.employment_status end as employment_status,
+        case when 'employment_type' = any(v.fields) then p.employment_type end as employment_type,
+        case when 'fluent_languages' = any(v.fields) then p.fluent_languages end as fluent_languages
+    from public.staff_profiles p
+    cross join lateral (select public.directory_visible_fields(p.department) as fields) v
+    where auth.uid() is not null
+      and v.fields is not null
+      and public.directory_location_in_scope(p.clinic_locations)
+      and p.offboarded_at is null
+) masked
+left join public.departments d on d.key = masked.department;
+
+revoke all on public.directory_profiles from anon, public;
+grant select on public.directory_profiles to authenticated;
@@ -0,0 +1,331 @@
+-- Profile change requests.
+-- Legal and display names are used on payroll and shown to patients, so nobody
+-- changes their own directly any more, HR included. request_profile_change
+-- records the change as pending and HR approve or reject it from the approval
+-- queue; approving applies it. Each person has at most one pending request; a
+-- new one replaces it.
+-- The new reviewProfileChanges capability (executives and HR) gates the queue.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'reviewProfileChanges',
+        'inviteStaff',
+        'importStaff',
+        'offboardStaff',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'reviewProfileChanges')
+where key in ('executive', 'hr_management', 'hr')
+  and not ('reviewProfileChanges' = any(capabilities));
+
+create table if not exists public.profile_change_requests (
+    id uuid primary key default gen_random_uuid(),
+    staff_id uuid not null references public.staff_profiles (id) on delete cascade,
+    -- field -> requested value, and field -> value when the request was made
+    changes jsonb not null,
+    previous jsonb not null,
+    status text not null default 'pending',
+    requested_at timestamptz not null default now(),
+    reviewed_by uuid references public.staff_profiles (id) on delete set null,
+    reviewed_at timestamptz,
+    review_comment text,
+    constraint profile_change_requests_status check (status in ('pending', 'approved', 'rejected', 'withdrawn'))
+);
+
+create unique index if not exists profile_change_requests_one_pending_idx
+    on public.profile_change_requests (staff_id)
+    where status = 'pending';
+
+create index if not exists profile_change_requests_staff_idx
+    on public.profile_change_requests (staff_id, requested_at desc);
+
+-- Staff read their own requests; reviewers use profile_change_queue. All writes
+-- go through the functions below.
+alter table public.profile_change_requests enable row level security;
+revoke insert, update, delete, truncate on public.profile_change_requests from anon, authenticated;
+
+drop policy if exists "profile_change_requests_select_own" on public.profile_change_requests;
+create policy "profile_change_requests_select_own" on public.profile_change_requests
+    for select to authenticated
+    using (staff_id = auth.uid());
+
+-- Same as before, and your own legal or display name can only change through an
+-- approved request (review_profile_change runs as the reviewer, not the subject).
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+        and new.id = auth.uid()
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'Changes to your own legal or display name need HR approval.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.offboarding', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.practitioner_license_number, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.practitioner_license_number, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.practitioner_license_number is distinct from old.practitioner_license_number
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type
+        or new.reports_to is distinct from old.reports_to then
+        raise exception 'You are not allowed to change role, department, location, manager or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- changes is {field: value} for any of the legal names and the display name.
+-- Blank values clear a field; values equal to the current ones are dropped.
+create or replace function public.request_profile_change(changes jsonb)
+returns public.profile_change_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    me jsonb;
+    unknown_field text;
+    requested jsonb;
+    before jsonb;
+    saved public.profile_change_requests;
+begin
+    if auth.uid() is null then
+        raise exception 'You are not signed in' using errcode = '42501';
+    end if;
+
+    if jsonb_typeof(changes) is distinct from 'object' then
+        raise exception 'changes must be an object' using errcode = '22023';
+    end if;
+
+    select key into unknown_field
+    from jsonb_object_keys(changes) as key
+    where key <> all (array['legal_first_name', 'legal_middle_name', 'legal_last_name', 'display_name'])
+    limit 1;
+
+    if unknown_field is not null then
+        raise exception 'The field % does not need approval', unknown_field using errcode = '22023';
+    end if;
+
+    select to_jsonb(p) into me
+    from public.staff_profiles p
+    where p.id = auth.uid() and p.offboarded_at is null;
+
+    if me is null then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(jsonb_object_agg(c.key, c.value), '{}'::jsonb),
+           coalesce(jsonb_object_agg(c.key, me -> c.key), '{}'::jsonb)
+    into requested, before
+    from (
+        select key,
+               case when nullif(btrim(value #>> '{}'), '') is null then 'null'::jsonb
+                    else to_jsonb(btrim(value #>> '{}')) end as value
+        from jsonb_each(changes)
+    ) c
+    where c.value is distinct from me -> c.key;
+
+    if requested = '{}'::jsonb then
+        raise exception 'Nothing has changed' using errcode = '22023';
+    end if;
+
+    if requested -> 'legal_first_name' = 'null'::jsonb or requested -> 'legal_last_name' = 'null'::jsonb then
+        raise exception 'Legal first and last names are required' using errcode = '22023';
+    end if;
+
+    update public.profile_change_requests r
+    set status = 'withdrawn'
+    where r.staff_id = auth.uid() and r.status = 'pending';
+
+    insert into public.profile_change_requests as r (staff_id, changes, previous)
+    values (auth.uid(), requested, before)
+    returning r.* into saved;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.request_profile_change(jsonb) from public, anon;
+grant execute on function public.request_profile_change(jsonb) to authenticated;
+
+create or replace function public.withdraw_profile_change(request_id uuid)
+returns public.profile_change_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.profile_change_requests;
+begin
+    update public.profile_change_requests r
+    set status = 'withdrawn'
+    where r.id = request_id
+      and r.staff_id = auth.uid()
+      and r.status = 'pending'
+    returning r.* into saved;
+
+    if not found then
+        raise exception 'Pending request not found' using errcode = 'P0002';
+    end if;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.withdraw_profile_change(uuid) from public, anon;
+grant execute on function public.withdraw_profile_change(uuid) to authenticated;
+
+-- Approving applies the requested values; rejecting needs a comment for the
+-- requester.
+create or replace function public.review_profile_change(request_id uuid, approve boolean, comment text)
+returns public.profile_change_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    request public.profile_change_requests;
+    saved public.profile_change_requests;
+begin
+    if not public.has_capability('reviewProfileChanges') then
+        raise exception 'You do not have permission to review profile changes'
+            using errcode = '42501';
+    end if;
+
+    select * into request
+    from public.profile_change_requests r
+    where r.id = request_id
+    for update;
+
+    if not found then
+        raise exception 'Request not found' using errcode = 'P0002';
+    end if;
+
+    if request.staff_id = auth.uid() then
+        raise exception 'You cannot review your own request' using errcode = '42501';
+    end if;
+
+    if request.status <> 'pending' then
+        raise exception 'This request is no longer pending' using errcode = '22023';
+    end if;
+
+    if not approve and nullif(btrim(comment), '') is null then
+        raise exception 'Add a comment explaining why the request was rejected' using errcode = '22023';
+    end if;
+
+    if approve then
+        update public.staff_profiles p
+        set (legal_first_name, legal_middle_name, legal_last_name, display_name)
+          = (select r.legal_first_name, r.legal_middle_name, r.legal_last_name, r.display_name
+             from jsonb_populate_record(p, request.changes) as r)
+        where p.id = request.staff_id
+          and p.offboarded_at is null;
+
+        if not found then
+            raise exception 'Staff member not found' using errcode = 'P0002';
+        end if;
+    end if;
+
+    update public.profile_change_requests r
+    set status = case when approve then 'approved' else 'rejected' end,
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_comment = nullif(btrim(comment), '')
+    where r.id = request_id
+    returning r.* into saved;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.review_profile_change(uuid, boolean, text) from public, anon;
+grant execute on function public.review_profile_change(uuid, boolean, text) to authenticated;
+
+-- Pending requests with the current values, for the approval queue. Reviewers
+-- don't see their own.
+create or replace view public.profile_change_queue
+with (security_barrier = true)
+as
+select
+    r.id,
+    r.staff_id,
+    coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) as staff_name,
+    p.department,
+    p.job_title,
+    r.changes,
+    r.previous,
+    jsonb_build_object(
+        'legal_first_name', p.legal_first_name,
+        'legal_middle_name', p.legal_middle_name,
+        'legal_last_name', p.legal_last_name,
+        'display_name', p.display_name
+    ) as current,
+    r.requested_at
+from public.profile_change_requests r
+join public.staff_profiles p on p.id = r.staff_id
+where r.status = 'pending'
+  and r.staff_id <> auth.uid()
+  and p.offboarded_at is null
+  and public.has_capability('reviewProfileChanges');
+
+revoke all on public.profile_change_queue from anon, public;
+grant select on public.profile_change_queue to authenticated;
@@ -0,0 +1,171 @@
+-- Phone numbers and work emails.
+-- Phones are stored in E.164 with an optional RFC 3966 extension
+-- (+14165550123;ext=45) instead of ten bare digits, so international numbers
+-- and extensions fit. normalize_phone follows the same rules as parsePhone in
+-- src/utils/contactDetails.ts: numbers without a country code are North American.
+-- Work emails are stored in lower case and must use one of the clinic's domains
+-- (email_domains, edited in Admin Settings). When the list is empty any domain is
+-- accepted.
+-- Existing values are normalized below. Values that can't be parsed are left as
+-- they are and only have to be fixed when someone next changes them.
+
+create or replace function public.normalize_phone(phone text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+    parts text[];
+    main text;
+    extension text;
+    digits text;
+begin
+    if phone is null or btrim(phone) = '' then
+        return null;
+    end if;
+
+    parts := regexp_match(btrim(phone), '^(.*?)\s*(?:;ext=|(?:extension|ext\.?|x|#)\s*)(\d{1,6})\s*$', 'i');
+    main := btrim(coalesce(parts[1], phone));
+    extension := parts[2];
+    digits := regexp_replace(main, '\D', '', 'g');
+
+    if left(main, 1) = '+' then
+        null;
+    elsif length(digits) = 10 then
+        digits := '1' || digits;
+    elsif length(digits) = 11 and left(digits, 1) = '1' then
+        null;
+    elsif left(digits, 3) = '011' then
+        digits := substr(digits, 4);
+    elsif left(digits, 2) = '00' then
+        digits := substr(digits, 3);
+    else
+        return null;
+    end if;
+
+    if digits !~ '^[1-9]\d{7,14}$' or (left(digits, 1) = '1' and digits !~ '^1[2-9]\d{2}[2-9]\d{6}$') then
+        return null;
+    end if;
+
+    return '+' || digits || coalesce(';ext=' || extension, '');
+end;
+$$;
+
+create table if not exists public.email_domains (
+    domain text primary key,
+    created_at timestamptz not null default now(),
+    constraint email_domains_format check (domain = lower(domain) and domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$')
+);
+
+insert into public.email_domains (domain)
+values ('phoenixrehab.ca')
+on conflict (domain) do nothing;
+
+alter table public.email_domains enable row level security;
+
+drop policy if exists "email_domains_select" on public.email_domains;
+create policy "email_domains_select" on public.email_domains
+    for select to authenticated
+    using (true);
+
+drop policy if exists "email_domains_write" on public.email_domains;
+create policy "email_domains_write" on public.email_domains
+    for all to authenticated
+    using (public.has_capability('manageOrganization'))
+    with check (public.has_capability('manageOrganization'));
+
+-- Normalizes phone and email on every write, so the app, the import and the
+-- invite function all store the same form. Unchanged values aren't re-checked.
+create or replace function public.normalize_staff_contact_details()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    normalized text;
+begin
+    if tg_op = 'INSERT' or new.work_phone is distinct from old.work_phone then
+        if nullif(btrim(new.work_phone), '') is null then
+            new.work_phone := null;
+        else
+            normalized := public.normalize_phone(new.work_phone);
+            if normalized is null then
+                raise exception '"%" is not a valid phone number', new.work_phone using errcode = '22023';
+            end if;
+            new.work_phone := normalized;
+        end if;
+    end if;
+
+    if tg_op = 'INSERT' or new.work_email is distinct from old.work_email then
+        new.work_email := nullif(lower(btrim(new.work_email)), '');
+        if new.work_email is not null then
+            if new.work_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' then
+                raise exception '"%" is not a valid email address', new.work_email using errcode = '22023';
+            end if;
+
+            if exists (select 1 from public.email_domains)
+                and not exists (select 1 from public.email_domains d where d.domain = split_part(new.work_email, '@', 2)) then
+                raise exception 'Work emails must use a clinic domain, not %', split_part(new.work_email, '@', 2)
+                    using errcode = '22023';
+            end if;
+        end if;
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Backfill. Runs without a signed-in user, so the profile guards let it through.
+update public.staff_profiles
+set work_phone = public.normalize_phone(work_phone)
+where public.normalize_phone(work_phone) is distinct from work_phone
+  and public.normalize_phone(work_phone) is not null;
+
+update public.staff_profiles
+set work_email = nullif(lower(btrim(work_email)), '')
+where work_email is distinct from nullif(lower(btrim(work_email)), '');
+
+drop trigger if exists normalize_staff_contact_details on public.staff_profiles;
+create trigger normalize_staff_contact_details
+    before insert or update of work_phone, work_email on public.staff_profiles
+    for each row execute function public.normalize_staff_contact_details();
+
+-- HR records keep validating with a check constraint, now against the new format.
+alter table public.hr_records drop constraint if exists hr_records_emergency_phone_format;
+
+update public.hr_records
+set emergency_contact_phone = public.normalize_phone(emergency_contact_phone)
+where public.normalize_phone(emergency_contact_phone) is distinct from emergency_contact_phone
+  and public.normalize_phone(emergency_contact_phone) is not null;
+
+alter table public.hr_records add constraint hr_records_emergency_phone_format
+    check (emergency_contact_phone is null or emergency_contact_phone ~ '^\+[1-9]\d{7,14}(;ext=\d{1,6})?$') not valid;
+
+-- Leftovers for HR to fix by hand
+do $$
+declare
+    phones integer;
+    emergency_phones integer;
+    emails integer;
+begin
+    select count(*) into phones
+    from public.staff_profiles
+    where work_phone is not null and public.normalize_phone(work_phone) is null;
+
+    select count(*) into emergency_phones
+    from public.hr_records
+    where emergency_contact_phone is not null and public.normalize_phone(emergency_contact_phone) is null;
+
+    select count(*) into emails
+    from public.staff_profiles p
+    where p.work_email is not null
+      and exists (select 1 from public.email_domains)
+      and not exists (select 1 from public.email_domains d where d.domain = split_part(p.work_email, '@', 2));
+
+    if phones > 0 or emergency_phones > 0 or emails > 0 then
+        raise notice 'Contact details left as they were: % work phone(s) and % emergency phone(s) that are not phone numbers, % work email(s) outside the clinic domains',
+            phones, emergency_phones, emails;
+    end if;
+end;
+$$;
@@ -0,0 +1,464 @@
+-- Practitioner licenses and expiry reminders.
+-- Licenses are now records of their own (regulatory body, number, issue and
+-- expiry dates, status) instead of the free-text practitioner_license_number on
+-- the profile. That column stays for the Directory and exports, but is derived:
+-- it lists the numbers of the person's current licenses and only the sync below
+-- may change it.
+-- A nightly job sends in-app notifications 90, 60 and 30 days before a license
+-- expires, and once it has expired, to the provider and to their manager.
+-- New capabilities: viewLicenses (the expiry dashboard; executives, management
+-- and HR) and manageLicenses (adding and changing licenses; executives and HR).
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'reviewProfileChanges',
+        'inviteStaff',
+        'importStaff',
+        'offboardStaff',
+        'viewLicenses',
+        'manageLicenses',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'viewLicenses')
+where key in ('executive', 'management', 'hr_management', 'hr')
+  and not ('viewLicenses' = any(capabilities));
+
+update public.roles
+set capabilities = array_append(capabilities, 'manageLicenses')
+where key in ('executive', 'hr_management', 'hr')
+  and not ('manageLicenses' = any(capabilities));
+
+-- Expired isn't stored: a license is expired once expires_on has passed,
+-- whatever its status.
+create table if not exists public.practitioner_licenses (
+    id uuid primary key default gen_random_uuid(),
+    staff_id uuid not null references public.staff_profiles (id) on delete cascade,
+    -- Blank only on licenses carried over from the old profile field
+    regulatory_body text,
+    license_number text not null,
+    issued_on date,
+    expires_on date,
+    status text not null default 'active',
+    created_at timestamptz not null default now(),
+    constraint practitioner_licenses_status check (status in ('active', 'pending', 'suspended', 'revoked')),
+    constraint practitioner_licenses_number check (btrim(license_number) <> ''),
+    constraint practitioner_licenses_dates check (expires_on is null or issued_on is null or expires_on >= issued_on)
+);
+
+create index if not exists practitioner_licenses_staff_idx on public.practitioner_licenses (staff_id);
+create index if not exists practitioner_licenses_expires_idx on public.practitioner_licenses (expires_on);
+
+create or replace function public.is_manager_of(subject_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.staff_profiles p
+        where p.id = subject_id
+          and p.reports_to = auth.uid()
+    );
+$$;
+
+revoke all on function public.is_manager_of(uuid) from public, anon;
+grant execute on function public.is_manager_of(uuid) to authenticated;
+
+-- Providers see their own licenses and managers those of their direct reports.
+alter table public.practitioner_licenses enable row level security;
+
+drop policy if exists "practitioner_licenses_select" on public.practitioner_licenses;
+create policy "practitioner_licenses_select" on public.practitioner_licenses
+    for select to authenticated
+    using (
+        staff_id = auth.uid()
+        or public.is_manager_of(staff_id)
+        or public.has_capability('viewLicenses')
+        or public.has_capability('manageLicenses')
+    );
+
+drop policy if exists "practitioner_licenses_write" on public.practitioner_licenses;
+create policy "practitioner_licenses_write" on public.practitioner_licenses
+    for all to authenticated
+    using (public.has_capability('manageLicenses'))
+    with check (public.has_capability('manageLicenses'));
+
+-- Carry over the old free-text numbers. Several numbers in one field become
+-- separate licenses; HR fill in the body and dates.
+insert into public.practitioner_licenses (staff_id, license_number)
+select p.id, btrim(number)
+from public.staff_profiles p
+cross join lateral regexp_split_to_table(p.practitioner_license_number, '\s*[;,]\s*') as number
+where btrim(number) <> ''
+  and not exists (select 1 from public.practitioner_licenses l where l.staff_id = p.id);
+
+-- Rewrites practitioner_license_number from the person's current licenses.
+create or replace function public.sync_practitioner_license_number(subject_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    numbers text;
+begin
+    select string_agg(l.license_number, '; ' order by l.expires_on nulls last, l.license_number)
+    into numbers
+    from public.practitioner_licenses l
+    where l.staff_id = subject_id
+      and l.status = 'active'
+      and (l.expires_on is null or l.expires_on >= current_date);
+
+    perform set_config('phoenixhub.license_sync', 'on', true);
+    update public.staff_profiles p
+    set practitioner_license_number = numbers
+    where p.id = subject_id
+      and p.practitioner_license_number is distinct from numbers;
+    perform set_config('phoenixhub.license_sync', 'off', true);
+end;
+$$;
+
+revoke all on function public.sync_practitioner_license_number(uuid) from public, anon, authenticated;
+
+create or replace function public.sync_practitioner_licenses()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if tg_op <> 'INSERT' then
+        perform public.sync_practitioner_license_number(old.staff_id);
+    end if;
+    if tg_op <> 'DELETE' and (tg_op = 'INSERT' or new.staff_id is distinct from old.staff_id) then
+        perform public.sync_practitioner_license_number(new.staff_id);
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists sync_practitioner_licenses on public.practitioner_licenses;
+create trigger sync_practitioner_licenses
+    after insert or update or delete on public.practitioner_licenses
+    for each row execute function public.sync_practitioner_licenses();
+
+-- Same as before, and practitioner_license_number is only written by the sync.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+        and new.id = auth.uid()
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'Changes to your own legal or display name need HR approval.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is not null
+        and new.practitioner_license_number is distinct from old.practitioner_license_number
+        and current_setting('phoenixhub.license_sync', true) is distinct from 'on' then
+        raise exception 'License numbers come from the staff member''s license records; change those instead.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.license_sync', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.offboarding', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.practitioner_license_number, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.practitioner_license_number, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type
+        or new.reports_to is distinct from old.reports_to then
+        raise exception 'You are not allowed to change role, department, location, manager or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
+
+-- Same as before, without practitioner_license_number.
+create or replace function public.import_staff_updates(updates jsonb)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+    entry jsonb;
+    changes jsonb;
+    unknown_field text;
+    applied integer := 0;
+begin
+    if not public.has_capability('importStaff') then
+        raise exception 'You do not have permission to import staff'
+            using errcode = '42501';
+    end if;
+
+    if jsonb_typeof(updates) is distinct from 'array' then
+        raise exception 'updates must be an array' using errcode = '22023';
+    end if;
+
+    for entry in select value from jsonb_array_elements(updates) loop
+        changes := coalesce(entry -> 'changes', '{}'::jsonb);
+
+        select key into unknown_field
+        from jsonb_object_keys(changes) as key
+        where key <> all (array[
+            'role', 'department', 'clinic_locations', 'job_title', 'employee_id',
+            'preferred_name', 'legal_first_name', 'legal_middle_name', 'legal_last_name',
+            'display_name', 'work_email', 'work_phone', 'bio',
+            'highest_education', 'employment_status', 'employment_type', 'fluent_languages'
+        ])
+        limit 1;
+
+        if unknown_field is not null then
+            raise exception 'The field % cannot be imported', unknown_field using errcode = '22023';
+        end if;
+
+        update public.staff_profiles p
+        set (role, department, clinic_locations, job_title, employee_id,
+             preferred_name, legal_first_name, legal_middle_name, legal_last_name,
+             display_name, work_email, work_phone, bio,
+             highest_education, employment_status, employment_type, fluent_languages)
+          = (select r.role, r.department, r.clinic_locations, r.job_title, r.employee_id,
+                    r.preferred_name, r.legal_first_name, r.legal_middle_name, r.legal_last_name,
+                    r.display_name, r.work_email, r.work_phone, r.bio,
+                    r.highest_education, r.employment_status, r.employment_type, r.fluent_languages
+             from jsonb_populate_record(p, changes) as r)
+        where p.id = (entry ->> 'id')::uuid
+          and p.offboarded_at is null;
+
+        if not found then
+            raise exception 'Staff member % not found', entry ->> 'id' using errcode = 'P0002';
+        end if;
+
+        applied := applied + 1;
+    end loop;
+
+    return applied;
+end;
+$$;
+
+-- In-app notifications. Rows are written by the database; dedupe_key stops a
+-- job that runs twice from notifying twice.
+create table if not exists public.notifications (
+    id uuid primary key default gen_random_uuid(),
+    recipient_id uuid not null references public.staff_profiles (id) on delete cascade,
+    title text not null,
+    body text,
+    link text,
+    dedupe_key text unique,
+    created_at timestamptz not null default now(),
+    read_at timestamptz
+);
+
+create index if not exists notifications_recipient_idx
+    on public.notifications (recipient_id, created_at desc);
+
+alter table public.notifications enable row level security;
+revoke insert, update, delete, truncate on public.notifications from anon, authenticated;
+
+drop policy if exists "notifications_select_own" on public.notifications;
+create policy "notifications_select_own" on public.notifications
+    for select to authenticated
+    using (recipient_id = auth.uid());
+
+-- Marks the signed-in user's notifications read; other ids are ignored.
+create or replace function public.mark_notifications_read(notification_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    marked integer;
+begin
+    if auth.uid() is null then
+        raise exception 'Not signed in' using errcode = '42501';
+    end if;
+
+    update public.notifications
+    set read_at = now()
+    where id = any(notification_ids)
+      and recipient_id = auth.uid()
+      and read_at is null;
+
+    get diagnostics marked = row_count;
+    return marked;
+end;
+$$;
+
+revoke all on function public.mark_notifications_read(uuid[]) from public, anon;
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
+
+-- Notifies providers and their managers about active licenses that expire within
+-- 90 days, once per threshold (90, 60, 30 days, and the day after they expire),
+-- and refreshes practitioner_license_number for licenses that have just expired.
+-- Safe to run repeatedly. Returns the number of notifications sent.
+create or replace function public.send_license_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    license record;
+    threshold text;
+    headline text;
+    sent integer := 0;
+    added integer;
+begin
+    for license in
+        select
+            l.id,
+            l.staff_id,
+            l.regulatory_body,
+            l.license_number,
+            l.expires_on,
+            l.expires_on - current_date as days_left,
+            p.reports_to,
+            coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) as staff_name
+        from public.practitioner_licenses l
+        join public.staff_profiles p on p.id = l.staff_id
+        where l.status = 'active'
+          and l.expires_on is not null
+          and l.expires_on <= current_date + 90
+          and p.offboarded_at is null
+    loop
+        threshold := case
+            when license.days_left < 0 then 'expired'
+            when license.days_left <= 30 then '30'
+            when license.days_left <= 60 then '60'
+            else '90'
+        end;
+        headline := case
+            when license.days_left < 0 then format('expired on %s', to_char(license.expires_on, 'Mon FMDD, YYYY'))
+            when license.days_left = 0 then 'expires today'
+            when license.days_left = 1 then 'expires tomorrow'
+            else format('expires in %s days', license.days_left)
+        end;
+
+        insert into public.notifications (recipient_id, title, body, link, dedupe_key)
+        select recipient, title, body, format('/directory/%s', license.staff_id),
+               concat_ws(':', 'license', license.id, license.expires_on, threshold, recipient)
+        from (values
+            (license.staff_id,
+             format('Your license %s', headline),
+             format('%s license %s. Send HR your renewal so your record stays current.',
+                    coalesce(license.regulatory_body, 'Practitioner'), license.license_number)),
+            (license.reports_to,
+             format('%s''s license %s', license.staff_name, headline),
+             format('%s license %s.', coalesce(license.regulatory_body, 'Practitioner'), license.license_number))
+        ) as v (recipient, title, body)
+        where recipient is not null
+        on conflict (dedupe_key) do nothing;
+
+        get diagnostics added = row_count;
+        sent := sent + added;
+    end loop;
+
+    perform public.sync_practitioner_license_number(p.id)
+    from public.staff_profiles p
+    where exists (select 1 from public.practitioner_licenses l where l.staff_id = p.id);
+
+    return sent;
+end;
+$$;
+
+revoke all on function public.send_license_reminders() from public, anon, authenticated;
+
+-- Licenses of current staff, for the expiry dashboard.
+create or replace view public.license_overview
+with (security_barrier = true)
+as
+select
+    l.id,
+    l.staff_id,
+    coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) as staff_name,
+    p.department,
+    p.job_title,
+    p.reports_to,
+    l.regulatory_body,
+    l.license_number,
+    l.issued_on,
+    l.expires_on,
+    l.status,
+    l.expires_on - current_date as days_until_expiry
+from public.practitioner_licenses l
+join public.staff_profiles p on p.id = l.staff_id
+where p.offboarded_at is null
+  and (public.has_capability('viewLicenses') or public.has_capability('manageLicenses'));
+
+revoke all on public.license_overview from anon, public;
+grant select on public.license_overview to authenticated;
+
+-- Daily, after the offboarding run
+select cron.schedule('send-license-reminders', '30 0 * * *', $$select public.send_license_reminders()$$);
+
+select public.send_license_reminders();
@@ -0,0 +1,194 @@
+-- Certifications and training records.
+-- Staff upload their own certificates (CPR, first aid, privacy training, ...)
+-- from the Dashboard with the type and dates. Files live in the private
+-- `certificates` bucket under a folder named after the staff member's id
+-- (<id>/<uuid>.<ext>) and are opened through short-lived signed URLs.
+-- Which certifications each department requires is configured in Admin Settings;
+-- certification_compliance lays that out per person for the compliance matrix.
+-- The new viewCompliance capability (executives, management and HR) gates the
+-- matrix and reading other people's certificates.
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+alter table public.roles add constraint roles_known_capabilities check (
+    capabilities <@ array[
+        'editStaff',
+        'viewHrFile',
+        'editHrFile',
+        'editLegalName',
+        'reviewProfileChanges',
+        'inviteStaff',
+        'importStaff',
+        'offboardStaff',
+        'viewLicenses',
+        'manageLicenses',
+        'viewCompliance',
+        'manageMatrix',
+        'manageRoles',
+        'manageOrganization',
+        'managePhotos',
+        'viewAllLocations',
+        'viewAuditLog'
+    ]::text[]
+);
+
+update public.roles
+set capabilities = array_append(capabilities, 'viewCompliance')
+where key in ('executive', 'management', 'hr_management', 'hr')
+  and not ('viewCompliance' = any(capabilities));
+
+create table if not exists public.certification_types (
+    key text primary key,
+    label text not null,
+    sort_order integer not null default 0,
+    archived_at timestamptz
+);
+
+insert into public.certification_types (key, label, sort_order) values
+    ('cpr', 'CPR', 10),
+    ('first_aid', 'First Aid', 20),
+    ('privacy_training', 'Privacy Training', 30)
+on conflict (key) do nothing;
+
+create table if not exists public.certification_requirements (
+    department text not null references public.departments (key) on update cascade on delete cascade,
+    certification_type text not null references public.certification_types (key) on update cascade on delete cascade,
+    primary key (department, certification_type)
+);
+
+insert into public.certification_requirements (department, certification_type)
+select 'clinical', key from public.certification_types
+where exists (select 1 from public.departments where key = 'clinical')
+on conflict do nothing;
+
+alter table public.certification_types enable row level security;
+alter table public.certification_requirements enable row level security;
+
+drop policy if exists "certification_types_select" on public.certification_types;
+create policy "certification_types_select" on public.certification_types
+    for select to authenticated
+    using (true);
+
+drop policy if exists "certification_types_write" on public.certification_types;
+create policy "certification_types_write" on public.certification_types
+    for all to authenticated
+    using (public.has_capability('manageOrganization'))
+    with check (public.has_capability('manageOrganization'));
+
+drop policy if exists "certification_requirements_select" on public.certification_requirements;
+create policy "certification_requirements_select" on public.certification_requirements
+    for select to authenticated
+    using (true);
+
+drop policy if exists "certification_requirements_write" on public.certification_requirements;
+create policy "certification_requirements_write" on public.certification_requirements
+    for all to authenticated
+    using (public.has_capability('manageOrganization'))
+    with check (public.has_capability('manageOrganization'));
+
+-- Certificates can't be edited: a renewal is a new upload, and a mistake is
+-- fixed by removing the upload and adding it again.
+create table if not exists public.staff_certifications (
+    id uuid primary key default gen_random_uuid(),
+    staff_id uuid not null references public.staff_profiles (id) on delete cascade,
+    certification_type text not null references public.certification_types (key) on update cascade,
+    issued_on date,
+    expires_on date,
+    file_path text not null unique,
+    file_name text not null,
+    uploaded_at timestamptz not null default now(),
+    constraint staff_certifications_dates check (expires_on is null or issued_on is null or expires_on >= issued_on),
+    constraint staff_certifications_own_folder check (split_part(file_path, '/', 1) = staff_id::text)
+);
+
+create index if not exists staff_certifications_staff_idx
+    on public.staff_certifications (staff_id, certification_type);
+
+alter table public.staff_certifications enable row level security;
+revoke update on public.staff_certifications from anon, authenticated;
+
+drop policy if exists "staff_certifications_select" on public.staff_certifications;
+create policy "staff_certifications_select" on public.staff_certifications
+    for select to authenticated
+    using (staff_id = auth.uid() or public.has_capability('viewCompliance'));
+
+drop policy if exists "staff_certifications_insert_own" on public.staff_certifications;
+create policy "staff_certifications_insert_own" on public.staff_certifications
+    for insert to authenticated
+    with check (staff_id = auth.uid());
+
+drop policy if exists "staff_certifications_delete_own" on public.staff_certifications;
+create policy "staff_certifications_delete_own" on public.staff_certifications
+    for delete to authenticated
+    using (staff_id = auth.uid());
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('certificates', 'certificates', false, 10485760, array['application/pdf', 'image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do update set
+    public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+-- True when the object path is inside the caller's own folder.
+create or replace function public.owns_certificate_file(object_name text)
+returns boolean
+language sql
+stable
+as $$
+    select auth.uid() is not null
+        and (storage.foldername(object_name))[1] = auth.uid()::text;
+$$;
+
+drop policy if exists "certificates_insert" on storage.objects;
+create policy "certificates_insert" on storage.objects
+    for insert to authenticated
+    with check (bucket_id = 'certificates' and public.owns_certificate_file(name));
+
+drop policy if exists "certificates_delete" on storage.objects;
+create policy "certificates_delete" on storage.objects
+    for delete to authenticated
+    using (bucket_id = 'certificates' and public.owns_certificate_file(name));
+
+drop policy if exists "certificates_select" on storage.objects;
+create policy "certificates_select" on storage.objects
+    for select to authenticated
+    using (bucket_id = 'certificates' and (public.owns_certificate_file(name) or public.has_capability('viewCompliance')));
+
+-- One row per current staff member and certification their department requires,
+-- with the certificate that lasts longest (no expiry date counts as never
+-- expiring). Status is valid, expiring (within 30 days), expired or missing.
+create or replace view public.certification_compliance
+with (security_barrier = true)
+as
+select
+    p.id as staff_id,
+    coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) as staff_name,
+    p.department,
+    p.job_title,
+    r.certification_type,
+    c.id as certification_id,
+    c.file_path,
+    c.file_name,
+    c.issued_on,
+    c.expires_on,
+    case
+        when c.id is null then 'missing'
+        when c.expires_on < current_date then 'expired'
+        when c.expires_on <= current_date + 30 then 'expiring'
+        else 'valid'
+    end as status
+from public.staff_profiles p
+join public.certification_requirements r on r.department = p.department
+join public.certification_types t on t.key = r.certification_type and t.archived_at is null
+left join lateral (
+    select sc.*
+    from public.staff_certifications sc
+    where sc.staff_id = p.id
+      and sc.certification_type = r.certification_type
+    order by sc.expires_on desc nulls first, sc.uploaded_at desc
+    limit 1
+) c on true
+where p.offboarded_at is null
+  and public.has_capability('viewCompliance');
+
+revoke all on public.certification_compliance from anon, public;
+grant select on public.certification_compliance to authenticated;
@@ -0,0 +1,83 @@
+-- Live updates for open sessions.
+-- Most staff can only read their own staff_profiles row, so Realtime on the table
+-- itself would not reach them. Instead every change to staff_profiles, roles and
+-- role_permissions bumps a row in change_signals naming what changed (never the
+-- data), and clients subscribed to it re-read through the masked views.
+-- One row per entity: a burst of edits to the same person is one row updated
+-- several times, and the table stays as small as the staff list.
+
+create table if not exists public.change_signals (
+    topic text not null check (topic in ('staff', 'roles', 'permissions')),
+    entity text not null,
+    changed_at timestamptz not null default now(),
+    primary key (topic, entity)
+);
+
+alter table public.change_signals enable row level security;
+revoke insert, update, delete on public.change_signals from anon, authenticated;
+
+drop policy if exists "change_signals_select" on public.change_signals;
+create policy "change_signals_select" on public.change_signals
+    for select to authenticated
+    using (true);
+
+create or replace function public.signal_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    signal_topic text := tg_argv[0];
+    changed record;
+    signal_entity text;
+begin
+    if tg_op = 'DELETE' then
+        changed := old;
+    else
+        changed := new;
+    end if;
+
+    if signal_topic = 'staff' then
+        signal_entity := changed.id::text;
+    elsif signal_topic = 'roles' then
+        signal_entity := changed.key;
+    else
+        signal_entity := changed.viewer_role;
+    end if;
+
+    insert into public.change_signals (topic, entity)
+    values (signal_topic, signal_entity)
+    on conflict (topic, entity) do update set changed_at = now();
+
+    return null;
+end;
+$$;
+
+revoke all on function public.signal_change() from public, anon, authenticated;
+
+drop trigger if exists signal_staff_change on public.staff_profiles;
+create trigger signal_staff_change
+    after insert or update or delete on public.staff_profiles
+    for each row execute function public.signal_change('staff');
+
+drop trigger if exists signal_role_change on public.roles;
+create trigger signal_role_change
+    after insert or update or delete on public.roles
+    for each row execute function public.signal_change('roles');
+
+drop trigger if exists signal_permission_change on public.role_permissions;
+create trigger signal_permission_change
+    after insert or update or delete on public.role_permissions
+    for each row execute function public.signal_change('permissions');
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'change_signals'
+    ) then
+        alter publication supabase_realtime add table public.change_signals;
+    end if;
+end;
+$$;
@@ -0,0 +1,123 @@
+-- Bulk editing for the Visibility Matrix.
+-- Admin Settings now edits a role's matrix as a draft and saves it in one call:
+-- save_role_permissions writes every department's rule for the role in a single
+-- transaction, so a role is never left half configured.
+-- Named presets (matrix_presets) hold a rule per department and can be loaded into
+-- any role's draft. Their rules follow department renames through the foreign key;
+-- rules for archived departments are ignored when a preset is applied.
+
+create or replace function public.save_role_permissions(role_key text, rules jsonb)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+    saved integer;
+begin
+    if not public.has_capability('manageMatrix') then
+        raise exception 'Not allowed to manage the visibility matrix.' using errcode = '42501';
+    end if;
+
+    if jsonb_typeof(rules) is distinct from 'array' then
+        raise exception 'rules must be an array' using errcode = '22023';
+    end if;
+
+    if not exists (select 1 from public.roles r where r.key = role_key) then
+        raise exception 'Role % does not exist.', role_key using errcode = 'P0002';
+    end if;
+
+    insert into public.role_permissions (viewer_role, target_department, can_view, visible_fields)
+    select role_key, r.target_department, coalesce(r.can_view, false), coalesce(r.visible_fields, '{}')
+    from jsonb_to_recordset(rules) as r (target_department text, can_view boolean, visible_fields text[])
+    on conflict (viewer_role, target_department) do update
+    set can_view = excluded.can_view,
+        visible_fields = excluded.visible_fields;
+
+    get diagnostics saved = row_count;
+    return saved;
+end;
+$$;
+
+revoke all on function public.save_role_permissions(text, jsonb) from public, anon;
+grant execute on function public.save_role_permissions(text, jsonb) to authenticated;
+
+create table if not exists public.matrix_presets (
+    id uuid primary key default gen_random_uuid(),
+    name text not null unique check (btrim(name) <> ''),
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.matrix_preset_rules (
+    preset_id uuid not null references public.matrix_presets (id) on delete cascade,
+    target_department text not null references public.departments (key) on update cascade on delete cascade,
+    can_view boolean not null default false,
+    visible_fields text[] not null default '{}',
+    primary key (preset_id, target_department)
+);
+
+alter table public.matrix_presets enable row level security;
+alter table public.matrix_preset_rules enable row level security;
+
+drop policy if exists "matrix_presets_all" on public.matrix_presets;
+create policy "matrix_presets_all" on public.matrix_presets
+    for all to authenticated
+    using (public.has_capability('manageMatrix'))
+    with check (public.has_capability('manageMatrix'));
+
+drop policy if exists "matrix_preset_rules_all" on public.matrix_preset_rules;
+create policy "matrix_preset_rules_all" on public.matrix_preset_rules
+    for all to authenticated
+    using (public.has_capability('manageMatrix'))
+    with check (public.has_capability('manageMatrix'));
+
+-- Creates the preset, or replaces the rules of the one with the same name.
+create or replace function public.save_matrix_preset(preset_name text, rules jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+    saved_id uuid;
+begin
+    if not public.has_capability('manageMatrix') then
+        raise exception 'Not allowed to manage the visibility matrix.' using errcode = '42501';
+    end if;
+
+    if jsonb_typeof(rules) is distinct from 'array' then
+        raise exception 'rules must be an array' using errcode = '22023';
+    end if;
+
+    if coalesce(btrim(preset_name), '') = '' then
+        raise exception 'A preset needs a name.' using errcode = '22023';
+    end if;
+
+    insert into public.matrix_presets (name)
+    values (btrim(preset_name))
+    on conflict (name) do update set name = excluded.name
+    returning id into saved_id;
+
+    delete from public.matrix_preset_rules where preset_id = saved_id;
+
+    insert into public.matrix_preset_rules (preset_id, target_department, can_view, visible_fields)
+    select saved_id, r.target_department, coalesce(r.can_view, false), coalesce(r.visible_fields, '{}')
+    from jsonb_to_recordset(rules) as r (target_department text, can_view boolean, visible_fields text[]);
+
+    return saved_id;
+end;
+$$;
+
+revoke all on function public.save_matrix_preset(text, jsonb) from public, anon;
+grant execute on function public.save_matrix_preset(text, jsonb) to authenticated;
+
+-- The fields the directory cards showed before field-level masking, for every
+-- department: a starting point for roles that should see the whole directory.
+insert into public.matrix_presets (name) values ('Directory basics')
+on conflict (name) do nothing;
+
+insert into public.matrix_preset_rules (preset_id, target_department, can_view, visible_fields)
+select p.id, d.key, true, array['preferred_name', 'display_name', 'profile_photo_url', 'job_title', 'role', 'clinic_locations']
+from public.matrix_presets p
+cross join public.departments d
+where p.name = 'Directory basics'
+  and d.archived_at is null
+on conflict do nothing;
@@ -0,0 +1,27 @@
+-- Location scoping follows the most restrictive role again.
+-- Capabilities are the union of a person's roles, so since the role registry a
+-- manager who is also a clinical provider or admin support picked up
+-- viewAllLocations from that role and saw every clinic. Before the registry, holding
+-- the management role was enough to keep them to their own locations.
+-- viewAllLocations now only applies when every role the person holds grants it.
+-- Headquarters staff still see every location.
+
+create or replace function public.directory_location_in_scope(target_locations text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select not exists (
+            select 1
+            from unnest(public.current_staff_roles()) as held(role_key)
+            left join public.roles r on r.key = held.role_key
+            where not coalesce('viewAllLocations' = any(r.capabilities), false)
+        )
+        or exists (
+            select 1 from public.locations l
+            where l.is_headquarters and l.name = any(public.current_staff_locations())
+        )
+        or coalesce(target_locations, '{}'::text[]) && public.current_staff_locations();
+$$;
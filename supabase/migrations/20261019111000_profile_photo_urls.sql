@@ -0,0 +1,150 @@
+-- Profile photos can only point at the profile-photos bucket.
+-- set_profile_photo used to store any URL, and staff could also write
+-- profile_photo_url directly through their self-update policy, so a photo could be
+-- an external image or tracking pixel loaded by every directory viewer and embedded
+-- in vCards. Now the URL must be the public URL of an uploaded object in the
+-- subject's own folder (profile-photos/<subject id>/), and only set_profile_photo
+-- may write the column.
+
+-- Photos already pointing anywhere else are dropped; staff can upload them again.
+update public.staff_profiles
+set profile_photo_url = null
+where profile_photo_url !~ ('^https?://[^/?#]+/storage/v1/object/public/profile-photos/' || id::text || '/[^/?#]+$');
+
+create or replace function public.set_profile_photo(subject_id uuid, photo_url text)
+returns public.staff_profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.staff_profiles;
+    object_name text;
+begin
+    if auth.uid() is null or (subject_id <> auth.uid() and not public.has_capability('managePhotos')) then
+        raise exception 'You do not have permission to change this photo'
+            using errcode = '42501';
+    end if;
+
+    if nullif(photo_url, '') is not null then
+        object_name := subject_id::text || '/'
+            || substring(photo_url from '^https?://[^/?#]+/storage/v1/object/public/profile-photos/' || subject_id::text || '/([^/?#]+)$');
+
+        if object_name is null
+            or not exists (select 1 from storage.objects o where o.bucket_id = 'profile-photos' and o.name = object_name) then
+            raise exception 'Profile photos must be uploaded to the profile-photos folder of the staff member'
+                using errcode = '22023';
+        end if;
+    end if;
+
+    perform set_config('phoenixhub.profile_photo', 'on', true);
+    update public.staff_profiles p
+    set profile_photo_url = nullif(photo_url, '')
+    where p.id = subject_id
+    returning p.* into saved;
+    perform set_config('phoenixhub.profile_photo', 'off', true);
+
+    if saved.id is null then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.set_profile_photo(uuid, text) from public, anon;
+grant execute on function public.set_profile_photo(uuid, text) to authenticated;
+
+-- Same as before, and profile_photo_url is only written by set_profile_photo.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+        and new.id = auth.uid()
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'Changes to your own legal or display name need HR approval.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is not null
+        and new.practitioner_license_number is distinct from old.practitioner_license_number
+        and current_setting('phoenixhub.license_sync', true) is distinct from 'on' then
+        raise exception 'License numbers come from the staff member''s license records; change those instead.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is not null
+        and new.profile_photo_url is distinct from old.profile_photo_url
+        and current_setting('phoenixhub.profile_photo', true) is distinct from 'on' then
+        raise exception 'Use set_profile_photo to change a profile photo.'
+            using errcode = '42501';
+    end if;
+
+    if auth.uid() is null or public.has_capability('editStaff') then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.license_sync', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.organization_sync', true) = 'on'
+        and (new.role, new.job_title, new.employee_id, new.practitioner_license_number,
+             new.employment_status, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.job_title, old.employee_id, old.practitioner_license_number,
+             old.employment_status, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if current_setting('phoenixhub.offboarding', true) = 'on'
+        and (new.role, new.department, new.clinic_locations, new.job_title, new.employee_id,
+             new.practitioner_license_number, new.employment_type, new.reports_to,
+             new.legal_first_name, new.legal_middle_name, new.legal_last_name, new.display_name)
+            is not distinct from
+            (old.role, old.department, old.clinic_locations, old.job_title, old.employee_id,
+             old.practitioner_license_number, old.employment_type, old.reports_to,
+             old.legal_first_name, old.legal_middle_name, old.legal_last_name, old.display_name) then
+        return new;
+    end if;
+
+    if new.role is distinct from old.role
+        or new.department is distinct from old.department
+        or new.clinic_locations is distinct from old.clinic_locations
+        or new.job_title is distinct from old.job_title
+        or new.employee_id is distinct from old.employee_id
+        or new.employment_status is distinct from old.employment_status
+        or new.employment_type is distinct from old.employment_type
+        or new.reports_to is distinct from old.reports_to then
+        raise exception 'You are not allowed to change role, department, location, manager or employment details.'
+            using errcode = '42501';
+    end if;
+
+    if not public.has_capability('editLegalName')
+        and (new.legal_first_name is distinct from old.legal_first_name
+            or new.legal_middle_name is distinct from old.legal_middle_name
+            or new.legal_last_name is distinct from old.legal_last_name
+            or new.display_name is distinct from old.display_name) then
+        raise exception 'You are not allowed to change legal or display names.'
+            using errcode = '42501';
+    end if;
+
+    return new;
+end;
+$$;
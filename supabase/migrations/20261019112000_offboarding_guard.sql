@@ -0,0 +1,61 @@
+-- Offboarding can't be used against someone with more access than the caller.
+-- offboardStaff is held by plain HR, so HR could offboard an executive or system
+-- admin, banning their account and ending their sessions straight away. Setting
+-- hr_records.end_date through save_hr_record (editHrFile) had the same effect the
+-- next night. A departure is now refused when the person holds any capability the
+-- caller doesn't. The check is a trigger on end_date, so it covers offboard_staff,
+-- cancel_offboarding and save_hr_record alike.
+
+-- True when the staff member holds a capability the caller lacks.
+create or replace function public.outranks_caller(subject_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.staff_profiles p
+        join public.roles r on r.key = any(p.role)
+        cross join lateral unnest(r.capabilities) as c(capability)
+        where p.id = outranks_caller.subject_id
+          and not public.has_capability(c.capability)
+    );
+$$;
+
+revoke all on function public.outranks_caller(uuid) from public, anon;
+grant execute on function public.outranks_caller(uuid) to authenticated;
+
+create or replace function public.guard_hr_end_date()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if auth.uid() is null then
+        return new;
+    end if;
+
+    if tg_op = 'UPDATE' then
+        if new.end_date is not distinct from old.end_date then
+            return new;
+        end if;
+    elsif new.end_date is null then
+        return new;
+    end if;
+
+    if public.outranks_caller(new.id) then
+        raise exception 'You cannot schedule or change a departure for someone with access you don''t have'
+            using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists guard_hr_end_date on public.hr_records;
+create trigger guard_hr_end_date
+    before insert or update of end_date on public.hr_records
+    for each row
+    execute function public.guard_hr_end_date();
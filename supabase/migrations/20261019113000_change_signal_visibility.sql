@@ -0,0 +1,19 @@
+-- Staff change signals are only visible for people the viewer can see.
+-- change_signals was readable in full, so anyone signed in could list the id of
+-- every staff member, hidden departments and former staff included, and when each
+-- was last changed. A staff signal is now visible only for the viewer's own row or
+-- a row directory_profiles shows them. Role and permission signals name role keys
+-- and stay visible to everyone. Someone who leaves the viewer's directory sends no
+-- signal it can see, so their card drops out on the viewer's next reload.
+
+drop policy if exists "change_signals_select" on public.change_signals;
+create policy "change_signals_select" on public.change_signals
+    for select to authenticated
+    using (
+        topic <> 'staff'
+        or entity = auth.uid()::text
+        or exists (
+            select 1 from public.directory_profiles d
+            where d.id::text = change_signals.entity
+        )
+    );
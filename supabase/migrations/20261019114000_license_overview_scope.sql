@@ -0,0 +1,61 @@
+-- The license dashboard follows directory visibility.
+-- license_overview and the viewLicenses read on practitioner_licenses were
+-- org-wide, so a clinic manager saw the name, department, job title, reporting
+-- line and license number of every current staff member, whatever their location
+-- or department. Both now only cover people directory_profiles shows the viewer,
+-- and the overview takes names and job details from that view, so the matrix
+-- masks apply too. License numbers need practitioner_license_number to be visible
+-- for the person's department, unless the viewer manages licenses.
+
+-- True when directory_profiles shows the staff member to the caller.
+create or replace function public.directory_includes(subject_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.directory_profiles d
+        where d.id = directory_includes.subject_id
+    );
+$$;
+
+revoke all on function public.directory_includes(uuid) from public, anon;
+grant execute on function public.directory_includes(uuid) to authenticated;
+
+drop policy if exists "practitioner_licenses_select" on public.practitioner_licenses;
+create policy "practitioner_licenses_select" on public.practitioner_licenses
+    for select to authenticated
+    using (
+        staff_id = auth.uid()
+        or public.is_manager_of(staff_id)
+        or public.has_capability('manageLicenses')
+        or (public.has_capability('viewLicenses') and public.directory_includes(staff_id))
+    );
+
+create or replace view public.license_overview
+with (security_barrier = true)
+as
+select
+    l.id,
+    l.staff_id,
+    coalesce(nullif(d.display_name, ''), concat_ws(' ', d.legal_first_name, d.legal_last_name)) as staff_name,
+    d.department,
+    d.job_title,
+    d.reports_to,
+    l.regulatory_body,
+    case
+        when public.has_capability('manageLicenses')
+            or 'practitioner_license_number' = any(public.directory_visible_fields(d.department))
+            then l.license_number
+    end as license_number,
+    l.issued_on,
+    l.expires_on,
+    l.status,
+    l.expires_on - current_date as days_until_expiry
+from public.practitioner_licenses l
+join public.directory_profiles d on d.id = l.staff_id
+where public.has_capability('viewLicenses') or public.has_capability('manageLicenses');
+
+revoke all on public.license_overview from anon, public;
+grant select on public.license_overview to authenticated;
@@ -0,0 +1,68 @@
+-- Certificates follow directory visibility.
+-- viewCompliance let a clinic manager list and download the certificates of staff
+-- at every location and in every department. Reading someone else's certificates,
+-- their files and their compliance rows now also needs directory_profiles to show
+-- that person, and the compliance matrix takes names and job titles from that view
+-- so the matrix masks apply.
+
+drop policy if exists "staff_certifications_select" on public.staff_certifications;
+create policy "staff_certifications_select" on public.staff_certifications
+    for select to authenticated
+    using (
+        staff_id = auth.uid()
+        or (public.has_capability('viewCompliance') and public.directory_includes(staff_id))
+    );
+
+-- True when the object is in the folder of someone the caller may review.
+create or replace function public.can_review_certificate_file(object_name text)
+returns boolean
+language sql
+stable
+as $$
+    select public.has_capability('viewCompliance')
+        and exists (
+            select 1 from public.directory_profiles d
+            where d.id::text = (storage.foldername(object_name))[1]
+        );
+$$;
+
+drop policy if exists "certificates_select" on storage.objects;
+create policy "certificates_select" on storage.objects
+    for select to authenticated
+    using (bucket_id = 'certificates' and (public.owns_certificate_file(name) or public.can_review_certificate_file(name)));
+
+create or replace view public.certification_compliance
+with (security_barrier = true)
+as
+select
+    d.id as staff_id,
+    coalesce(nullif(d.display_name, ''), concat_ws(' ', d.legal_first_name, d.legal_last_name)) as staff_name,
+    d.department,
+    d.job_title,
+    r.certification_type,
+    c.id as certification_id,
+    c.file_path,
+    c.file_name,
+    c.issued_on,
+    c.expires_on,
+    case
+        when c.id is null then 'missing'
+        when c.expires_on < current_date then 'expired'
+        when c.expires_on <= current_date + 30 then 'expiring'
+        else 'valid'
+    end as status
+from public.directory_profiles d
+join public.certification_requirements r on r.department = d.department
+join public.certification_types t on t.key = r.certification_type and t.archived_at is null
+left join lateral (
+    select sc.*
+    from public.staff_certifications sc
+    where sc.staff_id = d.id
+      and sc.certification_type = r.certification_type
+    order by sc.expires_on desc nulls first, sc.uploaded_at desc
+    limit 1
+) c on true
+where public.has_capability('viewCompliance');
+
+revoke all on public.certification_compliance from anon, public;
+grant select on public.certification_compliance to authenticated;
@@ -0,0 +1,107 @@
+-- HR record values are validated by save_hr_record, and the checks are validated.
+-- The checks were added NOT VALID so legacy rows could stay, but Postgres still
+-- checks a row on every later update: a record with an old bad SIN or date of
+-- birth could no longer be saved at all, even to change another field, and the
+-- error was a raw check violation. save_hr_record now rejects each bad value with
+-- a message naming it. The date of birth check no longer depends on today's date
+-- (the minimum working age is checked by save_hr_record instead), and each check
+-- is validated once no row breaks it. Rows that still do are reported below for
+-- HR to fix by hand.
+
+alter table public.hr_records drop constraint if exists hr_records_date_of_birth_sane;
+alter table public.hr_records add constraint hr_records_date_of_birth_sane
+    check (date_of_birth is null or date_of_birth >= date '1900-01-01') not valid;
+
+create or replace function public.save_hr_record(
+    subject_id uuid,
+    sin text,
+    date_of_birth date,
+    emergency_contact_name text,
+    emergency_contact_phone text,
+    end_date date
+)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+begin
+    if not public.has_capability('editHrFile') then
+        raise exception 'You do not have permission to edit HR files'
+            using errcode = '42501';
+    end if;
+
+    if not exists (select 1 from public.staff_profiles p where p.id = subject_id) then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    if nullif(sin, '') is not null and not public.is_valid_sin(sin) then
+        raise exception 'The SIN is not valid' using errcode = '22023';
+    end if;
+
+    if date_of_birth < date '1900-01-01' then
+        raise exception 'The date of birth is not valid' using errcode = '22023';
+    end if;
+
+    if date_of_birth > current_date - interval '14 years' then
+        raise exception 'Staff must be at least 14 years old' using errcode = '22023';
+    end if;
+
+    if end_date <= date_of_birth + interval '14 years' then
+        raise exception 'The end date is before this person could have started working'
+            using errcode = '22023';
+    end if;
+
+    if nullif(btrim(emergency_contact_phone), '') is not null and public.normalize_phone(emergency_contact_phone) is null then
+        raise exception 'The emergency contact phone is not a phone number' using errcode = '22023';
+    end if;
+
+    insert into public.hr_records as h (id, sin, date_of_birth, emergency_contact_name, emergency_contact_phone, end_date)
+    values (
+        subject_id,
+        nullif(sin, ''),
+        date_of_birth,
+        nullif(btrim(emergency_contact_name), ''),
+        public.normalize_phone(emergency_contact_phone),
+        end_date
+    )
+    on conflict (id) do update set
+        sin = excluded.sin,
+        date_of_birth = excluded.date_of_birth,
+        emergency_contact_name = excluded.emergency_contact_name,
+        emergency_contact_phone = excluded.emergency_contact_phone,
+        end_date = excluded.end_date
+    returning h.* into saved;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.save_hr_record(uuid, text, date, text, text, date) from public, anon;
+grant execute on function public.save_hr_record(uuid, text, date, text, text, date) to authenticated;
+
+-- Validate each check that no row breaks; report the records holding the rest back.
+do $$
+declare
+    checks constant text[][] := array[
+        ['hr_records_sin_valid', 'SIN', 'sin is not null and not public.is_valid_sin(sin)'],
+        ['hr_records_date_of_birth_sane', 'date of birth', 'date_of_birth < date ''1900-01-01'''],
+        ['hr_records_end_date_after_birth', 'end date', 'end_date <= date_of_birth + interval ''14 years'''],
+        ['hr_records_emergency_phone_format', 'emergency contact phone', 'emergency_contact_phone !~ ''^\+[1-9]\d{7,14}(;ext=\d{1,6})?$''']
+    ];
+    failing uuid[];
+begin
+    for i in 1..array_length(checks, 1) loop
+        execute format('select array_agg(id order by id) from public.hr_records where %s', checks[i][3])
+            into failing;
+
+        if failing is null then
+            execute format('alter table public.hr_records validate constraint %I', checks[i][1]);
+        else
+            raise notice 'HR records with a % to fix by hand: %', checks[i][2], array_to_string(failing, ', ');
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,150 @@
+-- Departures on HR records with legacy values.
+-- The hr_records checks are re-checked on every update of a row, so offboarding
+-- someone whose record still holds a legacy SIN, date of birth or phone that a
+-- check hasn't been validated against failed partway with a raw check violation.
+-- offboard_staff and cancel_offboarding now catch it and say which record needs
+-- fixing and what is wrong with it. process_offboarding only writes
+-- staff_profiles and is unaffected.
+
+-- Raises an error naming the staff member and the value that breaks a check.
+create or replace function public.report_hr_record_problem(subject_id uuid, constraint_name text)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    staff_name text;
+begin
+    select coalesce(nullif(p.display_name, ''), concat_ws(' ', p.legal_first_name, p.legal_last_name)) into staff_name
+    from public.staff_profiles p
+    where p.id = subject_id;
+
+    if constraint_name = 'hr_records_end_date_after_birth' then
+        raise exception 'This end date is before % could have started working. Check the date of birth in their HR file.', staff_name
+            using errcode = '22023';
+    end if;
+
+    raise exception '%''s HR file has %. Fix it before changing their departure.', staff_name,
+        case constraint_name
+            when 'hr_records_sin_valid' then 'a SIN that is not valid'
+            when 'hr_records_date_of_birth_sane' then 'a date of birth that is not valid'
+            when 'hr_records_emergency_phone_format' then 'an emergency contact phone that is not a phone number'
+            else 'values that are no longer valid'
+        end
+        using errcode = '22023';
+end;
+$$;
+
+revoke all on function public.report_hr_record_problem(uuid, text) from public, anon, authenticated;
+
+-- Records a departure. A date today or earlier takes effect immediately.
+create or replace function public.offboard_staff(subject_id uuid, end_date date, employment_status text)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+    violated text;
+begin
+    if not public.has_capability('offboardStaff') then
+        raise exception 'You do not have permission to offboard staff'
+            using errcode = '42501';
+    end if;
+
+    if subject_id = auth.uid() then
+        raise exception 'You cannot offboard yourself' using errcode = '22023';
+    end if;
+
+    if end_date is null then
+        raise exception 'An end date is required' using errcode = '22023';
+    end if;
+
+    if nullif(btrim(employment_status), '') is null then
+        raise exception 'An employment status is required' using errcode = '22023';
+    end if;
+
+    if exists (select 1 from public.staff_profiles p where p.id = subject_id and p.offboarded_at is not null) then
+        raise exception 'This person has already been offboarded' using errcode = '22023';
+    end if;
+
+    perform set_config('phoenixhub.offboarding', 'on', true);
+    update public.staff_profiles p
+    set employment_status = btrim(offboard_staff.employment_status)
+    where p.id = subject_id;
+
+    if not found then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+    perform set_config('phoenixhub.offboarding', 'off', true);
+
+    begin
+        insert into public.hr_records as h (id, end_date)
+        values (subject_id, offboard_staff.end_date)
+        on conflict (id) do update set end_date = excluded.end_date
+        returning h.* into saved;
+    exception when check_violation then
+        get stacked diagnostics violated = constraint_name;
+        perform public.report_hr_record_problem(subject_id, violated);
+    end;
+
+    if offboard_staff.end_date <= current_date then
+        perform public.process_offboarding();
+    end if;
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.offboard_staff(uuid, date, text) from public, anon;
+grant execute on function public.offboard_staff(uuid, date, text) to authenticated;
+
+-- Withdraws a departure that hasn't happened yet.
+create or replace function public.cancel_offboarding(subject_id uuid, employment_status text)
+returns public.hr_records
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    saved public.hr_records;
+    violated text;
+begin
+    if not public.has_capability('offboardStaff') then
+        raise exception 'You do not have permission to offboard staff'
+            using errcode = '42501';
+    end if;
+
+    if exists (select 1 from public.staff_profiles p where p.id = subject_id and p.offboarded_at is not null) then
+        raise exception 'This departure has already taken effect' using errcode = '22023';
+    end if;
+
+    begin
+        update public.hr_records h
+        set end_date = null
+        where h.id = subject_id
+        returning h.* into saved;
+    exception when check_violation then
+        get stacked diagnostics violated = constraint_name;
+        perform public.report_hr_record_problem(subject_id, violated);
+    end;
+
+    if not found then
+        raise exception 'Staff member not found' using errcode = 'P0002';
+    end if;
+
+    perform set_config('phoenixhub.offboarding', 'on', true);
+    update public.staff_profiles p
+    set employment_status = nullif(btrim(cancel_offboarding.employment_status), '')
+    where p.id = subject_id;
+    perform set_config('phoenixhub.offboarding', 'off', true);
+
+    return saved;
+end;
+$$;
+
+revoke all on function public.cancel_offboarding(uuid, text) from public, anon;
+grant execute on function public.cancel_offboarding(uuid, text) to authenticated;
@@ -0,0 +1,77 @@
+-- Staff change signals also reach viewers who could see the person before.
+-- Since staff signals were limited to people the viewer can see, someone who was
+-- offboarded or moved to a department or location the viewer can't see sent that
+-- viewer no signal, and their card stayed on screen until a reload. Each staff
+-- change now remembers where the person was before it, in a table that isn't
+-- published or readable by clients, and the select policy also admits viewers who
+-- could see them there. The signal still only carries the id: re-reading it
+-- through directory_profiles returns nothing, and the client drops the card.
+
+create table if not exists public.staff_signal_scopes (
+    staff_id uuid primary key,
+    department text,
+    clinic_locations text[]
+);
+
+alter table public.staff_signal_scopes enable row level security;
+revoke all on public.staff_signal_scopes from anon, authenticated;
+
+-- Where the staff member was in the directory before their latest change.
+create or replace function public.remember_staff_signal_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if old.offboarded_at is null then
+        insert into public.staff_signal_scopes (staff_id, department, clinic_locations)
+        values (old.id, old.department, old.clinic_locations)
+        on conflict (staff_id) do update set
+            department = excluded.department,
+            clinic_locations = excluded.clinic_locations;
+    else
+        delete from public.staff_signal_scopes where staff_id = old.id;
+    end if;
+    return null;
+end;
+$$;
+
+revoke all on function public.remember_staff_signal_scope() from public, anon, authenticated;
+
+drop trigger if exists remember_staff_signal_scope on public.staff_profiles;
+create trigger remember_staff_signal_scope
+    after update or delete on public.staff_profiles
+    for each row execute function public.remember_staff_signal_scope();
+
+-- True when the caller could see the staff member before their latest change.
+create or replace function public.directory_included_before(entity text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1 from public.staff_signal_scopes s
+        where s.staff_id::text = directory_included_before.entity
+          and public.directory_visible_fields(s.department) is not null
+          and public.directory_location_in_scope(s.clinic_locations)
+    );
+$$;
+
+revoke all on function public.directory_included_before(text) from public, anon;
+grant execute on function public.directory_included_before(text) to authenticated;
+
+drop policy if exists "change_signals_select" on public.change_signals;
+create policy "change_signals_select" on public.change_signals
+    for select to authenticated
+    using (
+        topic <> 'staff'
+        or entity = auth.uid()::text
+        or exists (
+            select 1 from public.directory_profiles d
+            where d.id::text = change_signals.entity
+        )
+        or public.directory_included_before(entity)
+    );
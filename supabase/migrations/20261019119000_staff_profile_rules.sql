@@ -0,0 +1,142 @@
+-- Capabilities and staff_profiles column rules live in tables.
+-- Every migration that added a capability re-declared the roles_known_capabilities
+-- check in full, and every one that protected a staff_profiles column or added a
+-- phoenixhub.* bypass flag rewrote guard_staff_profile_update by hand, re-merging
+-- each earlier bypass; missing one would quietly reopen a hole. Now a capability
+-- is a row in capabilities, and a guarded column is a row in
+-- staff_profile_column_rules naming who may change it. Later migrations insert
+-- rows instead of replacing the check or the trigger.
+
+create table if not exists public.capabilities (
+    key text primary key
+);
+
+insert into public.capabilities (key) values
+    ('editStaff'),
+    ('viewHrFile'),
+    ('editHrFile'),
+    ('editLegalName'),
+    ('reviewProfileChanges'),
+    ('inviteStaff'),
+    ('importStaff'),
+    ('offboardStaff'),
+    ('viewLicenses'),
+    ('manageLicenses'),
+    ('viewCompliance'),
+    ('manageMatrix'),
+    ('manageRoles'),
+    ('manageOrganization'),
+    ('managePhotos'),
+    ('viewAllLocations'),
+    ('viewAuditLog')
+on conflict (key) do nothing;
+
+alter table public.capabilities enable row level security;
+revoke insert, update, delete on public.capabilities from anon, authenticated;
+
+drop policy if exists "capabilities_select" on public.capabilities;
+create policy "capabilities_select" on public.capabilities
+    for select to authenticated
+    using (true);
+
+alter table public.roles drop constraint if exists roles_known_capabilities;
+
+create or replace function public.check_role_capabilities()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    unknown text;
+begin
+    select c.capability into unknown
+    from unnest(new.capabilities) as c(capability)
+    where not exists (select 1 from public.capabilities k where k.key = c.capability)
+    limit 1;
+
+    if unknown is not null then
+        raise exception 'Unknown capability: %', unknown using errcode = '23514';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists check_role_capabilities on public.roles;
+create trigger check_role_capabilities
+    before insert or update of capabilities on public.roles
+    for each row execute function public.check_role_capabilities();
+
+-- Columns signed-in users may only change with one of the capabilities, or while a
+-- function that owns the column has set one of the phoenixhub.<flag> settings.
+-- A self_message means nobody may change the column on their own row.
+create table if not exists public.staff_profile_column_rules (
+    column_name text primary key,
+    capabilities text[] not null default '{}',
+    bypass_flags text[] not null default '{}',
+    message text not null,
+    self_message text
+);
+
+alter table public.staff_profile_column_rules enable row level security;
+revoke all on public.staff_profile_column_rules from anon, authenticated;
+
+insert into public.staff_profile_column_rules (column_name, capabilities, bypass_flags, message, self_message) values
+    ('role', '{editStaff}', '{}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('department', '{editStaff}', '{organization_sync}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('clinic_locations', '{editStaff}', '{organization_sync}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('job_title', '{editStaff}', '{}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('employee_id', '{editStaff}', '{}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('employment_status', '{editStaff}', '{offboarding}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('employment_type', '{editStaff}', '{}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('reports_to', '{editStaff}', '{}', 'You are not allowed to change role, department, location, manager or employment details.', null),
+    ('legal_first_name', '{editStaff,editLegalName}', '{}', 'You are not allowed to change legal or display names.', 'Changes to your own legal or display name need HR approval.'),
+    ('legal_middle_name', '{editStaff,editLegalName}', '{}', 'You are not allowed to change legal or display names.', 'Changes to your own legal or display name need HR approval.'),
+    ('legal_last_name', '{editStaff,editLegalName}', '{}', 'You are not allowed to change legal or display names.', 'Changes to your own legal or display name need HR approval.'),
+    ('display_name', '{editStaff,editLegalName}', '{}', 'You are not allowed to change legal or display names.', 'Changes to your own legal or display name need HR approval.'),
+    ('practitioner_license_number', '{}', '{license_sync}', 'License numbers come from the staff member''s license records; change those instead.', null),
+    ('profile_photo_url', '{}', '{profile_photo}', 'Use set_profile_photo to change a profile photo.', null)
+on conflict (column_name) do update set
+    capabilities = excluded.capabilities,
+    bypass_flags = excluded.bypass_flags,
+    message = excluded.message,
+    self_message = excluded.self_message;
+
+-- Self-service updates may only touch the columns the rules above allow.
+create or replace function public.guard_staff_profile_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    rule public.staff_profile_column_rules;
+    before_row jsonb := to_jsonb(old);
+    after_row jsonb := to_jsonb(new);
+begin
+    if auth.uid() is null then
+        return new;
+    end if;
+
+    for rule in select * from public.staff_profile_column_rules order by column_name loop
+        continue when after_row -> rule.column_name is not distinct from before_row -> rule.column_name;
+
+        if rule.self_message is not null and new.id = auth.uid() then
+            raise exception '%', rule.self_message using errcode = '42501';
+        end if;
+
+        continue when exists (
+            select 1 from unnest(rule.bypass_flags) as f(flag)
+            where current_setting('phoenixhub.' || f.flag, true) = 'on'
+        );
+        continue when exists (
+            select 1 from unnest(rule.capabilities) as c(capability)
+            where public.has_capability(c.capability)
+        );
+
+        raise exception '%', rule.message using errcode = '42501';
+    end loop;
+
+    return new;
+end;
+$$;
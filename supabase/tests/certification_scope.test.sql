@@ -0,0 +1,69 @@
+-- Certificates are only visible for staff in the viewer's directory.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email) values
+    ('f0000000-0000-4000-8000-000000000001', 'manager.certs@phoenixrehab.ca'),
+    ('f0000000-0000-4000-8000-000000000002', 'burnaby.certs@phoenixrehab.ca'),
+    ('f0000000-0000-4000-8000-000000000003', 'richmond.certs@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department, clinic_locations) values
+    ('f0000000-0000-4000-8000-000000000001', 'Manager', 'Certs', '{management}', 'clinical', '{Burnaby}'),
+    ('f0000000-0000-4000-8000-000000000002', 'Burnaby', 'Certs', '{clinical_provider}', 'clinical', '{Burnaby}'),
+    ('f0000000-0000-4000-8000-000000000003', 'Richmond', 'Certs', '{clinical_provider}', 'clinical', '{Richmond}');
+
+insert into public.staff_certifications (staff_id, certification_type, expires_on, file_path, file_name) values
+    ('f0000000-0000-4000-8000-000000000002', 'cpr', current_date + 200, 'f0000000-0000-4000-8000-000000000002/cpr.pdf', 'cpr.pdf'),
+    ('f0000000-0000-4000-8000-000000000003', 'cpr', current_date + 200, 'f0000000-0000-4000-8000-000000000003/cpr.pdf', 'cpr.pdf');
+
+insert into storage.objects (bucket_id, name) values
+    ('certificates', 'f0000000-0000-4000-8000-000000000002/cpr.pdf'),
+    ('certificates', 'f0000000-0000-4000-8000-000000000003/cpr.pdf');
+
+delete from public.role_permissions where viewer_role = 'management';
+insert into public.role_permissions (viewer_role, target_department, can_view, visible_fields) values
+    ('management', 'clinical', true, '{job_title}');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "f0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+    $$ select staff_id::text from public.staff_certifications where staff_id::text like 'f0000000-%' order by 1 $$,
+    array['f0000000-0000-4000-8000-000000000002'],
+    'A clinic manager only reads certificates of staff at their own clinics'
+);
+
+select results_eq(
+    $$ select name from storage.objects where bucket_id = 'certificates' and name like 'f0000000-%' order by 1 $$,
+    array['f0000000-0000-4000-8000-000000000002/cpr.pdf'],
+    'A clinic manager can only download certificate files at their own clinics'
+);
+
+select results_eq(
+    $$ select distinct staff_name from public.certification_compliance where staff_name like '% Certs' order by 1 $$,
+    array['Burnaby Certs', 'Manager Certs'],
+    'The compliance matrix only lists staff at the manager''s clinics'
+);
+
+set local request.jwt.claims = '{"sub": "f0000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+select results_eq(
+    $$ select name from storage.objects where bucket_id = 'certificates' and name like 'f0000000-%' $$,
+    array['f0000000-0000-4000-8000-000000000003/cpr.pdf'],
+    'Staff can download their own certificates'
+);
+
+select is(
+    (select count(*)::int from public.certification_compliance),
+    0,
+    'Staff without viewCompliance get no compliance rows'
+);
+
+select * from finish();
+
+rollback;
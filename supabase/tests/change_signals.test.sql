@@ -0,0 +1,84 @@
+-- Change signals only name staff the viewer can see. Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+insert into auth.users (id, email) values
+    ('d0000000-0000-4000-8000-000000000001', 'clinician.signals@phoenixrehab.ca'),
+    ('d0000000-0000-4000-8000-000000000002', 'colleague.signals@phoenixrehab.ca'),
+    ('d0000000-0000-4000-8000-000000000003', 'finance.signals@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department) values
+    ('d0000000-0000-4000-8000-000000000001', 'Clinician', 'Signals', '{clinical_provider}', 'clinical'),
+    ('d0000000-0000-4000-8000-000000000002', 'Colleague', 'Signals', '{clinical_provider}', 'clinical'),
+    ('d0000000-0000-4000-8000-000000000003', 'Finance', 'Signals', '{}', 'finance');
+
+delete from public.role_permissions where viewer_role = 'clinical_provider';
+insert into public.role_permissions (viewer_role, target_department, can_view, visible_fields) values
+    ('clinical_provider', 'clinical', true, '{job_title}'),
+    ('clinical_provider', 'finance', false, '{}');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "d0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select ok(
+    exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000001'),
+    'Staff see signals about themselves'
+);
+
+select ok(
+    exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000002'),
+    'Staff see signals about colleagues in their directory'
+);
+
+select ok(
+    not exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000003'),
+    'Staff do not see signals about people hidden from them'
+);
+
+select ok(
+    exists (select 1 from public.change_signals where topic = 'permissions' and entity = 'clinical_provider'),
+    'Permission signals stay visible'
+);
+
+-- Someone leaves the viewer's directory: the viewer still hears about it
+reset role;
+set local request.jwt.claims = '';
+update public.staff_profiles set department = 'finance' where id = 'd0000000-0000-4000-8000-000000000002';
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "d0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select ok(
+    exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000002'),
+    'Staff see the signal when a colleague moves to a department hidden from them'
+);
+
+reset role;
+set local request.jwt.claims = '';
+update public.staff_profiles set department = 'clinical' where id = 'd0000000-0000-4000-8000-000000000002';
+update public.staff_profiles set offboarded_at = now() where id = 'd0000000-0000-4000-8000-000000000002';
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "d0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select ok(
+    exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000002'),
+    'Staff see the signal when a colleague is offboarded'
+);
+
+reset role;
+set local request.jwt.claims = '';
+update public.staff_profiles set bio = 'Still hidden' where id = 'd0000000-0000-4000-8000-000000000003';
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "d0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select ok(
+    not exists (select 1 from public.change_signals where topic = 'staff' and entity = 'd0000000-0000-4000-8000-000000000003'),
+    'Signals about people who were hidden before and after stay hidden'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,254 @@
+-- Directory masking and staff_profiles row security. Run with `supabase test db`.
+-- Signs in as a staff member of each role and checks which directory rows and
+-- fields they get, and what they may read and change in staff_profiles.
+-- Everything runs in one transaction and is rolled back.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(27);
+
+-- Staff, created as the service role would. Legal names are never masked, so the
+-- tests find their own rows by legal_last_name.
+insert into auth.users (id, email) values
+    ('a0000000-0000-4000-8000-000000000001', 'exec.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000002', 'hr.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000003', 'manager.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000004', 'clinician.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000005', 'mixed.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000006', 'finance.pgtap@phoenixrehab.ca'),
+    ('a0000000-0000-4000-8000-000000000007', 'former.pgtap@phoenixrehab.ca');
+
+insert into public.staff_profiles
+    (id, legal_first_name, legal_last_name, role, department, clinic_locations, job_title, work_phone, work_email, bio, offboarded_at)
+values
+    ('a0000000-0000-4000-8000-000000000001', 'Exec', 'Pgtap', '{executive}', 'executive', '{Headquarter}', 'Chief Executive', '604-555-0101', 'exec.pgtap@phoenixrehab.ca', 'Exec bio', null),
+    ('a0000000-0000-4000-8000-000000000002', 'Hr', 'Pgtap', '{hr}', 'hr', '{Burnaby}', 'HR Advisor', '604-555-0102', 'hr.pgtap@phoenixrehab.ca', 'HR bio', null),
+    ('a0000000-0000-4000-8000-000000000003', 'Manager', 'Pgtap', '{management}', 'clinical', '{Burnaby}', 'Clinic Manager', '604-555-0103', 'manager.pgtap@phoenixrehab.ca', 'Manager bio', null),
+    ('a0000000-0000-4000-8000-000000000004', 'Clinician', 'Pgtap', '{clinical_provider}', 'clinical', '{Richmond}', 'Physiotherapist', '604-555-0104', 'clinician.pgtap@phoenixrehab.ca', 'Clinician bio', null),
+    ('a0000000-0000-4000-8000-000000000005', 'Mixed', 'Pgtap', '{management,clinical_provider}', 'clinical', '{Burnaby}', 'Lead Physiotherapist', '604-555-0105', 'mixed.pgtap@phoenixrehab.ca', 'Mixed bio', null),
+    ('a0000000-0000-4000-8000-000000000006', 'Finance', 'Pgtap', '{}', 'finance', '{Burnaby}', 'Accountant', '604-555-0106', 'finance.pgtap@phoenixrehab.ca', 'Finance bio', null),
+    ('a0000000-0000-4000-8000-000000000007', 'Former', 'Pgtap', '{clinical_provider}', 'clinical', '{Burnaby}', 'Massage Therapist', '604-555-0107', 'former.pgtap@phoenixrehab.ca', 'Former bio', now());
+
+-- The matrix under test
+delete from public.role_permissions
+where viewer_role in ('executive', 'hr', 'management', 'clinical_provider');
+
+insert into public.role_permissions (viewer_role, target_department, can_view, visible_fields) values
+    ('executive', 'executive', true, '{job_title,work_phone,work_email,bio}'),
+    ('executive', 'hr', true, '{job_title,work_phone,work_email,bio}'),
+    ('executive', 'clinical', true, '{job_title,work_phone,work_email,bio}'),
+    ('executive', 'finance', true, '{job_title,work_phone,work_email,bio}'),
+    ('hr', 'finance', true, '{bio}'),
+    ('management', 'clinical', true, '{job_title,work_phone}'),
+    ('clinical_provider', 'clinical', true, '{job_title}'),
+    -- Fields listed for a hidden department must not leak
+    ('clinical_provider', 'finance', false, '{bio}');
+
+-- Executive: every department and location, every granted field
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.directory_profiles where legal_last_name = 'Pgtap' order by 1 $$,
+    array['Clinician', 'Exec', 'Finance', 'Hr', 'Manager', 'Mixed'],
+    'Executive sees every current staff member, but not former staff'
+);
+
+select is(
+    (select bio from public.directory_profiles where legal_first_name = 'Finance' and legal_last_name = 'Pgtap'),
+    'Finance bio',
+    'Executive sees granted fields'
+);
+
+select is(
+    (select employee_id from public.directory_profiles where legal_first_name = 'Finance' and legal_last_name = 'Pgtap'),
+    null,
+    'Fields no role grants are masked even for executives'
+);
+
+-- Manager: own department only, and only colleagues at their own clinics
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.directory_profiles where legal_last_name = 'Pgtap' order by 1 $$,
+    array['Manager', 'Mixed'],
+    'Manager sees clinical staff at Burnaby only'
+);
+
+select is(
+    (select work_phone is not null from public.directory_profiles where legal_first_name = 'Mixed' and legal_last_name = 'Pgtap'),
+    true,
+    'Manager sees a granted field'
+);
+
+select is(
+    (select bio from public.directory_profiles where legal_first_name = 'Mixed' and legal_last_name = 'Pgtap'),
+    null,
+    'Manager does not see bio'
+);
+
+select is(
+    (select work_email from public.directory_profiles where legal_first_name = 'Mixed' and legal_last_name = 'Pgtap'),
+    null,
+    'Manager does not see work email'
+);
+
+-- Manager who is also a clinical provider: still scoped to their own clinics
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000005", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.directory_profiles where legal_last_name = 'Pgtap' order by 1 $$,
+    array['Manager', 'Mixed'],
+    'A second role does not lift the management location scope'
+);
+
+select is(
+    (select work_phone is not null from public.directory_profiles where legal_first_name = 'Manager' and legal_last_name = 'Pgtap'),
+    true,
+    'Several roles get the union of their fields'
+);
+
+-- Clinical provider: every location, own department, job title only
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.directory_profiles where legal_last_name = 'Pgtap' order by 1 $$,
+    array['Clinician', 'Manager', 'Mixed'],
+    'Clinical provider sees clinical staff at every location, and no hidden department'
+);
+
+select is(
+    (select job_title from public.directory_profiles where legal_first_name = 'Manager' and legal_last_name = 'Pgtap'),
+    'Clinic Manager',
+    'Clinical provider sees job titles'
+);
+
+select is(
+    (select work_phone from public.directory_profiles where legal_first_name = 'Manager' and legal_last_name = 'Pgtap'),
+    null,
+    'Clinical provider does not see work phones'
+);
+
+-- HR: only the departments the matrix gives them
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.directory_profiles where legal_last_name = 'Pgtap' order by 1 $$,
+    array['Finance'],
+    'HR sees only the departments in their matrix'
+);
+
+-- No roles: nothing
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000006", "role": "authenticated"}';
+
+select is(
+    (select count(*)::int from public.directory_profiles where legal_last_name = 'Pgtap'),
+    0,
+    'Staff without roles see nobody in the directory'
+);
+
+-- staff_profiles: own row only, unless they hold viewHrFile or editStaff
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select results_eq(
+    $$ select legal_first_name from public.staff_profiles where legal_last_name = 'Pgtap' $$,
+    array['Clinician'],
+    'Staff read only their own staff_profiles row'
+);
+
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select is(
+    (select count(*)::int from public.staff_profiles where legal_last_name = 'Pgtap'),
+    7,
+    'HR reads every staff_profiles row, former staff included'
+);
+
+-- Self-service updates
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select lives_ok(
+    $$ update public.staff_profiles set bio = 'Updated bio' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    'Staff can change their own bio'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set job_title = 'Director' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    '42501', null,
+    'Staff cannot change their own job title'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set role = '{executive}' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    '42501', null,
+    'Staff cannot give themselves a role'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set department = 'executive' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    '42501', null,
+    'Staff cannot move themselves to another department'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set clinic_locations = '{Headquarter}' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    '42501', null,
+    'Staff cannot move themselves to another location'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set legal_first_name = 'Someone' where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    '42501', null,
+    'Staff cannot change their own legal name directly'
+);
+
+-- Updates to someone else's row are filtered out by row security
+update public.staff_profiles set bio = 'Defaced' where id = 'a0000000-0000-4000-8000-000000000006';
+
+-- HR without editStaff cannot change role or department either
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select throws_ok(
+    $$ update public.staff_profiles set department = 'executive' where id = 'a0000000-0000-4000-8000-000000000002' $$,
+    '42501', null,
+    'HR cannot change their own department'
+);
+
+-- Executives edit other people's job details
+set local request.jwt.claims = '{"sub": "a0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select lives_ok(
+    $$ update public.staff_profiles set job_title = 'Senior Physiotherapist', role = '{clinical_provider,management}'
+       where id = 'a0000000-0000-4000-8000-000000000004' $$,
+    'Executives can change job title and roles'
+);
+
+-- Not signed in: no directory at all
+set local role anon;
+set local request.jwt.claims = '{"role": "anon"}';
+
+select throws_ok(
+    $$ select * from public.directory_profiles $$,
+    '42501', null,
+    'Anonymous visitors cannot read the directory'
+);
+
+reset role;
+
+select is(
+    (select bio from public.staff_profiles where id = 'a0000000-0000-4000-8000-000000000004'),
+    'Updated bio',
+    'The own-bio update was saved'
+);
+
+select is(
+    (select bio from public.staff_profiles where id = 'a0000000-0000-4000-8000-000000000006'),
+    'Finance bio',
+    'Updating someone else''s row changed nothing'
+);
+
+select * from finish();
+
+rollback;
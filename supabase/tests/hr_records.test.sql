@@ -0,0 +1,62 @@
+-- save_hr_record rejects bad values with a message naming them.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+    ('a1000000-0000-4000-8000-000000000001', 'hr.records@phoenixrehab.ca'),
+    ('a1000000-0000-4000-8000-000000000002', 'clinician.records@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department) values
+    ('a1000000-0000-4000-8000-000000000001', 'Hr', 'Records', '{hr}', 'hr'),
+    ('a1000000-0000-4000-8000-000000000002', 'Clinician', 'Records', '{clinical_provider}', 'clinical');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "a1000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select throws_ok(
+    $$ select public.save_hr_record('a1000000-0000-4000-8000-000000000002', '123456789', null, null, null, null) $$,
+    '22023', 'The SIN is not valid',
+    'A SIN failing the Luhn check is rejected'
+);
+
+select throws_ok(
+    $$ select public.save_hr_record('a1000000-0000-4000-8000-000000000002', null, current_date - 365, null, null, null) $$,
+    '22023', 'Staff must be at least 14 years old',
+    'A date of birth under the working age is rejected'
+);
+
+select throws_ok(
+    $$ select public.save_hr_record('a1000000-0000-4000-8000-000000000002', null, '1990-01-01', null, null, '2000-01-01') $$,
+    '22023', 'The end date is before this person could have started working',
+    'An end date before the working age is rejected'
+);
+
+select throws_ok(
+    $$ select public.save_hr_record('a1000000-0000-4000-8000-000000000002', null, null, 'Pat', 'call the front desk', null) $$,
+    '22023', 'The emergency contact phone is not a phone number',
+    'An emergency phone that is not a number is rejected'
+);
+
+select is(
+    (select emergency_contact_phone from public.save_hr_record('a1000000-0000-4000-8000-000000000002', '046454286', '1990-01-01', 'Pat', '604-555-0199', null)),
+    '+16045550199',
+    'Valid values are saved, with the phone in E.164'
+);
+
+reset role;
+
+select is(
+    (select bool_and(convalidated) from pg_constraint
+     where conrelid = 'public.hr_records'::regclass and contype = 'c'),
+    true,
+    'Every hr_records check is validated'
+);
+
+select * from finish();
+
+rollback;
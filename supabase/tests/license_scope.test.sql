@@ -0,0 +1,72 @@
+-- The license dashboard only covers staff in the viewer's directory.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email) values
+    ('e0000000-0000-4000-8000-000000000001', 'manager.licenses@phoenixrehab.ca'),
+    ('e0000000-0000-4000-8000-000000000002', 'burnaby.licenses@phoenixrehab.ca'),
+    ('e0000000-0000-4000-8000-000000000003', 'richmond.licenses@phoenixrehab.ca'),
+    ('e0000000-0000-4000-8000-000000000004', 'hr.licenses@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department, clinic_locations) values
+    ('e0000000-0000-4000-8000-000000000001', 'Manager', 'Licenses', '{management}', 'clinical', '{Burnaby}'),
+    ('e0000000-0000-4000-8000-000000000002', 'Burnaby', 'Licenses', '{clinical_provider}', 'clinical', '{Burnaby}'),
+    ('e0000000-0000-4000-8000-000000000003', 'Richmond', 'Licenses', '{clinical_provider}', 'clinical', '{Richmond}'),
+    ('e0000000-0000-4000-8000-000000000004', 'Hr', 'Licenses', '{hr}', 'hr', '{Burnaby}');
+
+insert into public.practitioner_licenses (staff_id, regulatory_body, license_number, expires_on) values
+    ('e0000000-0000-4000-8000-000000000002', 'CPTBC', 'BUR-1', current_date + 45),
+    ('e0000000-0000-4000-8000-000000000003', 'CPTBC', 'RIC-1', current_date + 45);
+
+delete from public.role_permissions where viewer_role in ('management', 'hr');
+insert into public.role_permissions (viewer_role, target_department, can_view, visible_fields) values
+    ('management', 'clinical', true, '{job_title}'),
+    ('hr', 'clinical', true, '{practitioner_license_number}');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "e0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+    $$ select staff_name from public.license_overview where staff_name like '% Licenses' $$,
+    array['Burnaby Licenses'],
+    'A clinic manager only sees licenses of staff at their own clinics'
+);
+
+select is(
+    (select count(*)::int from public.practitioner_licenses where staff_id = 'e0000000-0000-4000-8000-000000000003'),
+    0,
+    'A clinic manager cannot read licenses at other clinics directly'
+);
+
+select is(
+    (select license_number from public.license_overview where staff_id = 'e0000000-0000-4000-8000-000000000002'),
+    null,
+    'License numbers stay masked when the matrix hides them'
+);
+
+set local request.jwt.claims = '{"sub": "e0000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select results_eq(
+    $$ select license_number from public.license_overview where staff_name like '% Licenses' order by 1 $$,
+    array['BUR-1', 'RIC-1'],
+    'HR sees every clinic in a department the matrix shows them'
+);
+
+reset role;
+delete from public.role_permissions where viewer_role = 'hr';
+set local role authenticated;
+
+select is(
+    (select count(*)::int from public.license_overview where staff_name like '% Licenses'),
+    0,
+    'Nobody sees licenses in a department hidden from them'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,59 @@
+-- Offboarding is refused for staff with access the caller doesn't have.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+    ('c0000000-0000-4000-8000-000000000001', 'exec.offboard@phoenixrehab.ca'),
+    ('c0000000-0000-4000-8000-000000000002', 'hr.offboard@phoenixrehab.ca'),
+    ('c0000000-0000-4000-8000-000000000003', 'clinician.offboard@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department) values
+    ('c0000000-0000-4000-8000-000000000001', 'Exec', 'Offboard', '{executive}', 'executive'),
+    ('c0000000-0000-4000-8000-000000000002', 'Hr', 'Offboard', '{hr}', 'hr'),
+    ('c0000000-0000-4000-8000-000000000003', 'Clinician', 'Offboard', '{clinical_provider}', 'clinical');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "c0000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select throws_ok(
+    $$ select public.offboard_staff('c0000000-0000-4000-8000-000000000001', current_date + 30, 'Resigned') $$,
+    '42501', null,
+    'HR cannot offboard an executive'
+);
+
+select throws_ok(
+    $$ select public.save_hr_record('c0000000-0000-4000-8000-000000000001', null, null, null, null, current_date + 30) $$,
+    '42501', null,
+    'HR cannot set an executive''s end date through the HR file'
+);
+
+select lives_ok(
+    $$ select public.save_hr_record('c0000000-0000-4000-8000-000000000001', null, '1980-01-01', null, null, null) $$,
+    'HR can still edit the rest of an executive''s HR file'
+);
+
+select lives_ok(
+    $$ select public.offboard_staff('c0000000-0000-4000-8000-000000000003', current_date + 30, 'Resigned') $$,
+    'HR can offboard a clinical provider'
+);
+
+select lives_ok(
+    $$ select public.cancel_offboarding('c0000000-0000-4000-8000-000000000003', 'Active') $$,
+    'HR can withdraw that departure'
+);
+
+set local request.jwt.claims = '{"sub": "c0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select lives_ok(
+    $$ select public.offboard_staff('c0000000-0000-4000-8000-000000000002', current_date + 30, 'Resigned') $$,
+    'Executives can offboard HR'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,57 @@
+-- Offboarding someone whose HR record holds legacy values says what to fix.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email) values
+    ('a2000000-0000-4000-8000-000000000001', 'hr.legacy@phoenixrehab.ca'),
+    ('a2000000-0000-4000-8000-000000000002', 'sin.legacy@phoenixrehab.ca'),
+    ('a2000000-0000-4000-8000-000000000003', 'birth.legacy@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department) values
+    ('a2000000-0000-4000-8000-000000000001', 'Hr', 'Legacy', '{hr}', 'hr'),
+    ('a2000000-0000-4000-8000-000000000002', 'Sin', 'Legacy', '{clinical_provider}', 'clinical'),
+    ('a2000000-0000-4000-8000-000000000003', 'Birth', 'Legacy', '{clinical_provider}', 'clinical');
+
+-- A record from before the SIN check, which the check was never validated against
+alter table public.hr_records drop constraint hr_records_sin_valid;
+insert into public.hr_records (id, sin) values ('a2000000-0000-4000-8000-000000000002', '123456789');
+alter table public.hr_records add constraint hr_records_sin_valid
+    check (sin is null or public.is_valid_sin(sin)) not valid;
+
+-- A date of birth from before the working-age bound moved into save_hr_record
+insert into public.hr_records (id, date_of_birth) values ('a2000000-0000-4000-8000-000000000003', current_date - interval '5 years');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "a2000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select throws_ok(
+    $$ select public.offboard_staff('a2000000-0000-4000-8000-000000000002', current_date + 30, 'Resigned') $$,
+    '22023', 'Sin Legacy''s HR file has a SIN that is not valid. Fix it before changing their departure.',
+    'Offboarding names the record and the legacy value to fix'
+);
+
+select throws_ok(
+    $$ select public.offboard_staff('a2000000-0000-4000-8000-000000000003', current_date + 30, 'Resigned') $$,
+    '22023', 'This end date is before Birth Legacy could have started working. Check the date of birth in their HR file.',
+    'Offboarding explains an end date that conflicts with the date of birth'
+);
+
+select throws_ok(
+    $$ select public.cancel_offboarding('a2000000-0000-4000-8000-000000000002', 'Active') $$,
+    '22023', 'Sin Legacy''s HR file has a SIN that is not valid. Fix it before changing their departure.',
+    'Withdrawing a departure names the record to fix'
+);
+
+select lives_ok(
+    $$ select public.save_hr_record('a2000000-0000-4000-8000-000000000002', '046454286', null, null, null, null) $$,
+    'Once the SIN is fixed the record saves'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,67 @@
+-- Profile photos can only point at the subject's folder in the profile-photos bucket.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+    ('b0000000-0000-4000-8000-000000000001', 'photo.pgtap@phoenixrehab.ca'),
+    ('b0000000-0000-4000-8000-000000000002', 'other.pgtap@phoenixrehab.ca');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, department) values
+    ('b0000000-0000-4000-8000-000000000001', 'Photo', 'Pgtap', 'clinical'),
+    ('b0000000-0000-4000-8000-000000000002', 'Other', 'Pgtap', 'clinical');
+
+insert into storage.objects (bucket_id, name) values
+    ('profile-photos', 'b0000000-0000-4000-8000-000000000001/1700000000000.jpg'),
+    ('profile-photos', 'b0000000-0000-4000-8000-000000000002/1700000000000.jpg');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "b0000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select throws_ok(
+    $$ update public.staff_profiles set profile_photo_url = 'https://tracker.example/pixel.gif'
+       where id = 'b0000000-0000-4000-8000-000000000001' $$,
+    '42501', null,
+    'Staff cannot write profile_photo_url directly'
+);
+
+select throws_ok(
+    $$ select public.set_profile_photo('b0000000-0000-4000-8000-000000000001', 'https://tracker.example/pixel.gif') $$,
+    '22023', null,
+    'set_profile_photo rejects external URLs'
+);
+
+select throws_ok(
+    $$ select public.set_profile_photo('b0000000-0000-4000-8000-000000000001',
+        'http://127.0.0.1:54321/storage/v1/object/public/profile-photos/b0000000-0000-4000-8000-000000000002/1700000000000.jpg') $$,
+    '22023', null,
+    'set_profile_photo rejects a photo from someone else''s folder'
+);
+
+select throws_ok(
+    $$ select public.set_profile_photo('b0000000-0000-4000-8000-000000000001',
+        'http://127.0.0.1:54321/storage/v1/object/public/profile-photos/b0000000-0000-4000-8000-000000000001/missing.jpg') $$,
+    '22023', null,
+    'set_profile_photo rejects a photo that was never uploaded'
+);
+
+select is(
+    (select profile_photo_url from public.set_profile_photo('b0000000-0000-4000-8000-000000000001',
+        'http://127.0.0.1:54321/storage/v1/object/public/profile-photos/b0000000-0000-4000-8000-000000000001/1700000000000.jpg')),
+    'http://127.0.0.1:54321/storage/v1/object/public/profile-photos/b0000000-0000-4000-8000-000000000001/1700000000000.jpg',
+    'set_profile_photo accepts an upload in the subject''s own folder'
+);
+
+select is(
+    (select profile_photo_url from public.set_profile_photo('b0000000-0000-4000-8000-000000000001', null)),
+    null,
+    'set_profile_photo clears the photo'
+);
+
+select * from finish();
+
+rollback;
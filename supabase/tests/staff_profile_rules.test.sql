@@ -0,0 +1,80 @@
+-- Capabilities and staff_profiles column rules are configured in tables.
+-- Run with `supabase test db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+insert into auth.users (id, email) values
+    ('a3000000-0000-4000-8000-000000000001', 'admin.rules@phoenixrehab.ca'),
+    ('a3000000-0000-4000-8000-000000000002', 'exec.rules@phoenixrehab.ca'),
+    ('a3000000-0000-4000-8000-000000000003', 'clinician.rules@phoenixrehab.ca');
+
+insert into public.locations (name) values ('Old Rules Clinic'), ('New Rules Clinic');
+
+insert into public.staff_profiles (id, legal_first_name, legal_last_name, role, department, clinic_locations) values
+    ('a3000000-0000-4000-8000-000000000001', 'Admin', 'Rules', '{system_admin}', 'executive', '{}'),
+    ('a3000000-0000-4000-8000-000000000002', 'Exec', 'Rules', '{executive}', 'executive', '{}'),
+    ('a3000000-0000-4000-8000-000000000003', 'Clinician', 'Rules', '{clinical_provider}', 'clinical', '{Old Rules Clinic}');
+
+select throws_ok(
+    $$ update public.roles set capabilities = array_append(capabilities, 'flyPlanes') where key = 'clinical_provider' $$,
+    '23514', 'Unknown capability: flyPlanes',
+    'Roles cannot hold a capability that is not registered'
+);
+
+insert into public.capabilities (key) values ('flyPlanes');
+
+select lives_ok(
+    $$ update public.roles set capabilities = array_append(capabilities, 'flyPlanes') where key = 'clinical_provider' $$,
+    'A registered capability can be granted'
+);
+
+-- A new rule protects a column without touching the trigger
+insert into public.staff_profile_column_rules (column_name, capabilities, message)
+values ('bio', '{editStaff}', 'Bios are managed by HR.');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "a3000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+select throws_ok(
+    $$ update public.staff_profiles set bio = 'Mine' where id = 'a3000000-0000-4000-8000-000000000003' $$,
+    '42501', 'Bios are managed by HR.',
+    'A rule row guards its column'
+);
+
+set local request.jwt.claims = '{"sub": "a3000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select throws_ok(
+    $$ update public.staff_profiles set legal_first_name = 'Boss' where id = 'a3000000-0000-4000-8000-000000000002' $$,
+    '42501', 'Changes to your own legal or display name need HR approval.',
+    'Even executives cannot change their own legal name'
+);
+
+select throws_ok(
+    $$ update public.staff_profiles set practitioner_license_number = 'X-1' where id = 'a3000000-0000-4000-8000-000000000003' $$,
+    '42501', null,
+    'License numbers cannot be written directly, even with editStaff'
+);
+
+-- organization_sync lets a location merge move staff without editStaff
+set local request.jwt.claims = '{"sub": "a3000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select lives_ok(
+    $$ select public.merge_locations('Old Rules Clinic', 'New Rules Clinic') $$,
+    'A location merge moves staff through its bypass flag'
+);
+
+reset role;
+
+select is(
+    (select clinic_locations from public.staff_profiles where id = 'a3000000-0000-4000-8000-000000000003'),
+    array['New Rules Clinic'],
+    'The merge moved the clinician'
+);
+
+select * from finish();
+
+rollback;